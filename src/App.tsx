@@ -9,15 +9,37 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Dashboard } from './components/Dashboard';
 import { EventLog, LogEvent, ToastContainer, Toast } from './components/EventLog';
 import { SettingsPanel, AppSettings } from './components/SettingsPanel';
-import {
-  ModeSwitcher,
-  MockUserInputTracker,
-  MockMasterProcessingState,
-  NodeMode,
-} from './mode-switcher';
-import {
-  ManualModeSwitcher,
-} from './manual-mode-switcher';
+import { MockUserInputTracker, NodeMode } from './mode-switcher';
+import { JobQueue, JobQueueProcessingState } from './job-queue';
+import { NodeController, NodeControllerSettings } from './node-controller';
+import { MockMetricsSource } from './mode-policy';
+import { DEFAULT_SHARED_WORKER_LIMITS, WorkerLimits } from './worker-service';
+import type { LatencyReport } from './transition-latency';
+import type { ActiveTransition } from './transition-pipeline';
+import type { LockHolder, LockOptions } from './manual-mode-switcher';
+import type { PendingConfirmationInfo } from './pending-confirmations';
+import { AuditFailureListener, AuditLog, WebStorageAuditStore } from './audit-log';
+import { MockOperatorAuthenticator } from './operator-sessions';
+import { MockCoordinationClient } from './coordination-service';
+import { systemClock } from './clock';
+
+/**
+ * Node ID this dashboard instance runs as
+ */
+const LOCAL_NODE_ID = 'local';
+
+/**
+ * User of this dashboard, recorded for locks and switch requests
+ */
+const LOCAL_USER = 'desk-user';
+
+/**
+ * Accounts of the simulated sign-in service, by password; a deployment
+ * signs operators in against its identity provider instead
+ */
+const SIMULATED_OPERATORS: Record<string, string> = {
+  'shift-lead': 'shift-lead',
+};
 
 /**
  * Default application settings
@@ -28,11 +50,56 @@ const DEFAULT_SETTINGS: AppSettings = {
   idleThreshold: 6 * 60 * 1000,
   pollInterval: 1000,
   switchTimeout: 5000,
+  switchBudgets: {},
+  sharedWorkerEnabled: false,
+  sharedExitLoad: 50,
+  sharedMaxCores: DEFAULT_SHARED_WORKER_LIMITS.maxCores,
+  sharedMaxMemoryMb: DEFAULT_SHARED_WORKER_LIMITS.maxMemoryMb,
+  requireApproval: false,
+  approvers: [],
   theme: 'dark',
   autoStart: true,
   notificationSound: true,
 };
 
+/**
+ * Caps of the worker in shared worker mode
+ */
+function sharedWorkerLimitsOf(settings: AppSettings): WorkerLimits {
+  return {
+    ...DEFAULT_SHARED_WORKER_LIMITS,
+    maxCores: settings.sharedMaxCores,
+    maxMemoryMb: settings.sharedMaxMemoryMb,
+  };
+}
+
+/**
+ * Controller settings derived from the application settings
+ */
+function controllerSettings(settings: AppSettings): NodeControllerSettings {
+  return {
+    auto: {
+      activeThreshold: settings.activeThreshold,
+      standbyThreshold: settings.standbyThreshold,
+      idleThreshold: settings.idleThreshold,
+      pollInterval: settings.pollInterval,
+      switchTimeout: settings.switchTimeout,
+      switchBudgets: settings.switchBudgets,
+      sharedWorkerEnabled: settings.sharedWorkerEnabled,
+      sharedExitLoad: settings.sharedExitLoad,
+    },
+    manual: {
+      requireConfirmation: false,
+      requireApproval: settings.requireApproval,
+      approvers: settings.approvers,
+      maxLockDuration: 0,
+      switchTimeout: settings.switchTimeout,
+      switchBudgets: settings.switchBudgets,
+    },
+    pipeline: { sharedWorkerLimits: sharedWorkerLimitsOf(settings) },
+  };
+}
+
 /**
  * Main Application Component
  */
@@ -41,12 +108,17 @@ const App: React.FC = () => {
   const [currentMode, setCurrentMode] = useState<NodeMode>('active_master');
   const [isLocked, setIsLocked] = useState(false);
   const [lockedMode, setLockedMode] = useState<NodeMode | null>(null);
+  const [lockExpiresAt, setLockExpiresAt] = useState<Date | null>(null);
+  const [lockHolder, setLockHolder] = useState<LockHolder | null>(null);
   const [timeSinceLastInput, setTimeSinceLastInput] = useState(0);
   const [processingJobCount, setProcessingJobCount] = useState(0);
   const [pendingTaskCount, setPendingTaskCount] = useState(0);
   const [cpuUsage, setCpuUsage] = useState(45);
   const [memoryUsage, setMemoryUsage] = useState(62);
   const [diskUsage, setDiskUsage] = useState(78);
+  const [latencyReport, setLatencyReport] = useState<LatencyReport | undefined>(undefined);
+  const [activeTransition, setActiveTransition] = useState<ActiveTransition | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingConfirmationInfo[]>([]);
   const [events, setEvents] = useState<LogEvent[]>([]);
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
@@ -54,63 +126,186 @@ const App: React.FC = () => {
     'dashboard'
   );
 
-  // Refs for mode switchers
-  const modesSwitcherRef = React.useRef<ModeSwitcher | null>(null);
-  const manualSwitcherRef = React.useRef<ManualModeSwitcher | null>(null);
+  // Controller owning the node mode
+  const controllerRef = React.useRef<NodeController | null>(null);
+
+  // Simulated foreground load consulted by the shared worker policy
+  const metricsRef = React.useRef(new MockMetricsSource());
+
+  // Coordination service, which also keeps the head of the audit trail
+  const coordinationRef = React.useRef(new MockCoordinationClient());
+
+  // Audit trail of mode and lock changes, kept across reloads
+  const auditRef = React.useRef(
+    new AuditLog(
+      new WebStorageAuditStore(window.localStorage),
+      { node: LOCAL_NODE_ID },
+      systemClock,
+      coordinationRef.current
+    )
+  );
+
+  // Signed-in operators: the desk user files requests from their session,
+  // approvers sign in separately for each approval
+  const operatorsRef = React.useRef(new MockOperatorAuthenticator(SIMULATED_OPERATORS));
+  const deskSessionRef = React.useRef<string | null>(null);
 
-  // Initialize mode switchers
+  const sharedWorkerLimits = sharedWorkerLimitsOf(settings);
+
+  // Initialize node controller once; settings changes are applied to it
+  // below, so the mode, the lock and pending requests survive them
   useEffect(() => {
     const inputTracker = new MockUserInputTracker();
-    const processingState = new MockMasterProcessingState();
-
-    // Create automatic mode switcher
-    modesSwitcherRef.current = new ModeSwitcher(inputTracker, processingState, {
-      activeThreshold: settings.activeThreshold,
-      standbyThreshold: settings.standbyThreshold,
-      idleThreshold: settings.idleThreshold,
-      pollInterval: settings.pollInterval,
-      switchTimeout: settings.switchTimeout,
-    });
+    const processingState = new JobQueueProcessingState(new JobQueue(), LOCAL_NODE_ID);
+
+    const controller = new NodeController(
+      inputTracker,
+      processingState,
+      controllerSettings(settings),
+      {
+        coordination: coordinationRef.current,
+        metrics: metricsRef.current,
+        audit: auditRef.current,
+        sessions: operatorsRef.current,
+      }
+    );
+    controllerRef.current = controller;
 
-    // Create manual mode switcher
-    manualSwitcherRef.current = new ManualModeSwitcher(processingState, {
-      requireConfirmation: false,
-      maxLockDuration: 0,
+    // Show the node as transitioning until the transition ends
+    controller.onTransitionStart((transition) => {
+      setActiveTransition(transition);
     });
 
-    // Register mode change listeners
-    modesSwitcherRef.current!.onModeChange((oldMode, newMode, reason) => {
+    // Register mode change listener (automatic and manual)
+    controller.onModeChange((oldMode, newMode, reason, source) => {
+      setActiveTransition(null);
       setCurrentMode(newMode);
       addEvent({
         timestamp: new Date(),
         type: 'info',
-        message: `モード切替: ${oldMode} → ${newMode}`,
+        message:
+          source === 'manual'
+            ? `手動モード切替: ${oldMode} → ${newMode}`
+            : `モード切替: ${oldMode} → ${newMode}`,
         details: reason,
       });
+      if (source === 'auto') {
+        addToast({
+          id: `mode-${Date.now()}`,
+          type: 'info',
+          message: `${newMode}に切り替わりました`,
+          duration: 3000,
+        });
+      }
+    });
+
+    // Automatic switches held back by flap damping
+    controller.onSuppressed((suppression) => {
+      addEvent({
+        timestamp: new Date(),
+        type: 'warning',
+        message: `モード切替を保留: ${suppression.from} → ${suppression.to}`,
+        details: suppression.message,
+      });
+    });
+
+    // Timed locks that ran out hand control back to automatic switching
+    controller.onLockExpired((expiry) => {
+      setIsLocked(false);
+      setLockedMode(null);
+      setLockExpiresAt(null);
+      setLockHolder(null);
+      addEvent({
+        timestamp: new Date(),
+        type: 'info',
+        message: `モード固定の期限切れ: ${expiry.mode}`,
+        details: '自動モード切替を再開しました',
+      });
       addToast({
-        id: `mode-${Date.now()}`,
+        id: `lock-expired-${Date.now()}`,
         type: 'info',
-        message: `${newMode}に切り替わりました`,
+        message: 'モード固定の期限が切れました',
         duration: 3000,
       });
     });
 
-    manualSwitcherRef.current!.onModeChange((oldMode, newMode, reason) => {
-      setCurrentMode(newMode);
+    // Switch requests that were never approved
+    controller.onConfirmationExpired((request) => {
+      setPendingApprovals(controller.getPendingConfirmations());
+      addEvent({
+        timestamp: new Date(),
+        type: 'warning',
+        message: `承認期限切れ: ${request.targetMode}`,
+        details: `申請者: ${request.requestedBy ?? '不明'}`,
+      });
+    });
+
+    // Switch requests replaced by a request for another mode
+    controller.onConfirmationSuperseded((request, by) => {
       addEvent({
         timestamp: new Date(),
         type: 'info',
-        message: `手動モード切替: ${oldMode} → ${newMode}`,
-        details: reason,
+        message: `承認申請を置き換え: ${request.targetMode} → ${by.targetMode}`,
+        details: `申請者: ${by.requestedBy ?? '不明'}`,
+      });
+    });
+
+    // Transitions running past their soft deadline
+    controller.onSlowTransition((slow) => {
+      addEvent({
+        timestamp: new Date(),
+        type: 'warning',
+        message: `モード切替が遅延: ${slow.from} → ${slow.to}`,
+        details: `${slow.softTimeout}ms を超過 (中断まで ${slow.timeout}ms)`,
       });
     });
 
     // Cleanup
     return () => {
-      modesSwitcherRef.current?.stop();
+      controller.stop();
     };
+  }, []);
+
+  // Apply settings to the running controller
+  useEffect(() => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+
+    controller
+      .configure(controllerSettings(settings))
+      .then(() => setPendingApprovals(controller.getPendingConfirmations()))
+      .catch(reportSettingsError);
+    if (settings.autoStart) {
+      controller.start();
+    } else {
+      controller.stop();
+    }
   }, [settings]);
 
+  // Changes the audit log could not store, e.g. once browser storage is full
+  useEffect(() => {
+    const audit = auditRef.current;
+    const onFailure: AuditFailureListener = (failure) => {
+      addEvent({
+        timestamp: new Date(failure.at),
+        type: 'error',
+        message: `監査ログに記録できません: ${failure.event.summary}`,
+        details: failure.error,
+      });
+      if (failure.consecutive === 1) {
+        addToast({
+          id: `audit-failure-${failure.at}`,
+          type: 'error',
+          message: '監査ログへの記録に失敗しました',
+          duration: 5000,
+        });
+      }
+    };
+
+    audit.onFailure(onFailure);
+    return () => audit.offFailure(onFailure);
+  }, []);
+
   // Simulate resource monitoring
   useEffect(() => {
     const interval = setInterval(() => {
@@ -138,19 +333,33 @@ const App: React.FC = () => {
       }
 
       // Simulate task count changes
-      if (currentMode === 'idle_worker') {
+      if (currentMode === 'idle_worker' || currentMode === 'shared_worker') {
         setPendingTaskCount((prev) => Math.max(0, prev + Math.random() - 0.3));
+      } else if (currentMode === 'draining') {
+        // No new tasks while draining
+        setPendingTaskCount((prev) => Math.max(0, prev - Math.random() * 0.5));
       } else {
         setPendingTaskCount(0);
       }
 
       // Update time since last input
       setTimeSinceLastInput((prev) => prev + 1000);
+
+      // Refresh switch latency, SLO compliance and the time left to approve
+      if (controllerRef.current) {
+        setLatencyReport(controllerRef.current.getLatencyReport());
+        setPendingApprovals(controllerRef.current.getPendingConfirmations());
+      }
     }, 1000);
 
     return () => clearInterval(interval);
   }, [currentMode]);
 
+  // Feed the simulated load to the mode policies
+  useEffect(() => {
+    metricsRef.current.setMetric('foregroundCpu', cpuUsage);
+  }, [cpuUsage]);
+
   const addEvent = useCallback((event: LogEvent) => {
     setEvents((prev) => [...prev, event]);
   }, []);
@@ -163,11 +372,44 @@ const App: React.FC = () => {
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
+  /**
+   * ID of the desk user's session, signed in with the workstation
+   */
+  const deskSession = (): string => {
+    const operators = operatorsRef.current;
+    const current = deskSessionRef.current;
+    if (current === null || !operators.resolve(current)) {
+      deskSessionRef.current = operators.open(LOCAL_USER).sessionId;
+    }
+    return deskSessionRef.current!;
+  };
+
   const handleModeSwitch = async (targetMode: NodeMode) => {
-    if (!manualSwitcherRef.current) return;
+    if (!controllerRef.current) return;
 
     try {
-      await manualSwitcherRef.current.requestModeSwitch(targetMode);
+      // Requests needing approval come from the desk user's session
+      const requestId = await controllerRef.current.requestModeSwitch(
+        targetMode,
+        undefined,
+        settings.requireApproval ? deskSession() : LOCAL_USER
+      );
+      if (requestId) {
+        setPendingApprovals(controllerRef.current.getPendingConfirmations());
+        addEvent({
+          timestamp: new Date(),
+          type: 'info',
+          message: `モード切替を申請: ${targetMode}`,
+          details: `申請者: ${LOCAL_USER}`,
+        });
+        addToast({
+          id: `request-${Date.now()}`,
+          type: 'info',
+          message: '承認待ちです',
+          duration: 3000,
+        });
+        return;
+      }
       addEvent({
         timestamp: new Date(),
         type: 'success',
@@ -196,18 +438,105 @@ const App: React.FC = () => {
     }
   };
 
-  const handleLockMode = (mode?: NodeMode) => {
-    if (!manualSwitcherRef.current) return;
+  const handleApproveSwitch = async (requestId: string, approver: string, credential: string) => {
+    if (!controllerRef.current) return;
+
+    // The approver signs in for this approval only, apart from the desk session
+    const session = await operatorsRef.current.signIn(approver, credential);
+    try {
+      await controllerRef.current.confirmModeSwitch(requestId, session.sessionId);
+    } finally {
+      operatorsRef.current.signOut(session.sessionId);
+      setPendingApprovals(controllerRef.current.getPendingConfirmations());
+    }
+    addEvent({
+      timestamp: new Date(),
+      type: 'success',
+      message: 'モード切替を承認しました',
+      details: `承認者: ${session.user}`,
+    });
+  };
+
+  const handleRejectSwitch = (requestId: string) => {
+    if (!controllerRef.current) return;
+
+    // The request may have expired or been superseded since it was listed
+    const pending = controllerRef.current.getPendingConfirmation(requestId);
+    controllerRef.current.cancelModeSwitch(requestId, LOCAL_USER);
+    setPendingApprovals(controllerRef.current.getPendingConfirmations());
+    if (!pending) {
+      addToast({
+        id: `reject-stale-${Date.now()}`,
+        type: 'warning',
+        message: 'この申請はすでに承認待ちではありません',
+        duration: 3000,
+      });
+      return;
+    }
+    addEvent({
+      timestamp: new Date(),
+      type: 'info',
+      message: 'モード切替の申請を却下しました',
+    });
+  };
+
+  const reportSettingsError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    addEvent({
+      timestamp: new Date(),
+      type: 'error',
+      message: '設定を適用できません',
+      details: message,
+    });
+    addToast({
+      id: `settings-error-${Date.now()}`,
+      type: 'error',
+      message: `エラー: ${message}`,
+      duration: 5000,
+    });
+  };
+
+  const reportLockError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    addEvent({
+      timestamp: new Date(),
+      type: 'error',
+      message: 'モード固定エラー',
+      details: message,
+    });
+    addToast({
+      id: `lock-error-${Date.now()}`,
+      type: 'error',
+      message: `エラー: ${message}`,
+      duration: 5000,
+    });
+  };
+
+  const handleLockMode = (mode?: NodeMode, options?: LockOptions) => {
+    if (!controllerRef.current) return;
 
     const targetMode = mode || currentMode;
-    manualSwitcherRef.current.lockMode(targetMode);
+    try {
+      controllerRef.current.lockMode(targetMode, {
+        ...options,
+        owner: LOCAL_USER,
+        source: 'local',
+      });
+    } catch (error) {
+      reportLockError(error);
+      return;
+    }
+    const { expiresAt, owner, source, reason } = controllerRef.current.getLockInfo();
     setIsLocked(true);
     setLockedMode(targetMode);
+    setLockExpiresAt(expiresAt);
+    setLockHolder(owner && source ? { owner, source, reason: reason ?? '' } : null);
 
     addEvent({
       timestamp: new Date(),
       type: 'info',
       message: `モード固定: ${targetMode}`,
+      details: expiresAt ? `${expiresAt.toLocaleString()}まで` : undefined,
     });
     addToast({
       id: `lock-${Date.now()}`,
@@ -218,11 +547,18 @@ const App: React.FC = () => {
   };
 
   const handleUnlockMode = () => {
-    if (!manualSwitcherRef.current) return;
+    if (!controllerRef.current) return;
 
-    manualSwitcherRef.current.unlockMode();
+    try {
+      controllerRef.current.unlockMode({ owner: LOCAL_USER, source: 'local' });
+    } catch (error) {
+      reportLockError(error);
+      return;
+    }
     setIsLocked(false);
     setLockedMode(null);
+    setLockExpiresAt(null);
+    setLockHolder(null);
 
     addEvent({
       timestamp: new Date(),
@@ -245,6 +581,28 @@ const App: React.FC = () => {
     setSettings(DEFAULT_SETTINGS);
   };
 
+  const handleVerifyAudit = async () => {
+    try {
+      const result = await auditRef.current.verify();
+      addEvent({
+        timestamp: new Date(),
+        type: result.valid ? 'success' : 'error',
+        message: result.valid
+          ? `監査ログを検証: ${result.records}件すべて正常`
+          : `監査ログの改ざんを検出: 記録 ${result.brokenAt}`,
+        details: result.problem ?? `先頭ハッシュ: ${result.head}`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      addEvent({
+        timestamp: new Date(),
+        type: 'error',
+        message: '監査ログを検証できません',
+        details: message,
+      });
+    }
+  };
+
   return (
     <div style={styles.appContainer}>
       {/* Navigation Tabs */}
@@ -291,13 +649,30 @@ const App: React.FC = () => {
             diskUsage={Math.round(diskUsage)}
             isLocked={isLocked}
             lockedMode={lockedMode}
+            lockExpiresAt={lockExpiresAt}
+            lockHolder={lockHolder}
+            sharedWorkerLimits={sharedWorkerLimits}
+            sharedExitLoad={settings.sharedExitLoad}
+            latencyReport={latencyReport}
+            activeTransition={activeTransition}
+            requireApproval={settings.requireApproval}
+            pendingApprovals={pendingApprovals}
             onModeSwitch={handleModeSwitch}
+            onApproveSwitch={handleApproveSwitch}
+            onRejectSwitch={handleRejectSwitch}
             onLockMode={handleLockMode}
             onUnlockMode={handleUnlockMode}
           />
         )}
 
-        {activeTab === 'logs' && <EventLog events={events} />}
+        {activeTab === 'logs' && (
+          <>
+            <button onClick={handleVerifyAudit} style={styles.verifyButton}>
+              🔏 監査ログを検証
+            </button>
+            <EventLog events={events} />
+          </>
+        )}
 
         {activeTab === 'settings' && (
           <SettingsPanel
@@ -359,6 +734,17 @@ const styles: Record<string, React.CSSProperties> = {
     padding: '30px',
     overflowY: 'auto',
   },
+
+  verifyButton: {
+    marginBottom: '15px',
+    padding: '8px 16px',
+    fontSize: '14px',
+    border: '1px solid #374151',
+    borderRadius: '6px',
+    backgroundColor: '#1F2937',
+    color: '#E5E7EB',
+    cursor: 'pointer',
+  },
 };
 
 export default App;
@@ -0,0 +1,639 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of every change to a node's mode: transitions, locks
+ * and unlocks, confirmations of manual switches and the policy decisions
+ * behind automatic ones, each with who made it and when. Records are
+ * hash-chained: each one carries the hash of the one before it, so editing,
+ * removing or reordering records breaks the chain and is found by
+ * `verify()`. The head of the chain is also kept apart from the records,
+ * on the coordination service, so records cut off the end are found too.
+ *
+ * The dashboard keeps the log in browser storage and verifies it there;
+ * there is no separate verifier for copies of the log.
+ */
+
+import { Clock, systemClock } from './clock';
+
+/**
+ * Kind of change recorded
+ *
+ * - `transition`: the node entered a mode, or failed to
+ * - `lock` / `unlock`: the mode was locked or unlocked, by hand or by expiry
+ * - `confirmation`: a manual switch request was filed, approved, cancelled,
+ *   expired or superseded
+ * - `policy`: automatic switching decided on a mode, or was held back
+ */
+export type AuditAction = 'transition' | 'lock' | 'unlock' | 'confirmation' | 'policy';
+
+/**
+ * Actor recorded for changes no person made, such as automatic switches
+ * and expiring locks
+ */
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * A change to be recorded
+ */
+export interface AuditEvent {
+  /** Kind of change */
+  action: AuditAction;
+  /** Who made the change, or `SYSTEM_ACTOR` */
+  actor: string;
+  /** Human readable summary */
+  summary: string;
+  /** Action specific details; JSON values only */
+  details: Record<string, unknown>;
+}
+
+/**
+ * A recorded change
+ */
+export interface AuditRecord extends AuditEvent {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  /** Node the change applies to */
+  node: string;
+  /** When the change was recorded (epoch milliseconds) */
+  at: number;
+  /** Hash of the previous record, `GENESIS_HASH` for the first */
+  prevHash: string;
+  /** SHA-256 of this record without `hash` (hex) */
+  hash: string;
+}
+
+/**
+ * Previous hash of the first record
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Position in the hash chain: the sequence number and hash of a record
+ */
+export interface AuditCheckpoint {
+  seq: number;
+  hash: string;
+}
+
+/**
+ * Storage of audit records
+ *
+ * @remarks
+ * A store never drops records to make room: an append that does not fit
+ * rejects.
+ */
+export interface AuditStore {
+  /** Append a record; resolves once it is durable */
+  append(record: AuditRecord): Promise<void>;
+  /** Read every record in order */
+  read(): Promise<AuditRecord[]>;
+}
+
+/**
+ * Where the head of the chain is kept, apart from the records
+ *
+ * @remarks
+ * Whoever can rewrite the records should not be able to move the head
+ * back, so a log cut short no longer reaches it.
+ */
+export interface AuditHeadStore {
+  /** The head kept for this node's log, null if none */
+  readAuditHead(): Promise<AuditCheckpoint | null>;
+  /** Move the head forward; rejects a head behind the one kept */
+  writeAuditHead(head: AuditCheckpoint): Promise<void>;
+}
+
+/**
+ * Error raised by a store that has no room left for records
+ */
+export class AuditStoreFullError extends Error {
+  constructor(public readonly records: number) {
+    super(`Audit log storage is full after ${records} records; nothing more can be recorded`);
+    this.name = 'AuditStoreFullError';
+  }
+}
+
+/**
+ * Configuration for the audit log
+ */
+export interface AuditLogConfig {
+  /** Node recorded with every change */
+  node: string;
+}
+
+/**
+ * Default configuration for the audit log
+ */
+export const DEFAULT_AUDIT_LOG_CONFIG: AuditLogConfig = {
+  node: 'local',
+};
+
+/**
+ * A change that could not be recorded
+ */
+export interface AuditFailure {
+  /** The change */
+  event: AuditEvent;
+  /** Why storing it failed */
+  error: string;
+  /** When it was recorded (epoch milliseconds) */
+  at: number;
+  /** Failures in a row, including this one */
+  consecutive: number;
+}
+
+/**
+ * Listener for changes that could not be recorded
+ */
+export type AuditFailureListener = (failure: AuditFailure) => void;
+
+/**
+ * Records to look for; unset fields match everything
+ */
+export interface AuditQuery {
+  /** Node the change applies to */
+  node?: string;
+  /** Who made the change */
+  actor?: string;
+  /** Kind of change */
+  action?: AuditAction;
+  /** Start of the time range, inclusive (epoch milliseconds or a date) */
+  since?: number | Date;
+  /** End of the time range, exclusive (epoch milliseconds or a date) */
+  until?: number | Date;
+}
+
+/**
+ * Outcome of checking the hash chain
+ */
+export interface AuditVerification {
+  /** Whether every record is intact and in place */
+  valid: boolean;
+  /** Number of records checked */
+  records: number;
+  /** Hash of the last record, `GENESIS_HASH` for an empty log */
+  head: string;
+  /** Position of the first broken record, null if valid */
+  brokenAt: number | null;
+  /** What is wrong with it, null if valid */
+  problem: string | null;
+}
+
+/**
+ * Audit Log - Hash-chained, append-only record of mode changes
+ *
+ * @remarks
+ * Records are chained in the order `record()` is called, one at a time.
+ * A failing store does not fail the change being recorded: the failure is
+ * logged and reported to `onFailure()` listeners, and the next record
+ * chains onto the last record found in the store, which may include the
+ * failed one if the store wrote part of it.
+ *
+ * The chain cannot tell records cut off the end of the log, so each
+ * stored record also moves the head kept in the head store, if one is
+ * given; `verify()` checks the log still reaches it. Heads are sent in the
+ * background, only the latest if several are waiting; a head that cannot
+ * be sent is logged and superseded by the next.
+ */
+export class AuditLog {
+  private config: AuditLogConfig;
+  private tail: Promise<void> = Promise.resolve();
+  private last: AuditCheckpoint | null = null;
+  private lastFailure: AuditFailure | null = null;
+  private failureListeners: Set<AuditFailureListener> = new Set();
+  private unsentHead: AuditCheckpoint | null = null;
+  private sendingHead: Promise<void> | null = null;
+
+  /**
+   * @param heads - Where the head of the chain is kept, null to keep none
+   */
+  constructor(
+    private store: AuditStore,
+    config: Partial<AuditLogConfig> = {},
+    private clock: Clock = systemClock,
+    private heads: AuditHeadStore | null = null
+  ) {
+    this.config = { ...DEFAULT_AUDIT_LOG_CONFIG, ...config };
+  }
+
+  /**
+   * Record a change
+   *
+   * @returns The stored record, or null if storing it failed
+   */
+  public record(event: AuditEvent): Promise<AuditRecord | null> {
+    const at = this.clock.now();
+    const result = this.tail.then(() => this.append(event, at));
+    this.tail = result.then(() => undefined);
+    return result;
+  }
+
+  /**
+   * Wait for every record started so far to be stored, and its head sent
+   */
+  public async flush(): Promise<void> {
+    await this.tail;
+    await this.sendingHead;
+  }
+
+  /**
+   * Find records, in the order they were recorded
+   */
+  public async query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    await this.flush();
+    const since = query.since === undefined ? -Infinity : Number(query.since);
+    const until = query.until === undefined ? Infinity : Number(query.until);
+
+    return (await this.store.read()).filter(
+      (record) =>
+        (query.node === undefined || record.node === query.node) &&
+        (query.actor === undefined || record.actor === query.actor) &&
+        (query.action === undefined || record.action === query.action) &&
+        since <= record.at &&
+        record.at < until
+    );
+  }
+
+  /**
+   * Check the hash chain of every stored record, and that it reaches the
+   * head kept in the head store
+   *
+   * @throws Error if the head store cannot be read
+   */
+  public async verify(): Promise<AuditVerification> {
+    await this.flush();
+    const records = await this.store.read();
+    const result = await verifyAuditRecords(records);
+    const head = result.valid && this.heads ? await this.heads.readAuditHead() : null;
+    if (!head) {
+      return result;
+    }
+
+    const end = records.length;
+    if (head.seq > end) {
+      return {
+        ...result,
+        valid: false,
+        brokenAt: end + 1,
+        problem: `records ${end + 1} to ${head.seq} are missing from the end`,
+      };
+    }
+    if (head.seq > 0 && records[head.seq - 1].hash !== head.hash) {
+      return {
+        ...result,
+        valid: false,
+        brokenAt: head.seq,
+        problem: `record ${head.seq} does not match the head kept apart`,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * The last change that could not be recorded, until a record is stored
+   * again
+   */
+  public getLastFailure(): AuditFailure | null {
+    return this.lastFailure;
+  }
+
+  /**
+   * Register a listener for changes that could not be recorded
+   */
+  public onFailure(listener: AuditFailureListener): void {
+    this.failureListeners.add(listener);
+  }
+
+  /**
+   * Unregister a failure listener
+   */
+  public offFailure(listener: AuditFailureListener): void {
+    this.failureListeners.delete(listener);
+  }
+
+  private async append(event: AuditEvent, at: number): Promise<AuditRecord | null> {
+    try {
+      if (!this.last) {
+        const previous = (await this.store.read()).at(-1);
+        this.last = previous
+          ? { seq: previous.seq, hash: previous.hash }
+          : { seq: 0, hash: GENESIS_HASH };
+      }
+
+      const unsigned: Omit<AuditRecord, 'hash'> = {
+        seq: this.last.seq + 1,
+        node: this.config.node,
+        at,
+        action: event.action,
+        actor: event.actor,
+        summary: event.summary,
+        details: event.details,
+        prevHash: this.last.hash,
+      };
+      const record: AuditRecord = { ...unsigned, hash: await hashAuditRecord(unsigned) };
+      await this.store.append(record);
+      this.last = { seq: record.seq, hash: record.hash };
+      this.lastFailure = null;
+      this.sendHead(this.last);
+      return record;
+    } catch (error) {
+      // The store may hold part of the write; chain onto what it holds
+      this.last = null;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(
+        `[AuditLog] Failed to record ${event.action} by ${event.actor}: ${errorMessage}`
+      );
+      this.lastFailure = {
+        event,
+        error: errorMessage,
+        at,
+        consecutive: (this.lastFailure?.consecutive ?? 0) + 1,
+      };
+      this.notifyFailure(this.lastFailure);
+      return null;
+    }
+  }
+
+  /**
+   * Send a head to the head store, after any head being sent
+   */
+  private sendHead(head: AuditCheckpoint): void {
+    if (!this.heads) {
+      return;
+    }
+    this.unsentHead = head;
+    if (this.sendingHead) {
+      return;
+    }
+
+    const heads = this.heads;
+    this.sendingHead = (async () => {
+      while (this.unsentHead) {
+        const next = this.unsentHead;
+        this.unsentHead = null;
+        try {
+          await heads.writeAuditHead(next);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.warn(`[AuditLog] Could not keep head ${next.seq}: ${errorMessage}`);
+        }
+      }
+      this.sendingHead = null;
+    })();
+  }
+
+  /**
+   * Pass a failure to the listeners, isolating their failures
+   */
+  private notifyFailure(failure: AuditFailure): void {
+    this.failureListeners.forEach((listener) => {
+      try {
+        listener(failure);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[AuditLog] Failure listener failed: ${errorMessage}`);
+      }
+    });
+  }
+}
+
+/**
+ * Check the hash chain of a sequence of records
+ */
+export async function verifyAuditRecords(records: AuditRecord[]): Promise<AuditVerification> {
+  let previous: AuditCheckpoint = { seq: 0, hash: GENESIS_HASH };
+
+  for (const record of records) {
+    const broken = (problem: string): AuditVerification => ({
+      valid: false,
+      records: records.length,
+      head: records.at(-1)?.hash ?? GENESIS_HASH,
+      brokenAt: previous.seq + 1,
+      problem,
+    });
+
+    if (record.seq !== previous.seq + 1) {
+      return broken(`expected record ${previous.seq + 1}, found ${record.seq}`);
+    }
+    if (record.prevHash !== previous.hash) {
+      return broken(`record ${record.seq} does not follow record ${previous.seq}`);
+    }
+    const { hash, ...unsigned } = record;
+    if ((await hashAuditRecord(unsigned)) !== hash) {
+      return broken(`record ${record.seq} was altered`);
+    }
+    previous = { seq: record.seq, hash };
+  }
+
+  return {
+    valid: true,
+    records: records.length,
+    head: previous.hash,
+    brokenAt: null,
+    problem: null,
+  };
+}
+
+/**
+ * Check a new head does not move the kept head back or onto another chain
+ *
+ * @throws Error if `head` is behind `kept`, or at the same record with a
+ * different hash
+ */
+export function assertAuditHeadAdvances(kept: AuditCheckpoint | null, head: AuditCheckpoint): void {
+  if (!kept) {
+    return;
+  }
+  if (head.seq < kept.seq) {
+    throw new Error(`Audit head ${head.seq} is behind the kept head ${kept.seq}`);
+  }
+  if (head.seq === kept.seq && head.hash !== kept.hash) {
+    throw new Error(`Audit head ${head.seq} does not match the kept head`);
+  }
+}
+
+/**
+ * SHA-256 of a record without its hash (hex)
+ *
+ * @remarks
+ * Hashes the canonical JSON of the record, so the hash does not depend on
+ * the order the fields were written in.
+ */
+export async function hashAuditRecord(record: Omit<AuditRecord, 'hash'>): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(canonicalJson(record))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with object keys sorted, at every level
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Configuration for the browser storage audit store
+ */
+export interface WebStorageAuditStoreConfig {
+  /** Records kept under one storage key */
+  chunkSize: number;
+}
+
+/**
+ * Default configuration for the browser storage audit store
+ */
+export const DEFAULT_WEB_STORAGE_AUDIT_STORE_CONFIG: WebStorageAuditStoreConfig = {
+  chunkSize: 200,
+};
+
+/**
+ * Which chunks hold the log, stored under `<key>:index`
+ */
+interface WebStorageAuditIndex {
+  /** Number of the first chunk */
+  first: number;
+  /** Number of the chunk being appended to (first - 1 while empty) */
+  last: number;
+}
+
+/**
+ * Audit store kept in browser storage, surviving reloads of the dashboard
+ *
+ * @remarks
+ * Records are kept in chunks of `chunkSize` under `<key>:<n>`, so an
+ * append only rewrites the newest chunk. Records are never dropped: once
+ * the storage quota is reached, appends reject with AuditStoreFullError
+ * and nothing more is recorded until room is made. A log stored by
+ * earlier versions as one array under `key` is moved into chunks on first
+ * use.
+ */
+export class WebStorageAuditStore implements AuditStore {
+  private config: WebStorageAuditStoreConfig;
+
+  constructor(
+    private storage: Storage,
+    private key: string = 'audit-log',
+    config: Partial<WebStorageAuditStoreConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_WEB_STORAGE_AUDIT_STORE_CONFIG, ...config };
+  }
+
+  /**
+   * @throws AuditStoreFullError if the record does not fit in the storage quota
+   */
+  async append(record: AuditRecord): Promise<void> {
+    const index = this.readIndex();
+    let chunk = index.last >= index.first ? this.readChunk(index.last) : [];
+    const startsChunk = index.last < index.first || chunk.length >= this.config.chunkSize;
+    if (startsChunk) {
+      index.last += 1;
+      chunk = [];
+    }
+    chunk.push(record);
+
+    const key = this.chunkKey(index.last);
+    try {
+      this.storage.setItem(key, JSON.stringify(chunk));
+      if (startsChunk) {
+        this.storage.setItem(this.indexKey(), JSON.stringify(index));
+      }
+    } catch (error) {
+      if (startsChunk) {
+        this.storage.removeItem(key);
+      }
+      if (isQuotaExceeded(error)) {
+        throw new AuditStoreFullError(record.seq - 1);
+      }
+      throw error;
+    }
+  }
+
+  async read(): Promise<AuditRecord[]> {
+    const index = this.readIndex();
+    const records: AuditRecord[] = [];
+    for (let n = index.first; n <= index.last; n++) {
+      records.push(...this.readChunk(n));
+    }
+    return records;
+  }
+
+  private readIndex(): WebStorageAuditIndex {
+    const text = this.storage.getItem(this.indexKey());
+    if (text) {
+      const { first, last } = JSON.parse(text) as WebStorageAuditIndex;
+      return { first, last };
+    }
+
+    const index: WebStorageAuditIndex = { first: 0, last: -1 };
+    const legacy = this.storage.getItem(this.key);
+    if (legacy) {
+      const records = JSON.parse(legacy) as AuditRecord[];
+      for (let start = 0; start < records.length; start += this.config.chunkSize) {
+        index.last += 1;
+        const chunk = records.slice(start, start + this.config.chunkSize);
+        this.storage.setItem(this.chunkKey(index.last), JSON.stringify(chunk));
+      }
+      this.storage.setItem(this.indexKey(), JSON.stringify(index));
+      this.storage.removeItem(this.key);
+    }
+    return index;
+  }
+
+  private readChunk(n: number): AuditRecord[] {
+    const text = this.storage.getItem(this.chunkKey(n));
+    return text ? (JSON.parse(text) as AuditRecord[]) : [];
+  }
+
+  private indexKey(): string {
+    return `${this.key}:index`;
+  }
+
+  private chunkKey(n: number): string {
+    return `${this.key}:${n}`;
+  }
+}
+
+/**
+ * Whether a storage write failed for lack of space
+ */
+function isQuotaExceeded(error: unknown): boolean {
+  const name = (error as { name?: unknown } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+/**
+ * Mock implementation of AuditStore for testing and demo
+ */
+export class MockAuditStore implements AuditStore {
+  private records: AuditRecord[] = [];
+
+  async append(record: AuditRecord): Promise<void> {
+    this.records.push(record);
+  }
+
+  async read(): Promise<AuditRecord[]> {
+    return this.records.map((record) => ({ ...record }));
+  }
+
+  // Test helpers
+  getRecords(): AuditRecord[] {
+    return this.records.map((record) => ({ ...record }));
+  }
+
+  setRecords(records: AuditRecord[]): void {
+    this.records = [...records];
+  }
+}
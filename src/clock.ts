@@ -0,0 +1,181 @@
+/**
+ * Clock
+ *
+ * The time source and timer scheduler used by the mode switchers. The
+ * system clock is used in production; a virtual clock lets tests and
+ * simulations move time forward by hand, running every timer that falls
+ * due on the way, so a workday of polls replays in milliseconds.
+ *
+ * @see src/mode-simulation.ts for replaying scripted days
+ */
+
+/**
+ * Handle of a scheduled timer
+ */
+export type ClockTimer = NodeJS.Timeout | number;
+
+/**
+ * Time source and timer scheduler
+ */
+export interface Clock {
+  /** Current time (epoch milliseconds) */
+  now(): number;
+
+  /** Run `callback` once after `ms` milliseconds */
+  setTimeout(callback: () => void, ms: number): ClockTimer;
+
+  /** Cancel a timer created by `setTimeout` */
+  clearTimeout(timer: ClockTimer): void;
+
+  /** Run `callback` every `ms` milliseconds */
+  setInterval(callback: () => void, ms: number): ClockTimer;
+
+  /** Cancel a timer created by `setInterval` */
+  clearInterval(timer: ClockTimer): void;
+}
+
+/**
+ * The real clock: `Date.now()` and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as NodeJS.Timeout),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (timer) => clearInterval(timer as NodeJS.Timeout),
+};
+
+/**
+ * A timer of the virtual clock
+ */
+interface VirtualTimer {
+  id: number;
+  callback: () => void;
+  /** When the timer is due next (epoch milliseconds) */
+  due: number;
+  /** Repeat interval, or null for a one-shot timer */
+  interval: number | null;
+}
+
+/**
+ * Virtual Clock - Time that only moves when told to
+ *
+ * @remarks
+ * `advance()` moves time forward timer by timer: each due timer runs at
+ * its own due time, in due order (ties in order of creation), and the
+ * async work it starts settles before the next one runs. Work waiting on
+ * real I/O or real timers does not settle in between; simulations use
+ * mocks for those.
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextId: number = 1;
+
+  /**
+   * @param start - Initial time (epoch milliseconds)
+   */
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, ms: number): ClockTimer {
+    return this.schedule(callback, ms, null);
+  }
+
+  public clearTimeout(timer: ClockTimer): void {
+    this.timers.delete(timer as number);
+  }
+
+  public setInterval(callback: () => void, ms: number): ClockTimer {
+    // An interval of 0 would keep time from ever moving on
+    return this.schedule(callback, ms, Math.max(1, ms));
+  }
+
+  public clearInterval(timer: ClockTimer): void {
+    this.timers.delete(timer as number);
+  }
+
+  /**
+   * Number of timers waiting to run
+   */
+  public pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Move time forward, running every timer that falls due
+   *
+   * @param ms - Time to move forward (milliseconds)
+   */
+  public async advance(ms: number): Promise<void> {
+    await this.advanceTo(this.time + ms);
+  }
+
+  /**
+   * Move time forward to a point in time, running every timer that falls due
+   *
+   * @param time - Time to move to (epoch milliseconds); earlier times only
+   * let pending async work settle
+   */
+  public async advanceTo(time: number): Promise<void> {
+    await settle();
+
+    for (;;) {
+      const timer = this.nextDue(time);
+      if (!timer) {
+        break;
+      }
+
+      this.time = timer.due;
+      if (timer.interval === null) {
+        this.timers.delete(timer.id);
+      } else {
+        timer.due += timer.interval;
+      }
+      timer.callback();
+      await settle();
+    }
+
+    this.time = Math.max(this.time, time);
+  }
+
+  private schedule(callback: () => void, ms: number, interval: number | null): ClockTimer {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      id,
+      callback,
+      due: this.time + Math.max(0, ms),
+      interval,
+    });
+    return id;
+  }
+
+  /**
+   * Earliest timer due by `time`, ties broken by creation order
+   */
+  private nextDue(time: number): VirtualTimer | null {
+    let next: VirtualTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (timer.due <= time && (!next || timer.due < next.due)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
+
+/**
+ * Let every pending promise callback run
+ *
+ * @remarks
+ * The promise job queue is drained before any macrotask, so one turn of
+ * `setImmediate` settles every chain that does not wait on real I/O.
+ */
+function settle(): Promise<void> {
+  return new Promise<void>((resolve) => setImmediate(resolve));
+}
@@ -7,6 +7,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { NodeMode } from '../mode-switcher';
+import { runsWorker, WorkerLimits } from '../worker-service';
+import { isTransitionAllowed } from '../mode-transitions';
+import type { LatencyReport } from '../transition-latency';
+import type { ActiveTransition } from '../transition-pipeline';
+import {
+  LOCK_PRECEDENCE,
+  LockHolder,
+  LockOptions,
+  LockSource,
+} from '../manual-mode-switcher';
+import type { PendingConfirmationInfo } from '../pending-confirmations';
 
 interface DashboardProps {
   currentMode: NodeMode;
@@ -18,8 +29,18 @@ interface DashboardProps {
   diskUsage: number;
   isLocked: boolean;
   lockedMode: NodeMode | null;
+  lockExpiresAt?: Date | null;
+  lockHolder?: LockHolder | null;
+  sharedWorkerLimits?: WorkerLimits;
+  sharedExitLoad?: number;
+  latencyReport?: LatencyReport;
+  activeTransition?: ActiveTransition | null;
+  requireApproval?: boolean;
+  pendingApprovals?: PendingConfirmationInfo[];
   onModeSwitch: (targetMode: NodeMode) => Promise<void>;
-  onLockMode: (mode?: NodeMode) => void;
+  onApproveSwitch?: (requestId: string, approver: string, credential: string) => Promise<void>;
+  onRejectSwitch?: (requestId: string) => void;
+  onLockMode: (mode?: NodeMode, options?: LockOptions) => void;
   onUnlockMode: () => void;
 }
 
@@ -30,20 +51,74 @@ const MODE_COLORS: Record<NodeMode, string> = {
   active_master: '#3B82F6',  // Blue
   idle_worker: '#10B981',    // Green
   standby: '#6B7280',        // Gray
+  shared_worker: '#F59E0B',  // Amber
+  maintenance: '#8B5CF6',    // Purple
+  draining: '#F97316',       // Orange
+  offline: '#DC2626',        // Red
 };
 
 const MODE_LABELS: Record<NodeMode, string> = {
   active_master: 'アクティブマスター',
   idle_worker: 'アイドルワーカー',
   standby: 'スタンバイ',
+  shared_worker: '共有ワーカー',
+  maintenance: 'メンテナンス',
+  draining: 'ドレイン中',
+  offline: 'オフライン',
 };
 
 const MODE_ICONS: Record<NodeMode, string> = {
   active_master: '🔵',
   idle_worker: '🟢',
   standby: '⚪',
+  shared_worker: '🟡',
+  maintenance: '🟣',
+  draining: '🟠',
+  offline: '🔴',
 };
 
+/**
+ * Modes offered by the switch buttons, in display order
+ */
+const SWITCHABLE_MODES: NodeMode[] = [
+  'active_master',
+  'idle_worker',
+  'standby',
+  'shared_worker',
+  'draining',
+  'maintenance',
+  'offline',
+];
+
+const LOCK_SOURCE_LABELS: Record<LockSource, string> = {
+  local: 'ローカル',
+  admin: '管理者',
+  policy: 'ポリシー',
+};
+
+/**
+ * Lock lengths offered by the lock control, in display order
+ */
+const LOCK_DURATIONS: { label: string; options: () => LockOptions }[] = [
+  { label: '期限なし', options: () => ({}) },
+  { label: '30分', options: () => ({ duration: 30 * 60 * 1000 }) },
+  { label: '1時間', options: () => ({ duration: 60 * 60 * 1000 }) },
+  { label: '4時間', options: () => ({ duration: 4 * 60 * 60 * 1000 }) },
+  { label: '18:00まで', options: () => ({ until: nextTimeOfDay(18) }) },
+];
+
+/**
+ * The next time the clock shows `hour`:00, today or tomorrow
+ */
+function nextTimeOfDay(hour: number): Date {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  if (date.getTime() <= Date.now()) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date;
+}
+
 /**
  * Dashboard Component
  */
@@ -57,13 +132,32 @@ export const Dashboard: React.FC<DashboardProps> = ({
   diskUsage,
   isLocked,
   lockedMode,
+  lockExpiresAt,
+  lockHolder,
+  sharedWorkerLimits,
+  sharedExitLoad,
+  latencyReport,
+  activeTransition,
+  requireApproval = false,
+  pendingApprovals = [],
   onModeSwitch,
+  onApproveSwitch,
+  onRejectSwitch,
   onLockMode,
   onUnlockMode,
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedMode, setSelectedMode] = useState<NodeMode | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [approving, setApproving] = useState<PendingConfirmationInfo | null>(null);
+  const [approverName, setApproverName] = useState('');
+  const [approverCredential, setApproverCredential] = useState('');
+  const [lockDuration, setLockDuration] = useState(0);
+  const [lockReason, setLockReason] = useState('');
+
+  // The dashboard speaks for the local user, who cannot release an admin lock
+  const canUnlock =
+    !lockHolder || LOCK_PRECEDENCE[lockHolder.source] <= LOCK_PRECEDENCE.local;
 
   const handleModeSwitch = async (targetMode: NodeMode) => {
     // Prevent switching if mode is locked
@@ -71,6 +165,11 @@ export const Dashboard: React.FC<DashboardProps> = ({
       alert(`モードが${MODE_LABELS[lockedMode!]}に固定されています`);
       return;
     }
+    if (!isTransitionAllowed(currentMode, targetMode, 'manual')) {
+      const from = MODE_LABELS[currentMode];
+      alert(`${from}から${MODE_LABELS[targetMode]}には切り替えられません`);
+      return;
+    }
 
     setSelectedMode(targetMode);
     setShowConfirmation(true);
@@ -90,6 +189,33 @@ export const Dashboard: React.FC<DashboardProps> = ({
     }
   };
 
+  // Close the approval dialog once its request is no longer pending
+  useEffect(() => {
+    if (approving && !pendingApprovals.some((r) => r.requestId === approving.requestId)) {
+      setApproving(null);
+    }
+  }, [approving, pendingApprovals]);
+
+  const openApproval = (request: PendingConfirmationInfo) => {
+    setApproving(request);
+    setApproverName('');
+    setApproverCredential('');
+  };
+
+  const approveModeSwitch = async () => {
+    if (!approving || !onApproveSwitch) return;
+
+    setIsLoading(true);
+    try {
+      await onApproveSwitch(approving.requestId, approverName.trim(), approverCredential);
+      setApproving(null);
+    } catch (error) {
+      alert(`承認エラー: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const formatTime = (ms: number): string => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -121,6 +247,11 @@ export const Dashboard: React.FC<DashboardProps> = ({
           >
             <div style={styles.modeIcon}>{MODE_ICONS[currentMode]}</div>
             <div style={styles.modeLabel}>{MODE_LABELS[currentMode]}</div>
+            {activeTransition && (
+              <div style={styles.transitioning}>
+                ⏳ 切替中: {MODE_LABELS[activeTransition.to]}へ
+              </div>
+            )}
           </div>
 
           {/* Status Info */}
@@ -137,18 +268,37 @@ export const Dashboard: React.FC<DashboardProps> = ({
               </div>
             )}
 
-            {currentMode === 'idle_worker' && (
+            {runsWorker(currentMode) && (
               <div style={styles.statusRow}>
                 <span style={styles.label}>割り当てタスク:</span>
                 <span style={styles.value}>{pendingTaskCount}件</span>
               </div>
             )}
 
+            {currentMode === 'shared_worker' && sharedWorkerLimits && (
+              <div style={styles.statusRow}>
+                <span style={styles.label}>リソース上限:</span>
+                <span style={styles.value}>
+                  {sharedWorkerLimits.maxCores}コア / {sharedWorkerLimits.maxMemoryMb}MB
+                </span>
+              </div>
+            )}
+
+            {currentMode === 'shared_worker' && sharedExitLoad !== undefined && (
+              <div style={styles.statusRow}>
+                <span style={styles.label}>解除負荷:</span>
+                <span style={styles.value}>CPU {sharedExitLoad}%以上</span>
+              </div>
+            )}
+
             {/* Lock Status */}
             {isLocked && (
               <div style={{ ...styles.statusRow, color: '#EF4444' }}>
                 <span style={styles.label}>🔒 モード固定:</span>
-                <span style={styles.value}>{MODE_LABELS[lockedMode!]}</span>
+                <span style={styles.value}>
+                  {MODE_LABELS[lockedMode!]}
+                  {lockExpiresAt && ` (${lockExpiresAt.toLocaleTimeString()}まで)`}
+                </span>
               </div>
             )}
           </div>
@@ -159,12 +309,18 @@ export const Dashboard: React.FC<DashboardProps> = ({
           <h2 style={styles.sectionTitle}>モード切替</h2>
 
           <div style={styles.buttonGrid}>
-            {(['active_master', 'idle_worker', 'standby'] as NodeMode[]).map(
+            {SWITCHABLE_MODES.map(
               (mode) => (
                 <button
                   key={mode}
                   onClick={() => handleModeSwitch(mode)}
-                  disabled={isLoading || currentMode === mode || (isLocked && lockedMode !== mode)}
+                  disabled={
+                    isLoading ||
+                    !!activeTransition ||
+                    currentMode === mode ||
+                    (isLocked && lockedMode !== mode) ||
+                    !isTransitionAllowed(currentMode, mode, 'manual')
+                  }
                   style={{
                     ...styles.modeButton,
                     ...(currentMode === mode ? styles.modeButtonActive : {}),
@@ -179,6 +335,48 @@ export const Dashboard: React.FC<DashboardProps> = ({
           </div>
         </div>
 
+        {/* Switches Awaiting Approval */}
+        {requireApproval && (
+          <div style={styles.controlsSection}>
+            <h2 style={styles.sectionTitle}>承認待ちのモード切替</h2>
+
+            {pendingApprovals.length === 0 ? (
+              <p style={styles.lockDetail}>承認待ちの申請はありません</p>
+            ) : (
+              pendingApprovals.map((request) => (
+                <div key={request.requestId} style={styles.approvalRow}>
+                  <div>
+                    <div>
+                      {MODE_ICONS[request.targetMode]} {MODE_LABELS[request.targetMode]}
+                    </div>
+                    <div style={styles.lockDetail}>
+                      申請者: {request.requestedBy ?? '不明'} (
+                      {new Date(request.requestedAt).toLocaleTimeString()})
+                      {request.remainingMs !== null &&
+                        ` ・ 残り ${formatTime(request.remainingMs)}`}
+                    </div>
+                  </div>
+                  <div style={{ ...styles.modalButtons, marginTop: 0 }}>
+                    <button
+                      onClick={() => onRejectSwitch?.(request.requestId)}
+                      style={styles.cancelButton}
+                    >
+                      却下
+                    </button>
+                    <button
+                      onClick={() => openApproval(request)}
+                      disabled={isLoading || !onApproveSwitch}
+                      style={styles.confirmButton}
+                    >
+                      承認
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
         {/* System Monitor */}
         <div style={styles.controlsSection}>
           <h2 style={styles.sectionTitle}>システムリソース</h2>
@@ -190,6 +388,14 @@ export const Dashboard: React.FC<DashboardProps> = ({
           </div>
         </div>
 
+        {/* Switch Latency */}
+        {latencyReport && (
+          <div style={styles.controlsSection}>
+            <h2 style={styles.sectionTitle}>切替レイテンシ</h2>
+            <LatencyPanel report={latencyReport} />
+          </div>
+        )}
+
         {/* Lock Control */}
         <div style={styles.controlsSection}>
           <h2 style={styles.sectionTitle}>モード固定管理</h2>
@@ -197,20 +403,65 @@ export const Dashboard: React.FC<DashboardProps> = ({
           {isLocked ? (
             <div style={styles.lockStatus}>
               <p>🔒 現在のモード: {MODE_LABELS[lockedMode!]}</p>
+              {lockHolder && (
+                <>
+                  <p style={styles.lockDetail}>
+                    固定者: {lockHolder.owner} ({LOCK_SOURCE_LABELS[lockHolder.source]})
+                  </p>
+                  {lockHolder.reason && (
+                    <p style={styles.lockDetail}>理由: {lockHolder.reason}</p>
+                  )}
+                </>
+              )}
+              {lockExpiresAt && <LockCountdown expiresAt={lockExpiresAt} />}
               <button
                 onClick={onUnlockMode}
-                style={styles.unlockButton}
+                disabled={!canUnlock}
+                style={{
+                  ...styles.unlockButton,
+                  ...(canUnlock ? {} : styles.modeButtonDisabled),
+                }}
               >
                 モード固定を解除
               </button>
+              {!canUnlock && (
+                <p style={styles.lockDetail}>
+                  {LOCK_SOURCE_LABELS[lockHolder!.source]}による固定は解除できません
+                </p>
+              )}
             </div>
           ) : (
-            <button
-              onClick={() => onLockMode(currentMode)}
-              style={styles.lockButton}
-            >
-              現在のモードに固定
-            </button>
+            <div>
+              <select
+                value={lockDuration}
+                onChange={(e) => setLockDuration(Number(e.target.value))}
+                style={styles.lockDurationSelect}
+              >
+                {LOCK_DURATIONS.map((duration, index) => (
+                  <option key={duration.label} value={index}>
+                    {duration.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={lockReason}
+                onChange={(e) => setLockReason(e.target.value)}
+                placeholder="固定する理由 (任意)"
+                style={styles.lockReasonInput}
+              />
+              <button
+                onClick={() =>
+                  onLockMode(currentMode, {
+                    ...LOCK_DURATIONS[lockDuration].options(),
+                    reason: lockReason,
+                  })
+                }
+                style={styles.lockButton}
+              >
+                現在のモードに固定
+              </button>
+            </div>
           )}
         </div>
       </div>
@@ -219,11 +470,16 @@ export const Dashboard: React.FC<DashboardProps> = ({
       {showConfirmation && selectedMode && (
         <div style={styles.modal}>
           <div style={styles.modalContent}>
-            <h3>モード切替確認</h3>
+            <h3>{requireApproval ? 'モード切替の承認申請' : 'モード切替確認'}</h3>
             <p>
               {MODE_LABELS[currentMode]} から{' '}
               {MODE_LABELS[selectedMode]} に切り替えますか？
             </p>
+            {requireApproval && (
+              <p style={styles.lockDetail}>
+                申請者以外の承認者が承認すると切り替わります
+              </p>
+            )}
 
             <div style={styles.modalButtons}>
               <button
@@ -237,7 +493,61 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 disabled={isLoading}
                 style={styles.confirmButton}
               >
-                {isLoading ? '切替中...' : '確認'}
+                {isLoading ? '切替中...' : requireApproval ? '申請' : '確認'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Approval Dialog */}
+      {approving && (
+        <div style={styles.modal}>
+          <div style={styles.modalContent}>
+            <h3>モード切替の承認</h3>
+            <p>
+              {MODE_LABELS[currentMode]} から{' '}
+              {MODE_LABELS[approving.targetMode]} への切替を承認しますか？
+            </p>
+            <p style={styles.lockDetail}>
+              申請者: {approving.requestedBy ?? '不明'} (
+              {new Date(approving.requestedAt).toLocaleString()})
+            </p>
+            <p style={styles.lockDetail}>
+              承認者は申請者とは別にサインインします
+            </p>
+            <input
+              type="text"
+              value={approverName}
+              onChange={(e) => setApproverName(e.target.value)}
+              placeholder="承認者名"
+              autoComplete="username"
+              style={styles.lockReasonInput}
+            />
+            <input
+              type="password"
+              value={approverCredential}
+              onChange={(e) => setApproverCredential(e.target.value)}
+              placeholder="パスワード"
+              autoComplete="current-password"
+              style={styles.lockReasonInput}
+            />
+
+            <div style={styles.modalButtons}>
+              <button onClick={() => setApproving(null)} style={styles.cancelButton}>
+                キャンセル
+              </button>
+              <button
+                onClick={approveModeSwitch}
+                disabled={
+                  isLoading ||
+                  approverName.trim() === '' ||
+                  approverCredential === '' ||
+                  approverName.trim() === approving.requestedBy
+                }
+                style={styles.confirmButton}
+              >
+                {isLoading ? '切替中...' : '承認'}
               </button>
             </div>
           </div>
@@ -281,6 +591,118 @@ const ResourceBar: React.FC<ResourceBarProps> = ({ label, value }) => {
   );
 };
 
+/**
+ * Lock Countdown Component
+ *
+ * Time left until a timed lock ends, updated every second.
+ */
+interface LockCountdownProps {
+  expiresAt: Date;
+}
+
+const LockCountdown: React.FC<LockCountdownProps> = ({ expiresAt }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = Math.max(0, Math.ceil((expiresAt.getTime() - now) / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hours = Math.floor(remaining / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+
+  return (
+    <p style={styles.lockCountdown}>
+      ⏱ 自動解除まで {pad(hours)}:{pad(minutes)}:{pad(remaining % 60)}
+    </p>
+  );
+};
+
+/**
+ * Latency Panel Component
+ *
+ * Percentiles per transition edge against the FR-2.2.4 targets, with the
+ * p95 of each step and SLO compliance over the first configured window.
+ */
+interface LatencyPanelProps {
+  report: LatencyReport;
+}
+
+const LatencyPanel: React.FC<LatencyPanelProps> = ({ report }) => {
+  const formatLatency = (ms: number | null): string => {
+    if (ms === null) return '—';
+    if (ms < 1000) return `${ms}ms`;
+    return `${(ms / 1000).toFixed(2)}秒`;
+  };
+
+  const formatWindow = (ms: number): string => {
+    const hours = ms / (60 * 60 * 1000);
+    return hours >= 24 ? `${hours / 24}日` : `${hours}時間`;
+  };
+
+  if (report.edges.length === 0) {
+    return <p style={styles.latencyEmpty}>まだモード切替がありません</p>;
+  }
+
+  const firstWindow = report.edges[0].compliance[0]?.window;
+
+  return (
+    <table style={styles.latencyTable}>
+      <thead>
+        <tr>
+          <th style={styles.latencyHeader}>遷移</th>
+          <th style={styles.latencyHeader}>回数</th>
+          <th style={styles.latencyHeader}>p50</th>
+          <th style={styles.latencyHeader}>p95</th>
+          <th style={styles.latencyHeader}>p99</th>
+          <th style={styles.latencyHeader}>目標</th>
+          <th style={styles.latencyHeader}>
+            達成率{firstWindow !== undefined && ` (${formatWindow(firstWindow)})`}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {report.edges.map((edge) => {
+          const compliance = edge.compliance[0];
+          const overTarget = (ms: number | null) =>
+            edge.target > 0 && ms !== null && ms > edge.target ? styles.latencyMiss : {};
+          const steps = Object.entries(edge.steps)
+            .map(([name, summary]) => `${name} ${formatLatency(summary.p95)}`)
+            .join(' / ');
+
+          return (
+            <React.Fragment key={`${edge.from}-${edge.to}`}>
+              <tr>
+                <td style={styles.latencyEdge}>
+                  {MODE_LABELS[edge.from]} → {MODE_LABELS[edge.to]}
+                </td>
+                <td>
+                  {edge.total.count}
+                  {edge.failures > 0 && ` (失敗 ${edge.failures})`}
+                </td>
+                <td style={overTarget(edge.total.p50)}>{formatLatency(edge.total.p50)}</td>
+                <td style={overTarget(edge.total.p95)}>{formatLatency(edge.total.p95)}</td>
+                <td style={overTarget(edge.total.p99)}>{formatLatency(edge.total.p99)}</td>
+                <td>{edge.target > 0 ? formatLatency(edge.target) : '—'}</td>
+                <td style={compliance?.compliant === false ? styles.latencyMiss : {}}>
+                  {compliance?.ratio == null ? '—' : `${(compliance.ratio * 100).toFixed(1)}%`}
+                </td>
+              </tr>
+              <tr>
+                <td colSpan={7} style={styles.latencySteps}>
+                  p95: {steps}
+                </td>
+              </tr>
+            </React.Fragment>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
 /**
  * Styles
  */
@@ -342,6 +764,12 @@ const styles: Record<string, React.CSSProperties> = {
     marginBottom: '10px',
   },
 
+  transitioning: {
+    marginTop: '10px',
+    fontSize: '14px',
+    opacity: 0.9,
+  },
+
   modeLabel: {
     fontSize: '16px',
     fontWeight: 'bold',
@@ -392,7 +820,7 @@ const styles: Record<string, React.CSSProperties> = {
 
   buttonGrid: {
     display: 'grid',
-    gridTemplateColumns: '1fr 1fr 1fr',
+    gridTemplateColumns: '1fr 1fr',
     gap: '15px',
   },
 
@@ -463,6 +891,45 @@ const styles: Record<string, React.CSSProperties> = {
     transition: 'width 0.3s ease',
   },
 
+  latencyEmpty: {
+    margin: 0,
+    fontSize: '14px',
+    color: '#9CA3AF',
+  },
+
+  latencyTable: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '13px',
+    color: '#D1D5DB',
+  },
+
+  latencyHeader: {
+    textAlign: 'left',
+    paddingBottom: '8px',
+    color: '#9CA3AF',
+    fontWeight: 'normal',
+  },
+
+  latencyEdge: {
+    paddingTop: '8px',
+    fontWeight: 'bold',
+    color: '#F3F4F6',
+  },
+
+  latencyMiss: {
+    color: '#EF4444',
+    fontWeight: 'bold',
+  },
+
+  latencySteps: {
+    paddingBottom: '8px',
+    borderBottom: '1px solid #374151',
+    fontFamily: 'monospace',
+    fontSize: '11px',
+    color: '#9CA3AF',
+  },
+
   lockStatus: {
     padding: '15px',
     backgroundColor: '#3F3F3F',
@@ -470,6 +937,49 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#E5E7EB',
   },
 
+  lockCountdown: {
+    fontFamily: 'monospace',
+    fontSize: '18px',
+    color: '#F59E0B',
+  },
+
+  lockDetail: {
+    fontSize: '13px',
+    color: '#9CA3AF',
+    margin: '4px 0',
+  },
+
+  approvalRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '10px 0',
+    borderBottom: '1px solid #374151',
+  },
+
+  lockReasonInput: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '8px',
+    marginBottom: '10px',
+    fontSize: '14px',
+    borderRadius: '6px',
+    border: '1px solid #4B5563',
+    backgroundColor: '#1F2937',
+    color: '#E5E7EB',
+  },
+
+  lockDurationSelect: {
+    width: '100%',
+    padding: '8px',
+    marginBottom: '10px',
+    fontSize: '14px',
+    borderRadius: '6px',
+    border: '1px solid #4B5563',
+    backgroundColor: '#1F2937',
+    color: '#E5E7EB',
+  },
+
   lockButton: {
     width: '100%',
     padding: '12px',
@@ -6,6 +6,15 @@
  */
 
 import React, { useState } from 'react';
+import type { NodeMode } from '../mode-switcher';
+import { MODE_TRANSITIONS } from '../mode-transitions';
+import {
+  previewBudgetTable,
+  TransitionBudget,
+  TransitionBudgetOverrides,
+  TransitionBudgetTable,
+  validateBudgets,
+} from '../transition-budgets';
 
 export interface AppSettings {
   activeThreshold: number; // milliseconds
@@ -13,6 +22,13 @@ export interface AppSettings {
   idleThreshold: number; // milliseconds
   pollInterval: number; // milliseconds
   switchTimeout: number; // milliseconds
+  switchBudgets: TransitionBudgetOverrides; // per transition, milliseconds
+  sharedWorkerEnabled: boolean;
+  sharedExitLoad: number; // percent of CPU
+  sharedMaxCores: number;
+  sharedMaxMemoryMb: number;
+  requireApproval: boolean;
+  approvers: string[];
   theme: 'dark' | 'light';
   autoStart: boolean;
   notificationSound: boolean;
@@ -34,6 +50,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 }) => {
   const [formValues, setFormValues] = useState(settings);
   const [hasChanges, setHasChanges] = useState(false);
+  // Kept as typed, so a trailing comma survives until the next name
+  const [approversText, setApproversText] = useState(settings.approvers.join(', '));
 
   const handleChange = (key: keyof AppSettings, value: any) => {
     setFormValues((prev) => ({
@@ -43,6 +61,19 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     setHasChanges(true);
   };
 
+  const handleBudgetChange = (
+    from: NodeMode,
+    to: NodeMode,
+    key: keyof TransitionBudget,
+    seconds: number
+  ) => {
+    const edges = formValues.switchBudgets[from] ?? {};
+    handleChange('switchBudgets', {
+      ...formValues.switchBudgets,
+      [from]: { ...edges, [to]: { ...edges[to], [key]: seconds * 1000 } },
+    });
+  };
+
   const handleSave = () => {
     // Validate settings
     if (
@@ -55,6 +86,12 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
       return;
     }
 
+    const budgetProblems = validateBudgets(formValues.switchTimeout, formValues.switchBudgets);
+    if (budgetProblems.length > 0) {
+      alert(`時間予算が不正です: ${budgetProblems.join(', ')}`);
+      return;
+    }
+
     onSave(formValues);
     setHasChanges(false);
     alert('設定を保存しました');
@@ -64,6 +101,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     if (confirm('設定をデフォルトにリセットしてもよろしいですか？')) {
       onReset();
       setFormValues(settings);
+      setApproversText(settings.approvers.join(', '));
       setHasChanges(false);
     }
   };
@@ -135,18 +173,83 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
           <input
             type="number"
             value={formValues.switchTimeout / 1000}
-            onChange={(e) =>
-              handleChange('switchTimeout', parseInt(e.target.value) * 1000)
-            }
+            onChange={(e) => {
+              const seconds = parseInt(e.target.value);
+              if (Number.isFinite(seconds) && seconds >= 0) {
+                handleChange('switchTimeout', seconds * 1000);
+              }
+            }}
             style={styles.input}
             min="1"
             max="60"
           />
         </label>
+
+        <label style={styles.label}>
+          <span>共有ワーカー解除負荷 (%)</span>
+          <input
+            type="number"
+            value={formValues.sharedExitLoad}
+            onChange={(e) => handleChange('sharedExitLoad', parseInt(e.target.value))}
+            style={styles.input}
+            min="1"
+            max="100"
+          />
+        </label>
+
+        <label style={styles.label}>
+          <span>共有ワーカー CPU コア上限 (目安)</span>
+          <input
+            type="number"
+            value={formValues.sharedMaxCores}
+            onChange={(e) => handleChange('sharedMaxCores', parseInt(e.target.value))}
+            style={styles.input}
+            min="1"
+            max="256"
+          />
+        </label>
+
+        <label style={styles.label}>
+          <span>共有ワーカー メモリ上限 (MB・目安)</span>
+          <input
+            type="number"
+            value={formValues.sharedMaxMemoryMb}
+            onChange={(e) => handleChange('sharedMaxMemoryMb', parseInt(e.target.value))}
+            style={styles.input}
+            min="256"
+            step="256"
+          />
+        </label>
+
+        <label style={styles.label}>
+          <span>承認者 (カンマ区切り)</span>
+          <input
+            type="text"
+            value={approversText}
+            onChange={(e) => {
+              setApproversText(e.target.value);
+              handleChange(
+                'approvers',
+                e.target.value
+                  .split(',')
+                  .map((name) => name.trim())
+                  .filter((name) => name !== '')
+              );
+            }}
+            style={styles.input}
+          />
+        </label>
       </div>
 
       <div style={styles.divider} />
 
+      <BudgetTable
+        budgets={previewBudgetTable(formValues.switchTimeout, formValues.switchBudgets)}
+        onChange={handleBudgetChange}
+      />
+
+      <div style={styles.divider} />
+
       <div style={styles.checkboxGroup}>
         <label style={styles.checkboxLabel}>
           <input
@@ -170,6 +273,26 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
           <span>🚀 自動起動</span>
         </label>
 
+        <label style={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={formValues.sharedWorkerEnabled}
+            onChange={(e) => handleChange('sharedWorkerEnabled', e.target.checked)}
+            style={styles.checkbox}
+          />
+          <span>🟡 使用中も低負荷なら共有ワーカーとして参加</span>
+        </label>
+
+        <label style={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={formValues.requireApproval}
+            onChange={(e) => handleChange('requireApproval', e.target.checked)}
+            style={styles.checkbox}
+          />
+          <span>👥 手動モード切替に申請者以外の承認を必要とする</span>
+        </label>
+
         <label style={styles.checkboxLabel}>
           <input
             type="checkbox"
@@ -211,6 +334,57 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   );
 };
 
+/**
+ * Budget Table Component
+ *
+ * Soft and hard deadline of every allowed transition, in seconds
+ */
+interface BudgetTableProps {
+  budgets: TransitionBudgetTable;
+  onChange: (from: NodeMode, to: NodeMode, key: keyof TransitionBudget, seconds: number) => void;
+}
+
+const BudgetTable: React.FC<BudgetTableProps> = ({ budgets, onChange }) => {
+  const edges = (Object.keys(MODE_TRANSITIONS) as NodeMode[]).flatMap((from) =>
+    (Object.keys(budgets[from]) as NodeMode[]).map((to) => ({ from, to, ...budgets[from][to]! }))
+  );
+
+  return (
+    <div>
+      <div style={styles.label}>モード切替の時間予算 (秒: 警告 / 中断)</div>
+      <table style={styles.budgetTable}>
+        <tbody>
+          {edges.map(({ from, to, soft, hard }) => (
+            <tr key={`${from}-${to}`}>
+              <td style={styles.budgetEdge}>
+                {from} → {to}
+              </td>
+              {(['soft', 'hard'] as const).map((key) => (
+                <td key={key}>
+                  <input
+                    type="number"
+                    value={(key === 'soft' ? soft : hard) / 1000}
+                    onChange={(e) => {
+                      // A cleared or partly typed field is not a deadline
+                      const seconds = parseFloat(e.target.value);
+                      if (Number.isFinite(seconds) && seconds >= 0) {
+                        onChange(from, to, key, seconds);
+                      }
+                    }}
+                    style={{ ...styles.input, width: '70px' }}
+                    min="0"
+                    step="0.5"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
 /**
  * Styles
  */
@@ -255,6 +429,17 @@ const styles: Record<string, React.CSSProperties> = {
     fontFamily: 'Segoe UI, system-ui, sans-serif',
   },
 
+  budgetTable: {
+    width: '100%',
+    marginTop: '8px',
+    fontSize: '12px',
+    color: '#D1D5DB',
+  },
+
+  budgetEdge: {
+    fontFamily: 'monospace',
+  },
+
   divider: {
     height: '1px',
     backgroundColor: '#374151',
@@ -0,0 +1,787 @@
+/**
+ * Coordination Service Reference Server
+ *
+ * Local HTTP + WebSocket implementation of the coordination service.
+ * Tracks node registrations, availability and heartbeats in memory so that
+ * several simulated nodes can be pointed at a single Linux box. Also hosts
+ * the job queue and leases tasks to available workers.
+ *
+ * Run: npm run coordination-server (PORT / HOST / HEARTBEAT_TIMEOUT env vars)
+ *
+ * @see src/coordination-service.ts for the client and protocol types
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import type {
+  CoordinationEvent,
+  CoordinationMessage,
+  HandoffAck,
+  NodeMessage,
+  NodeRecord,
+  NodeRegistration,
+} from './coordination-service';
+import { eventMode } from './coordination-service';
+import { isWorkerMode } from './worker-service';
+import { assertTransitionAllowed } from './mode-transitions';
+import type { NodeMode } from './mode-switcher';
+import { JobQueue, JobSpec } from './job-queue';
+import { JobScheduler, JobSchedulerConfig } from './job-scheduler';
+import { AuditCheckpoint, assertAuditHeadAdvances } from './audit-log';
+
+/**
+ * Configuration for the coordination server
+ */
+export interface CoordinationServerConfig {
+  /** Port to listen on (0 = pick a free port) */
+  port: number;
+  /** Interface to bind */
+  host: string;
+  /** Time without heartbeat before a node is considered offline (milliseconds) */
+  heartbeatTimeout: number;
+  /** Interval for checking heartbeat timeouts (milliseconds) */
+  sweepInterval: number;
+  /** Scheduler settings */
+  scheduler: Partial<JobSchedulerConfig>;
+}
+
+/**
+ * Default configuration for the coordination server
+ */
+export const DEFAULT_COORDINATION_SERVER_CONFIG: CoordinationServerConfig = {
+  port: 7400,
+  host: '127.0.0.1',
+  heartbeatTimeout: 15000, // 15 seconds
+  sweepInterval: 1000, // 1 second
+  scheduler: {},
+};
+
+const NODE_MODES: readonly NodeMode[] = [
+  'active_master',
+  'standby',
+  'idle_worker',
+  'shared_worker',
+  'maintenance',
+  'draining',
+  'offline',
+];
+const COORDINATION_EVENTS: readonly CoordinationEvent[] = [
+  'worker_available',
+  'worker_soon_available',
+  'worker_shared',
+  'worker_draining',
+  'node_maintenance',
+  'node_offline',
+];
+
+/**
+ * Listener for registry changes
+ */
+export type NodeRegistryListener = (message: CoordinationMessage) => void;
+
+/**
+ * Node Registry - In-memory record of every node known to the service
+ */
+export class NodeRegistry {
+  private nodes: Map<string, NodeRecord> = new Map();
+  private listeners: Set<NodeRegistryListener> = new Set();
+
+  constructor(private heartbeatTimeout: number) {}
+
+  /**
+   * Register a node, replacing any previous registration with the same ID
+   */
+  public register(registration: NodeRegistration, now: number = Date.now()): NodeRecord {
+    const previous = this.nodes.get(registration.nodeId);
+    const record: NodeRecord = {
+      ...registration,
+      available: isWorkerMode(registration.mode),
+      soonAvailable: registration.mode === 'standby',
+      online: true,
+      registeredAt: previous?.registeredAt ?? now,
+      lastHeartbeat: now,
+    };
+
+    this.nodes.set(record.nodeId, record);
+    this.emit({ type: 'node_updated', node: { ...record } });
+    return { ...record };
+  }
+
+  /**
+   * Remove a node
+   *
+   * @returns Whether the node was known
+   */
+  public unregister(nodeId: string): boolean {
+    const existed = this.nodes.delete(nodeId);
+
+    if (existed) {
+      this.emit({ type: 'node_removed', nodeId });
+    }
+    return existed;
+  }
+
+  /**
+   * Record a heartbeat from a node
+   */
+  public heartbeat(nodeId: string, now: number = Date.now()): NodeRecord | null {
+    const record = this.nodes.get(nodeId);
+    if (!record) {
+      return null;
+    }
+
+    const cameOnline = !record.online;
+    record.lastHeartbeat = now;
+    record.online = true;
+
+    if (cameOnline) {
+      this.emit({ type: 'node_updated', node: { ...record } });
+    }
+    return { ...record };
+  }
+
+  /**
+   * Apply an availability event from a node
+   *
+   * @throws TransitionNotAllowedError if the node may not go from its
+   * recorded mode to the one the event announces
+   */
+  public applyEvent(
+    nodeId: string,
+    event: CoordinationEvent,
+    available: boolean,
+    now: number = Date.now()
+  ): NodeRecord | null {
+    const record = this.nodes.get(nodeId);
+    if (!record) {
+      return null;
+    }
+
+    // The service cannot tell who asked, so operator-only transitions pass
+    const mode = eventMode(event, available);
+    assertTransitionAllowed(record.mode, mode, 'manual');
+
+    // Every event replaces the others: a node is a worker, warming up, or neither
+    record.mode = mode;
+    record.available = isWorkerMode(record.mode);
+    record.soonAvailable = record.mode === 'standby';
+    record.lastHeartbeat = now;
+    record.online = true;
+
+    this.emit({ type: 'node_updated', node: { ...record } });
+    return { ...record };
+  }
+
+  /**
+   * Mark nodes without a recent heartbeat as offline and unavailable
+   *
+   * @returns IDs of nodes that went offline
+   */
+  public sweep(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+
+    this.nodes.forEach((record) => {
+      if (record.online && now - record.lastHeartbeat > this.heartbeatTimeout) {
+        record.online = false;
+        record.available = false;
+        record.soonAvailable = false;
+        expired.push(record.nodeId);
+        this.emit({ type: 'node_updated', node: { ...record } });
+      }
+    });
+
+    return expired;
+  }
+
+  /**
+   * Get a single node
+   */
+  public get(nodeId: string): NodeRecord | null {
+    const record = this.nodes.get(nodeId);
+    return record ? { ...record } : null;
+  }
+
+  /**
+   * List all nodes
+   */
+  public list(): NodeRecord[] {
+    return Array.from(this.nodes.values()).map((record) => ({ ...record }));
+  }
+
+  /**
+   * List nodes currently available for worker tasks
+   */
+  public listAvailable(): NodeRecord[] {
+    return this.list().filter((record) => record.online && record.available);
+  }
+
+  /**
+   * Register a listener for registry changes
+   */
+  public onChange(listener: NodeRegistryListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Unregister a registry change listener
+   */
+  public offChange(listener: NodeRegistryListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private emit(message: CoordinationMessage): void {
+    this.listeners.forEach((listener) => listener(message));
+  }
+}
+
+/**
+ * Error carrying an HTTP status for request handling
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Coordination Server - HTTP API plus WebSocket feed on top of NodeRegistry
+ *
+ * @remarks
+ * HTTP routes:
+ * - `GET    /health`
+ * - `GET    /nodes`
+ * - `GET    /nodes/:id`
+ * - `POST   /nodes`                (register, body: NodeRegistration)
+ * - `DELETE /nodes/:id`
+ * - `POST   /nodes/:id/heartbeat`
+ * - `POST   /nodes/:id/events`     (body: { event, available })
+ * - `GET    /nodes/:id/tasks`      (tasks leased to the node)
+ * - `GET    /nodes/:id/upcoming`   (tasks likely leased next, query: limit)
+ * - `POST   /nodes/:id/handoff`    (return leased tasks, body: { taskIds? })
+ * - `GET    /nodes/:id/audit-head` (head of the node's audit log, null if none)
+ * - `PUT    /nodes/:id/audit-head` (move it forward, body: AuditCheckpoint)
+ * - `GET    /jobs`
+ * - `GET    /jobs/:id`
+ * - `POST   /jobs`                 (submit, body: JobSpec)
+ * - `DELETE /jobs/:id`             (cancel)
+ * - `POST   /tasks/:id/complete`   (body: { nodeId })
+ * - `POST   /tasks/:id/fail`       (body: { nodeId, error? })
+ * - `POST   /tasks/:id/progress`   (body: { nodeId, progress })
+ *
+ * WebSocket `/ws` pushes every registry, job and assignment change as a
+ * CoordinationMessage and accepts `{ type: 'heartbeat', nodeId }` messages.
+ *
+ * Audit heads are kept whether or not the node is registered, and refused
+ * with 409 if they move back.
+ */
+export class CoordinationServer {
+  private config: CoordinationServerConfig;
+  private registry: NodeRegistry;
+  private queue: JobQueue;
+  private scheduler: JobScheduler;
+  private auditHeads: Map<string, AuditCheckpoint> = new Map();
+  private httpServer: http.Server | null = null;
+  private wsServer: WebSocketServer | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private broadcast = (message: CoordinationMessage): void => {
+    const data = JSON.stringify(message);
+    this.wsServer?.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  };
+  private handleRegistryChange = (message: CoordinationMessage): void => {
+    this.broadcast(message);
+
+    // Tasks held by a node that disappeared go back to the queue
+    if (message.type === 'node_removed') {
+      this.queue.releaseTasks(message.nodeId);
+    } else if (message.type === 'node_updated' && !message.node.online) {
+      this.queue.releaseTasks(message.node.nodeId);
+    }
+    this.scheduler.schedule();
+  };
+
+  constructor(config: Partial<CoordinationServerConfig> = {}) {
+    this.config = { ...DEFAULT_COORDINATION_SERVER_CONFIG, ...config };
+    this.registry = new NodeRegistry(this.config.heartbeatTimeout);
+    this.queue = new JobQueue();
+    this.scheduler = new JobScheduler(this.queue, this.registry, this.config.scheduler);
+
+    this.queue.onChange((job) => this.broadcast({ type: 'job_updated', job }));
+    this.scheduler.onAssign((nodeId, task) =>
+      this.broadcast({ type: 'task_assigned', nodeId, task })
+    );
+  }
+
+  /**
+   * Get the underlying node registry
+   */
+  public getRegistry(): NodeRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Get the underlying job queue
+   */
+  public getQueue(): JobQueue {
+    return this.queue;
+  }
+
+  /**
+   * Get the task scheduler
+   */
+  public getScheduler(): JobScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The address actually bound
+   */
+  public async start(): Promise<AddressInfo> {
+    if (this.httpServer) {
+      return this.httpServer.address() as AddressInfo;
+    }
+
+    const httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        sendJson(res, status, { error: message });
+      });
+    });
+    const wsServer = new WebSocketServer({ server: httpServer, path: '/ws' });
+
+    wsServer.on('connection', (socket) => {
+      socket.on('message', (data) => this.handleSocketMessage(data.toString()));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.port, this.config.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.wsServer = wsServer;
+    this.registry.onChange(this.handleRegistryChange);
+    this.sweepTimer = setInterval(() => this.registry.sweep(), this.config.sweepInterval);
+    this.scheduler.start();
+
+    return httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Stop listening and close all WebSocket connections
+   */
+  public async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.scheduler.stop();
+    this.registry.offChange(this.handleRegistryChange);
+
+    if (this.wsServer) {
+      this.wsServer.clients.forEach((client) => client.terminate());
+      this.wsServer.close();
+      this.wsServer = null;
+    }
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = req.method ?? 'GET';
+
+    if (method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, {
+        status: 'ok',
+        nodes: this.registry.list().length,
+        jobs: this.queue.listJobs().length,
+      });
+      return;
+    }
+
+    switch (segments[0]) {
+      case 'nodes':
+        return this.handleNodeRequest(method, segments.slice(1), req, res);
+      case 'jobs':
+        return this.handleJobRequest(method, segments.slice(1), req, res);
+      case 'tasks':
+        return this.handleTaskRequest(method, segments.slice(1), req, res);
+      default:
+        throw new HttpError(404, `Unknown route: ${method} ${url.pathname}`);
+    }
+  }
+
+  private async handleNodeRequest(
+    method: string,
+    [nodeId, action]: string[],
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (!nodeId) {
+      if (method === 'GET') {
+        sendJson(res, 200, this.registry.list());
+        return;
+      }
+      if (method === 'POST') {
+        const registration = parseRegistration(await readJson(req));
+        sendJson(res, 201, this.registry.register(registration));
+        return;
+      }
+    } else if (!action) {
+      if (method === 'GET') {
+        sendJson(res, 200, this.requireNode(this.registry.get(nodeId), nodeId));
+        return;
+      }
+      if (method === 'DELETE') {
+        if (!this.registry.unregister(nodeId)) {
+          throw new HttpError(404, `Unknown node: ${nodeId}`);
+        }
+        sendJson(res, 200, { nodeId });
+        return;
+      }
+    } else if (method === 'POST' && action === 'heartbeat') {
+      sendJson(res, 200, this.requireNode(this.registry.heartbeat(nodeId), nodeId));
+      return;
+    } else if (method === 'POST' && action === 'events') {
+      const { event, available } = parseEvent(await readJson(req));
+      const record = this.attempt(() => this.registry.applyEvent(nodeId, event, available));
+      sendJson(res, 200, this.requireNode(record, nodeId));
+      return;
+    } else if (method === 'GET' && action === 'tasks') {
+      sendJson(res, 200, this.queue.listAssignedTasks(nodeId));
+      return;
+    } else if (method === 'GET' && action === 'upcoming') {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const limit = parseLimit(url.searchParams.get('limit'));
+      sendJson(res, 200, this.scheduler.preview(nodeId, limit));
+      return;
+    } else if (method === 'POST' && action === 'handoff') {
+      const { taskIds } = parseHandoff(await readJson(req));
+      sendJson(res, 200, this.handOff(nodeId, taskIds));
+      return;
+    } else if (method === 'GET' && action === 'audit-head') {
+      sendJson(res, 200, this.auditHeads.get(nodeId) ?? null);
+      return;
+    } else if (method === 'PUT' && action === 'audit-head') {
+      const head = parseAuditHead(await readJson(req));
+      this.attempt(() => assertAuditHeadAdvances(this.auditHeads.get(nodeId) ?? null, head));
+      this.auditHeads.set(nodeId, head);
+      sendJson(res, 200, head);
+      return;
+    }
+
+    throw new HttpError(405, `Unsupported route: ${method} /nodes/${nodeId ?? ''}`);
+  }
+
+  private async handleJobRequest(
+    method: string,
+    [jobId]: string[],
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (!jobId) {
+      if (method === 'GET') {
+        sendJson(res, 200, this.queue.listJobs());
+        return;
+      }
+      if (method === 'POST') {
+        const spec = parseJobSpec(await readJson(req));
+        sendJson(res, 201, this.attempt(() => this.queue.submit(spec)));
+        this.scheduler.schedule();
+        return;
+      }
+    } else {
+      if (method === 'GET') {
+        const job = this.queue.getJob(jobId);
+        if (!job) {
+          throw new HttpError(404, `Unknown job: ${jobId}`);
+        }
+        sendJson(res, 200, job);
+        return;
+      }
+      if (method === 'DELETE') {
+        sendJson(res, 200, this.attempt(() => this.queue.cancelJob(jobId)));
+        return;
+      }
+    }
+
+    throw new HttpError(405, `Unsupported route: ${method} /jobs/${jobId ?? ''}`);
+  }
+
+  private async handleTaskRequest(
+    method: string,
+    [taskId, action]: string[],
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (method !== 'POST' || !taskId) {
+      throw new HttpError(405, `Unsupported route: ${method} /tasks/${taskId ?? ''}`);
+    }
+
+    const { nodeId, progress, error } = await readJson(req);
+    if (typeof nodeId !== 'string') {
+      throw new HttpError(400, 'nodeId must be a string');
+    }
+
+    switch (action) {
+      case 'progress':
+        if (typeof progress !== 'number') {
+          throw new HttpError(400, 'progress must be a number');
+        }
+        sendJson(
+          res,
+          200,
+          this.attempt(() => this.queue.updateProgress(taskId, nodeId, progress))
+        );
+        return;
+      case 'complete':
+        sendJson(res, 200, this.attempt(() => this.queue.completeTask(taskId, nodeId)));
+        break;
+      case 'fail':
+        if (typeof error === 'string') {
+          console.warn(`Task ${taskId} failed on ${nodeId}: ${error}`);
+        }
+        sendJson(res, 200, this.attempt(() => this.queue.failTask(taskId, nodeId)));
+        break;
+      default:
+        throw new HttpError(405, `Unsupported route: ${method} /tasks/${taskId}/${action ?? ''}`);
+    }
+
+    this.scheduler.schedule();
+  }
+
+  /**
+   * Take back tasks leased to a node, reassign them and build the
+   * acknowledgement
+   *
+   * @remarks
+   * The node is marked unavailable first so that its own tasks are never
+   * handed straight back to it.
+   */
+  private handOff(nodeId: string, taskIds?: string[]): HandoffAck {
+    if (this.registry.get(nodeId)?.available) {
+      this.registry.applyEvent(nodeId, 'worker_available', false);
+    }
+
+    const released = this.queue.releaseTasks(nodeId, taskIds);
+    this.scheduler.schedule();
+
+    const requested = taskIds ?? released.map((task) => task.id);
+    const ack: HandoffAck = {
+      nodeId,
+      tasks: requested.map((taskId) => {
+        const task = this.queue.getTask(taskId);
+        if (!task || !released.some((releasedTask) => releasedTask.id === taskId)) {
+          const holder = task?.status === 'assigned' ? task.assignedTo : null;
+          return { taskId, outcome: 'not_leased', assignedTo: holder };
+        }
+        return task.status === 'assigned'
+          ? { taskId, outcome: 'reassigned', assignedTo: task.assignedTo }
+          : { taskId, outcome: 'queued', assignedTo: null };
+      }),
+      remaining: this.queue
+        .listAssignedTasks(nodeId)
+        .map((task) => task.id)
+        .filter((taskId) => !taskIds || taskIds.includes(taskId)),
+    };
+
+    this.broadcast({ type: 'tasks_handed_off', ack });
+    return ack;
+  }
+
+  /**
+   * Run a queue or registry operation, mapping its errors to 409 Conflict
+   */
+  private attempt<T>(operation: () => T): T {
+    try {
+      return operation();
+    } catch (error) {
+      throw new HttpError(409, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private handleSocketMessage(data: string): void {
+    let message: NodeMessage;
+    try {
+      message = JSON.parse(data) as NodeMessage;
+    } catch {
+      return;
+    }
+
+    if (message.type === 'heartbeat' && typeof message.nodeId === 'string') {
+      this.registry.heartbeat(message.nodeId);
+    }
+  }
+
+  private requireNode(record: NodeRecord | null, nodeId: string): NodeRecord {
+    if (!record) {
+      throw new HttpError(404, `Unknown node: ${nodeId}`);
+    }
+    return record;
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (!body || typeof body !== 'object') {
+      throw new Error('not an object');
+    }
+    return body;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+function parseRegistration(body: Record<string, unknown>): NodeRegistration {
+  const { nodeId, hostname, mode } = body;
+
+  if (typeof nodeId !== 'string' || nodeId === '') {
+    throw new HttpError(400, 'nodeId must be a non-empty string');
+  }
+  if (typeof hostname !== 'string') {
+    throw new HttpError(400, 'hostname must be a string');
+  }
+  if (!NODE_MODES.includes(mode as NodeMode)) {
+    throw new HttpError(400, `mode must be one of ${NODE_MODES.join(', ')}`);
+  }
+
+  return { nodeId, hostname, mode: mode as NodeMode };
+}
+
+function parseEvent(body: Record<string, unknown>): {
+  event: CoordinationEvent;
+  available: boolean;
+} {
+  const { event, available } = body;
+
+  if (!COORDINATION_EVENTS.includes(event as CoordinationEvent)) {
+    throw new HttpError(400, `event must be one of ${COORDINATION_EVENTS.join(', ')}`);
+  }
+  if (typeof available !== 'boolean') {
+    throw new HttpError(400, 'available must be a boolean');
+  }
+
+  return { event: event as CoordinationEvent, available };
+}
+
+function parseHandoff(body: Record<string, unknown>): { taskIds?: string[] } {
+  const { taskIds } = body;
+
+  if (
+    taskIds !== undefined &&
+    (!Array.isArray(taskIds) || !taskIds.every((taskId) => typeof taskId === 'string'))
+  ) {
+    throw new HttpError(400, 'taskIds must be an array of strings');
+  }
+
+  return { taskIds };
+}
+
+function parseAuditHead(body: Record<string, unknown>): AuditCheckpoint {
+  const { seq, hash } = body;
+
+  if (typeof seq !== 'number' || !Number.isInteger(seq) || seq < 0) {
+    throw new HttpError(400, 'seq must be a non-negative integer');
+  }
+  if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/.test(hash)) {
+    throw new HttpError(400, 'hash must be a SHA-256 hex digest');
+  }
+
+  return { seq, hash };
+}
+
+function parseLimit(value: string | null): number {
+  if (value === null) {
+    return 1;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new HttpError(400, 'limit must be a non-negative integer');
+  }
+  return limit;
+}
+
+function parseJobSpec(body: Record<string, unknown>): JobSpec {
+  const { id, type, priority, owner, tasks } = body;
+
+  if (id !== undefined && typeof id !== 'string') {
+    throw new HttpError(400, 'id must be a string');
+  }
+  if (typeof type !== 'string' || type === '') {
+    throw new HttpError(400, 'type must be a non-empty string');
+  }
+  if (priority !== undefined && typeof priority !== 'number') {
+    throw new HttpError(400, 'priority must be a number');
+  }
+  if (typeof owner !== 'string' || owner === '') {
+    throw new HttpError(400, 'owner must be a non-empty string');
+  }
+  if (!Array.isArray(tasks)) {
+    throw new HttpError(400, 'tasks must be an array');
+  }
+
+  return { id, type, priority, owner, tasks };
+}
+
+// Run the server if this is the entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const server = new CoordinationServer({
+    port: Number(process.env.PORT ?? DEFAULT_COORDINATION_SERVER_CONFIG.port),
+    host: process.env.HOST ?? DEFAULT_COORDINATION_SERVER_CONFIG.host,
+    heartbeatTimeout: Number(
+      process.env.HEARTBEAT_TIMEOUT ?? DEFAULT_COORDINATION_SERVER_CONFIG.heartbeatTimeout
+    ),
+  });
+
+  server
+    .start()
+    .then((address) => {
+      console.log(
+        `Coordination service listening on http://${address.address}:${address.port}`
+      );
+    })
+    .catch((error) => {
+      console.error('Error:', error);
+      process.exit(1);
+    });
+
+  const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
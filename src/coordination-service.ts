@@ -0,0 +1,710 @@
+/**
+ * Coordination Service Client
+ *
+ * Typed client used by the mode switchers to announce node registration,
+ * availability changes and heartbeats to the coordination service.
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature (FR-2.2.4)
+ * @see src/coordination-server.ts for the reference server
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { Job, Task } from './job-queue';
+import { isWorkerMode, TaskSource } from './worker-service';
+import { AuditCheckpoint, AuditHeadStore, assertAuditHeadAdvances } from './audit-log';
+
+/**
+ * Availability events a node can announce
+ *
+ * - `worker_available`: the node accepts (or stops accepting) worker tasks
+ * - `worker_soon_available`: the node is in warm standby and expects to
+ *   become a worker shortly; it receives no tasks yet
+ * - `worker_shared`: the node accepts worker tasks on capped resources
+ *   while its user is active
+ * - `worker_draining`: the node finishes its leased tasks but accepts no
+ *   new ones
+ * - `node_maintenance`: the node is under maintenance and excluded from
+ *   scheduling
+ * - `node_offline`: the node has been taken out of the cluster
+ *
+ * Announcing any event with `available: false` returns the node to
+ * `active_master`.
+ */
+export type CoordinationEvent =
+  | 'worker_available'
+  | 'worker_soon_available'
+  | 'worker_shared'
+  | 'worker_draining'
+  | 'node_maintenance'
+  | 'node_offline';
+
+/**
+ * Registration payload sent by a node
+ */
+export interface NodeRegistration {
+  /** Unique node identifier */
+  nodeId: string;
+  /** Human readable host name */
+  hostname: string;
+  /** Mode the node is currently in */
+  mode: NodeMode;
+}
+
+/**
+ * Node as tracked by the coordination service
+ */
+export interface NodeRecord extends NodeRegistration {
+  /** Whether the node accepts worker tasks */
+  available: boolean;
+  /** Whether the node is in warm standby, about to accept worker tasks */
+  soonAvailable: boolean;
+  /** Whether the node has sent a heartbeat recently */
+  online: boolean;
+  /** Registration time (epoch milliseconds) */
+  registeredAt: number;
+  /** Last heartbeat time (epoch milliseconds) */
+  lastHeartbeat: number;
+}
+
+/**
+ * What happened to a task a node handed back
+ *
+ * - `reassigned`: leased to another worker
+ * - `queued`: back in the queue, waiting for a worker
+ * - `not_leased`: the node no longer held the task (finished or already moved)
+ */
+export type HandoffOutcome = 'reassigned' | 'queued' | 'not_leased';
+
+/**
+ * Acknowledgement for a single handed-off task
+ */
+export interface HandoffTaskResult {
+  /** Task ID */
+  taskId: string;
+  /** What the coordination service did with the task */
+  outcome: HandoffOutcome;
+  /** Node now holding the task, if any */
+  assignedTo: string | null;
+}
+
+/**
+ * Acknowledgement returned by the coordination service for a task handoff
+ */
+export interface HandoffAck {
+  /** Node that handed its tasks back */
+  nodeId: string;
+  /** Per-task results */
+  tasks: HandoffTaskResult[];
+  /** Handed-off tasks still leased to the node (empty when complete) */
+  remaining: string[];
+}
+
+/**
+ * Messages pushed by the coordination service over WebSocket
+ */
+export type CoordinationMessage =
+  | { type: 'node_updated'; node: NodeRecord }
+  | { type: 'node_removed'; nodeId: string }
+  | { type: 'job_updated'; job: Job }
+  | { type: 'task_assigned'; nodeId: string; task: Task }
+  | { type: 'tasks_handed_off'; ack: HandoffAck };
+
+/**
+ * Messages a node may send over WebSocket
+ */
+export type NodeMessage = { type: 'heartbeat'; nodeId: string };
+
+/**
+ * Listener for messages pushed by the coordination service
+ */
+export type CoordinationMessageListener = (message: CoordinationMessage) => void;
+
+/**
+ * Interface for the coordination service as seen by a node
+ *
+ * @remarks
+ * The service also keeps the head of the node's audit log, apart from the
+ * records in the node's own storage.
+ */
+export interface CoordinationClient extends AuditHeadStore {
+  /** Register this node with the coordination service */
+  register(mode: NodeMode): Promise<void>;
+
+  /** Remove this node from the coordination service */
+  unregister(): Promise<void>;
+
+  /** Announce an availability change */
+  notify(event: CoordinationEvent, available: boolean): Promise<void>;
+
+  /** Send a heartbeat */
+  heartbeat(): Promise<void>;
+
+  /**
+   * Get this node as the coordination service sees it
+   *
+   * @returns The node record, or null if the service does not know the node
+   */
+  getNodeRecord(): Promise<NodeRecord | null>;
+
+  /**
+   * Return leased tasks to the coordination service for reassignment
+   *
+   * @param taskIds - Tasks to hand off (defaults to every task leased to this node)
+   * @returns Acknowledgement accounting for each task
+   */
+  handOffTasks(taskIds?: string[]): Promise<HandoffAck>;
+
+  /**
+   * Preview the tasks this node would most likely be leased next
+   *
+   * @param limit - Maximum number of tasks to return
+   */
+  getUpcomingTasks(limit: number): Promise<Task[]>;
+
+  /** Fetch the tasks currently leased to this node */
+  fetchAssignedTasks(): Promise<Task[]>;
+}
+
+/**
+ * Configuration for the HTTP coordination client
+ */
+export interface HttpCoordinationClientConfig {
+  /** Base URL of the coordination service, e.g. http://localhost:7400 */
+  baseUrl: string;
+  /** Unique node identifier */
+  nodeId: string;
+  /** Host name reported on registration */
+  hostname: string;
+  /** Interval between automatic heartbeats (milliseconds) */
+  heartbeatInterval: number;
+  /** Timeout for a single request (milliseconds) */
+  requestTimeout: number;
+}
+
+/**
+ * Default configuration for the HTTP coordination client
+ */
+export const DEFAULT_COORDINATION_CLIENT_CONFIG: Omit<
+  HttpCoordinationClientConfig,
+  'nodeId' | 'hostname'
+> = {
+  baseUrl: 'http://localhost:7400',
+  heartbeatInterval: 5000, // 5 seconds
+  requestTimeout: 2000, // 2 seconds
+};
+
+/**
+ * Minimal WebSocket surface used by the client, satisfied by both the
+ * browser WebSocket and the `ws` package
+ */
+export interface CoordinationSocket {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: (() => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/**
+ * Factory for opening a WebSocket connection
+ */
+export type CoordinationSocketFactory = (url: string) => CoordinationSocket;
+
+/**
+ * Error raised when the coordination service rejects a request
+ */
+export class CoordinationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'CoordinationError';
+  }
+}
+
+/**
+ * HTTP Coordination Client - talks to the coordination service REST API
+ * and optionally subscribes to its WebSocket feed. Also serves as the
+ * worker's source of leased tasks.
+ */
+export class HttpCoordinationClient implements CoordinationClient, TaskSource {
+  private config: HttpCoordinationClientConfig;
+  private fetchFn: typeof fetch;
+  private socketFactory: CoordinationSocketFactory | null;
+  private socket: CoordinationSocket | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private registeredMode: NodeMode | null = null;
+  private messageListeners: Set<CoordinationMessageListener> = new Set();
+
+  constructor(
+    config: Partial<HttpCoordinationClientConfig> &
+      Pick<HttpCoordinationClientConfig, 'nodeId' | 'hostname'>,
+    options: {
+      fetch?: typeof fetch;
+      socketFactory?: CoordinationSocketFactory;
+    } = {}
+  ) {
+    this.config = { ...DEFAULT_COORDINATION_CLIENT_CONFIG, ...config };
+    this.fetchFn = options.fetch ?? globalThis.fetch.bind(globalThis);
+    this.socketFactory = options.socketFactory ?? defaultSocketFactory();
+  }
+
+  /**
+   * Get the node ID this client reports as
+   */
+  public getNodeId(): string {
+    return this.config.nodeId;
+  }
+
+  /**
+   * Register this node and start sending heartbeats
+   */
+  public async register(mode: NodeMode): Promise<void> {
+    const registration: NodeRegistration = {
+      nodeId: this.config.nodeId,
+      hostname: this.config.hostname,
+      mode,
+    };
+
+    await this.request('POST', '/nodes', registration);
+    this.registeredMode = mode;
+    this.startHeartbeat();
+  }
+
+  /**
+   * Stop heartbeats and remove this node from the service
+   */
+  public async unregister(): Promise<void> {
+    this.stopHeartbeat();
+    this.disconnect();
+
+    if (this.registeredMode === null) {
+      return;
+    }
+
+    this.registeredMode = null;
+    await this.request('DELETE', `/nodes/${encodeURIComponent(this.config.nodeId)}`);
+  }
+
+  /**
+   * Announce an availability change, registering first if needed
+   */
+  public async notify(event: CoordinationEvent, available: boolean): Promise<void> {
+    if (this.registeredMode === null) {
+      await this.register(eventMode(event, available));
+    }
+
+    try {
+      await this.postEvent(event, available);
+    } catch (error) {
+      // The service forgets nodes on restart; register again and retry once
+      if (error instanceof CoordinationError && error.status === 404) {
+        await this.register(this.registeredMode ?? 'active_master');
+        await this.postEvent(event, available);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a single heartbeat
+   */
+  public async heartbeat(): Promise<void> {
+    await this.request(
+      'POST',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/heartbeat`
+    );
+  }
+
+  /**
+   * Get the head of this node's audit log kept by the service
+   */
+  public async readAuditHead(): Promise<AuditCheckpoint | null> {
+    return (await this.request(
+      'GET',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/audit-head`
+    )) as AuditCheckpoint | null;
+  }
+
+  /**
+   * Move the head of this node's audit log kept by the service forward
+   *
+   * @throws CoordinationError with status 409 if the head is behind the one kept
+   */
+  public async writeAuditHead(head: AuditCheckpoint): Promise<void> {
+    await this.request(
+      'PUT',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/audit-head`,
+      head
+    );
+  }
+
+  /**
+   * Get this node as the coordination service sees it
+   */
+  public async getNodeRecord(): Promise<NodeRecord | null> {
+    try {
+      return (await this.request(
+        'GET',
+        `/nodes/${encodeURIComponent(this.config.nodeId)}`
+      )) as NodeRecord;
+    } catch (error) {
+      if (error instanceof CoordinationError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Return leased tasks to the coordination service for reassignment
+   *
+   * @remarks
+   * Idempotent: handing off tasks that were already moved reports them as
+   * `not_leased`, so a failed handoff can simply be retried.
+   */
+  public async handOffTasks(taskIds?: string[]): Promise<HandoffAck> {
+    return (await this.request(
+      'POST',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/handoff`,
+      taskIds === undefined ? {} : { taskIds }
+    )) as HandoffAck;
+  }
+
+  /**
+   * Preview the tasks this node would most likely be leased next
+   */
+  public async getUpcomingTasks(limit: number): Promise<Task[]> {
+    return (await this.request(
+      'GET',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/upcoming?limit=${limit}`
+    )) as Task[];
+  }
+
+  /**
+   * List all nodes known to the coordination service
+   */
+  public async listNodes(): Promise<NodeRecord[]> {
+    return (await this.request('GET', '/nodes')) as NodeRecord[];
+  }
+
+  /**
+   * Fetch the tasks currently leased to this node
+   */
+  public async fetchAssignedTasks(): Promise<Task[]> {
+    return (await this.request(
+      'GET',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/tasks`
+    )) as Task[];
+  }
+
+  /**
+   * Report progress of a leased task
+   */
+  public async reportProgress(taskId: string, progress: number): Promise<void> {
+    await this.request('POST', `/tasks/${encodeURIComponent(taskId)}/progress`, {
+      nodeId: this.config.nodeId,
+      progress,
+    });
+  }
+
+  /**
+   * Report completion of a leased task
+   */
+  public async completeTask(taskId: string): Promise<void> {
+    await this.request('POST', `/tasks/${encodeURIComponent(taskId)}/complete`, {
+      nodeId: this.config.nodeId,
+    });
+  }
+
+  /**
+   * Report failure of a leased task
+   */
+  public async failTask(taskId: string, error: string): Promise<void> {
+    await this.request('POST', `/tasks/${encodeURIComponent(taskId)}/fail`, {
+      nodeId: this.config.nodeId,
+      error,
+    });
+  }
+
+  /**
+   * Subscribe to messages pushed by the coordination service
+   *
+   * @remarks
+   * Opens the WebSocket connection on first subscription. Does nothing if
+   * no WebSocket implementation is available.
+   */
+  public onMessage(listener: CoordinationMessageListener): void {
+    this.messageListeners.add(listener);
+    this.connect();
+  }
+
+  /**
+   * Unsubscribe from pushed messages
+   */
+  public offMessage(listener: CoordinationMessageListener): void {
+    this.messageListeners.delete(listener);
+
+    if (this.messageListeners.size === 0) {
+      this.disconnect();
+    }
+  }
+
+  private async postEvent(event: CoordinationEvent, available: boolean): Promise<void> {
+    await this.request(
+      'POST',
+      `/nodes/${encodeURIComponent(this.config.nodeId)}/events`,
+      { event, available }
+    );
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer || this.config.heartbeatInterval <= 0) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[CoordinationClient] Heartbeat failed: ${errorMessage}`);
+      });
+    }, this.config.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private connect(): void {
+    if (this.socket || !this.socketFactory) {
+      return;
+    }
+
+    const url = `${this.config.baseUrl.replace(/^http/, 'ws')}/ws`;
+    const socket = this.socketFactory(url);
+
+    socket.onmessage = (event) => {
+      let message: CoordinationMessage;
+      try {
+        message = JSON.parse(String(event.data)) as CoordinationMessage;
+      } catch {
+        return;
+      }
+      this.messageListeners.forEach((listener) => listener(message));
+    };
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+    };
+
+    this.socket = socket;
+  }
+
+  private disconnect(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.requestTimeout);
+
+    try {
+      const response = await this.fetchFn(`${this.config.baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      const payload = text ? JSON.parse(text) : null;
+
+      if (!response.ok) {
+        const message =
+          payload && typeof payload.error === 'string'
+            ? payload.error
+            : `${method} ${path} failed with status ${response.status}`;
+        throw new CoordinationError(message, response.status);
+      }
+
+      return payload;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Mode a node announcing an availability event is in
+ */
+export function eventMode(event: CoordinationEvent, available: boolean): NodeMode {
+  if (!available) {
+    return 'active_master';
+  }
+  switch (event) {
+    case 'worker_available':
+      return 'idle_worker';
+    case 'worker_soon_available':
+      return 'standby';
+    case 'worker_shared':
+      return 'shared_worker';
+    case 'worker_draining':
+      return 'draining';
+    case 'node_maintenance':
+      return 'maintenance';
+    case 'node_offline':
+      return 'offline';
+  }
+}
+
+/**
+ * Availability event announcing a mode, the inverse of `eventMode()`
+ */
+export function modeEvent(mode: NodeMode): [CoordinationEvent, boolean] {
+  switch (mode) {
+    case 'active_master':
+      return ['worker_available', false];
+    case 'standby':
+      return ['worker_soon_available', true];
+    case 'idle_worker':
+      return ['worker_available', true];
+    case 'shared_worker':
+      return ['worker_shared', true];
+    case 'draining':
+      return ['worker_draining', true];
+    case 'maintenance':
+      return ['node_maintenance', true];
+    case 'offline':
+      return ['node_offline', true];
+  }
+}
+
+/**
+ * Use the global WebSocket when the runtime provides one
+ */
+function defaultSocketFactory(): CoordinationSocketFactory | null {
+  const ctor = (globalThis as { WebSocket?: new (url: string) => CoordinationSocket })
+    .WebSocket;
+  return ctor ? (url) => new ctor(url) : null;
+}
+
+/**
+ * Mock implementation of CoordinationClient for testing and demo
+ */
+export class MockCoordinationClient implements CoordinationClient {
+  private registered: boolean = false;
+  private notifications: Array<{ event: CoordinationEvent; available: boolean }> = [];
+  private leasedTasks: string[] = [];
+  private upcomingTasks: Task[] = [];
+  private handoffs: HandoffAck[] = [];
+  private auditHead: AuditCheckpoint | null = null;
+
+  async register(_mode: NodeMode): Promise<void> {
+    this.registered = true;
+  }
+
+  async unregister(): Promise<void> {
+    this.registered = false;
+  }
+
+  async notify(event: CoordinationEvent, available: boolean): Promise<void> {
+    console.log(`[CoordinationService] ${event}: ${available}`);
+    this.registered = true;
+    this.notifications.push({ event, available });
+  }
+
+  async heartbeat(): Promise<void> {
+    // Mock: nothing to report
+  }
+
+  async getNodeRecord(): Promise<NodeRecord | null> {
+    if (!this.registered) {
+      return null;
+    }
+
+    const last = this.notifications[this.notifications.length - 1];
+    const mode = last ? eventMode(last.event, last.available) : 'active_master';
+    return {
+      nodeId: 'mock',
+      hostname: 'mock',
+      mode,
+      available: isWorkerMode(mode),
+      soonAvailable: mode === 'standby',
+      online: true,
+      registeredAt: 0,
+      lastHeartbeat: 0,
+    };
+  }
+
+  async handOffTasks(taskIds?: string[]): Promise<HandoffAck> {
+    const requested = taskIds ?? this.leasedTasks;
+    const ack: HandoffAck = {
+      nodeId: 'mock',
+      tasks: requested.map((taskId) => ({
+        taskId,
+        outcome: this.leasedTasks.includes(taskId) ? 'queued' : 'not_leased',
+        assignedTo: null,
+      })),
+      remaining: [],
+    };
+
+    this.leasedTasks = this.leasedTasks.filter((taskId) => !requested.includes(taskId));
+    this.handoffs.push(ack);
+    return ack;
+  }
+
+  async getUpcomingTasks(limit: number): Promise<Task[]> {
+    return this.upcomingTasks.slice(0, limit);
+  }
+
+  async readAuditHead(): Promise<AuditCheckpoint | null> {
+    return this.auditHead && { ...this.auditHead };
+  }
+
+  async writeAuditHead(head: AuditCheckpoint): Promise<void> {
+    assertAuditHeadAdvances(this.auditHead, head);
+    this.auditHead = { ...head };
+  }
+
+  async fetchAssignedTasks(): Promise<Task[]> {
+    return this.leasedTasks.map((taskId) => ({
+      id: taskId,
+      jobId: taskId.split(':')[0],
+      status: 'assigned',
+      assignedTo: 'mock',
+      attempts: 1,
+      progress: 0,
+      payload: null,
+    }));
+  }
+
+  // Test helpers
+  isRegistered(): boolean {
+    return this.registered;
+  }
+
+  setLeasedTasks(taskIds: string[]): void {
+    this.leasedTasks = [...taskIds];
+  }
+
+  setUpcomingTasks(tasks: Task[]): void {
+    this.upcomingTasks = [...tasks];
+  }
+
+  getHandoffs(): HandoffAck[] {
+    return [...this.handoffs];
+  }
+
+  getNotifications(): Array<{ event: CoordinationEvent; available: boolean }> {
+    return [...this.notifications];
+  }
+}
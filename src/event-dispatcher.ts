@@ -0,0 +1,301 @@
+/**
+ * Event Dispatcher
+ *
+ * Delivers events to registered listeners with guarantees the bare
+ * `Promise.all` over a listener set does not give:
+ * - A throwing or rejecting listener is logged and does not affect the
+ *   other listeners or whoever emitted the event
+ * - Listeners run in priority order, highest first, then in order of
+ *   registration
+ * - Delivery is either parallel (all started in order, awaited together)
+ *   or serial (each awaited before the next starts)
+ * - Listeners still running after a threshold are reported as slow
+ * - A listener that hangs is only waited for up to a timeout; it keeps
+ *   receiving events in order once it settles
+ * - Events can also be consumed as an `AsyncIterable`
+ *
+ * @see src/transition-pipeline.ts for the mode change events
+ */
+
+import { Clock, systemClock } from './clock';
+
+/**
+ * How an event reaches its listeners
+ *
+ * - `parallel`: every listener is started in order, then all are awaited
+ * - `serial`: each listener is awaited before the next one is started
+ */
+export type DeliveryMode = 'parallel' | 'serial';
+
+/**
+ * Configuration for an event dispatcher
+ */
+export interface EventDispatcherConfig {
+  /** How events reach the listeners */
+  delivery: DeliveryMode;
+  /** Time after which a running listener is reported as slow (milliseconds, 0 = never) */
+  slowListenerThreshold: number;
+  /** Time `emit()` waits for each listener (milliseconds, 0 = until it settles) */
+  listenerTimeout: number;
+  /** Events buffered per subscription before the oldest are dropped */
+  subscriptionBufferSize: number;
+}
+
+/**
+ * Default configuration for an event dispatcher
+ */
+export const DEFAULT_EVENT_DISPATCHER_CONFIG: EventDispatcherConfig = {
+  delivery: 'parallel',
+  slowListenerThreshold: 1000, // 1 second
+  listenerTimeout: 500, // well inside the 2 second reclaim of FR-2.2.4
+  subscriptionBufferSize: 100,
+};
+
+/**
+ * Options for registering a listener
+ */
+export interface ListenerOptions {
+  /** Higher priorities are called first (default 0) */
+  priority?: number;
+}
+
+/**
+ * Options for an `AsyncIterable` subscription
+ */
+export interface SubscriptionOptions {
+  /** Ends the subscription */
+  signal?: AbortSignal;
+}
+
+/**
+ * A listener for events with the given arguments
+ */
+type Listener<Args extends unknown[]> = (...args: Args) => void | Promise<void>;
+
+/**
+ * A registered listener
+ */
+interface Registration<Args extends unknown[]> {
+  listener: Listener<Args>;
+  priority: number;
+  order: number;
+  /** Settles once every event delivered so far has been handled */
+  queue: Promise<void>;
+  /** Deliveries not yet handled */
+  pending: number;
+  /** Whether a delivery outlasted `listenerTimeout` and is still running */
+  overdue: boolean;
+}
+
+/**
+ * Event Dispatcher - Isolated, ordered delivery of one kind of event
+ *
+ * @remarks
+ * `emit()` resolves once every listener has settled, or has run for
+ * `listenerTimeout`, and never rejects. Each listener gets its events one
+ * at a time and in order: events for a listener that is still busy are
+ * queued, and `emit()` does not wait for a listener that has already run
+ * past the timeout. Registering a listener that is already registered
+ * only updates its priority. Listeners added or removed during an emit
+ * take effect from the next emit.
+ */
+export class EventDispatcher<Args extends unknown[]> {
+  private config: EventDispatcherConfig;
+  private registrations: Map<Listener<Args>, Registration<Args>> = new Map();
+  private nextOrder: number = 0;
+
+  /**
+   * @param name - Name used in logs
+   * @param clock - Time source of the timeouts and slow listener reports
+   */
+  constructor(
+    private name: string,
+    config: Partial<EventDispatcherConfig> = {},
+    private clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_EVENT_DISPATCHER_CONFIG, ...config };
+  }
+
+  /**
+   * Register a listener
+   */
+  public on(listener: Listener<Args>, options: ListenerOptions = {}): void {
+    const existing = this.registrations.get(listener);
+    this.registrations.set(listener, {
+      listener,
+      priority: options.priority ?? 0,
+      order: existing?.order ?? this.nextOrder++,
+      queue: existing?.queue ?? Promise.resolve(),
+      pending: existing?.pending ?? 0,
+      overdue: existing?.overdue ?? false,
+    });
+  }
+
+  /**
+   * Unregister a listener
+   */
+  public off(listener: Listener<Args>): void {
+    this.registrations.delete(listener);
+  }
+
+  /**
+   * Number of registered listeners
+   */
+  public get size(): number {
+    return this.registrations.size;
+  }
+
+  /**
+   * Deliver an event to every listener
+   */
+  public async emit(...args: Args): Promise<void> {
+    const ordered = Array.from(this.registrations.values()).sort(
+      (a, b) => b.priority - a.priority || a.order - b.order
+    );
+
+    if (this.config.delivery === 'serial') {
+      for (const registration of ordered) {
+        await this.deliver(registration, args);
+      }
+      return;
+    }
+
+    await Promise.all(ordered.map((registration) => this.deliver(registration, args)));
+  }
+
+  /**
+   * Consume events as an `AsyncIterable`
+   *
+   * @remarks
+   * Events emitted while the consumer is busy are buffered, up to
+   * `subscriptionBufferSize`; beyond that the oldest are dropped with a
+   * warning. The subscription ends when the signal is aborted or the
+   * consumer leaves its `for await` loop.
+   */
+  public subscribe(options: SubscriptionOptions = {}): AsyncIterableIterator<Args> {
+    const buffer: Args[] = [];
+    let waiting: ((result: IteratorResult<Args>) => void) | null = null;
+    let done = false;
+
+    const listener = (...args: Args) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: args, done: false });
+        return;
+      }
+      buffer.push(args);
+      if (buffer.length > this.config.subscriptionBufferSize) {
+        buffer.shift();
+        console.warn(`[${this.name}] Subscriber too slow, dropped the oldest event`);
+      }
+    };
+
+    const finish = (): IteratorResult<Args> => {
+      if (!done) {
+        done = true;
+        this.off(listener);
+        options.signal?.removeEventListener('abort', onAbort);
+        buffer.length = 0;
+        waiting?.({ value: undefined, done: true });
+        waiting = null;
+      }
+      return { value: undefined, done: true };
+    };
+    const onAbort = () => finish();
+
+    if (options.signal?.aborted) {
+      done = true;
+    } else {
+      this.on(listener);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return {
+      next: () => {
+        const value = buffer.shift();
+        if (value) {
+          return Promise.resolve({ value, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: () => Promise.resolve(finish()),
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Queue an event for one listener and wait for it, up to the timeout
+   */
+  private deliver(registration: Registration<Args>, args: Args): Promise<void> {
+    // An idle listener is called right away, a busy one after its last event
+    const delivery =
+      registration.pending > 0
+        ? registration.queue.then(() => this.call(registration.listener, args))
+        : this.call(registration.listener, args);
+    registration.queue = delivery;
+    registration.pending += 1;
+    void delivery.then(() => {
+      registration.pending -= 1;
+      if (registration.pending === 0) {
+        registration.overdue = false;
+      }
+    });
+
+    const timeout = this.config.listenerTimeout;
+    if (registration.overdue) {
+      return Promise.resolve();
+    }
+    if (timeout <= 0) {
+      return delivery;
+    }
+
+    return new Promise<void>((resolve) => {
+      const timer = this.clock.setTimeout(() => {
+        registration.overdue = true;
+        console.warn(`[${this.name}] Listener did not finish within ${timeout}ms; moving on`);
+        resolve();
+      }, timeout);
+      void delivery.then(() => {
+        this.clock.clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Call one listener, logging failures and slowness
+   */
+  private async call(listener: Listener<Args>, args: Args): Promise<void> {
+    const started = this.clock.now();
+    const threshold = this.config.slowListenerThreshold;
+    const slowTimer =
+      threshold > 0
+        ? this.clock.setTimeout(() => {
+            console.warn(`[${this.name}] Listener still running after ${threshold}ms`);
+          }, threshold)
+        : null;
+
+    try {
+      await listener(...args);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[${this.name}] Listener failed: ${errorMessage}`);
+    } finally {
+      if (slowTimer) {
+        this.clock.clearTimeout(slowTimer);
+      }
+      const elapsed = this.clock.now() - started;
+      if (threshold > 0 && elapsed >= threshold) {
+        console.warn(`[${this.name}] Slow listener took ${elapsed}ms`);
+      }
+    }
+  }
+}
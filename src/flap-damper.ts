@@ -0,0 +1,212 @@
+/**
+ * Flap Damper
+ *
+ * Hysteresis for automatic mode switching. A user who touches the mouse
+ * once every few minutes would otherwise bounce the node between
+ * `idle_worker` and `active_master`, paying for a worker start, a worker
+ * stop and a task transfer every time. The damper holds such transitions
+ * back and explains why.
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature (FR-2.2.4)
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { TransitionSource } from './transition-pipeline';
+import { formatDuration } from './mode-policy';
+import { isWorkerMode } from './worker-service';
+
+/**
+ * Configuration for flap damping
+ */
+export interface FlapDampingConfig {
+  /** Time a mode must be held before switching away automatically (milliseconds) */
+  minDwellTime: Partial<Record<NodeMode, number>>;
+  /** Sliding window in which automatic switches are counted (milliseconds) */
+  flapWindow: number;
+  /** Automatic switches within the window before back-off starts */
+  flapThreshold: number;
+  /** Hold after the last switch once the threshold is reached, doubling per extra switch */
+  backoffBase: number;
+  /** Upper bound for the back-off hold (milliseconds) */
+  backoffMax: number;
+  /** Time the node stays master after the user reclaimed it from worker mode */
+  masterGracePeriod: number;
+}
+
+/**
+ * Default configuration for flap damping
+ */
+export const DEFAULT_FLAP_DAMPING_CONFIG: FlapDampingConfig = {
+  minDwellTime: {
+    active_master: 60 * 1000, // 1 minute
+    standby: 0,
+    idle_worker: 0,
+  },
+  flapWindow: 30 * 60 * 1000, // 30 minutes
+  flapThreshold: 4,
+  backoffBase: 2 * 60 * 1000, // 2 minutes
+  backoffMax: 30 * 60 * 1000, // 30 minutes
+  masterGracePeriod: 15 * 60 * 1000, // 15 minutes
+};
+
+/**
+ * Why a transition was held back
+ *
+ * - `min_dwell`: the current mode has not been held for its minimum time
+ * - `master_grace`: the user reclaimed the node from worker mode recently
+ * - `backoff`: too many automatic switches in the sliding window
+ */
+export type SuppressionReason = 'min_dwell' | 'master_grace' | 'backoff';
+
+/**
+ * A transition the damper held back
+ */
+export interface SuppressedTransition {
+  /** Mode the node stays in */
+  from: NodeMode;
+  /** Mode the policies wanted */
+  to: NodeMode;
+  /** Why the switch was held back */
+  reason: SuppressionReason;
+  /** Human readable explanation */
+  message: string;
+  /** When the switch will be allowed again (epoch milliseconds) */
+  until: number;
+}
+
+/**
+ * A mode change seen by the damper
+ */
+export interface ModeHistoryEntry {
+  from: NodeMode;
+  to: NodeMode;
+  source: TransitionSource;
+  at: number;
+}
+
+/**
+ * Flap Damper - Decides whether an automatic transition may run now
+ *
+ * @remarks
+ * Transitions into `active_master` are never held back: a returning user
+ * always gets the machine within the 2 second budget. Damping only delays
+ * giving the machine away again. Only automatic switches count towards
+ * the flap window; every mode change (including manual ones) restarts the
+ * dwell time.
+ */
+export class FlapDamper {
+  private config: FlapDampingConfig;
+  private history: ModeHistoryEntry[] = [];
+
+  constructor(config: Partial<FlapDampingConfig> = {}) {
+    this.config = {
+      ...DEFAULT_FLAP_DAMPING_CONFIG,
+      ...config,
+      minDwellTime: { ...DEFAULT_FLAP_DAMPING_CONFIG.minDwellTime, ...config.minDwellTime },
+    };
+  }
+
+  /**
+   * Record a mode change
+   */
+  public recordTransition(
+    from: NodeMode,
+    to: NodeMode,
+    source: TransitionSource,
+    at: number = Date.now()
+  ): void {
+    this.history.push({ from, to, source, at });
+
+    const horizon = at - Math.max(this.config.flapWindow, this.config.masterGracePeriod);
+    this.history = this.history.filter((entry, index) => {
+      // Always keep the latest entry, it anchors the dwell time
+      return entry.at >= horizon || index === this.history.length - 1;
+    });
+  }
+
+  /**
+   * Check whether an automatic transition must be held back
+   *
+   * @returns The suppression, or null if the transition may run
+   */
+  public check(
+    from: NodeMode,
+    to: NodeMode,
+    at: number = Date.now()
+  ): SuppressedTransition | null {
+    if (to === 'active_master' || from === to) {
+      return null;
+    }
+
+    const last = this.history[this.history.length - 1];
+    if (!last) {
+      return null;
+    }
+
+    const holds: SuppressedTransition[] = [];
+    const hold = (reason: SuppressionReason, until: number, message: string) => {
+      if (until > at) {
+        holds.push({ from, to, reason, until, message });
+      }
+    };
+
+    const dwell = this.config.minDwellTime[from] ?? 0;
+    hold(
+      'min_dwell',
+      last.at + dwell,
+      `${from} held for ${formatDuration(at - last.at)} of its ${formatDuration(dwell)} minimum`
+    );
+
+    if (from === 'active_master' && isWorkerMode(last.from) && last.to === 'active_master') {
+      hold(
+        'master_grace',
+        last.at + this.config.masterGracePeriod,
+        `User reclaimed the node ${formatDuration(at - last.at)} ago ` +
+          `(grace period ${formatDuration(this.config.masterGracePeriod)})`
+      );
+    }
+
+    const switches = this.countSwitches(at);
+    if (switches >= this.config.flapThreshold) {
+      const backoff = Math.min(
+        this.config.backoffBase * 2 ** (switches - this.config.flapThreshold),
+        this.config.backoffMax
+      );
+      hold(
+        'backoff',
+        last.at + backoff,
+        `${switches} automatic switches in the last ${formatDuration(this.config.flapWindow)}, ` +
+          `backing off for ${formatDuration(backoff)}`
+      );
+    }
+
+    // Report the hold that lasts longest
+    return holds.reduce<SuppressedTransition | null>(
+      (longest, current) => (!longest || current.until > longest.until ? current : longest),
+      null
+    );
+  }
+
+  /**
+   * Count automatic switches within the flap window
+   */
+  public countSwitches(at: number = Date.now()): number {
+    return this.history.filter(
+      (entry) => entry.source === 'auto' && entry.at > at - this.config.flapWindow
+    ).length;
+  }
+
+  /**
+   * Get the recorded mode changes, oldest first
+   */
+  public getHistory(): ModeHistoryEntry[] {
+    return [...this.history];
+  }
+
+  /**
+   * Forget all recorded mode changes
+   */
+  public reset(): void {
+    this.history = [];
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Input Prefetcher
+ *
+ * Fetches the input files of tasks a node is likely to be leased next
+ * while it waits in warm standby, so that the worker can start on local
+ * copies instead of first pulling large models over the network.
+ *
+ * @see src/input-prefetcher-file.ts for the local cache implementation
+ * @see src/transition-pipeline.ts for when prefetching starts and stops
+ */
+
+import type { Task } from './job-queue';
+
+/**
+ * Number of upcoming tasks whose inputs are prefetched in standby
+ */
+export const DEFAULT_PREFETCH_TASK_LIMIT = 3;
+
+/**
+ * Outcome of a prefetch run
+ */
+export interface PrefetchReport {
+  /** Tasks whose inputs are all available locally */
+  tasks: string[];
+  /** Input files fetched or already cached */
+  files: number;
+  /** Input files that could not be fetched */
+  failed: string[];
+}
+
+/**
+ * Interface for fetching task inputs ahead of time
+ */
+export interface InputPrefetcher {
+  /**
+   * Fetch the input files of the given tasks
+   *
+   * @param signal - Stops prefetching; files fetched so far are kept
+   */
+  prefetch(tasks: Task[], signal?: AbortSignal): Promise<PrefetchReport>;
+
+  /** Drop everything prefetched so far */
+  discard(): Promise<void>;
+}
+
+/**
+ * Get the input files a task declares
+ *
+ * @remarks
+ * Task payloads are opaque; tasks that want their inputs prefetched list
+ * them as `payload.inputFiles`.
+ */
+export function taskInputFiles(task: Task): string[] {
+  const payload = task.payload as { inputFiles?: unknown } | null;
+  const files = payload?.inputFiles;
+  if (!Array.isArray(files)) {
+    return [];
+  }
+
+  return files.filter((file): file is string => typeof file === 'string');
+}
+
+/**
+ * Mock implementation of InputPrefetcher for testing and demo
+ */
+export class MockInputPrefetcher implements InputPrefetcher {
+  private prefetched: string[] = [];
+  private discards: number = 0;
+
+  async prefetch(tasks: Task[], signal?: AbortSignal): Promise<PrefetchReport> {
+    signal?.throwIfAborted();
+    const files = tasks.flatMap((task) => taskInputFiles(task));
+    this.prefetched.push(...tasks.map((task) => task.id));
+
+    return { tasks: tasks.map((task) => task.id), files: files.length, failed: [] };
+  }
+
+  async discard(): Promise<void> {
+    this.prefetched = [];
+    this.discards += 1;
+  }
+
+  // Test helpers
+  getPrefetchedTasks(): string[] {
+    return [...this.prefetched];
+  }
+
+  getDiscardCount(): number {
+    return this.discards;
+  }
+}
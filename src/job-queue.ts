@@ -0,0 +1,406 @@
+/**
+ * Distributed Job Queue
+ *
+ * Job model and in-memory queue for distributed SolidWorks jobs.
+ * A job is owned by the master node that submitted it and is split into
+ * tasks that the scheduler leases to worker nodes.
+ *
+ * @see src/job-scheduler.ts for task assignment
+ */
+
+import type { MasterProcessingState } from './mode-switcher';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type TaskStatus = 'pending' | 'assigned' | 'completed' | 'failed';
+
+/**
+ * A unit of work executed by a single worker node
+ */
+export interface Task {
+  /** Unique task identifier */
+  id: string;
+  /** Job this task belongs to */
+  jobId: string;
+  /** Current task status */
+  status: TaskStatus;
+  /** Node the task is leased to, if any */
+  assignedTo: string | null;
+  /** Number of times the task has been assigned */
+  attempts: number;
+  /** Progress reported by the worker (0 to 1) */
+  progress: number;
+  /** Opaque task input */
+  payload: unknown;
+}
+
+/**
+ * A distributed job made up of tasks
+ */
+export interface Job {
+  /** Unique job identifier */
+  id: string;
+  /** Job type, e.g. 'simulation' or 'render' */
+  type: string;
+  /** Scheduling priority (higher runs first) */
+  priority: number;
+  /** Node that submitted and owns the job */
+  owner: string;
+  /** Current job status */
+  status: JobStatus;
+  /** Tasks belonging to the job */
+  tasks: Task[];
+  /** Submission time (epoch milliseconds) */
+  createdAt: number;
+}
+
+/**
+ * Input for submitting a job
+ */
+export interface JobSpec {
+  /** Optional job ID (generated if omitted) */
+  id?: string;
+  type: string;
+  priority?: number;
+  owner: string;
+  /** One payload per task */
+  tasks: unknown[];
+}
+
+/**
+ * Configuration for the job queue
+ */
+export interface JobQueueConfig {
+  /** Maximum number of assignments before a task fails permanently */
+  maxTaskAttempts: number;
+}
+
+/**
+ * Default configuration for the job queue
+ */
+export const DEFAULT_JOB_QUEUE_CONFIG: JobQueueConfig = {
+  maxTaskAttempts: 3,
+};
+
+/**
+ * Job queue change listener
+ */
+export type JobQueueListener = (job: Job) => void;
+
+/**
+ * Job Queue - Tracks jobs and the lifecycle of their tasks
+ */
+export class JobQueue {
+  private jobs: Map<string, Job> = new Map();
+  private config: JobQueueConfig;
+  private listeners: Set<JobQueueListener> = new Set();
+  private sequence: number = 0;
+
+  constructor(config: Partial<JobQueueConfig> = {}) {
+    this.config = { ...DEFAULT_JOB_QUEUE_CONFIG, ...config };
+  }
+
+  /**
+   * Submit a new job
+   */
+  public submit(spec: JobSpec, now: number = Date.now()): Job {
+    if (spec.tasks.length === 0) {
+      throw new Error('A job must contain at least one task');
+    }
+
+    const id = spec.id ?? this.generateId('job');
+    if (this.jobs.has(id)) {
+      throw new Error(`Job ${id} already exists`);
+    }
+
+    const job: Job = {
+      id,
+      type: spec.type,
+      priority: spec.priority ?? 0,
+      owner: spec.owner,
+      status: 'queued',
+      createdAt: now,
+      tasks: spec.tasks.map((payload, index) => ({
+        id: `${id}:${index}`,
+        jobId: id,
+        status: 'pending',
+        assignedTo: null,
+        attempts: 0,
+        progress: 0,
+        payload,
+      })),
+    };
+
+    this.jobs.set(id, job);
+    this.emit(job);
+    return cloneJob(job);
+  }
+
+  /**
+   * Get a job by ID
+   */
+  public getJob(jobId: string): Job | null {
+    const job = this.jobs.get(jobId);
+    return job ? cloneJob(job) : null;
+  }
+
+  /**
+   * List jobs, optionally filtered by owner
+   */
+  public listJobs(owner?: string): Job[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => owner === undefined || job.owner === owner)
+      .map(cloneJob);
+  }
+
+  /**
+   * Get a task by ID
+   */
+  public getTask(taskId: string): Task | null {
+    const task = this.findTask(taskId);
+    return task ? { ...task } : null;
+  }
+
+  /**
+   * List pending tasks in scheduling order
+   * (job priority descending, then submission order)
+   */
+  public listPendingTasks(): Task[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt)
+      .flatMap((job) => job.tasks.filter((task) => task.status === 'pending'))
+      .map((task) => ({ ...task }));
+  }
+
+  /**
+   * List tasks currently leased to a node
+   */
+  public listAssignedTasks(nodeId: string): Task[] {
+    return Array.from(this.jobs.values())
+      .flatMap((job) => job.tasks)
+      .filter((task) => task.status === 'assigned' && task.assignedTo === nodeId)
+      .map((task) => ({ ...task }));
+  }
+
+  /**
+   * Lease a pending task to a node
+   */
+  public assignTask(taskId: string, nodeId: string): Task {
+    const task = this.requireTask(taskId);
+    if (task.status !== 'pending') {
+      throw new Error(`Task ${taskId} is ${task.status}, not pending`);
+    }
+
+    task.status = 'assigned';
+    task.assignedTo = nodeId;
+    task.attempts += 1;
+    task.progress = 0;
+
+    const job = this.requireJob(task.jobId);
+    job.status = 'running';
+    this.emit(job);
+    return { ...task };
+  }
+
+  /**
+   * Record progress reported for a leased task
+   */
+  public updateProgress(taskId: string, nodeId: string, progress: number): Task {
+    const task = this.requireLease(taskId, nodeId);
+    task.progress = Math.min(1, Math.max(0, progress));
+
+    this.emit(this.requireJob(task.jobId));
+    return { ...task };
+  }
+
+  /**
+   * Mark a leased task as completed
+   */
+  public completeTask(taskId: string, nodeId: string): Task {
+    const task = this.requireLease(taskId, nodeId);
+    task.status = 'completed';
+    task.progress = 1;
+
+    this.updateJobStatus(this.requireJob(task.jobId));
+    return { ...task };
+  }
+
+  /**
+   * Mark a leased task as failed, returning it to the queue while
+   * attempts remain
+   */
+  public failTask(taskId: string, nodeId: string): Task {
+    const task = this.requireLease(taskId, nodeId);
+    task.assignedTo = null;
+    task.progress = 0;
+    task.status = task.attempts >= this.config.maxTaskAttempts ? 'failed' : 'pending';
+
+    this.updateJobStatus(this.requireJob(task.jobId));
+    return { ...task };
+  }
+
+  /**
+   * Return tasks leased to a node to the queue without counting
+   * a failed attempt
+   *
+   * @param nodeId - Node giving up its leases
+   * @param taskIds - Tasks to release (defaults to every task leased to the node)
+   * @returns The released tasks
+   */
+  public releaseTasks(nodeId: string, taskIds?: string[]): Task[] {
+    const released: Task[] = [];
+    const touched = new Set<Job>();
+    const selected = taskIds ? new Set(taskIds) : null;
+
+    this.jobs.forEach((job) => {
+      job.tasks.forEach((task) => {
+        if (
+          task.status === 'assigned' &&
+          task.assignedTo === nodeId &&
+          (!selected || selected.has(task.id))
+        ) {
+          task.status = 'pending';
+          task.assignedTo = null;
+          task.attempts = Math.max(0, task.attempts - 1);
+          task.progress = 0;
+          released.push({ ...task });
+          touched.add(job);
+        }
+      });
+    });
+
+    touched.forEach((job) => this.emit(job));
+    return released;
+  }
+
+  /**
+   * Cancel a job and drop all of its unfinished tasks
+   */
+  public cancelJob(jobId: string): Job {
+    const job = this.requireJob(jobId);
+    if (job.status === 'completed' || job.status === 'failed') {
+      throw new Error(`Job ${jobId} has already finished`);
+    }
+
+    job.status = 'cancelled';
+    job.tasks.forEach((task) => {
+      if (task.status === 'pending' || task.status === 'assigned') {
+        task.status = 'failed';
+        task.assignedTo = null;
+      }
+    });
+
+    this.emit(job);
+    return cloneJob(job);
+  }
+
+  /**
+   * Register a listener for job changes
+   */
+  public onChange(listener: JobQueueListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Unregister a job change listener
+   */
+  public offChange(listener: JobQueueListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private updateJobStatus(job: Job): void {
+    const statuses = job.tasks.map((task) => task.status);
+
+    if (statuses.every((status) => status === 'completed')) {
+      job.status = 'completed';
+    } else if (statuses.includes('failed')) {
+      job.status = 'failed';
+    } else if (statuses.every((status) => status === 'pending')) {
+      job.status = 'queued';
+    } else {
+      job.status = 'running';
+    }
+
+    this.emit(job);
+  }
+
+  private findTask(taskId: string): Task | undefined {
+    const jobId = taskId.slice(0, taskId.lastIndexOf(':'));
+    return this.jobs.get(jobId)?.tasks.find((task) => task.id === taskId);
+  }
+
+  private requireTask(taskId: string): Task {
+    const task = this.findTask(taskId);
+    if (!task) {
+      throw new Error(`Unknown task: ${taskId}`);
+    }
+    return task;
+  }
+
+  private requireLease(taskId: string, nodeId: string): Task {
+    const task = this.requireTask(taskId);
+    if (task.status !== 'assigned' || task.assignedTo !== nodeId) {
+      throw new Error(`Task ${taskId} is not leased to ${nodeId}`);
+    }
+    return task;
+  }
+
+  private requireJob(jobId: string): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Unknown job: ${jobId}`);
+    }
+    return job;
+  }
+
+  private emit(job: Job): void {
+    const snapshot = cloneJob(job);
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  private generateId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${Date.now()}_${this.sequence}`;
+  }
+}
+
+function cloneJob(job: Job): Job {
+  return { ...job, tasks: job.tasks.map((task) => ({ ...task })) };
+}
+
+/**
+ * MasterProcessingState backed by a job queue
+ *
+ * @remarks
+ * - `isProcessing()` is true while a job owned by this node is queued or running
+ * - `getCurrentJobId()` is the highest priority such job
+ * - `getPendingTaskCount()` counts tasks currently leased to this node
+ */
+export class JobQueueProcessingState implements MasterProcessingState {
+  constructor(
+    private queue: JobQueue,
+    private nodeId: string
+  ) {}
+
+  isProcessing(): boolean {
+    return this.getActiveJobs().length > 0;
+  }
+
+  getPendingTaskCount(): number {
+    return this.queue.listAssignedTasks(this.nodeId).length;
+  }
+
+  getCurrentJobId(): string | null {
+    const [job] = this.getActiveJobs().sort(
+      (a, b) => b.priority - a.priority || a.createdAt - b.createdAt
+    );
+    return job ? job.id : null;
+  }
+
+  private getActiveJobs(): Job[] {
+    return this.queue
+      .listJobs(this.nodeId)
+      .filter((job) => job.status === 'queued' || job.status === 'running');
+  }
+}
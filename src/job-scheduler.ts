@@ -0,0 +1,157 @@
+/**
+ * Job Scheduler
+ *
+ * Leases pending tasks from the job queue to nodes that have announced
+ * themselves as available workers (`idle_worker`).
+ *
+ * @see src/job-queue.ts
+ */
+
+import type { NodeRecord } from './coordination-service';
+import type { JobQueue, Task } from './job-queue';
+
+/**
+ * Source of worker nodes currently available for tasks
+ */
+export interface WorkerDirectory {
+  /** List nodes that are online and available as workers */
+  listAvailable(): NodeRecord[];
+}
+
+/**
+ * Called for every task the scheduler leases to a node
+ */
+export type TaskAssignmentListener = (nodeId: string, task: Task) => void;
+
+/**
+ * Configuration for the scheduler
+ */
+export interface JobSchedulerConfig {
+  /** Maximum number of tasks leased to one node at a time */
+  maxTasksPerWorker: number;
+  /** Interval between scheduling passes (milliseconds) */
+  scheduleInterval: number;
+}
+
+/**
+ * Default configuration for the scheduler
+ */
+export const DEFAULT_JOB_SCHEDULER_CONFIG: JobSchedulerConfig = {
+  maxTasksPerWorker: 1,
+  scheduleInterval: 1000, // 1 second
+};
+
+/**
+ * Job Scheduler - Hands pending tasks to available workers
+ */
+export class JobScheduler {
+  private config: JobSchedulerConfig;
+  private listeners: Set<TaskAssignmentListener> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private queue: JobQueue,
+    private workers: WorkerDirectory,
+    config: Partial<JobSchedulerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_JOB_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Start periodic scheduling passes
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.schedule(), this.config.scheduleInterval);
+  }
+
+  /**
+   * Stop periodic scheduling passes
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one scheduling pass
+   *
+   * @remarks
+   * Tasks are taken in queue order (priority, then age) and handed to the
+   * available worker with the fewest leased tasks. Nodes never receive
+   * tasks of jobs they own.
+   *
+   * @returns The tasks assigned in this pass
+   */
+  public schedule(): Task[] {
+    const load = new Map<string, number>();
+    this.workers.listAvailable().forEach((node) => {
+      load.set(node.nodeId, this.queue.listAssignedTasks(node.nodeId).length);
+    });
+
+    const assigned: Task[] = [];
+
+    for (const pending of this.queue.listPendingTasks()) {
+      const owner = this.queue.getJob(pending.jobId)?.owner;
+      const nodeId = this.pickWorker(load, owner);
+      if (!nodeId) {
+        continue;
+      }
+
+      const task = this.queue.assignTask(pending.id, nodeId);
+      load.set(nodeId, (load.get(nodeId) ?? 0) + 1);
+      assigned.push(task);
+      this.listeners.forEach((listener) => listener(nodeId, task));
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Preview the pending tasks a node would be leased first
+   *
+   * @remarks
+   * Follows the queue order used by `schedule()` and skips jobs the node
+   * owns. Other workers may still be leased these tasks first; the preview
+   * is only a hint for prefetching inputs.
+   */
+  public preview(nodeId: string, limit: number): Task[] {
+    return this.queue
+      .listPendingTasks()
+      .filter((task) => this.queue.getJob(task.jobId)?.owner !== nodeId)
+      .slice(0, limit);
+  }
+
+  /**
+   * Register a listener for task assignments
+   */
+  public onAssign(listener: TaskAssignmentListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Unregister a task assignment listener
+   */
+  public offAssign(listener: TaskAssignmentListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private pickWorker(load: Map<string, number>, owner: string | undefined): string | null {
+    let best: string | null = null;
+    let bestLoad = this.config.maxTasksPerWorker;
+
+    load.forEach((count, nodeId) => {
+      if (nodeId !== owner && count < bestLoad) {
+        best = nodeId;
+        bestLoad = count;
+      }
+    });
+
+    return best;
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Linux User Input Trackers
+ *
+ * Production UserInputTracker implementations for Linux workstations:
+ * 1. evdev - timestamps of events read from /dev/input devices
+ * 2. /proc/interrupts - changes in keyboard/mouse IRQ counters
+ * 3. logind - an IdleHint / IdleSinceHint file exported from the session
+ *
+ * Every tracker resolves its paths against an injectable root directory so
+ * it can be exercised against fixture files.
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature (FR-2.2.1)
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { UserInputTracker } from './mode-switcher';
+
+/** evdev event types that represent user input (EV_KEY, EV_REL, EV_ABS) */
+const INPUT_EVENT_TYPES = new Set([0x01, 0x02, 0x03]);
+
+/**
+ * Configuration for the evdev tracker
+ */
+export interface EvdevInputTrackerConfig {
+  /** Root directory that device paths are resolved against */
+  root: string;
+  /**
+   * Device paths relative to root. Defaults to every keyboard and mouse
+   * under /dev/input/by-id, falling back to all /dev/input/event* nodes
+   */
+  devices: string[];
+  /** Size of one `struct input_event` (24 on 64-bit, 16 on 32-bit) */
+  eventSize: 16 | 24;
+}
+
+/**
+ * Default configuration for the evdev tracker
+ */
+export const DEFAULT_EVDEV_TRACKER_CONFIG: EvdevInputTrackerConfig = {
+  root: '/',
+  devices: [],
+  eventSize: 24,
+};
+
+/**
+ * evdev Input Tracker - Reads `struct input_event` records from input devices
+ * and remembers the newest key/pointer event timestamp
+ *
+ * @remarks
+ * Requires read access to the devices (root or the `input` group).
+ */
+export class EvdevInputTracker implements UserInputTracker {
+  private config: EvdevInputTrackerConfig;
+  private lastInputTime: number = Date.now();
+  private streams: fs.ReadStream[] = [];
+
+  constructor(config: Partial<EvdevInputTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_EVDEV_TRACKER_CONFIG, ...config };
+  }
+
+  getTimeSinceLastInput(): number {
+    return Math.max(0, Date.now() - this.lastInputTime);
+  }
+
+  resetLastInput(): void {
+    this.lastInputTime = Date.now();
+  }
+
+  startMonitoring(): void {
+    if (this.streams.length > 0) {
+      return;
+    }
+
+    for (const device of this.resolveDevices()) {
+      const stream = fs.createReadStream(device);
+      let remainder = Buffer.alloc(0);
+
+      stream.on('data', (chunk) => {
+        const buffer = Buffer.concat([remainder, chunk as Buffer]);
+        const usable = buffer.length - (buffer.length % this.config.eventSize);
+        this.consume(buffer.subarray(0, usable));
+        remainder = buffer.subarray(usable);
+      });
+      stream.on('error', (error) => {
+        console.warn(`[EvdevInputTracker] Cannot read ${device}: ${error.message}`);
+      });
+
+      this.streams.push(stream);
+    }
+  }
+
+  stopMonitoring(): void {
+    this.streams.forEach((stream) => stream.destroy());
+    this.streams = [];
+  }
+
+  /**
+   * Get the device files that will be monitored
+   */
+  public resolveDevices(): string[] {
+    if (this.config.devices.length > 0) {
+      return this.config.devices.map((device) => path.join(this.config.root, device));
+    }
+
+    const byId = path.join(this.config.root, 'dev/input/by-id');
+    const inputs = listDirectory(byId).filter((name) => /-event-(kbd|mouse)$/.test(name));
+    if (inputs.length > 0) {
+      return inputs.map((name) => path.join(byId, name));
+    }
+
+    const devInput = path.join(this.config.root, 'dev/input');
+    return listDirectory(devInput)
+      .filter((name) => /^event\d+$/.test(name))
+      .map((name) => path.join(devInput, name));
+  }
+
+  /**
+   * Parse whole input_event records and update the last input time
+   */
+  private consume(buffer: Buffer): void {
+    const { eventSize } = this.config;
+
+    for (let offset = 0; offset + eventSize <= buffer.length; offset += eventSize) {
+      // struct timeval, then __u16 type, __u16 code, __s32 value
+      const typeOffset = offset + eventSize - 8;
+      if (!INPUT_EVENT_TYPES.has(buffer.readUInt16LE(typeOffset))) {
+        continue;
+      }
+
+      const seconds =
+        eventSize === 24
+          ? Number(buffer.readBigInt64LE(offset))
+          : buffer.readInt32LE(offset);
+      const micros =
+        eventSize === 24
+          ? Number(buffer.readBigInt64LE(offset + 8))
+          : buffer.readInt32LE(offset + 4);
+      const timestamp = seconds * 1000 + Math.floor(micros / 1000);
+
+      if (timestamp > this.lastInputTime) {
+        this.lastInputTime = timestamp;
+      }
+    }
+  }
+}
+
+/**
+ * Configuration for the /proc/interrupts tracker
+ */
+export interface InterruptsInputTrackerConfig {
+  /** Root directory that /proc/interrupts is resolved against */
+  root: string;
+  /** Patterns matched against the device column of /proc/interrupts */
+  devicePatterns: RegExp[];
+  /** Interval between samples (milliseconds) */
+  pollInterval: number;
+}
+
+/**
+ * Default configuration for the /proc/interrupts tracker
+ */
+export const DEFAULT_INTERRUPTS_TRACKER_CONFIG: InterruptsInputTrackerConfig = {
+  root: '/',
+  devicePatterns: [/i8042/, /keyboard/i, /mouse/i, /hid/i],
+  pollInterval: 1000, // 1 second
+};
+
+/**
+ * /proc/interrupts Input Tracker - Treats any increase of keyboard/mouse IRQ
+ * counters between samples as user input
+ */
+export class InterruptsInputTracker implements UserInputTracker {
+  private config: InterruptsInputTrackerConfig;
+  private lastInputTime: number = Date.now();
+  private lastCount: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private readFailed: boolean = false;
+
+  constructor(config: Partial<InterruptsInputTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_INTERRUPTS_TRACKER_CONFIG, ...config };
+  }
+
+  getTimeSinceLastInput(): number {
+    return Math.max(0, Date.now() - this.lastInputTime);
+  }
+
+  resetLastInput(): void {
+    this.lastInputTime = Date.now();
+  }
+
+  startMonitoring(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.sample();
+    this.timer = setInterval(() => this.sample(), this.config.pollInterval);
+  }
+
+  stopMonitoring(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.lastCount = null;
+  }
+
+  /**
+   * Read /proc/interrupts once and record input if counters moved
+   *
+   * @returns The summed interrupt count of matching devices
+   */
+  public sample(): number {
+    const count = this.readInterruptCount();
+
+    if (this.lastCount !== null && count !== this.lastCount) {
+      this.lastInputTime = Date.now();
+    }
+    this.lastCount = count;
+
+    return count;
+  }
+
+  private readInterruptCount(): number {
+    const file = path.join(this.config.root, 'proc/interrupts');
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      // Warn once, not on every poll
+      if (!this.readFailed) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[InterruptsInputTracker] Cannot read ${file}: ${errorMessage}`);
+      }
+      this.readFailed = true;
+      return this.lastCount ?? 0;
+    }
+    this.readFailed = false;
+
+    const [header, ...lines] = content.split('\n');
+    const cpuCount = header.trim().split(/\s+/).filter(Boolean).length;
+    let total = 0;
+
+    for (const line of lines) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 2 || !/^\d+:$/.test(fields[0])) {
+        continue;
+      }
+
+      const description = fields.slice(1 + cpuCount).join(' ');
+      if (!this.config.devicePatterns.some((pattern) => pattern.test(description))) {
+        continue;
+      }
+
+      total += fields
+        .slice(1, 1 + cpuCount)
+        .reduce((sum, value) => sum + (Number(value) || 0), 0);
+    }
+
+    return total;
+  }
+}
+
+/**
+ * Configuration for the logind idle hint tracker
+ */
+export interface LogindIdleTrackerConfig {
+  /** Root directory that the hint file is resolved against */
+  root: string;
+  /**
+   * Hint file relative to root, in `loginctl show-session -p IdleHint
+   * -p IdleSinceHint` format
+   */
+  hintFile: string;
+}
+
+/**
+ * Default configuration for the logind idle hint tracker
+ */
+export const DEFAULT_LOGIND_TRACKER_CONFIG: LogindIdleTrackerConfig = {
+  root: '/',
+  hintFile: 'run/solidworks-node/idle-hint',
+};
+
+/**
+ * logind Idle Tracker - Reads IdleHint / IdleSinceHint exported by the
+ * session manager
+ *
+ * @remarks
+ * `IdleSinceHint` is in microseconds since the epoch. While `IdleHint=no`
+ * the user counts as active. The last known value is kept if the file is
+ * missing or unreadable.
+ */
+export class LogindIdleTracker implements UserInputTracker {
+  private config: LogindIdleTrackerConfig;
+  private lastInputTime: number = Date.now();
+  private resetTime: number = 0;
+
+  constructor(config: Partial<LogindIdleTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_LOGIND_TRACKER_CONFIG, ...config };
+  }
+
+  getTimeSinceLastInput(): number {
+    this.refresh();
+    return Math.max(0, Date.now() - Math.max(this.lastInputTime, this.resetTime));
+  }
+
+  resetLastInput(): void {
+    this.resetTime = Date.now();
+  }
+
+  startMonitoring(): void {
+    this.refresh();
+  }
+
+  stopMonitoring(): void {
+    // Read on demand: nothing to stop
+  }
+
+  private refresh(): void {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(this.config.root, this.config.hintFile), 'utf8');
+    } catch {
+      return;
+    }
+
+    const properties = new Map<string, string>();
+    content.split('\n').forEach((line) => {
+      const separator = line.indexOf('=');
+      if (separator > 0) {
+        properties.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      }
+    });
+
+    const idleHint = properties.get('IdleHint');
+    const idleSince = Number(properties.get('IdleSinceHint'));
+
+    if (idleHint === 'no') {
+      this.lastInputTime = Date.now();
+    } else if (idleHint === 'yes' && Number.isFinite(idleSince) && idleSince > 0) {
+      this.lastInputTime = Math.floor(idleSince / 1000);
+    }
+  }
+}
+
+/**
+ * Composite Input Tracker - Reports the most recent input across sources
+ */
+export class CompositeInputTracker implements UserInputTracker {
+  constructor(private trackers: UserInputTracker[]) {
+    if (trackers.length === 0) {
+      throw new Error('CompositeInputTracker needs at least one tracker');
+    }
+  }
+
+  getTimeSinceLastInput(): number {
+    return Math.min(...this.trackers.map((tracker) => tracker.getTimeSinceLastInput()));
+  }
+
+  resetLastInput(): void {
+    this.trackers.forEach((tracker) => tracker.resetLastInput());
+  }
+
+  startMonitoring(): void {
+    this.trackers.forEach((tracker) => tracker.startMonitoring());
+  }
+
+  stopMonitoring(): void {
+    this.trackers.forEach((tracker) => tracker.stopMonitoring());
+  }
+}
+
+/**
+ * Create the default Linux tracker: every source combined
+ */
+export function createLinuxInputTracker(root: string = '/'): UserInputTracker {
+  return new CompositeInputTracker([
+    new EvdevInputTracker({ root }),
+    new InterruptsInputTracker({ root }),
+    new LogindIdleTracker({ root }),
+  ]);
+}
+
+function listDirectory(directory: string): string[] {
+  try {
+    return fs.readdirSync(directory).sort();
+  } catch {
+    return [];
+  }
+}
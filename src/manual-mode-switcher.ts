@@ -9,57 +9,271 @@
  */
 
 import { NodeMode, MasterProcessingState, ModeChangeListener } from './mode-switcher';
+import { NodeServices, createNodeServices } from './node-services';
+import { isWorkerMode } from './worker-service';
+import { assertTransitionAllowed } from './mode-transitions';
+import {
+  budgetFor,
+  createBudgetTable,
+  defaultBudget,
+  TransitionBudgetOverrides,
+  TransitionBudgetTable,
+} from './transition-budgets';
+import {
+  EventDispatcher,
+  EventDispatcherConfig,
+  ListenerOptions,
+  SubscriptionOptions,
+} from './event-dispatcher';
+import type { ClockTimer } from './clock';
+import { SYSTEM_ACTOR } from './audit-log';
+import type { OperatorSession } from './operator-sessions';
+import {
+  ApprovalDeniedError,
+  ConfirmationExpiredListener,
+  ConfirmationSupersededListener,
+  ModeSwitchApproval,
+  PendingConfirmation,
+  PendingConfirmationInfo,
+  PendingConfirmationStore,
+} from './pending-confirmations';
 
 export type LockState = 'locked' | 'unlocked';
 
+/**
+ * Where a lock request comes from
+ *
+ * - `local`: the desk owner, through the local UI
+ * - `admin`: a cluster administrator, remotely
+ * - `policy`: an automated policy
+ */
+export type LockSource = 'local' | 'admin' | 'policy';
+
+/**
+ * Precedence of lock sources: a lock may only be replaced or released by a
+ * source of the same or a higher precedence
+ */
+export const LOCK_PRECEDENCE: Record<LockSource, number> = {
+  policy: 0,
+  local: 1,
+  admin: 2,
+};
+
+/**
+ * Who holds a lock and why
+ */
+export interface LockHolder {
+  /** Identity of whoever took the lock */
+  owner: string;
+  /** Where the lock request came from */
+  source: LockSource;
+  /** Why the mode is locked */
+  reason: string;
+}
+
+/**
+ * Holder of locks taken without naming one
+ */
+export const DEFAULT_LOCK_HOLDER: LockHolder = {
+  owner: 'local',
+  source: 'local',
+  reason: '',
+};
+
+/**
+ * Who asks to release a lock
+ */
+export type LockRequester = Pick<LockHolder, 'owner' | 'source'>;
+
+/**
+ * How a lock is taken
+ *
+ * @remarks
+ * With both `until` and `duration` set, the lock ends at whichever comes
+ * first. Without either the lock is open-ended. `maxLockDuration` caps
+ * every lock. Holder fields not given are taken from `DEFAULT_LOCK_HOLDER`.
+ */
+export interface LockOptions extends Partial<LockHolder> {
+  /** Time the lock ends, e.g. 18:00 today (epoch milliseconds or a date) */
+  until?: number | Date;
+  /** How long the lock lasts (milliseconds) */
+  duration?: number;
+}
+
+/**
+ * Error raised when a lock request is outranked by the lock in place
+ */
+export class LockHeldError extends Error {
+  constructor(
+    /** Holder of the lock in place */
+    public readonly holder: LockHolder,
+    /** Who asked */
+    public readonly requester: LockRequester,
+    action: 'replace' | 'release'
+  ) {
+    super(
+      `Mode lock held by ${holder.owner} (${holder.source}) cannot be ${action}d by ` +
+        `${requester.owner} (${requester.source})`
+    );
+    this.name = 'LockHeldError';
+  }
+}
+
+/**
+ * A lock that ran out
+ */
+export interface LockExpiry {
+  /** Mode that was locked */
+  mode: NodeMode;
+  /** When the lock was taken (epoch milliseconds) */
+  lockTime: number;
+  /** When the lock ended (epoch milliseconds) */
+  expiresAt: number;
+  /** Who held the lock */
+  holder: LockHolder;
+}
+
+/**
+ * Listener for locks that ran out
+ */
+export type LockExpiryListener = (expiry: LockExpiry) => void | Promise<void>;
+
+/**
+ * Longest delay a timer accepts (about 24.8 days); the timer of a longer
+ * lock is re-armed until the lock ends
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 /**
  * Manual mode switching operations
  */
 export interface ManualModeSwitcherConfig {
   /** Whether mode changes require explicit confirmation */
   requireConfirmation: boolean;
-  /** Maximum time a mode can be locked (milliseconds, 0 = unlimited) */
+  /** Whether mode changes need approval by someone other than the requester (four-eyes) */
+  requireApproval: boolean;
+  /** Users allowed to approve mode changes, as signed in to their operator sessions */
+  approvers: string[];
+  /** Maximum time a mode can be locked, timed or not (milliseconds, 0 = unlimited) */
   maxLockDuration: number;
+  /** Hard deadline of mode switches without a budget of their own (milliseconds) */
+  switchTimeout: number;
+  /** Deadlines of selected transitions, replacing the defaults */
+  switchBudgets: TransitionBudgetOverrides;
+  /** Time a switch request waits for confirmation (milliseconds, 0 = never expires) */
+  confirmationTtl: number;
+  /** Delivery of mode change events */
+  listeners: Partial<EventDispatcherConfig>;
 }
 
+/**
+ * Manual switching settings that can be changed on a running switcher
+ *
+ * @remarks
+ * The confirmation TTL and event delivery are set up at construction.
+ */
+export type ManualModeSwitcherSettings = Omit<
+  ManualModeSwitcherConfig,
+  'confirmationTtl' | 'listeners'
+>;
+
 /**
  * Default configuration for manual mode switching
  */
 export const DEFAULT_MANUAL_MODE_CONFIG: ManualModeSwitcherConfig = {
   requireConfirmation: false,
+  requireApproval: false,
+  approvers: [], // nobody may approve until listed
   maxLockDuration: 0, // Unlimited by default
+  switchTimeout: 5000, // 5 seconds
+  switchBudgets: {}, // see createBudgetTable
+  confirmationTtl: 60 * 1000, // 1 minute
+  listeners: {}, // see DEFAULT_EVENT_DISPATCHER_CONFIG
 };
 
 /**
  * Manual Mode Switcher - Allows explicit user control of node mode
  */
 export class ManualModeSwitcher {
-  private currentMode: NodeMode = 'active_master';
   private lockState: LockState = 'unlocked';
   private lockedMode: NodeMode | null = null;
   private lockTime: number | null = null;
+  private lockExpiresAt: number | null = null;
+  private lockHolder: LockHolder | null = null;
+  private expiryTimer: ClockTimer | null = null;
   private config: ManualModeSwitcherConfig;
   private processingState: MasterProcessingState;
-  private listeners: Set<ModeChangeListener> = new Set();
-  private pendingConfirmation: {
-    targetMode: NodeMode;
-    timestamp: number;
-    requestId: string;
-  } | null = null;
+  private services: NodeServices;
+  private budgets: TransitionBudgetTable;
+  private listeners: EventDispatcher<Parameters<ModeChangeListener>>;
+  private expiryListeners: EventDispatcher<Parameters<LockExpiryListener>>;
+  private confirmations: PendingConfirmationStore;
 
+  /**
+   * @throws BudgetValidationError if `switchTimeout` or `switchBudgets` is invalid
+   */
   constructor(
     processingState: MasterProcessingState,
-    config: Partial<ManualModeSwitcherConfig> = {}
+    config: Partial<ManualModeSwitcherConfig> = {},
+    services: Partial<NodeServices> = {}
   ) {
     this.processingState = processingState;
     this.config = { ...DEFAULT_MANUAL_MODE_CONFIG, ...config };
+    this.budgets = createBudgetTable(this.config.switchTimeout, this.config.switchBudgets);
+    this.services = createNodeServices(services);
+    this.listeners = new EventDispatcher(
+      'ManualModeSwitcher',
+      this.config.listeners,
+      this.services.clock
+    );
+    this.expiryListeners = new EventDispatcher(
+      'ManualModeSwitcher',
+      this.config.listeners,
+      this.services.clock
+    );
+    this.confirmations = new PendingConfirmationStore(this.services.clock, {
+      ttl: this.config.confirmationTtl,
+      listeners: this.config.listeners,
+    });
+    this.confirmations.onExpired((request) => {
+      this.auditConfirmation(request, SYSTEM_ACTOR, 'expired');
+    });
+    this.confirmations.onSuperseded((request, by) => {
+      this.auditConfirmation(request, by.requestedBy ?? DEFAULT_LOCK_HOLDER.owner, 'superseded', {
+        supersededBy: by.requestId,
+      });
+    });
+  }
+
+  /**
+   * Get the configuration in effect
+   */
+  public getConfig(): Readonly<ManualModeSwitcherConfig> {
+    return this.config;
+  }
+
+  /**
+   * Change settings without losing the lock or pending requests
+   *
+   * @remarks
+   * A lock in place keeps its end; `maxLockDuration` applies to locks
+   * taken afterwards. Pending requests are approved against the new
+   * approvers.
+   *
+   * @throws BudgetValidationError if `switchTimeout` or `switchBudgets` is
+   * invalid; nothing is changed in that case
+   */
+  public configure(settings: Partial<ManualModeSwitcherSettings>): void {
+    const config = { ...this.config, ...settings };
+    this.budgets = createBudgetTable(config.switchTimeout, config.switchBudgets);
+    this.config = config;
   }
 
   /**
    * Get current node mode
    */
   public getCurrentMode(): NodeMode {
-    return this.currentMode;
+    return this.services.transitions.getCurrentMode();
   }
 
   /**
@@ -79,116 +293,264 @@ export class ManualModeSwitcher {
   /**
    * Switch mode manually
    *
+   * @remarks
+   * With confirmation or approval required, the request waits under its ID
+   * until it is confirmed, cancelled, expires after `confirmationTtl`, or is
+   * superseded by a request for a different mode. Any number of requests for
+   * the same mode may wait side by side.
+   *
+   * With approval required, the request must come from a signed-in operator:
+   * `requestedBy` is then the ID of the requester's session, which is
+   * resolved to the user recorded as the requester.
+   *
    * @param targetMode - The mode to switch to
    * @param requestId - Optional request ID for tracking
+   * @param requestedBy - Who asks; with approval required, the ID of the
+   * requester's operator session
    * @returns Request ID if confirmation is required, null if switch was executed
+   * @throws TransitionNotAllowedError if the current mode may not be left for `targetMode`
+   * @throws Error if a request with the same ID is already pending, or a
+   * request needing approval does not come from a signed-in session
    */
   public async requestModeSwitch(
     targetMode: NodeMode,
-    requestId: string = this.generateRequestId()
+    requestId: string = this.generateRequestId(),
+    requestedBy?: string
   ): Promise<string | null> {
-    // If mode is locked, reject the request unless unlocking
-    if (this.lockState === 'locked' && this.lockedMode !== targetMode) {
-      throw new Error(
-        `Mode is locked to ${this.lockedMode}. Unlock before switching.`
+    this.assertNotLockedAgainst(targetMode);
+    assertTransitionAllowed(this.getCurrentMode(), targetMode, 'manual');
+
+    if (this.config.requireApproval) {
+      const session = requestedBy ? this.services.sessions.resolve(requestedBy) : null;
+      if (!session) {
+        throw new Error('A mode switch needing approval must come from a signed-in requester');
+      }
+      const request = this.confirmations.add(
+        requestId,
+        targetMode,
+        session.user,
+        session.sessionId
       );
+      this.auditConfirmation(request, session.user, 'requested');
+      return requestId;
     }
 
     // If confirmation is required, store pending request
     if (this.config.requireConfirmation) {
-      this.pendingConfirmation = {
-        targetMode,
-        timestamp: Date.now(),
-        requestId,
-      };
+      const request = this.confirmations.add(requestId, targetMode, requestedBy ?? null);
+      this.auditConfirmation(request, requestedBy ?? DEFAULT_LOCK_HOLDER.owner, 'requested');
       return requestId;
     }
 
     // Execute the switch immediately
-    await this.executeModeSwitch(targetMode);
+    await this.executeModeSwitch(targetMode, requestedBy ?? DEFAULT_LOCK_HOLDER.owner);
     return null;
   }
 
   /**
    * Confirm a pending mode switch request
    *
+   * @remarks
+   * With approval required, `approver` is the ID of the approver's operator
+   * session. It must be a different session from the one the request came
+   * from, signed in by a user listed in `approvers` other than the
+   * requester; both identities and times are recorded with the transition.
+   * A denied approval leaves the request pending for someone else to
+   * approve. The lock is checked again: a request for another mode cannot
+   * be confirmed once the mode is locked.
+   *
    * @param requestId - The request ID to confirm
+   * @param approver - Who confirms; with approval required, the ID of the
+   * approver's operator session
+   * @throws Error if the request is unknown, expired or superseded
+   * @throws ApprovalDeniedError if the approver may not approve the request
+   * @throws Error if the mode is locked to another mode
    */
-  public async confirmModeSwitch(requestId: string): Promise<void> {
-    if (!this.pendingConfirmation || this.pendingConfirmation.requestId !== requestId) {
-      throw new Error('Invalid or expired request ID');
+  public async confirmModeSwitch(requestId: string, approver?: string): Promise<void> {
+    const pending = this.confirmations.get(requestId);
+    if (pending && this.config.requireApproval) {
+      const session = approver ? this.services.sessions.resolve(approver) : null;
+      try {
+        this.assertMayApprove(pending, this.confirmations.sessionOf(requestId), session);
+      } catch (error) {
+        const problem = error instanceof Error ? error.message : String(error);
+        this.auditConfirmation(pending, session?.user ?? DEFAULT_LOCK_HOLDER.owner, 'denied', {
+          problem,
+        });
+        throw error;
+      }
+      approver = session.user;
     }
 
-    const { targetMode } = this.pendingConfirmation;
-    this.pendingConfirmation = null;
-
-    await this.executeModeSwitch(targetMode);
+    const request = this.confirmations.take(requestId);
+    if (!request) {
+      throw new Error('Invalid or expired request ID');
+    }
+    this.assertNotLockedAgainst(request.targetMode);
+
+    const approval: ModeSwitchApproval | undefined =
+      this.config.requireApproval && request.requestedBy && approver
+        ? {
+            requestId,
+            targetMode: request.targetMode,
+            requestedBy: request.requestedBy,
+            requestedAt: request.requestedAt,
+            approvedBy: approver,
+            approvedAt: this.services.clock.now(),
+          }
+        : undefined;
+    if (approval) {
+      console.log(
+        `Mode switch request ${requestId} by ${approval.requestedBy} ` +
+          `approved by ${approval.approvedBy}`
+      );
+    }
+    const actor = approver ?? request.requestedBy ?? DEFAULT_LOCK_HOLDER.owner;
+    this.auditConfirmation(request, actor, approval ? 'approved' : 'confirmed');
+    await this.executeModeSwitch(request.targetMode, actor, approval);
   }
 
   /**
    * Cancel a pending mode switch request
    *
    * @param requestId - The request ID to cancel
+   * @param cancelledBy - Who cancels, for the audit log (defaults to the local user)
    */
-  public cancelModeSwitch(requestId: string): void {
-    if (this.pendingConfirmation && this.pendingConfirmation.requestId === requestId) {
-      this.pendingConfirmation = null;
+  public cancelModeSwitch(requestId: string, cancelledBy?: string): void {
+    const request = this.confirmations.get(requestId);
+    if (request && this.confirmations.cancel(requestId)) {
+      this.auditConfirmation(request, cancelledBy ?? DEFAULT_LOCK_HOLDER.owner, 'cancelled');
     }
   }
 
   /**
    * Lock the current mode to prevent automatic switching
    *
+   * @remarks
+   * A timed lock is ended by a timer: the mode is unlocked, lock expiry
+   * listeners are told, and automatic switching takes over again. Locking
+   * again replaces the previous lock and its end, provided the new lock's
+   * source ranks at least as high as the held one's (`LOCK_PRECEDENCE`):
+   * an admin lock overrides a user lock, never the other way round.
+   * Pending switch requests for other modes are cancelled, since the lock
+   * would keep them from ever being confirmed.
+   *
    * @param mode - The mode to lock to (defaults to current mode)
+   * @param options - Who locks, why and until when (defaults to an
+   * open-ended local lock)
+   * @throws Error if the lock would end before it is taken
+   * @throws LockHeldError if the held lock outranks the new one
    */
-  public lockMode(mode?: NodeMode): void {
-    this.lockedMode = mode || this.currentMode;
-    this.lockState = 'locked';
-    this.lockTime = Date.now();
+  public lockMode(mode?: NodeMode, options: LockOptions = {}): void {
+    const lockTime = this.services.clock.now();
+    const expiresAt = this.expiryFor(lockTime, options);
+    const holder: LockHolder = {
+      owner: options.owner ?? DEFAULT_LOCK_HOLDER.owner,
+      source: options.source ?? DEFAULT_LOCK_HOLDER.source,
+      reason: options.reason ?? DEFAULT_LOCK_HOLDER.reason,
+    };
+    this.assertMayOverride(holder, 'replace');
+    const previous = this.lockHolder;
 
+    this.lockedMode = mode || this.getCurrentMode();
+    this.lockState = 'locked';
+    this.lockTime = lockTime;
+    this.lockExpiresAt = expiresAt;
+    this.lockHolder = holder;
+    this.services.transitions.setLockedMode(this.lockedMode, lockTime, expiresAt, holder);
+    this.scheduleExpiry();
+
+    if (previous && previous.owner !== holder.owner) {
+      console.log(
+        `Mode lock of ${previous.owner} (${previous.source}) taken over by ` +
+          `${holder.owner} (${holder.source})`
+      );
+    }
+    const until = expiresAt === null ? '' : ` until ${new Date(expiresAt).toISOString()}`;
     console.log(
-      `Mode locked to ${this.lockedMode} at ${new Date(this.lockTime).toISOString()}`
+      `Mode locked to ${this.lockedMode} by ${holder.owner} (${holder.source}) at ` +
+        `${new Date(lockTime).toISOString()}${until}`
     );
+    void this.services.audit.record({
+      action: 'lock',
+      actor: holder.owner,
+      summary: `Mode locked to ${this.lockedMode}`,
+      details: {
+        mode: this.lockedMode,
+        source: holder.source,
+        reason: holder.reason,
+        expiresAt,
+        replaced: previous?.owner ?? null,
+      },
+    });
+    this.cancelRequestsAgainstLock(holder);
   }
 
   /**
-   * Unlock the mode to allow automatic switching
+   * Restore a lock taken before a restart
+   *
+   * @remarks
+   * A timed lock that ran out while the node was down expires right away.
+   *
+   * @param mode - The mode that was locked
+   * @param lockTime - When the lock was originally taken (epoch milliseconds)
+   * @param expiresAt - When a timed lock ends (epoch milliseconds)
+   * @param holder - Who took the lock (defaults to `DEFAULT_LOCK_HOLDER`)
    */
-  public unlockMode(): void {
-    const wasLocked = this.lockState === 'locked';
+  public restoreLock(
+    mode: NodeMode,
+    lockTime: number,
+    expiresAt: number | null = null,
+    holder: LockHolder | null = null
+  ): void {
+    this.lockedMode = mode;
+    this.lockState = 'locked';
+    this.lockTime = lockTime;
+    this.lockExpiresAt = this.expiryFor(lockTime, expiresAt === null ? {} : { until: expiresAt });
+    this.lockHolder = holder ?? { ...DEFAULT_LOCK_HOLDER };
+    this.services.transitions.setLockedMode(mode, lockTime, this.lockExpiresAt, this.lockHolder);
+    this.scheduleExpiry();
 
-    this.lockState = 'unlocked';
-    this.lockedMode = null;
-    this.lockTime = null;
+    console.log(`Mode lock to ${mode} restored (taken ${new Date(lockTime).toISOString()})`);
+  }
 
-    if (wasLocked) {
-      console.log(`Mode unlocked at ${new Date().toISOString()}`);
-    }
+  /**
+   * Unlock the mode to allow automatic switching
+   *
+   * @param requester - Who asks (defaults to the local user); a user
+   * cannot release an admin lock
+   * @throws LockHeldError if the held lock outranks the requester
+   */
+  public unlockMode(requester: Partial<LockRequester> = {}): void {
+    const owner = requester.owner ?? DEFAULT_LOCK_HOLDER.owner;
+    this.assertMayOverride(
+      { owner, source: requester.source ?? DEFAULT_LOCK_HOLDER.source },
+      'release'
+    );
+    this.releaseLock(owner);
   }
 
   /**
-   * Check if mode lock duration has exceeded maximum
+   * Check if the lock has reached its end or the maximum duration
    */
   public isLockExpired(): boolean {
-    if (
-      this.lockState === 'unlocked' ||
-      !this.lockTime ||
-      this.config.maxLockDuration === 0
-    ) {
+    if (this.lockState === 'unlocked' || this.lockExpiresAt === null) {
       return false;
     }
 
-    const elapsedTime = Date.now() - this.lockTime;
-    return elapsedTime > this.config.maxLockDuration;
+    return this.services.clock.now() >= this.lockExpiresAt;
   }
 
   /**
-   * Force unlock if maximum duration exceeded
+   * Force unlock if the lock has run out
+   *
+   * @remarks
+   * Expiry timers do this on their own; calling it only matters if a timer
+   * could not run on time.
    */
   public enforceMaxLockDuration(): void {
     if (this.isLockExpired()) {
-      console.warn('Lock duration exceeded maximum, forcing unlock');
-      this.unlockMode();
+      void this.expireLock();
     }
   }
 
@@ -201,8 +563,14 @@ export class ManualModeSwitcher {
     lockTime: Date | null;
     elapsedMs: number;
     isExpired: boolean;
+    expiresAt: Date | null;
+    remainingMs: number | null;
+    owner: string | null;
+    source: LockSource | null;
+    reason: string | null;
   } {
-    const elapsedMs = this.lockTime ? Date.now() - this.lockTime : 0;
+    const now = this.services.clock.now();
+    const elapsedMs = this.lockTime ? now - this.lockTime : 0;
 
     return {
       state: this.lockState,
@@ -210,165 +578,356 @@ export class ManualModeSwitcher {
       lockTime: this.lockTime ? new Date(this.lockTime) : null,
       elapsedMs,
       isExpired: this.isLockExpired(),
+      expiresAt: this.lockExpiresAt === null ? null : new Date(this.lockExpiresAt),
+      remainingMs: this.lockExpiresAt === null ? null : Math.max(0, this.lockExpiresAt - now),
+      owner: this.lockHolder?.owner ?? null,
+      source: this.lockHolder?.source ?? null,
+      reason: this.lockHolder?.reason ?? null,
     };
   }
 
   /**
-   * Get pending confirmation request info
+   * Register a listener for locks that ran out
    */
-  public getPendingConfirmation(): {
-    targetMode: NodeMode;
-    requestId: string;
-    age: number;
-  } | null {
-    if (!this.pendingConfirmation) {
-      return null;
-    }
+  public onLockExpired(listener: LockExpiryListener, options?: ListenerOptions): void {
+    this.expiryListeners.on(listener, options);
+  }
 
-    return {
-      targetMode: this.pendingConfirmation.targetMode,
-      requestId: this.pendingConfirmation.requestId,
-      age: Date.now() - this.pendingConfirmation.timestamp,
-    };
+  /**
+   * Unregister a lock expiry listener
+   */
+  public offLockExpired(listener: LockExpiryListener): void {
+    this.expiryListeners.off(listener);
   }
 
   /**
-   * Execute the actual mode switch
+   * Register a listener for switch requests that expired unconfirmed
    */
-  private async executeModeSwitch(newMode: NodeMode): Promise<void> {
-    const oldMode = this.currentMode;
+  public onConfirmationExpired(
+    listener: ConfirmationExpiredListener,
+    options?: ListenerOptions
+  ): void {
+    this.confirmations.onExpired(listener, options);
+  }
 
-    // Validate that switch is safe
-    if (newMode === 'idle_worker' && this.processingState.isProcessing()) {
+  /**
+   * Unregister a confirmation expiry listener
+   */
+  public offConfirmationExpired(listener: ConfirmationExpiredListener): void {
+    this.confirmations.offExpired(listener);
+  }
+
+  /**
+   * Register a listener for switch requests superseded by a request for
+   * another mode
+   */
+  public onConfirmationSuperseded(
+    listener: ConfirmationSupersededListener,
+    options?: ListenerOptions
+  ): void {
+    this.confirmations.onSuperseded(listener, options);
+  }
+
+  /**
+   * Unregister a confirmation supersede listener
+   */
+  public offConfirmationSuperseded(listener: ConfirmationSupersededListener): void {
+    this.confirmations.offSuperseded(listener);
+  }
+
+  /**
+   * Reject switches to a mode other than the locked one
+   */
+  private assertNotLockedAgainst(targetMode: NodeMode): void {
+    if (this.lockState === 'locked' && this.lockedMode !== targetMode) {
+      const by = this.lockHolder ? ` by ${this.lockHolder.owner} (${this.lockHolder.source})` : '';
       throw new Error(
-        'Cannot switch to worker mode while master jobs are processing'
+        `Mode is locked to ${this.lockedMode}${by}. Unlock before switching.`
       );
     }
+  }
 
-    try {
-      // Execute mode-specific transition logic
-      if (newMode === 'active_master') {
-        await this.transitionToMaster(oldMode);
-      } else if (newMode === 'idle_worker') {
-        await this.transitionToWorker(oldMode);
-      } else if (newMode === 'standby') {
-        await this.transitionToStandby();
-      }
+  /**
+   * Cancel pending switch requests for modes other than the locked one
+   */
+  private cancelRequestsAgainstLock(holder: LockHolder): void {
+    this.confirmations
+      .list()
+      .filter((request) => request.targetMode !== this.lockedMode)
+      .forEach((request) => {
+        this.confirmations.cancel(request.requestId);
+        console.log(
+          `Mode switch request ${request.requestId} cancelled by the lock to ${this.lockedMode}`
+        );
+        this.auditConfirmation(request, holder.owner, 'cancelled', {
+          lockedMode: this.lockedMode,
+        });
+      });
+  }
 
-      this.currentMode = newMode;
-      await this.notifyListeners(oldMode, newMode, `Manually switched to ${newMode}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Mode switch failed: ${errorMessage}`);
-      throw error;
+  /**
+   * Reject approvals from outside a signed-in session, from the requester's
+   * session or user, and from users who are not listed
+   *
+   * @param requesterSession - ID of the session the request came from
+   * @param session - The approver's session, null if unknown or ended
+   */
+  private assertMayApprove(
+    request: PendingConfirmation,
+    requesterSession: string | null,
+    session: OperatorSession | null
+  ): asserts session is OperatorSession {
+    if (!session) {
+      throw new ApprovalDeniedError(request, null, 'the approver must be signed in');
+    }
+    if (session.sessionId === requesterSession || session.user === request.requestedBy) {
+      throw new ApprovalDeniedError(
+        request,
+        session.user,
+        'requesters cannot approve their own request'
+      );
+    }
+    if (!this.config.approvers.includes(session.user)) {
+      throw new ApprovalDeniedError(request, session.user, 'not an authorised approver');
     }
   }
 
   /**
-   * Transition to Master mode
+   * Unlock regardless of who holds the lock
+   *
+   * @param actor - Who unlocks, for the audit log
+   * @param expired - Whether the lock ran out
    */
-  private async transitionToMaster(fromMode: NodeMode): Promise<void> {
-    console.log(`Transitioning from ${fromMode} to active_master...`);
-
-    if (fromMode === 'idle_worker') {
-      // Stop worker service
-      await this.stopWorkerService();
-    }
+  private releaseLock(actor: string, expired: boolean = false): void {
+    const wasLocked = this.lockState === 'locked';
+    const mode = this.lockedMode;
+    const holder = this.lockHolder;
 
-    // Start master services if needed
-    await this.startMasterServices();
+    this.clearExpiryTimer();
+    this.lockState = 'unlocked';
+    this.lockedMode = null;
+    this.lockTime = null;
+    this.lockExpiresAt = null;
+    this.lockHolder = null;
+    this.services.transitions.setLockedMode(null, this.services.clock.now());
 
-    // Notify coordination service
-    await this.notifyCoordinationService('worker_available', false);
+    if (wasLocked) {
+      console.log(`Mode unlocked at ${new Date(this.services.clock.now()).toISOString()}`);
+      void this.services.audit.record({
+        action: 'unlock',
+        actor,
+        summary: `Mode lock to ${mode} released`,
+        details: { mode, holder: holder?.owner ?? null, expired },
+      });
+    }
   }
 
   /**
-   * Transition to Worker mode
+   * Record what happened to a switch request in the audit log
    */
-  private async transitionToWorker(fromMode: NodeMode): Promise<void> {
-    console.log(`Transitioning from ${fromMode} to idle_worker...`);
+  private auditConfirmation(
+    request: PendingConfirmation,
+    actor: string,
+    outcome:
+      | 'requested'
+      | 'confirmed'
+      | 'approved'
+      | 'denied'
+      | 'cancelled'
+      | 'expired'
+      | 'superseded',
+    details: Record<string, unknown> = {}
+  ): void {
+    void this.services.audit.record({
+      action: 'confirmation',
+      actor,
+      summary: `Switch request ${request.requestId} to ${request.targetMode} ${outcome}`,
+      details: {
+        requestId: request.requestId,
+        targetMode: request.targetMode,
+        requestedBy: request.requestedBy,
+        outcome,
+        ...details,
+      },
+    });
+  }
 
-    // Verify no processing
-    if (this.processingState.isProcessing()) {
-      throw new Error('Master jobs still processing');
+  /**
+   * Check that the requester ranks at least as high as the lock holder
+   */
+  private assertMayOverride(requester: LockRequester, action: 'replace' | 'release'): void {
+    const holder = this.lockHolder;
+    if (
+      this.lockState === 'locked' &&
+      holder &&
+      LOCK_PRECEDENCE[requester.source] < LOCK_PRECEDENCE[holder.source]
+    ) {
+      throw new LockHeldError(holder, requester, action);
     }
+  }
 
-    // Transfer any pending tasks
-    const pendingCount = this.processingState.getPendingTaskCount();
-    if (pendingCount > 0) {
-      await this.transferPendingTasks(pendingCount);
+  /**
+   * Work out when a lock taken at `lockTime` ends, or null if never
+   */
+  private expiryFor(lockTime: number, options: LockOptions): number | null {
+    const ends: number[] = [];
+    if (options.until !== undefined) {
+      ends.push(options.until instanceof Date ? options.until.getTime() : options.until);
+    }
+    if (options.duration !== undefined) {
+      ends.push(lockTime + options.duration);
+    }
+    if (ends.some((end) => !(end > lockTime))) {
+      throw new Error('A timed lock must end after it is taken');
     }
 
-    // Start worker service
-    await this.startWorkerService();
-
-    // Notify coordination service
-    await this.notifyCoordinationService('worker_available', true);
+    if (this.config.maxLockDuration > 0) {
+      ends.push(lockTime + this.config.maxLockDuration);
+    }
+    return ends.length === 0 ? null : Math.min(...ends);
   }
 
   /**
-   * Transition to Standby mode
+   * Arm the timer ending the current lock, if it is timed
    */
-  private async transitionToStandby(): Promise<void> {
-    console.log('Transitioning to standby...');
-    // Standby state is passive, no special transition needed
+  private scheduleExpiry(): void {
+    this.clearExpiryTimer();
+    if (this.lockExpiresAt === null) {
+      return;
+    }
+
+    const remaining = Math.max(0, this.lockExpiresAt - this.services.clock.now());
+    this.expiryTimer = this.services.clock.setTimeout(() => {
+      this.expiryTimer = null;
+      if (this.isLockExpired()) {
+        void this.expireLock();
+      } else {
+        this.scheduleExpiry();
+      }
+    }, Math.min(remaining, MAX_TIMER_DELAY));
   }
 
-  /**
-   * Start master services
-   */
-  private async startMasterServices(): Promise<void> {
-    console.log('Starting master services...');
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer !== null) {
+      this.services.clock.clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
   }
 
   /**
-   * Stop worker service
+   * Unlock a lock that ran out and tell the expiry listeners
    */
-  private async stopWorkerService(): Promise<void> {
-    console.log('Stopping worker service...');
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  private async expireLock(): Promise<void> {
+    if (
+      this.lockedMode === null ||
+      this.lockTime === null ||
+      this.lockExpiresAt === null ||
+      this.lockHolder === null
+    ) {
+      return;
+    }
+    const expiry: LockExpiry = {
+      mode: this.lockedMode,
+      lockTime: this.lockTime,
+      expiresAt: this.lockExpiresAt,
+      holder: this.lockHolder,
+    };
+
+    console.log(`Mode lock to ${expiry.mode} expired, automatic switching resumes`);
+    this.releaseLock(SYSTEM_ACTOR, true);
+    await this.expiryListeners.emit(expiry);
   }
 
   /**
-   * Start worker service
+   * Get pending confirmation request info
+   *
+   * @param requestId - The request to look up (defaults to the most recent one)
    */
-  private async startWorkerService(): Promise<void> {
-    console.log('Starting worker service...');
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  public getPendingConfirmation(requestId?: string): PendingConfirmationInfo | null {
+    return requestId === undefined
+      ? this.confirmations.latest()
+      : this.confirmations.get(requestId);
   }
 
   /**
-   * Transfer pending tasks to other workers
+   * Get every request awaiting confirmation, oldest first
    */
-  private async transferPendingTasks(count: number): Promise<void> {
-    console.log(`Transferring ${count} pending tasks...`);
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  public getPendingConfirmations(): PendingConfirmationInfo[] {
+    return this.confirmations.list();
   }
 
   /**
-   * Notify coordination service of availability changes
+   * Execute the actual mode switch
+   *
+   * @remarks
+   * Runs within the transition's budget; a switch that misses its hard
+   * deadline is rolled back and rethrown. Guards may delay the switch or
+   * veto it with a `TransitionVetoedError`.
    */
-  private async notifyCoordinationService(
-    event: string,
-    available: boolean
+  private async executeModeSwitch(
+    newMode: NodeMode,
+    actor: string,
+    approval?: ModeSwitchApproval
   ): Promise<void> {
-    console.log(`[CoordinationService] ${event}: ${available}`);
-    return new Promise((resolve) => setTimeout(resolve, 50));
+    const oldMode = this.getCurrentMode();
+
+    // Validate that switch is safe
+    if (isWorkerMode(newMode) && this.processingState.isProcessing()) {
+      throw new Error(
+        'Cannot switch to worker mode while master jobs are processing'
+      );
+    }
+
+    try {
+      const reason = approval
+        ? `Manually switched to ${newMode} (requested by ${approval.requestedBy}, ` +
+          `approved by ${approval.approvedBy})`
+        : `Manually switched to ${newMode}`;
+      const budget = budgetFor(
+        this.budgets,
+        oldMode,
+        newMode,
+        defaultBudget(this.config.switchTimeout)
+      );
+      await this.services.transitions.transition(newMode, {
+        source: 'manual',
+        reason,
+        timeout: budget.hard,
+        softTimeout: budget.soft,
+        approval,
+        actor,
+        // A lock taken while guards delayed the switch wins over it
+        stillWanted: () => this.lockState !== 'locked' || this.lockedMode === newMode,
+      });
+      await this.notifyListeners(oldMode, newMode, reason);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Mode switch failed: ${errorMessage}`);
+      throw error;
+    }
   }
 
   /**
    * Register a listener for mode changes
    */
-  public onModeChange(listener: ModeChangeListener): void {
-    this.listeners.add(listener);
+  public onModeChange(listener: ModeChangeListener, options?: ListenerOptions): void {
+    this.listeners.on(listener, options);
   }
 
   /**
    * Unregister a mode change listener
    */
   public offModeChange(listener: ModeChangeListener): void {
-    this.listeners.delete(listener);
+    this.listeners.off(listener);
+  }
+
+  /**
+   * Consume mode changes as an `AsyncIterable` of listener arguments
+   */
+  public modeChanges(
+    options?: SubscriptionOptions
+  ): AsyncIterableIterator<Parameters<ModeChangeListener>> {
+    return this.listeners.subscribe(options);
   }
 
   /**
@@ -379,17 +938,13 @@ export class ManualModeSwitcher {
     newMode: NodeMode,
     reason: string
   ): Promise<void> {
-    const promises = Array.from(this.listeners).map((listener) =>
-      Promise.resolve(listener(oldMode, newMode, reason))
-    );
-
-    await Promise.all(promises);
+    await this.listeners.emit(oldMode, newMode, reason);
   }
 
   /**
    * Generate a unique request ID for tracking
    */
   private generateRequestId(): string {
-    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `req_${this.services.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 }
@@ -0,0 +1,457 @@
+/**
+ * Mode Policy Engine
+ *
+ * Replaces the hard-coded priorities of automatic mode determination with
+ * ordered, composable policies. Each policy looks at the node's state and
+ * either votes for a mode (with a reason) or abstains; the first vote wins.
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature (FR-2.2.3)
+ */
+
+import type { NodeMode, ModeSwitchConfig } from './mode-switcher';
+
+/**
+ * State a policy decides on
+ */
+export interface PolicyContext {
+  /** Mode the node is currently in */
+  currentMode: NodeMode;
+  /** Time since last user input (milliseconds) */
+  timeSinceInput: number;
+  /** Whether master jobs are running */
+  isProcessing: boolean;
+  /** Number of tasks leased to this node */
+  pendingTasks: number;
+  /** Whether the mode is locked */
+  locked: boolean;
+  /** Named system metrics, e.g. `cpu` (percent) */
+  metrics: Record<string, number>;
+  /** Evaluation time (epoch milliseconds) */
+  now: number;
+  /** Active mode switch thresholds */
+  config: ModeSwitchConfig;
+}
+
+/**
+ * A policy's vote
+ */
+export interface PolicyVote {
+  /** Mode the policy wants */
+  mode: NodeMode;
+  /** Why the policy wants it */
+  reason: string;
+}
+
+/**
+ * A single mode policy
+ */
+export interface ModePolicy {
+  /** Unique policy name, shown in mode change notifications */
+  readonly name: string;
+
+  /**
+   * Vote for a mode, or return null to abstain
+   */
+  evaluate(context: PolicyContext): PolicyVote | null;
+
+  /**
+   * Optionally describe how the policy reached its vote, for traces
+   */
+  explain?(context: PolicyContext): string[];
+}
+
+/**
+ * Outcome of evaluating a policy set
+ */
+export interface PolicyDecision extends PolicyVote {
+  /** Name of the policy whose vote won */
+  policy: string;
+}
+
+/**
+ * One policy consulted while tracing a decision
+ */
+export interface PolicyTraceStep {
+  /** Policy name */
+  policy: string;
+  /** The policy's vote, or null if it abstained */
+  vote: PolicyVote | null;
+  /** Policy-specific explanation */
+  details: string[];
+}
+
+/**
+ * Explanation of a decision ("why am I in this mode")
+ */
+export interface PolicyTrace {
+  /** The decision reached */
+  decision: PolicyDecision;
+  /** Policies consulted, in order, up to and including the winner */
+  steps: PolicyTraceStep[];
+  /** State the decision was made on */
+  context: PolicyContext;
+}
+
+/**
+ * Source of named system metrics for policies
+ *
+ * @remarks
+ * Well-known names are `cpu` (percent busy), `foregroundCpu` (percent busy
+ * excluding the worker and its tasks) and `pendingTasks` (tasks leased to
+ * this node); any other name is available to rules via `metrics`.
+ */
+export interface MetricsSource {
+  /** Get the current metric values */
+  getMetrics(): Record<string, number>;
+}
+
+/**
+ * Policy Engine - Evaluates an ordered list of policies
+ *
+ * @remarks
+ * Policies are consulted in order and the first one that votes decides.
+ * If every policy abstains the node stays in its current mode.
+ */
+export class PolicyEngine {
+  private policies: ModePolicy[];
+
+  constructor(policies: ModePolicy[] = createDefaultPolicies()) {
+    this.policies = [];
+    policies.forEach((policy) => this.use(policy));
+  }
+
+  /**
+   * Decide the mode for the given state
+   */
+  public evaluate(context: PolicyContext): PolicyDecision {
+    for (const policy of this.policies) {
+      const vote = policy.evaluate(context);
+      if (vote) {
+        return { ...vote, policy: policy.name };
+      }
+    }
+
+    return {
+      mode: context.currentMode,
+      reason: 'No policy voted',
+      policy: 'none',
+    };
+  }
+
+  /**
+   * Decide the mode and record how every consulted policy voted
+   */
+  public explain(context: PolicyContext): PolicyTrace {
+    const steps: PolicyTraceStep[] = [];
+
+    for (const policy of this.policies) {
+      const vote = policy.evaluate(context);
+      steps.push({
+        policy: policy.name,
+        vote,
+        details: policy.explain ? policy.explain(context) : [],
+      });
+      if (vote) {
+        return { decision: { ...vote, policy: policy.name }, steps, context };
+      }
+    }
+
+    return { decision: this.evaluate(context), steps, context };
+  }
+
+  /**
+   * Add a policy
+   *
+   * @param policy - Policy to add
+   * @param index - Position in the evaluation order (defaults to last)
+   */
+  public use(policy: ModePolicy, index: number = this.policies.length): void {
+    if (this.policies.some((existing) => existing.name === policy.name)) {
+      throw new Error(`Policy ${policy.name} is already registered`);
+    }
+    this.policies.splice(index, 0, policy);
+  }
+
+  /**
+   * Add a policy directly before another one
+   */
+  public useBefore(name: string, policy: ModePolicy): void {
+    this.use(policy, this.requireIndex(name));
+  }
+
+  /**
+   * Remove a policy by name
+   *
+   * @returns Whether the policy was registered
+   */
+  public remove(name: string): boolean {
+    const index = this.policies.findIndex((policy) => policy.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.policies.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Replace the whole policy set
+   */
+  public setPolicies(policies: ModePolicy[]): void {
+    this.policies = [];
+    policies.forEach((policy) => this.use(policy));
+  }
+
+  /**
+   * Get the policies in evaluation order
+   */
+  public getPolicies(): ModePolicy[] {
+    return [...this.policies];
+  }
+
+  private requireIndex(name: string): number {
+    const index = this.policies.findIndex((policy) => policy.name === name);
+    if (index === -1) {
+      throw new Error(`Unknown policy: ${name}`);
+    }
+    return index;
+  }
+}
+
+/**
+ * Stay master while the user is actively using the machine
+ */
+export const userActivityPolicy: ModePolicy = {
+  name: 'user-activity',
+  evaluate: ({ timeSinceInput, config }) =>
+    timeSinceInput < config.activeThreshold
+      ? { mode: 'active_master', reason: `User input ${formatDuration(timeSinceInput)} ago` }
+      : null,
+};
+
+/**
+ * Stay master while master jobs are running (don't interrupt processing)
+ */
+export const masterProcessingPolicy: ModePolicy = {
+  name: 'master-processing',
+  evaluate: ({ isProcessing }) =>
+    isProcessing ? { mode: 'active_master', reason: 'Master jobs are running' } : null,
+};
+
+/**
+ * Go to standby, then worker mode, as idle time grows
+ */
+export const idleTimePolicy: ModePolicy = {
+  name: 'idle-time',
+  evaluate: ({ timeSinceInput, config }) =>
+    timeSinceInput < config.standbyThreshold
+      ? { mode: 'standby', reason: `Idle for ${formatDuration(timeSinceInput)}` }
+      : {
+          mode: 'idle_worker',
+          reason: `Idle for ${formatDuration(timeSinceInput)} (threshold ${formatDuration(
+            config.standbyThreshold
+          )})`,
+        },
+};
+
+/**
+ * Share cores with the cluster while the user works on a lightly loaded
+ * machine
+ *
+ * @remarks
+ * Decides on `foregroundCpu`, which excludes the worker's own load, and
+ * abstains without it. Sharing starts below `sharedEnterLoad` and lasts
+ * until the load exceeds `sharedExitLoad`; the policy then abstains and
+ * the user-activity policy takes the node back. Runs before user activity
+ * when `sharedWorkerEnabled` is set.
+ */
+export const sharedWorkerPolicy: ModePolicy = {
+  name: 'shared-worker',
+  evaluate: ({ currentMode, timeSinceInput, isProcessing, metrics, config }) => {
+    const load = metrics.foregroundCpu;
+    if (load === undefined || isProcessing || timeSinceInput >= config.activeThreshold) {
+      return null;
+    }
+
+    const limit = currentMode === 'shared_worker' ? config.sharedExitLoad : config.sharedEnterLoad;
+    return load < limit
+      ? { mode: 'shared_worker', reason: `Foreground load ${load}% below ${limit}%` }
+      : null;
+  },
+};
+
+/**
+ * Create the default policy set
+ *
+ * @remarks
+ * Reproduces the original FR-2.2.3 priorities:
+ * 1. User activity
+ * 2. Master processing state
+ * 3. Idle time thresholds
+ */
+export function createDefaultPolicies(): ModePolicy[] {
+  return [userActivityPolicy, masterProcessingPolicy, idleTimePolicy];
+}
+
+/**
+ * Create a policy that votes for a mode whenever a condition holds
+ *
+ * @example
+ * ```ts
+ * // Become worker only when on AC power
+ * conditionPolicy('ac-power', () => !power.isOnAc(), 'standby', 'Running on battery');
+ * ```
+ */
+export function conditionPolicy(
+  name: string,
+  condition: (context: PolicyContext) => boolean,
+  mode: NodeMode,
+  reason: string
+): ModePolicy {
+  return {
+    name,
+    evaluate: (context) => (condition(context) ? { mode, reason } : null),
+  };
+}
+
+/**
+ * Create a policy that votes for a mode while a metric exceeds a threshold
+ *
+ * @example
+ * ```ts
+ * // Stay master while SolidWorks CPU > 30%
+ * thresholdPolicy('solidworks-cpu', () => monitor.getCpu('SLDWORKS'), 30, 'active_master');
+ * ```
+ */
+export function thresholdPolicy(
+  name: string,
+  read: (context: PolicyContext) => number,
+  threshold: number,
+  mode: NodeMode
+): ModePolicy {
+  return {
+    name,
+    evaluate: (context) => {
+      const value = read(context);
+      return value > threshold ? { mode, reason: `${name} is ${value} (> ${threshold})` } : null;
+    },
+  };
+}
+
+/**
+ * Business hours definition
+ */
+export interface BusinessHours {
+  /** First hour of business (0-23, local time) */
+  startHour: number;
+  /** Hour business ends (exclusive, 1-24, local time) */
+  endHour: number;
+  /** Business days (0 = Sunday) */
+  days: number[];
+}
+
+/**
+ * Default business hours: 9:00-18:00, Monday to Friday
+ */
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  startHour: 9,
+  endHour: 18,
+  days: [1, 2, 3, 4, 5],
+};
+
+/**
+ * Create a policy that keeps the node out of worker mode during business hours
+ *
+ * @remarks
+ * Votes for standby unless the user is active, so place it after
+ * `user-activity` and before `idle-time`.
+ */
+export function businessHoursPolicy(
+  hours: Partial<BusinessHours> = {},
+  name: string = 'business-hours'
+): ModePolicy {
+  const { startHour, endHour, days } = { ...DEFAULT_BUSINESS_HOURS, ...hours };
+
+  return conditionPolicy(
+    name,
+    ({ now }) => {
+      const date = new Date(now);
+      const hour = date.getHours();
+      return days.includes(date.getDay()) && hour >= startHour && hour < endHour;
+    },
+    'standby',
+    `Business hours (${startHour}:00-${endHour}:00)`
+  );
+}
+
+/**
+ * Combine policies into one that votes with the first member's vote
+ *
+ * @remarks
+ * Useful for shipping a group of rules that must stay together in the
+ * evaluation order. The decision names the composite policy and includes
+ * the member that voted in the reason.
+ */
+export function firstOf(name: string, policies: ModePolicy[]): ModePolicy {
+  return {
+    name,
+    evaluate: (context) => {
+      for (const policy of policies) {
+        const vote = policy.evaluate(context);
+        if (vote) {
+          return { mode: vote.mode, reason: `${policy.name}: ${vote.reason}` };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Render a trace as human readable text
+ */
+export function formatPolicyTrace(trace: PolicyTrace): string {
+  const { decision, steps, context } = trace;
+  const lines = [
+    `Mode ${decision.mode} chosen by ${decision.policy}: ${decision.reason}`,
+    `State: mode=${context.currentMode}, idle=${formatDuration(context.timeSinceInput)}, ` +
+      `processing=${context.isProcessing}, pendingTasks=${context.pendingTasks}, ` +
+      `locked=${context.locked}`,
+  ];
+
+  steps.forEach((step, index) => {
+    const outcome = step.vote ? `voted ${step.vote.mode} (${step.vote.reason})` : 'abstained';
+    lines.push(`${index + 1}. ${step.policy}: ${outcome}`);
+    step.details.forEach((detail) => lines.push(`   - ${detail}`));
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Mock implementation of MetricsSource for testing and demo
+ */
+export class MockMetricsSource implements MetricsSource {
+  private metrics: Record<string, number> = {};
+
+  getMetrics(): Record<string, number> {
+    return { ...this.metrics };
+  }
+
+  // Test helpers
+  setMetric(name: string, value: number): void {
+    this.metrics[name] = value;
+  }
+}
+
+/**
+ * Format a duration for policy reasons
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (ms < 60 * 1000) {
+    return `${Math.round(ms / 1000)}s`;
+  }
+  return `${Math.round(ms / 60000)}min`;
+}
@@ -0,0 +1,303 @@
+/**
+ * Mode Simulation
+ *
+ * Replays a scripted day against a node controller on a virtual clock:
+ * when the user is at the keyboard, when master jobs run, and manual
+ * actions such as locks, at fixed times. Every poll, damping hold and
+ * threshold fires exactly as it would in real time, but a full workday
+ * runs in milliseconds and yields the exact sequence of modes.
+ *
+ * @see src/clock.ts for the virtual clock
+ */
+
+import type { MasterProcessingState, NodeMode, UserInputTracker } from './mode-switcher';
+import type { NodeServices } from './node-services';
+import type { TransitionSource } from './transition-pipeline';
+import { NodeController, NodeControllerConfig } from './node-controller';
+import { Clock, VirtualClock } from './clock';
+
+/**
+ * A stretch of time, relative to the start of the simulation (milliseconds)
+ */
+export interface SimulationPeriod {
+  /** Start of the period, inclusive */
+  from: number;
+  /** End of the period, exclusive */
+  to: number;
+}
+
+/**
+ * A master job run during the simulation
+ */
+export interface ScriptedJob extends SimulationPeriod {
+  /** Job identifier */
+  id: string;
+  /** Tasks reported as pending while the job runs */
+  pendingTasks?: number;
+}
+
+/**
+ * Something done to the controller at a fixed time, such as a manual switch
+ */
+export interface ScriptedAction {
+  /** When the action runs, relative to the start (milliseconds) */
+  at: number;
+  /** Name used in errors */
+  name: string;
+  /** The action */
+  run(controller: NodeController): void | Promise<void>;
+}
+
+/**
+ * What happens during a simulated day
+ */
+export interface SimulationScript {
+  /** Periods the user is working at the node */
+  input: SimulationPeriod[];
+  /** Master jobs */
+  jobs: ScriptedJob[];
+  /** Actions taken on the controller */
+  actions: ScriptedAction[];
+}
+
+/**
+ * Configuration for a simulation
+ */
+export interface ModeSimulationConfig {
+  /** Time the simulation starts at (epoch milliseconds) */
+  start: number;
+  /** Settings for the simulated controller */
+  controller: Partial<NodeControllerConfig>;
+  /** Services of the simulated controller; mocks are used for the rest */
+  services: Partial<Omit<NodeServices, 'clock'>>;
+}
+
+/**
+ * Default configuration for a simulation
+ */
+export const DEFAULT_MODE_SIMULATION_CONFIG: ModeSimulationConfig = {
+  start: Date.UTC(2024, 0, 8), // a Monday, midnight UTC
+  controller: {},
+  services: {},
+};
+
+/**
+ * A mode change seen during the simulation
+ */
+export interface SimulatedModeChange {
+  /** When the mode changed, relative to the start (milliseconds) */
+  at: number;
+  /** Mode left */
+  from: NodeMode;
+  /** Mode entered */
+  to: NodeMode;
+  /** Who requested the change */
+  source: TransitionSource;
+  /** Why the mode changed */
+  reason: string;
+}
+
+/**
+ * A scripted action that threw
+ */
+export interface SimulationActionError {
+  /** When the action ran, relative to the start (milliseconds) */
+  at: number;
+  /** Name of the action */
+  name: string;
+  /** The error message */
+  message: string;
+}
+
+/**
+ * Outcome of a simulation run
+ */
+export interface SimulationResult {
+  /** Mode changes in the order they happened */
+  changes: SimulatedModeChange[];
+  /** Mode at the start, then every mode entered */
+  modes: NodeMode[];
+  /** Actions that threw, in the order they ran */
+  errors: SimulationActionError[];
+  /** Mode at the end of the run */
+  finalMode: NodeMode;
+}
+
+/**
+ * User input tracker following a script of working periods
+ *
+ * @remarks
+ * The user counts as having just given input throughout a period. Before
+ * the first period the last input is taken to be the tracker's creation.
+ */
+export class ScriptedInputTracker implements UserInputTracker {
+  private lastInput: number;
+
+  /**
+   * @param periods - Working periods (epoch milliseconds)
+   */
+  constructor(
+    private clock: Clock,
+    private periods: SimulationPeriod[]
+  ) {
+    this.lastInput = clock.now();
+  }
+
+  getTimeSinceLastInput(): number {
+    const now = this.clock.now();
+    let last = this.lastInput;
+
+    for (const period of this.periods) {
+      if (period.from <= now && now < period.to) {
+        return 0;
+      }
+      if (period.to <= now) {
+        last = Math.max(last, period.to);
+      }
+    }
+    return now - last;
+  }
+
+  resetLastInput(): void {
+    this.lastInput = this.clock.now();
+  }
+
+  startMonitoring(): void {
+    // Scripted: nothing to monitor
+  }
+
+  stopMonitoring(): void {
+    // Scripted: nothing to monitor
+  }
+}
+
+/**
+ * Master processing state following a script of jobs
+ */
+export class ScriptedProcessingState implements MasterProcessingState {
+  /**
+   * @param jobs - Master jobs (epoch milliseconds)
+   */
+  constructor(
+    private clock: Clock,
+    private jobs: ScriptedJob[]
+  ) {}
+
+  isProcessing(): boolean {
+    return this.currentJob() !== null;
+  }
+
+  getPendingTaskCount(): number {
+    return this.currentJob()?.pendingTasks ?? 0;
+  }
+
+  getCurrentJobId(): string | null {
+    return this.currentJob()?.id ?? null;
+  }
+
+  private currentJob(): ScriptedJob | null {
+    const now = this.clock.now();
+    return this.jobs.find((job) => job.from <= now && now < job.to) ?? null;
+  }
+}
+
+/**
+ * Mode Simulation - Replays a scripted day on a virtual clock
+ *
+ * @remarks
+ * Build one simulation per scenario; `run()` starts automatic switching,
+ * moves the clock forward and stops it again. Runs continue where the
+ * previous one ended, so a test can check the state between stretches of
+ * the day through `controller`. Script times are relative to the start.
+ */
+export class ModeSimulation {
+  /** The virtual clock driving the controller */
+  public readonly clock: VirtualClock;
+  /** The simulated controller */
+  public readonly controller: NodeController;
+
+  private config: ModeSimulationConfig;
+  private initialMode: NodeMode;
+  private changes: SimulatedModeChange[] = [];
+  private errors: SimulationActionError[] = [];
+
+  constructor(script: Partial<SimulationScript> = {}, config: Partial<ModeSimulationConfig> = {}) {
+    this.config = { ...DEFAULT_MODE_SIMULATION_CONFIG, ...config };
+    const { start } = this.config;
+    this.clock = new VirtualClock(start);
+
+    const shift = <T extends SimulationPeriod>(period: T): T => ({
+      ...period,
+      from: start + period.from,
+      to: start + period.to,
+    });
+    this.controller = new NodeController(
+      new ScriptedInputTracker(this.clock, (script.input ?? []).map(shift)),
+      new ScriptedProcessingState(this.clock, (script.jobs ?? []).map(shift)),
+      this.config.controller,
+      { ...this.config.services, clock: this.clock }
+    );
+    this.initialMode = this.controller.getCurrentMode();
+
+    this.controller.onModeChange((from, to, reason, source) => {
+      if (from !== to) {
+        this.changes.push({ at: this.elapsed(), from, to, source, reason });
+      }
+    });
+    (script.actions ?? []).forEach((action) => {
+      this.clock.setTimeout(() => void this.runAction(action), Math.max(0, action.at));
+    });
+  }
+
+  /**
+   * Time since the start of the simulation (milliseconds)
+   */
+  public elapsed(): number {
+    return this.clock.now() - this.config.start;
+  }
+
+  /**
+   * Run automatic switching for a while
+   *
+   * @param duration - Simulated time to run for (milliseconds)
+   */
+  public async run(duration: number): Promise<SimulationResult> {
+    this.controller.start();
+    try {
+      await this.clock.advance(duration);
+    } finally {
+      this.controller.stop();
+    }
+    return this.getResult();
+  }
+
+  /**
+   * Run automatic switching until a time
+   *
+   * @param at - Time to stop at, relative to the start (milliseconds)
+   */
+  public runUntil(at: number): Promise<SimulationResult> {
+    return this.run(Math.max(0, at - this.elapsed()));
+  }
+
+  /**
+   * Everything seen since the start of the simulation
+   */
+  public getResult(): SimulationResult {
+    return {
+      changes: [...this.changes],
+      modes: [this.initialMode, ...this.changes.map((change) => change.to)],
+      errors: [...this.errors],
+      finalMode: this.controller.getCurrentMode(),
+    };
+  }
+
+  private async runAction(action: ScriptedAction): Promise<void> {
+    try {
+      await action.run(this.controller);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.errors.push({ at: this.elapsed(), name: action.name, message });
+    }
+  }
+}
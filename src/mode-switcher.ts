@@ -6,10 +6,62 @@
  * 2. Master processing execution state
  * 3. Idle time thresholds
  *
+ * Optionally, a node whose user is active but barely loads the machine
+ * shares some cores with the cluster (`shared_worker`) and gives them back
+ * as soon as the foreground load rises.
+ *
  * @see Issue #2.2: Auto Mode Switching Feature
  */
 
-export type NodeMode = 'active_master' | 'standby' | 'idle_worker';
+import { NodeServices, createNodeServices } from './node-services';
+import type { ClockTimer } from './clock';
+import { SYSTEM_ACTOR } from './audit-log';
+import {
+  PolicyEngine,
+  PolicyDecision,
+  PolicyContext,
+  PolicyTrace,
+  sharedWorkerPolicy,
+} from './mode-policy';
+import { FlapDamper, FlapDampingConfig, SuppressedTransition } from './flap-damper';
+import { isWorkerMode } from './worker-service';
+import {
+  budgetFor,
+  createBudgetTable,
+  defaultBudget,
+  TransitionBudgetOverrides,
+  TransitionBudgetTable,
+} from './transition-budgets';
+import { isTransitionAllowed } from './mode-transitions';
+import { TransitionVetoedError } from './transition-guards';
+import { StaleTransitionError, WithdrawnTransitionError } from './transition-pipeline';
+import {
+  EventDispatcher,
+  EventDispatcherConfig,
+  ListenerOptions,
+  SubscriptionOptions,
+} from './event-dispatcher';
+
+/**
+ * Node mode
+ *
+ * - `shared_worker`: the user is active, and the worker runs alongside at
+ *   reduced priority with capped cores and memory
+ * - `maintenance`: excluded from scheduling, no automatic switching
+ * - `draining`: finishes the tasks already leased, accepts no new ones,
+ *   then becomes `active_master`
+ * - `offline`: taken out of the cluster
+ *
+ * @see src/mode-transitions.ts for which mode may follow which
+ */
+export type NodeMode =
+  | 'active_master'
+  | 'standby'
+  | 'idle_worker'
+  | 'shared_worker'
+  | 'maintenance'
+  | 'draining'
+  | 'offline';
 
 /**
  * Configuration for mode switching behavior
@@ -23,10 +75,33 @@ export interface ModeSwitchConfig {
   idleThreshold: number;
   /** Polling interval for checking status (milliseconds) */
   pollInterval: number;
-  /** Timeout for mode switch operations (milliseconds) */
+  /** Hard deadline of mode switches without a budget of their own (milliseconds) */
   switchTimeout: number;
+  /** Deadlines of selected transitions, replacing the defaults */
+  switchBudgets: TransitionBudgetOverrides;
+  /** Hysteresis applied to automatic switches */
+  damping: Partial<FlapDampingConfig>;
+  /** Whether to share cores while the user is active */
+  sharedWorkerEnabled: boolean;
+  /** Foreground CPU load below which sharing starts (percent) */
+  sharedEnterLoad: number;
+  /** Foreground CPU load above which sharing stops at once (percent) */
+  sharedExitLoad: number;
+  /** Interval for checking the foreground load while sharing (milliseconds) */
+  sharedLoadCheckInterval: number;
+  /** Delivery of mode change events */
+  listeners: Partial<EventDispatcherConfig>;
 }
 
+/**
+ * Mode switching settings that can be changed on a running switcher
+ *
+ * @remarks
+ * Damping and event delivery keep the state they have built up, so they
+ * are only set at construction.
+ */
+export type ModeSwitchSettings = Omit<ModeSwitchConfig, 'damping' | 'listeners'>;
+
 /**
  * Default configuration for mode switching
  */
@@ -36,6 +111,13 @@ export const DEFAULT_MODE_SWITCH_CONFIG: ModeSwitchConfig = {
   idleThreshold: 6 * 60 * 1000, // 6 minutes
   pollInterval: 1000, // 1 second
   switchTimeout: 5000, // 5 seconds
+  switchBudgets: {}, // see createBudgetTable
+  damping: {}, // see DEFAULT_FLAP_DAMPING_CONFIG
+  sharedWorkerEnabled: false,
+  sharedEnterLoad: 20, // percent
+  sharedExitLoad: 50, // percent
+  sharedLoadCheckInterval: 200, // 0.2 seconds
+  listeners: {}, // see DEFAULT_EVENT_DISPATCHER_CONFIG
 };
 
 /**
@@ -71,33 +153,77 @@ export interface MasterProcessingState {
 
 /**
  * Mode switching event listener
+ *
+ * @remarks
+ * Automatic switches pass the policy decision that caused them.
  */
 export type ModeChangeListener = (
   oldMode: NodeMode,
   newMode: NodeMode,
-  reason: string
+  reason: string,
+  decision?: PolicyDecision
 ) => void | Promise<void>;
 
+/**
+ * Listener for automatic switches held back by flap damping
+ */
+export type SuppressionListener = (
+  suppression: SuppressedTransition,
+  decision: PolicyDecision
+) => void;
+
 /**
  * Mode Switcher - Main class for managing automatic mode transitions
  */
 export class ModeSwitcher {
-  private currentMode: NodeMode = 'active_master';
   private config: ModeSwitchConfig;
   private inputTracker: UserInputTracker;
   private processingState: MasterProcessingState;
-  private listeners: Set<ModeChangeListener> = new Set();
-  private monitoringTimer: NodeJS.Timeout | null = null;
+  private services: NodeServices;
+  private policies: PolicyEngine = new PolicyEngine();
+  private damper: FlapDamper;
+  private budgets: TransitionBudgetTable;
+  private listeners: EventDispatcher<Parameters<ModeChangeListener>>;
+  private suppressionListeners: Set<SuppressionListener> = new Set();
+  private lastSuppression: string | null = null;
+  private monitoringTimer: ClockTimer | null = null;
+  private loadTimer: ClockTimer | null = null;
+  private loopGeneration: number = 0;
+  private checking: Promise<void> | null = null;
+  private recheck: boolean = false;
   private enabled: boolean = false;
 
+  /**
+   * @throws BudgetValidationError if `switchTimeout` or `switchBudgets` is invalid
+   */
   constructor(
     inputTracker: UserInputTracker,
     processingState: MasterProcessingState,
-    config: Partial<ModeSwitchConfig> = {}
+    config: Partial<ModeSwitchConfig> = {},
+    services: Partial<NodeServices> = {}
   ) {
     this.inputTracker = inputTracker;
     this.processingState = processingState;
     this.config = { ...DEFAULT_MODE_SWITCH_CONFIG, ...config };
+    this.budgets = createBudgetTable(this.config.switchTimeout, this.config.switchBudgets);
+    this.services = createNodeServices(services);
+    this.damper = new FlapDamper(this.config.damping);
+    this.listeners = new EventDispatcher(
+      'ModeSwitcher',
+      this.config.listeners,
+      this.services.clock
+    );
+
+    if (this.config.sharedWorkerEnabled) {
+      this.policies.useBefore('user-activity', sharedWorkerPolicy);
+    }
+
+    // Every mode change, manual or automatic, feeds the damper
+    this.services.transitions.onTransition((oldMode, newMode, _reason, source) => {
+      if (oldMode !== newMode) {
+        this.damper.recordTransition(oldMode, newMode, source, this.services.clock.now());
+      }
+    });
   }
 
   /**
@@ -126,213 +252,390 @@ export class ModeSwitcher {
     this.stopMonitoring();
   }
 
+  /**
+   * Get the configuration in effect
+   */
+  public getConfig(): Readonly<ModeSwitchConfig> {
+    return this.config;
+  }
+
+  /**
+   * Change settings without losing the switcher's state
+   *
+   * @remarks
+   * A running monitoring loop is restarted on the new poll interval. The
+   * settings take effect from the next check; a transition in progress
+   * keeps the budget it started with.
+   *
+   * @throws BudgetValidationError if `switchTimeout` or `switchBudgets` is
+   * invalid; nothing is changed in that case
+   */
+  public configure(settings: Partial<ModeSwitchSettings>): void {
+    const config = { ...this.config, ...settings };
+    const budgets = createBudgetTable(config.switchTimeout, config.switchBudgets);
+
+    if (config.sharedWorkerEnabled !== this.config.sharedWorkerEnabled) {
+      if (config.sharedWorkerEnabled) {
+        this.policies.useBefore('user-activity', sharedWorkerPolicy);
+      } else {
+        this.policies.remove(sharedWorkerPolicy.name);
+      }
+    }
+    this.config = config;
+    this.budgets = budgets;
+
+    if (this.enabled) {
+      this.stopMonitoring();
+      this.startMonitoring();
+    }
+  }
+
   /**
    * Get current node mode
    */
   public getCurrentMode(): NodeMode {
-    return this.currentMode;
+    return this.services.transitions.getCurrentMode();
+  }
+
+  /**
+   * Whether a transition, automatic or manual, is running
+   */
+  public isTransitioning(): boolean {
+    return this.services.transitions.isTransitioning();
+  }
+
+  /**
+   * Get the policy engine used for automatic decisions
+   *
+   * @remarks
+   * Add, remove or replace policies to customise mode determination.
+   */
+  public getPolicyEngine(): PolicyEngine {
+    return this.policies;
+  }
+
+  /**
+   * Get the flap damper holding back automatic switches
+   */
+  public getFlapDamper(): FlapDamper {
+    return this.damper;
   }
 
   /**
    * Determine the appropriate mode based on current state
    *
    * @remarks
-   * Implements FR-2.2.3 - Mode determination logic with priorities:
+   * Implements FR-2.2.3 - Mode determination logic. The default policy set
+   * keeps the original priorities:
    * 1. Check user activity (highest priority)
    * 2. Check master processing state
    * 3. Check idle time thresholds
    */
-  private determineMode(): NodeMode {
-    const timeSinceInput = this.inputTracker.getTimeSinceLastInput();
-
-    // Priority 1: User is actively using the machine
-    if (timeSinceInput < this.config.activeThreshold) {
-      return 'active_master';
-    }
-
-    // Priority 2: Master is processing (don't interrupt processing)
-    if (this.processingState.isProcessing()) {
-      return 'active_master';
-    }
+  public determineMode(): PolicyDecision {
+    return this.policies.evaluate(this.createPolicyContext());
+  }
 
-    // Priority 3: Check idle time for mode transition
-    if (timeSinceInput < this.config.standbyThreshold) {
-      return 'standby';
-    }
+  /**
+   * Explain which mode the policies want right now and why
+   *
+   * @remarks
+   * Answers "why am I in this mode": every policy consulted is listed with
+   * its vote, and rule-based policies add the outcome of each condition.
+   */
+  public explainMode(): PolicyTrace {
+    return this.policies.explain(this.createPolicyContext());
+  }
 
-    return 'idle_worker';
+  /**
+   * Build the state policies decide on
+   */
+  private createPolicyContext(): PolicyContext {
+    const metrics = this.services.metrics.getMetrics();
+
+    return {
+      currentMode: this.getCurrentMode(),
+      timeSinceInput: this.inputTracker.getTimeSinceLastInput(),
+      isProcessing: this.processingState.isProcessing(),
+      pendingTasks: metrics.pendingTasks ?? 0,
+      locked: this.services.transitions.isLocked(),
+      metrics,
+      now: this.services.clock.now(),
+      config: this.config,
+    };
   }
 
   /**
    * Start the monitoring loop
    */
   private startMonitoring(): void {
-    this.monitoringTimer = setInterval(
-      () => this.checkAndUpdateMode(),
-      this.config.pollInterval
-    );
+    this.loopGeneration++;
+    this.schedulePoll(this.loopGeneration);
+
+    // Give shared cores back without waiting for the next regular poll
+    if (this.config.sharedWorkerEnabled) {
+      this.loadTimer = this.services.clock.setInterval(() => {
+        if (this.getCurrentMode() === 'shared_worker') {
+          void this.checkAndUpdateMode();
+        }
+      }, this.config.sharedLoadCheckInterval);
+    }
+  }
+
+  /**
+   * Schedule the next regular poll
+   *
+   * @remarks
+   * The poll after is only scheduled once this one has finished, so a
+   * switch that takes longer than `pollInterval` never overlaps the next
+   * poll. `generation` ends the loop of an earlier `start()`.
+   */
+  private schedulePoll(generation: number): void {
+    this.monitoringTimer = this.services.clock.setTimeout(async () => {
+      this.monitoringTimer = null;
+      await this.checkAndUpdateMode();
+      if (this.enabled && generation === this.loopGeneration) {
+        this.schedulePoll(generation);
+      }
+    }, this.config.pollInterval);
   }
 
   /**
    * Stop the monitoring loop
    */
   private stopMonitoring(): void {
+    this.loopGeneration++;
     if (this.monitoringTimer) {
-      clearInterval(this.monitoringTimer);
+      this.services.clock.clearTimeout(this.monitoringTimer);
       this.monitoringTimer = null;
     }
+    if (this.loadTimer) {
+      this.services.clock.clearInterval(this.loadTimer);
+      this.loadTimer = null;
+    }
   }
 
   /**
    * Check current state and update mode if needed
+   *
+   * @remarks
+   * Single flight: only one check runs at a time. Checks requested while
+   * one is running are coalesced into one more check after it, which
+   * decides on the state at that time. Does nothing while the mode is
+   * locked. Switches the flap damper holds back are reported to
+   * suppression listeners instead of being run.
+   *
+   * @returns Resolves once the running check, and the one coalesced
+   * after it, have finished
    */
-  private async checkAndUpdateMode(): Promise<void> {
-    const newMode = this.determineMode();
-
-    if (newMode !== this.currentMode) {
-      await this.switchMode(this.currentMode, newMode);
+  private checkAndUpdateMode(): Promise<void> {
+    if (this.checking) {
+      this.recheck = true;
+      return this.checking;
     }
+
+    const check = async () => {
+      do {
+        this.recheck = false;
+        if (!this.services.transitions.isLocked()) {
+          await this.updateMode();
+        }
+      } while (this.recheck && this.enabled);
+    };
+
+    this.checking = check()
+      .catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Mode check failed: ${errorMessage}`);
+      })
+      .finally(() => {
+        this.checking = null;
+      });
+    return this.checking;
   }
 
   /**
-   * Execute mode switch operation
-   *
-   * @remarks
-   * Implements FR-2.2.4 - Auto mode switching with proper timing:
-   * - Master → Worker: 5 seconds
-   * - Worker → Master: 2 seconds (highest priority)
+   * Switch to the mode the policies want, unless the damper holds it back
    */
-  private async switchMode(oldMode: NodeMode, newMode: NodeMode): Promise<void> {
-    const switchTimeout =
-      newMode === 'active_master' && oldMode === 'idle_worker'
-        ? 2000 // Worker to Master: 2 seconds
-        : 5000; // Master to Worker: 5 seconds
-
-    try {
-      const switchPromise = this.executeModeSwitch(oldMode, newMode);
-      const timeoutPromise = new Promise<void>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Mode switch timeout after ${switchTimeout}ms`)),
-          switchTimeout
-        )
-      );
+  private async updateMode(): Promise<void> {
+    // A manual switch is running; decide on the mode it leaves behind
+    if (this.services.transitions.isTransitioning()) {
+      return;
+    }
 
-      await Promise.race([switchPromise, timeoutPromise]);
+    const currentMode = this.getCurrentMode();
+    const decision = this.determineMode();
 
-      this.currentMode = newMode;
-      await this.notifyListeners(oldMode, newMode, `Switched from ${oldMode} to ${newMode}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Mode switch failed: ${errorMessage}`);
-      await this.notifyListeners(oldMode, oldMode, `Mode switch failed: ${errorMessage}`);
+    // Modes only operators may leave or enter are out of the policies' reach
+    if (
+      decision.mode === currentMode ||
+      !isTransitionAllowed(currentMode, decision.mode, 'auto')
+    ) {
+      this.lastSuppression = null;
+      return;
     }
-  }
 
-  /**
-   * Execute the actual mode switch operations
-   */
-  private async executeModeSwitch(oldMode: NodeMode, newMode: NodeMode): Promise<void> {
-    if (newMode === 'idle_worker') {
-      // Master → Worker transition
-      await this.transitionToWorker();
-    } else if (newMode === 'active_master' && oldMode === 'idle_worker') {
-      // Worker → Master transition
-      await this.transitionToMaster();
+    const suppression = this.damper.check(currentMode, decision.mode, this.services.clock.now());
+    if (suppression) {
+      this.reportSuppression(suppression, decision);
+      return;
     }
-    // standby state doesn't require switching
+
+    this.lastSuppression = null;
+    await this.switchMode(currentMode, decision);
   }
 
   /**
-   * Transition from Master to Worker mode
+   * Tell suppression listeners about a held back switch
+   *
+   * @remarks
+   * The same hold is reported once, not on every poll.
    */
-  private async transitionToWorker(): Promise<void> {
-    // 1. Verify no master jobs are running
-    if (this.processingState.isProcessing()) {
-      throw new Error('Cannot switch to worker while master jobs are running');
+  private reportSuppression(suppression: SuppressedTransition, decision: PolicyDecision): void {
+    const key = `${suppression.from}>${suppression.to}:${suppression.reason}`;
+    if (key === this.lastSuppression) {
+      return;
     }
+    this.lastSuppression = key;
 
-    // 2. Start worker service
-    console.log('Starting worker service...');
-    await this.startWorkerService();
-
-    // 3. Notify coordination service
-    console.log('Notifying coordination service: available as worker');
-    await this.notifyCoordinationService('worker_available', true);
+    console.log(`Mode switch to ${suppression.to} held back: ${suppression.message}`);
+    this.auditDecision(decision, suppression.from, 'held', suppression.message);
+    this.suppressionListeners.forEach((listener) => listener(suppression, decision));
   }
 
   /**
-   * Transition from Worker to Master mode
+   * Record a policy decision to leave `from` in the audit log
    */
-  private async transitionToMaster(): Promise<void> {
-    // 1. Check for pending worker tasks
-    const pendingTasks = this.processingState.getPendingTaskCount();
-
-    if (pendingTasks > 0) {
-      console.log(`Transferring ${pendingTasks} pending tasks to other workers...`);
-      await this.transferPendingTasks();
-    }
-
-    // 2. Stop worker service
-    console.log('Stopping worker service...');
-    await this.stopWorkerService();
-
-    // 3. Notify coordination service
-    console.log('Notifying coordination service: unavailable as worker');
-    await this.notifyCoordinationService('worker_available', false);
+  private auditDecision(
+    decision: PolicyDecision,
+    from: NodeMode,
+    outcome: 'switch' | 'held',
+    message: string
+  ): void {
+    void this.services.audit.record({
+      action: 'policy',
+      actor: SYSTEM_ACTOR,
+      summary:
+        outcome === 'switch'
+          ? `Policy ${decision.policy} switches from ${from} to ${decision.mode}`
+          : `Policy ${decision.policy} switch from ${from} to ${decision.mode} held back`,
+      details: {
+        from,
+        to: decision.mode,
+        policy: decision.policy,
+        reason: decision.reason,
+        outcome,
+        message,
+      },
+    });
   }
 
   /**
-   * Start worker service
+   * Execute mode switch operation
+   *
+   * @remarks
+   * Implements FR-2.2.4 - Auto mode switching with proper timing. Each
+   * transition runs within its budget (Worker → Master: 2 seconds by
+   * default, everything else `switchTimeout`).
+   *
+   * A switch that misses its hard deadline is aborted and rolled back by
+   * the transition pipeline, so a failure leaves the node in `oldMode`.
+   * A switch vetoed by a guard is tried again once the policies still want
+   * it on a later poll.
    */
-  private async startWorkerService(): Promise<void> {
-    // This would be implemented to start the actual worker service
-    // For now, this is a placeholder
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  private async switchMode(oldMode: NodeMode, decision: PolicyDecision): Promise<void> {
+    const newMode = decision.mode;
+    const budget = budgetFor(
+      this.budgets,
+      oldMode,
+      newMode,
+      defaultBudget(this.config.switchTimeout)
+    );
+    const cause = `${decision.policy}: ${decision.reason}`;
+    const reason = `Switched from ${oldMode} to ${newMode} [${cause}]`;
+    this.auditDecision(decision, oldMode, 'switch', reason);
+
+    try {
+      // Verify no master jobs are running
+      if (isWorkerMode(newMode) && this.processingState.isProcessing()) {
+        throw new Error('Cannot switch to worker while master jobs are running');
+      }
+
+      await this.services.transitions.transition(newMode, {
+        source: 'auto',
+        reason,
+        timeout: budget.hard,
+        softTimeout: budget.soft,
+        expectedMode: oldMode,
+        stillWanted: () => this.determineMode().mode === newMode,
+      });
+      await this.notifyListeners(oldMode, newMode, reason, decision);
+    } catch (error) {
+      if (error instanceof StaleTransitionError) {
+        // Another transition got there first; decide again on the new mode
+        console.log(`Mode switch skipped: ${error.message}`);
+        this.recheck = true;
+        return;
+      }
+      if (error instanceof WithdrawnTransitionError) {
+        // Guards held the switch until the state changed; decide again
+        console.log(`Mode switch skipped: ${error.message}`);
+        this.recheck = true;
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (error instanceof TransitionVetoedError) {
+        console.log(`Mode switch held back: ${errorMessage}`);
+      } else {
+        console.error(`Mode switch failed: ${errorMessage}`);
+      }
+      await this.notifyListeners(
+        oldMode,
+        oldMode,
+        `Mode switch failed: ${errorMessage}`,
+        decision
+      );
+    }
   }
 
   /**
-   * Stop worker service
+   * Register a listener for mode changes
+   *
+   * @remarks
+   * A failing listener is logged; it does not turn a successful switch
+   * into a failed one.
    */
-  private async stopWorkerService(): Promise<void> {
-    // This would be implemented to stop the actual worker service
-    // For now, this is a placeholder
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  public onModeChange(listener: ModeChangeListener, options?: ListenerOptions): void {
+    this.listeners.on(listener, options);
   }
 
   /**
-   * Transfer pending tasks to other workers
+   * Unregister a mode change listener
    */
-  private async transferPendingTasks(): Promise<void> {
-    // This would be implemented to transfer tasks via coordination service
-    // For now, this is a placeholder
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  public offModeChange(listener: ModeChangeListener): void {
+    this.listeners.off(listener);
   }
 
   /**
-   * Notify coordination service of availability changes
+   * Consume mode changes as an `AsyncIterable` of listener arguments
    */
-  private async notifyCoordinationService(
-    event: string,
-    available: boolean
-  ): Promise<void> {
-    // This would be implemented to call the actual coordination service API
-    // For now, this is a placeholder
-    console.log(`Coordination service notification: ${event} = ${available}`);
-    return new Promise((resolve) => setTimeout(resolve, 100));
+  public modeChanges(
+    options?: SubscriptionOptions
+  ): AsyncIterableIterator<Parameters<ModeChangeListener>> {
+    return this.listeners.subscribe(options);
   }
 
   /**
-   * Register a listener for mode changes
+   * Register a listener for switches held back by flap damping
    */
-  public onModeChange(listener: ModeChangeListener): void {
-    this.listeners.add(listener);
+  public onSuppressed(listener: SuppressionListener): void {
+    this.suppressionListeners.add(listener);
   }
 
   /**
-   * Unregister a mode change listener
+   * Unregister a suppression listener
    */
-  public offModeChange(listener: ModeChangeListener): void {
-    this.listeners.delete(listener);
+  public offSuppressed(listener: SuppressionListener): void {
+    this.suppressionListeners.delete(listener);
   }
 
   /**
@@ -341,13 +644,10 @@ export class ModeSwitcher {
   private async notifyListeners(
     oldMode: NodeMode,
     newMode: NodeMode,
-    reason: string
+    reason: string,
+    decision?: PolicyDecision
   ): Promise<void> {
-    const promises = Array.from(this.listeners).map((listener) =>
-      Promise.resolve(listener(oldMode, newMode, reason))
-    );
-
-    await Promise.all(promises);
+    await this.listeners.emit(oldMode, newMode, reason, decision);
   }
 }
 
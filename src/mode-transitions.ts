@@ -0,0 +1,135 @@
+/**
+ * Allowed Mode Transitions
+ *
+ * The one table of which mode may follow which, consulted by the
+ * transition pipeline, both switchers, the dashboard and the coordination
+ * server, so a node can never take a path one of them would refuse.
+ *
+ * @see src/transition-pipeline.ts for where transitions are enforced
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { TransitionSource } from './transition-pipeline';
+
+/**
+ * Who may take a transition
+ *
+ * - `any`: automatic switching and operators
+ * - `manual`: operators only
+ */
+export type TransitionAccess = 'any' | 'manual';
+
+/**
+ * Allowed transitions, by current mode and target mode
+ *
+ * @remarks
+ * - `maintenance`, `draining` and `offline` are only entered manually
+ * - Automatic switching never leaves `maintenance` or `offline`
+ * - Worker modes reach `maintenance` through `draining`, which ends in
+ *   `active_master` once the leased tasks are done; going `offline`
+ *   hands the tasks off instead
+ * - Staying in the current mode is always allowed
+ */
+export const MODE_TRANSITIONS: Readonly<
+  Record<NodeMode, Readonly<Partial<Record<NodeMode, TransitionAccess>>>>
+> = {
+  active_master: {
+    standby: 'any',
+    idle_worker: 'any',
+    shared_worker: 'any',
+    maintenance: 'manual',
+    offline: 'manual',
+  },
+  standby: {
+    active_master: 'any',
+    idle_worker: 'any',
+    shared_worker: 'any',
+    maintenance: 'manual',
+    offline: 'manual',
+  },
+  idle_worker: {
+    active_master: 'any',
+    standby: 'any',
+    shared_worker: 'any',
+    draining: 'manual',
+    offline: 'manual',
+  },
+  shared_worker: {
+    active_master: 'any',
+    standby: 'any',
+    idle_worker: 'any',
+    draining: 'manual',
+    offline: 'manual',
+  },
+  draining: {
+    active_master: 'any',
+    idle_worker: 'manual',
+    shared_worker: 'manual',
+    offline: 'manual',
+  },
+  maintenance: {
+    active_master: 'manual',
+    offline: 'manual',
+  },
+  offline: {
+    active_master: 'manual',
+  },
+};
+
+/**
+ * Error raised for a transition the table does not allow
+ */
+export class TransitionNotAllowedError extends Error {
+  constructor(
+    public readonly from: NodeMode,
+    public readonly to: NodeMode,
+    public readonly source: TransitionSource
+  ) {
+    super(`Transition from ${from} to ${to} is not allowed (${source})`);
+    this.name = 'TransitionNotAllowedError';
+  }
+}
+
+/**
+ * Whether a transition is allowed for the given source
+ *
+ * @remarks
+ * Recovery only re-applies the mode the node is already in, so it is
+ * checked like a manual request.
+ */
+export function isTransitionAllowed(
+  from: NodeMode,
+  to: NodeMode,
+  source: TransitionSource
+): boolean {
+  if (from === to) {
+    return true;
+  }
+
+  const access = MODE_TRANSITIONS[from][to];
+  return access === 'any' || (access === 'manual' && source !== 'auto');
+}
+
+/**
+ * Throw unless a transition is allowed for the given source
+ *
+ * @throws TransitionNotAllowedError
+ */
+export function assertTransitionAllowed(
+  from: NodeMode,
+  to: NodeMode,
+  source: TransitionSource
+): void {
+  if (!isTransitionAllowed(from, to, source)) {
+    throw new TransitionNotAllowedError(from, to, source);
+  }
+}
+
+/**
+ * Modes reachable from a mode
+ */
+export function allowedTargets(from: NodeMode, source: TransitionSource): NodeMode[] {
+  return (Object.keys(MODE_TRANSITIONS[from]) as NodeMode[]).filter((to) =>
+    isTransitionAllowed(from, to, source)
+  );
+}
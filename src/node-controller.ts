@@ -0,0 +1,487 @@
+/**
+ * Node Controller
+ *
+ * Single entry point for controlling a node's mode. Combines automatic
+ * switching (ModeSwitcher) and manual switching (ManualModeSwitcher) on top
+ * of one shared transition pipeline, so there is exactly one authoritative
+ * mode and a manual lock really stops the automatic poller.
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature
+ * @see Issue #3: Manual Mode Switching Feature
+ */
+
+import {
+  ModeSwitcher,
+  ModeSwitchConfig,
+  ModeSwitchSettings,
+  NodeMode,
+  UserInputTracker,
+  MasterProcessingState,
+  SuppressionListener,
+} from './mode-switcher';
+import {
+  ManualModeSwitcher,
+  ManualModeSwitcherConfig,
+  ManualModeSwitcherSettings,
+  LockState,
+  LockOptions,
+  LockExpiryListener,
+  LockRequester,
+} from './manual-mode-switcher';
+import type {
+  ConfirmationExpiredListener,
+  ConfirmationSupersededListener,
+  PendingConfirmationInfo,
+} from './pending-confirmations';
+import { NodeServices, createNodeServices } from './node-services';
+import type { AuditLog } from './audit-log';
+import type { PolicyEngine, PolicyTrace } from './mode-policy';
+import type {
+  ActiveTransition,
+  RecoveryReport,
+  SlowTransitionListener,
+  TransitionListener,
+  TransitionPipelineConfig,
+  TransitionPipelineSettings,
+  TransitionStartListener,
+} from './transition-pipeline';
+import { BudgetValidationError, validateBudgets } from './transition-budgets';
+import type { TransitionGuard } from './transition-guards';
+import type { ListenerOptions, SubscriptionOptions } from './event-dispatcher';
+import {
+  LatencyReport,
+  TransitionLatencyConfig,
+  TransitionLatencyRecorder,
+} from './transition-latency';
+
+/**
+ * Configuration for the node controller
+ */
+export interface NodeControllerConfig {
+  /** Settings for automatic switching */
+  auto: Partial<ModeSwitchConfig>;
+  /** Settings for manual switching */
+  manual: Partial<ManualModeSwitcherConfig>;
+  /** Settings for the transition pipeline */
+  pipeline: Partial<TransitionPipelineConfig>;
+  /** Settings for transition latency measurement */
+  latency: Partial<TransitionLatencyConfig>;
+}
+
+/**
+ * Controller settings that can be changed on a running controller
+ */
+export interface NodeControllerSettings {
+  /** Settings for automatic switching */
+  auto: Partial<ModeSwitchSettings>;
+  /** Settings for manual switching */
+  manual: Partial<ManualModeSwitcherSettings>;
+  /** Settings for the transition pipeline */
+  pipeline: Partial<TransitionPipelineSettings>;
+}
+
+/**
+ * Default configuration for the node controller
+ */
+export const DEFAULT_NODE_CONTROLLER_CONFIG: NodeControllerConfig = {
+  auto: {},
+  manual: {},
+  pipeline: {},
+  latency: {},
+};
+
+/**
+ * Node Controller - Owns the node's mode and arbitrates between automatic
+ * decisions and manual requests
+ *
+ * @remarks
+ * - Automatic and manual transitions go through the same pipeline and
+ *   never run concurrently
+ * - `lockMode()` suppresses automatic transitions until `unlockMode()`,
+ *   or until the end given for a timed lock
+ * - `onModeChange()` listeners see every transition, including the
+ *   `source` that requested it
+ * - Every transition is timed; `getLatencyReport()` compares the timings
+ *   with the FR-2.2.4 targets
+ * - `configure()` changes settings in place, so the mode, the lock and
+ *   pending requests outlive a settings change
+ */
+export class NodeController {
+  private services: NodeServices;
+  private autoSwitcher: ModeSwitcher;
+  private manualSwitcher: ManualModeSwitcher;
+  private latency: TransitionLatencyRecorder;
+
+  constructor(
+    inputTracker: UserInputTracker,
+    processingState: MasterProcessingState,
+    config: Partial<NodeControllerConfig> = {},
+    services: Partial<NodeServices> = {}
+  ) {
+    const { auto, manual, pipeline, latency } = { ...DEFAULT_NODE_CONTROLLER_CONFIG, ...config };
+
+    this.services = createNodeServices(services, pipeline);
+    this.autoSwitcher = new ModeSwitcher(inputTracker, processingState, auto, this.services);
+    this.manualSwitcher = new ManualModeSwitcher(processingState, manual, this.services);
+    this.latency = new TransitionLatencyRecorder(latency, this.services.clock);
+    this.services.transitions.onTransitionTimed((timing) => this.latency.record(timing));
+  }
+
+  /**
+   * Restore the mode and lock from the transition journal after a restart
+   *
+   * @remarks
+   * Call before `start()`. Reconciles the worker and the coordination
+   * service with the recovered mode and restores the manual lock.
+   */
+  public async recover(): Promise<RecoveryReport> {
+    const report = await this.services.transitions.recover();
+
+    if (report.lockedMode !== null) {
+      const lockedAt = report.lockedAt ?? this.services.clock.now();
+      this.manualSwitcher.restoreLock(
+        report.lockedMode,
+        lockedAt,
+        report.lockExpiresAt,
+        report.lockHolder
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Start automatic mode switching
+   */
+  public start(): void {
+    this.autoSwitcher.start();
+  }
+
+  /**
+   * Stop automatic mode switching
+   */
+  public stop(): void {
+    this.autoSwitcher.stop();
+  }
+
+  /**
+   * Change settings while keeping the mode, the lock and pending requests
+   *
+   * @remarks
+   * Both switchers' budgets are checked before anything is changed.
+   *
+   * @returns Resolves once new shared worker limits have been applied
+   * @throws BudgetValidationError if either switcher's `switchTimeout` or
+   * `switchBudgets` would be invalid
+   */
+  public async configure(settings: Partial<NodeControllerSettings>): Promise<void> {
+    const { auto = {}, manual = {}, pipeline = {} } = settings;
+    const next = [
+      { ...this.autoSwitcher.getConfig(), ...auto },
+      { ...this.manualSwitcher.getConfig(), ...manual },
+    ];
+    const problems = next.flatMap((config) =>
+      validateBudgets(config.switchTimeout, config.switchBudgets)
+    );
+    if (problems.length > 0) {
+      throw new BudgetValidationError(problems);
+    }
+
+    this.autoSwitcher.configure(auto);
+    this.manualSwitcher.configure(manual);
+    await this.services.transitions.configure(pipeline);
+  }
+
+  /**
+   * Get the authoritative node mode
+   */
+  public getCurrentMode(): NodeMode {
+    return this.services.transitions.getCurrentMode();
+  }
+
+  /**
+   * Get the transition that is running, if any
+   *
+   * @remarks
+   * While it runs the node is "transitioning": `getCurrentMode()` still
+   * reports the mode being left.
+   */
+  public getActiveTransition(): ActiveTransition | null {
+    return this.services.transitions.getActiveTransition();
+  }
+
+  /**
+   * Whether a transition is running
+   */
+  public isTransitioning(): boolean {
+    return this.services.transitions.isTransitioning();
+  }
+
+  /**
+   * Request a manual mode switch
+   *
+   * @param requestedBy - Who asks; with approval required, the ID of the
+   * requester's operator session
+   * @returns Request ID if confirmation is required, null if switch was executed
+   */
+  public requestModeSwitch(
+    targetMode: NodeMode,
+    requestId?: string,
+    requestedBy?: string
+  ): Promise<string | null> {
+    return this.manualSwitcher.requestModeSwitch(targetMode, requestId, requestedBy);
+  }
+
+  /**
+   * Confirm a pending manual mode switch
+   *
+   * @param approver - Who confirms; with approval required, the ID of an
+   * operator session other than the requester's
+   * @throws ApprovalDeniedError if the approver may not approve the request
+   */
+  public confirmModeSwitch(requestId: string, approver?: string): Promise<void> {
+    return this.manualSwitcher.confirmModeSwitch(requestId, approver);
+  }
+
+  /**
+   * Cancel a pending manual mode switch
+   *
+   * @param cancelledBy - Who cancels, for the audit log
+   */
+  public cancelModeSwitch(requestId: string, cancelledBy?: string): void {
+    this.manualSwitcher.cancelModeSwitch(requestId, cancelledBy);
+  }
+
+  /**
+   * Get pending confirmation request info
+   *
+   * @param requestId - The request to look up (defaults to the most recent one)
+   */
+  public getPendingConfirmation(requestId?: string): PendingConfirmationInfo | null {
+    return this.manualSwitcher.getPendingConfirmation(requestId);
+  }
+
+  /**
+   * Get every request awaiting confirmation, oldest first
+   */
+  public getPendingConfirmations(): PendingConfirmationInfo[] {
+    return this.manualSwitcher.getPendingConfirmations();
+  }
+
+  /**
+   * Register a listener for switch requests that expired unconfirmed
+   */
+  public onConfirmationExpired(
+    listener: ConfirmationExpiredListener,
+    options?: ListenerOptions
+  ): void {
+    this.manualSwitcher.onConfirmationExpired(listener, options);
+  }
+
+  /**
+   * Unregister a confirmation expiry listener
+   */
+  public offConfirmationExpired(listener: ConfirmationExpiredListener): void {
+    this.manualSwitcher.offConfirmationExpired(listener);
+  }
+
+  /**
+   * Register a listener for switch requests superseded by a request for
+   * another mode
+   */
+  public onConfirmationSuperseded(
+    listener: ConfirmationSupersededListener,
+    options?: ListenerOptions
+  ): void {
+    this.manualSwitcher.onConfirmationSuperseded(listener, options);
+  }
+
+  /**
+   * Unregister a confirmation supersede listener
+   */
+  public offConfirmationSuperseded(listener: ConfirmationSupersededListener): void {
+    this.manualSwitcher.offConfirmationSuperseded(listener);
+  }
+
+  /**
+   * Lock the mode, suppressing automatic transitions
+   *
+   * @remarks
+   * Automatic transitions resume by themselves once a timed lock ends.
+   *
+   * @param mode - The mode to lock to (defaults to current mode)
+   * @param options - Who locks, why and until when (defaults to an
+   * open-ended local lock)
+   * @throws LockHeldError if a lock of a higher-ranking source is held
+   */
+  public lockMode(mode?: NodeMode, options?: LockOptions): void {
+    this.manualSwitcher.lockMode(mode, options);
+  }
+
+  /**
+   * Unlock the mode, resuming automatic transitions
+   *
+   * @param requester - Who asks (defaults to the local user)
+   * @throws LockHeldError if the lock was taken by a higher-ranking source
+   */
+  public unlockMode(requester?: Partial<LockRequester>): void {
+    this.manualSwitcher.unlockMode(requester);
+  }
+
+  /**
+   * Get current lock state
+   */
+  public getLockState(): LockState {
+    return this.manualSwitcher.getLockState();
+  }
+
+  /**
+   * Get locked mode if applicable
+   */
+  public getLockedMode(): NodeMode | null {
+    return this.manualSwitcher.getLockedMode();
+  }
+
+  /**
+   * Get information about current lock status
+   */
+  public getLockInfo(): ReturnType<ManualModeSwitcher['getLockInfo']> {
+    return this.manualSwitcher.getLockInfo();
+  }
+
+  /**
+   * Register a listener for timed locks that ran out
+   */
+  public onLockExpired(listener: LockExpiryListener, options?: ListenerOptions): void {
+    this.manualSwitcher.onLockExpired(listener, options);
+  }
+
+  /**
+   * Unregister a lock expiry listener
+   */
+  public offLockExpired(listener: LockExpiryListener): void {
+    this.manualSwitcher.offLockExpired(listener);
+  }
+
+  /**
+   * Get the audit log of mode and lock changes, to query or verify
+   */
+  public getAuditLog(): AuditLog {
+    return this.services.audit;
+  }
+
+  /**
+   * Get the policy engine deciding automatic transitions
+   */
+  public getPolicyEngine(): PolicyEngine {
+    return this.autoSwitcher.getPolicyEngine();
+  }
+
+  /**
+   * Explain which mode the automatic policies want right now and why
+   */
+  public explainMode(): PolicyTrace {
+    return this.autoSwitcher.explainMode();
+  }
+
+  /**
+   * Register a listener for automatic switches held back by flap damping
+   */
+  public onSuppressed(listener: SuppressionListener): void {
+    this.autoSwitcher.onSuppressed(listener);
+  }
+
+  /**
+   * Unregister a suppression listener
+   */
+  public offSuppressed(listener: SuppressionListener): void {
+    this.autoSwitcher.offSuppressed(listener);
+  }
+
+  /**
+   * Register a listener for transitions running past their soft deadline
+   */
+  public onSlowTransition(listener: SlowTransitionListener): void {
+    this.services.transitions.onSlowTransition(listener);
+  }
+
+  /**
+   * Unregister a slow transition listener
+   */
+  public offSlowTransition(listener: SlowTransitionListener): void {
+    this.services.transitions.offSlowTransition(listener);
+  }
+
+  /**
+   * Register a guard that may veto or delay automatic and manual switches
+   */
+  public addGuard(guard: TransitionGuard): void {
+    this.services.transitions.addGuard(guard);
+  }
+
+  /**
+   * Unregister a guard
+   */
+  public removeGuard(guard: TransitionGuard): void {
+    this.services.transitions.removeGuard(guard);
+  }
+
+  /**
+   * Get latency histograms and SLO compliance of the transitions so far
+   */
+  public getLatencyReport(): LatencyReport {
+    return this.latency.getReport(this.services.clock.now());
+  }
+
+  /**
+   * Get the services shared by both switchers
+   */
+  public getServices(): NodeServices {
+    return this.services;
+  }
+
+  /**
+   * Register a listener for mode changes from any source
+   */
+  public onModeChange(listener: TransitionListener, options?: ListenerOptions): void {
+    this.services.transitions.onTransition(listener, options);
+  }
+
+  /**
+   * Unregister a mode change listener
+   */
+  public offModeChange(listener: TransitionListener): void {
+    this.services.transitions.offTransition(listener);
+  }
+
+  /**
+   * Register a listener for transitions that start running
+   *
+   * @remarks
+   * Start and completion of one transition are always observed before
+   * those of the next one.
+   */
+  public onTransitionStart(listener: TransitionStartListener, options?: ListenerOptions): void {
+    this.services.transitions.onTransitionStart(listener, options);
+  }
+
+  /**
+   * Unregister a transition start listener
+   */
+  public offTransitionStart(listener: TransitionStartListener): void {
+    this.services.transitions.offTransitionStart(listener);
+  }
+
+  /**
+   * Consume mode changes from any source as an `AsyncIterable`
+   *
+   * @example
+   * for await (const [oldMode, newMode, reason, source] of controller.modeChanges({ signal })) {
+   *   console.log(`${source}: ${oldMode} -> ${newMode} (${reason})`);
+   * }
+   */
+  public modeChanges(
+    options?: SubscriptionOptions
+  ): AsyncIterableIterator<Parameters<TransitionListener>> {
+    return this.services.transitions.transitions(options);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Node Services
+ *
+ * Collaborators shared by the automatic and manual mode switchers.
+ * Each switcher receives the same bundle so both talk to the same
+ * coordination service, drive the same worker and agree on the node's mode.
+ */
+
+import { CoordinationClient, MockCoordinationClient } from './coordination-service';
+import { WorkerService, MockWorkerService } from './worker-service';
+import { TaskHandoff } from './task-handoff';
+import { TransitionPipeline, TransitionPipelineConfig } from './transition-pipeline';
+import { MetricsSource, MockMetricsSource } from './mode-policy';
+import { TransitionJournal, MockTransitionJournal } from './transition-journal';
+import { InputPrefetcher, MockInputPrefetcher } from './input-prefetcher';
+import { Clock, systemClock } from './clock';
+import { AuditLog, MockAuditStore } from './audit-log';
+import { OperatorAuthenticator, MockOperatorAuthenticator } from './operator-sessions';
+
+/**
+ * Services used by the mode switchers while executing transitions
+ */
+export interface NodeServices {
+  /** Client for the coordination service */
+  coordination: CoordinationClient;
+  /** Local worker service */
+  worker: WorkerService;
+  /** Returns leased tasks to the coordination service */
+  handoff: TaskHandoff;
+  /** Write-ahead log of transitions, replayed on startup */
+  journal: TransitionJournal;
+  /** Fetches inputs of upcoming tasks while in standby */
+  prefetcher: InputPrefetcher;
+  /** Authoritative mode and the transition steps */
+  transitions: TransitionPipeline;
+  /** System metrics consulted by mode policies */
+  metrics: MetricsSource;
+  /** Time source and timers of the mode switchers */
+  clock: Clock;
+  /** Hash-chained record of every mode and lock change */
+  audit: AuditLog;
+  /** Signed-in operators, who file and approve switch requests */
+  sessions: OperatorAuthenticator;
+}
+
+/**
+ * Create a service bundle, filling anything not provided with mocks and
+ * the system clock
+ *
+ * @param pipeline - Settings for the pipeline, if one has to be created
+ */
+export function createNodeServices(
+  services: Partial<NodeServices> = {},
+  pipeline: Partial<TransitionPipelineConfig> = {}
+): NodeServices {
+  const coordination = services.coordination ?? new MockCoordinationClient();
+  const worker = services.worker ?? new MockWorkerService();
+  const clock = services.clock ?? systemClock;
+  const handoff = services.handoff ?? new TaskHandoff(coordination, {}, clock);
+  const journal = services.journal ?? new MockTransitionJournal();
+  const prefetcher = services.prefetcher ?? new MockInputPrefetcher();
+  const audit = services.audit ?? new AuditLog(new MockAuditStore(), {}, clock, coordination);
+
+  return {
+    coordination,
+    worker,
+    handoff,
+    journal,
+    prefetcher,
+    transitions:
+      services.transitions ??
+      new TransitionPipeline(
+        { coordination, worker, handoff, journal, prefetcher, audit, clock },
+        pipeline
+      ),
+    metrics: services.metrics ?? new MockMetricsSource(),
+    clock,
+    audit,
+    sessions: services.sessions ?? new MockOperatorAuthenticator({}, {}, clock),
+  };
+}
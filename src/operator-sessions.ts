@@ -0,0 +1,128 @@
+/**
+ * Operator Sessions
+ *
+ * Signed-in sessions of the people operating a node. Four-eyes approval
+ * relies on them: a switch request is filed from the requester's session
+ * and must be approved from another session, signed in by someone else,
+ * so the identities recorded with the transition are the ones the
+ * authenticator vouched for rather than names typed into a form.
+ *
+ * A deployment plugs in its identity provider; the mock signs operators
+ * in against a fixed list of credentials.
+ *
+ * @see src/manual-mode-switcher.ts for the approval workflow
+ */
+
+import { Clock, systemClock } from './clock';
+
+/**
+ * A signed-in operator
+ */
+export interface OperatorSession {
+  /** Opaque session ID, handed to the mode switchers in place of a name */
+  sessionId: string;
+  /** Who signed in */
+  user: string;
+  /** When the session was opened (epoch milliseconds) */
+  openedAt: number;
+  /** When the session ends (epoch milliseconds), null if never */
+  expiresAt: number | null;
+}
+
+/**
+ * Signs operators in and resolves their sessions
+ */
+export interface OperatorAuthenticator {
+  /**
+   * Open a session for an operator
+   *
+   * @throws SignInError if the credential does not match
+   */
+  signIn(user: string, credential: string): Promise<OperatorSession>;
+
+  /** End a session; unknown sessions are ignored */
+  signOut(sessionId: string): void;
+
+  /** The session with this ID, or null if it is unknown or has ended */
+  resolve(sessionId: string): OperatorSession | null;
+}
+
+/**
+ * Error raised when an operator cannot be signed in
+ */
+export class SignInError extends Error {
+  constructor(public readonly user: string) {
+    super(`Cannot sign in ${user}: unknown user or wrong credential`);
+    this.name = 'SignInError';
+  }
+}
+
+/**
+ * Configuration for operator sessions
+ */
+export interface OperatorSessionConfig {
+  /** Time a session stays signed in (milliseconds, 0 = until signed out) */
+  ttl: number;
+}
+
+/**
+ * Default configuration for operator sessions
+ */
+export const DEFAULT_OPERATOR_SESSION_CONFIG: OperatorSessionConfig = {
+  ttl: 15 * 60 * 1000, // 15 minutes
+};
+
+/**
+ * Mock authenticator for testing and simulated nodes
+ */
+export class MockOperatorAuthenticator implements OperatorAuthenticator {
+  private config: OperatorSessionConfig;
+  private sessions: Map<string, OperatorSession> = new Map();
+
+  /**
+   * @param credentials - Credential of each user that may sign in
+   */
+  constructor(
+    private credentials: Record<string, string> = {},
+    config: Partial<OperatorSessionConfig> = {},
+    private clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_OPERATOR_SESSION_CONFIG, ...config };
+  }
+
+  async signIn(user: string, credential: string): Promise<OperatorSession> {
+    if (!Object.hasOwn(this.credentials, user) || this.credentials[user] !== credential) {
+      throw new SignInError(user);
+    }
+    return this.open(user);
+  }
+
+  signOut(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  resolve(sessionId: string): OperatorSession | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    if (session.expiresAt !== null && this.clock.now() >= session.expiresAt) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return { ...session };
+  }
+
+  // Test helpers
+  open(user: string): OperatorSession {
+    const openedAt = this.clock.now();
+    const session: OperatorSession = {
+      sessionId: crypto.randomUUID(),
+      user,
+      openedAt,
+      expiresAt: this.config.ttl > 0 ? openedAt + this.config.ttl : null,
+    };
+    this.sessions.set(session.sessionId, session);
+    return { ...session };
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Pending Confirmations
+ *
+ * Manual mode switches waiting for confirmation. Any number of requests can
+ * be outstanding, each under its own ID, until they are confirmed,
+ * cancelled, expire after a time-to-live, or are superseded by a request
+ * for a different mode. Requests that need four-eyes approval carry who
+ * asked and the session they asked from, so a different person, signed in
+ * separately, can be made to confirm them. The session ID is kept inside
+ * the store: it is never part of the requests handed out.
+ *
+ * @see src/manual-mode-switcher.ts for the confirmation workflow
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { Clock, ClockTimer } from './clock';
+import { EventDispatcher, EventDispatcherConfig, ListenerOptions } from './event-dispatcher';
+
+/**
+ * Configuration for pending confirmations
+ */
+export interface PendingConfirmationConfig {
+  /** Time a request waits for confirmation before it expires (milliseconds, 0 = never) */
+  ttl: number;
+  /** Delivery of expiry and supersede events */
+  listeners: Partial<EventDispatcherConfig>;
+}
+
+/**
+ * Default configuration for pending confirmations
+ */
+export const DEFAULT_PENDING_CONFIRMATION_CONFIG: PendingConfirmationConfig = {
+  ttl: 60 * 1000, // 1 minute
+  listeners: {}, // see DEFAULT_EVENT_DISPATCHER_CONFIG
+};
+
+/**
+ * A mode switch waiting for confirmation
+ */
+export interface PendingConfirmation {
+  /** Request ID, used to confirm or cancel */
+  requestId: string;
+  /** Mode the request switches to */
+  targetMode: NodeMode;
+  /** Who asked for the switch, null if not recorded */
+  requestedBy: string | null;
+  /** When the request was made (epoch milliseconds) */
+  requestedAt: number;
+  /** When the request expires (epoch milliseconds), null if never */
+  expiresAt: number | null;
+}
+
+/**
+ * A pending request as reported to callers
+ */
+export interface PendingConfirmationInfo extends PendingConfirmation {
+  /** Time since the request was made (milliseconds) */
+  age: number;
+  /** Time left until the request expires (milliseconds), null if never */
+  remainingMs: number | null;
+}
+
+/**
+ * A switch request approved by someone other than the requester
+ */
+export interface ModeSwitchApproval {
+  /** Request ID */
+  requestId: string;
+  /** Mode the request switches to */
+  targetMode: NodeMode;
+  /** Who asked for the switch */
+  requestedBy: string;
+  /** When the request was made (epoch milliseconds) */
+  requestedAt: number;
+  /** Who approved the switch */
+  approvedBy: string;
+  /** When the switch was approved (epoch milliseconds) */
+  approvedAt: number;
+}
+
+/**
+ * Error raised when a switch request may not be approved by the caller
+ */
+export class ApprovalDeniedError extends Error {
+  constructor(
+    /** The request */
+    public readonly request: PendingConfirmation,
+    /** Who tried to approve, null if no one was named */
+    public readonly approver: string | null,
+    reason: string
+  ) {
+    super(
+      `Request ${request.requestId} cannot be approved by ${approver ?? 'anonymous'}: ${reason}`
+    );
+    this.name = 'ApprovalDeniedError';
+  }
+}
+
+/**
+ * Listener for requests that expired unconfirmed
+ */
+export type ConfirmationExpiredListener = (expired: PendingConfirmation) => void | Promise<void>;
+
+/**
+ * Listener for requests replaced by a request for a different mode
+ */
+export type ConfirmationSupersededListener = (
+  superseded: PendingConfirmation,
+  by: PendingConfirmation
+) => void | Promise<void>;
+
+/**
+ * Pending Confirmation Store - Outstanding mode switch requests by ID
+ *
+ * @remarks
+ * Requests conflict when they ask for different modes: only one of them
+ * can be what the user wants, so adding a request supersedes every
+ * pending request for another mode. Requests for the same mode do not
+ * conflict and stay pending side by side.
+ */
+export class PendingConfirmationStore {
+  private config: PendingConfirmationConfig;
+  private pending: Map<
+    string,
+    { request: PendingConfirmation; timer: ClockTimer | null; session: string | null }
+  > = new Map();
+  private expiredListeners: EventDispatcher<Parameters<ConfirmationExpiredListener>>;
+  private supersededListeners: EventDispatcher<Parameters<ConfirmationSupersededListener>>;
+
+  constructor(
+    private clock: Clock,
+    config: Partial<PendingConfirmationConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_PENDING_CONFIRMATION_CONFIG, ...config };
+    this.expiredListeners = new EventDispatcher(
+      'PendingConfirmations',
+      this.config.listeners,
+      this.clock
+    );
+    this.supersededListeners = new EventDispatcher(
+      'PendingConfirmations',
+      this.config.listeners,
+      this.clock
+    );
+  }
+
+  /**
+   * Add a request, superseding pending requests for other modes
+   *
+   * @param requestedBy - Who asks, if known
+   * @param session - ID of the operator session the request comes from, if any
+   * @throws Error if a request with the same ID is already pending
+   */
+  public add(
+    requestId: string,
+    targetMode: NodeMode,
+    requestedBy: string | null = null,
+    session: string | null = null
+  ): PendingConfirmation {
+    if (this.pending.has(requestId)) {
+      throw new Error(`Request ${requestId} is already pending`);
+    }
+
+    const requestedAt = this.clock.now();
+    const request: PendingConfirmation = {
+      requestId,
+      targetMode,
+      requestedBy,
+      requestedAt,
+      expiresAt: this.config.ttl > 0 ? requestedAt + this.config.ttl : null,
+    };
+
+    const conflicting = Array.from(this.pending.values())
+      .map((entry) => entry.request)
+      .filter((other) => other.targetMode !== targetMode);
+    conflicting.forEach((other) => this.remove(other.requestId));
+
+    const timer =
+      this.config.ttl > 0
+        ? this.clock.setTimeout(() => this.expire(requestId), this.config.ttl)
+        : null;
+    this.pending.set(requestId, { request, timer, session });
+
+    conflicting.forEach((other) => {
+      console.log(`Mode switch request ${other.requestId} superseded by ${requestId}`);
+      void this.supersededListeners.emit(other, request);
+    });
+    return request;
+  }
+
+  /**
+   * Remove a request for confirmation
+   *
+   * @returns The request, or null if it is unknown or has expired
+   */
+  public take(requestId: string): PendingConfirmation | null {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return null;
+    }
+    if (this.isExpired(entry.request)) {
+      this.expire(requestId);
+      return null;
+    }
+
+    this.remove(requestId);
+    return entry.request;
+  }
+
+  /**
+   * Cancel a request
+   *
+   * @returns Whether the request was pending
+   */
+  public cancel(requestId: string): boolean {
+    return this.remove(requestId);
+  }
+
+  /**
+   * Get a pending request
+   */
+  public get(requestId: string): PendingConfirmationInfo | null {
+    const entry = this.pending.get(requestId);
+    return entry && !this.isExpired(entry.request) ? this.info(entry.request) : null;
+  }
+
+  /**
+   * Get the ID of the operator session a pending request comes from
+   *
+   * @returns The session ID, or null if the request is unknown, has expired
+   * or was filed outside a session
+   */
+  public sessionOf(requestId: string): string | null {
+    const entry = this.pending.get(requestId);
+    return entry && !this.isExpired(entry.request) ? entry.session : null;
+  }
+
+  /**
+   * Get the most recent pending request
+   */
+  public latest(): PendingConfirmationInfo | null {
+    return this.list().at(-1) ?? null;
+  }
+
+  /**
+   * List every pending request, oldest first
+   */
+  public list(): PendingConfirmationInfo[] {
+    return Array.from(this.pending.values())
+      .map((entry) => entry.request)
+      .filter((request) => !this.isExpired(request))
+      .sort((a, b) => a.requestedAt - b.requestedAt)
+      .map((request) => this.info(request));
+  }
+
+  /**
+   * Number of pending requests
+   */
+  public get size(): number {
+    return this.list().length;
+  }
+
+  /**
+   * Register a listener for requests that expired unconfirmed
+   */
+  public onExpired(listener: ConfirmationExpiredListener, options?: ListenerOptions): void {
+    this.expiredListeners.on(listener, options);
+  }
+
+  /**
+   * Unregister an expiry listener
+   */
+  public offExpired(listener: ConfirmationExpiredListener): void {
+    this.expiredListeners.off(listener);
+  }
+
+  /**
+   * Register a listener for requests superseded by a request for another mode
+   */
+  public onSuperseded(listener: ConfirmationSupersededListener, options?: ListenerOptions): void {
+    this.supersededListeners.on(listener, options);
+  }
+
+  /**
+   * Unregister a supersede listener
+   */
+  public offSuperseded(listener: ConfirmationSupersededListener): void {
+    this.supersededListeners.off(listener);
+  }
+
+  private isExpired(request: PendingConfirmation): boolean {
+    return request.expiresAt !== null && this.clock.now() >= request.expiresAt;
+  }
+
+  private info(request: PendingConfirmation): PendingConfirmationInfo {
+    const now = this.clock.now();
+    return {
+      ...request,
+      age: now - request.requestedAt,
+      remainingMs: request.expiresAt === null ? null : Math.max(0, request.expiresAt - now),
+    };
+  }
+
+  /**
+   * Drop an expired request and tell the expiry listeners
+   */
+  private expire(requestId: string): void {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return;
+    }
+
+    this.remove(requestId);
+    console.log(`Mode switch request ${requestId} expired unconfirmed`);
+    void this.expiredListeners.emit(entry.request);
+  }
+
+  private remove(requestId: string): boolean {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.timer !== null) {
+      this.clock.clearTimeout(entry.timer);
+    }
+    this.pending.delete(requestId);
+    return true;
+  }
+}
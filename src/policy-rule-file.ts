@@ -0,0 +1,159 @@
+/**
+ * Policy Rule File
+ *
+ * Loads a rule file from disk into a RulesPolicy and reloads it when the
+ * file changes, so administrators can edit rules without restarting the
+ * mode switcher. A file that fails validation is rejected and the last
+ * good rule set stays in effect.
+ *
+ * @see src/policy-rules.ts for the rule file format
+ */
+
+import { readFile } from 'node:fs/promises';
+import { watch, FSWatcher } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import { RulesPolicy, RuleValidationError, RuleIssue, PolicyRuleSet } from './policy-rules';
+
+/**
+ * Configuration for a policy rule file
+ */
+export interface PolicyRuleFileConfig {
+  /** Path of the JSON or YAML rule file */
+  path: string;
+  /** Quiet period after a change before reloading (milliseconds) */
+  debounce: number;
+}
+
+/**
+ * Default configuration for a policy rule file
+ */
+export const DEFAULT_POLICY_RULE_FILE_CONFIG: Omit<PolicyRuleFileConfig, 'path'> = {
+  debounce: 100,
+};
+
+/**
+ * Result of loading the rule file
+ */
+export type RuleFileEvent =
+  | { type: 'loaded'; ruleSet: PolicyRuleSet }
+  | { type: 'rejected'; error: Error; issues: RuleIssue[]; ruleSet: PolicyRuleSet };
+
+/**
+ * Listener for rule file loads
+ */
+export type RuleFileListener = (event: RuleFileEvent) => void;
+
+/**
+ * Policy Rule File - Keeps a RulesPolicy in sync with a file on disk
+ *
+ * @remarks
+ * Watches the containing directory rather than the file itself, so editors
+ * that save by writing a new file and renaming it over the old one are
+ * picked up too.
+ */
+export class PolicyRuleFile {
+  private config: PolicyRuleFileConfig;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private listeners: Set<RuleFileListener> = new Set();
+
+  constructor(
+    private policy: RulesPolicy,
+    config: Partial<PolicyRuleFileConfig> & Pick<PolicyRuleFileConfig, 'path'>
+  ) {
+    this.config = { ...DEFAULT_POLICY_RULE_FILE_CONFIG, ...config };
+  }
+
+  /**
+   * Read the rule file and apply it
+   *
+   * @returns The load result; on rejection the previous rules stay in effect
+   */
+  public async load(): Promise<RuleFileEvent> {
+    let event: RuleFileEvent;
+
+    try {
+      const text = await readFile(this.config.path, 'utf8');
+      event = { type: 'loaded', ruleSet: this.policy.load(text, this.config.path) };
+      console.log(
+        `[PolicyRuleFile] Loaded ${event.ruleSet.rules.length} rule(s) from ${this.config.path}`
+      );
+    } catch (error) {
+      const rejection = error instanceof Error ? error : new Error(String(error));
+      event = {
+        type: 'rejected',
+        error: rejection,
+        issues: rejection instanceof RuleValidationError ? rejection.issues : [],
+        ruleSet: this.policy.getRuleSet(),
+      };
+      console.warn(`[PolicyRuleFile] Keeping previous rules: ${rejection.message}`);
+    }
+
+    this.notifyListeners(event);
+    return event;
+  }
+
+  /**
+   * Reload the rule file whenever it changes
+   */
+  public watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const file = basename(this.config.path);
+    this.watcher = watch(dirname(this.config.path), (_eventType, filename) => {
+      if (filename === null || filename.toString() === file) {
+        this.scheduleReload();
+      }
+    });
+  }
+
+  /**
+   * Stop watching the rule file
+   */
+  public close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Register a listener for loads and rejections
+   */
+  public onChange(listener: RuleFileListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Unregister a load listener
+   */
+  public offChange(listener: RuleFileListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      void this.load();
+    }, this.config.debounce);
+  }
+
+  private notifyListeners(event: RuleFileEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[PolicyRuleFile] Listener error:', error);
+      }
+    });
+  }
+}
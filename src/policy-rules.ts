@@ -0,0 +1,682 @@
+/**
+ * Declarative Policy Rules
+ *
+ * Lets administrators describe site policies in a JSON or YAML rule file
+ * instead of code. A rule set is validated against a fixed schema and every
+ * problem is reported with the line and column it came from.
+ *
+ * @example
+ * ```yaml
+ * version: 1
+ * rules:
+ *   - name: office-hours
+ *     mode: standby
+ *     reason: Keep workstations free during the working day
+ *     when:
+ *       days: [mon, tue, wed, thu, fri]
+ *       timeOfDay: { from: "09:00", to: "18:00" }
+ *       idleTime: { gte: 5m }
+ *   - name: busy-cpu
+ *     mode: active_master
+ *     when:
+ *       cpu: { gt: 30 }
+ * ```
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature (FR-2.2.3)
+ */
+
+import { LineCounter, Node, parseDocument, isMap, isScalar, isSeq } from 'yaml';
+import type { NodeMode } from './mode-switcher';
+import type { ModePolicy, PolicyContext, PolicyVote } from './mode-policy';
+import { formatDuration } from './mode-policy';
+
+/**
+ * Numeric comparison; every bound given must hold
+ */
+export interface RuleComparison {
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+  eq?: number;
+}
+
+/**
+ * Daily time window in minutes since local midnight
+ *
+ * @remarks
+ * `from` is inclusive and `to` exclusive. A window whose `to` is earlier
+ * than `from` wraps past midnight (e.g. 22:00-06:00).
+ */
+export interface TimeWindow {
+  from: number;
+  to: number;
+}
+
+/**
+ * Conditions of a rule; every condition given must hold
+ */
+export interface RuleConditions {
+  /** Time since last user input (milliseconds) */
+  idleTime?: RuleComparison;
+  /** Local time of day */
+  timeOfDay?: TimeWindow;
+  /** Days of the week (0 = Sunday) */
+  days?: number[];
+  /** CPU usage (percent) */
+  cpu?: RuleComparison;
+  /** Tasks leased to this node */
+  pendingTasks?: RuleComparison;
+  /** Whether master jobs are running */
+  processing?: boolean;
+  /** Whether the mode is locked */
+  locked?: boolean;
+  /** Any other named metric */
+  metrics?: Record<string, RuleComparison>;
+}
+
+/**
+ * A single rule
+ */
+export interface PolicyRule {
+  /** Unique rule name */
+  name: string;
+  /** Mode the rule votes for */
+  mode: NodeMode;
+  /** Reason reported when the rule votes */
+  reason: string;
+  /** Conditions under which the rule votes */
+  when: RuleConditions;
+  /** Line the rule starts on (1-based) */
+  line: number;
+}
+
+/**
+ * A validated rule set
+ */
+export interface PolicyRuleSet {
+  /** Schema version */
+  version: 1;
+  /** Rules in evaluation order */
+  rules: PolicyRule[];
+  /** Where the rules were loaded from */
+  source: string;
+}
+
+/**
+ * A problem found while validating a rule file
+ */
+export interface RuleIssue {
+  /** Line (1-based) */
+  line: number;
+  /** Column (1-based) */
+  column: number;
+  /** Location in the document, e.g. `rules[1].when.cpu` */
+  path: string;
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * Error raised when a rule file fails validation
+ */
+export class RuleValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: RuleIssue[]
+  ) {
+    super(
+      [
+        `Invalid policy rules in ${source} (${issues.length} problem(s))`,
+        ...issues.map((issue) => `  ${formatRuleIssue(source, issue)}`),
+      ].join('\n')
+    );
+    this.name = 'RuleValidationError';
+  }
+}
+
+/**
+ * Modes a rule may vote for
+ *
+ * @remarks
+ * `maintenance`, `draining` and `offline` are only entered manually.
+ */
+export const RULE_MODES: readonly NodeMode[] = [
+  'active_master',
+  'standby',
+  'idle_worker',
+  'shared_worker',
+];
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const COMPARISON_KEYS: (keyof RuleComparison)[] = ['lt', 'lte', 'gt', 'gte', 'eq'];
+const COMPARISON_SYMBOLS: Record<keyof RuleComparison, string> = {
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+  eq: '==',
+};
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Format an issue as `source:line:column: message (at path)`
+ */
+export function formatRuleIssue(source: string, issue: RuleIssue): string {
+  const at = issue.path ? ` (at ${issue.path})` : '';
+  return `${source}:${issue.line}:${issue.column}: ${issue.message}${at}`;
+}
+
+/**
+ * Parse and validate a rule file
+ *
+ * @remarks
+ * Accepts YAML or JSON (JSON is valid YAML). Reports every problem rather
+ * than stopping at the first one.
+ *
+ * @param text - File contents
+ * @param source - Name used in error messages, usually the file path
+ * @throws RuleValidationError if the file is not a valid rule set
+ */
+export function parseRuleSet(text: string, source: string = '<rules>'): PolicyRuleSet {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: false });
+  const issues: RuleIssue[] = [];
+
+  const report = (offset: number, path: string, message: string): void => {
+    const { line, col } = lineCounter.linePos(offset);
+    issues.push({ line, column: col, path, message });
+  };
+
+  document.errors.forEach((error) => report(error.pos[0], '', error.message));
+  if (issues.length > 0) {
+    throw new RuleValidationError(source, issues);
+  }
+
+  const validator = new RuleValidator(report, lineCounter);
+  const rules = validator.document(document.contents);
+  if (issues.length > 0 || !rules) {
+    throw new RuleValidationError(source, issues);
+  }
+
+  return { version: 1, rules, source };
+}
+
+type Report = (offset: number, path: string, message: string) => void;
+type Fields = Map<string, { node: unknown }>;
+
+/**
+ * Walks the YAML syntax tree so every issue keeps its position
+ */
+class RuleValidator {
+  constructor(
+    private report: Report,
+    private lineCounter: LineCounter
+  ) {}
+
+  document(contents: unknown): PolicyRule[] | null {
+    const fields = this.map(contents, '', ['version', 'rules'], ['version', 'rules']);
+    if (!fields) {
+      return null;
+    }
+
+    const version = fields.get('version');
+    if (version && this.scalar(version.node) !== 1) {
+      this.report(offsetOf(version.node), 'version', 'Unsupported version (expected 1)');
+    }
+
+    const rulesField = fields.get('rules');
+    if (!rulesField) {
+      return null;
+    }
+    if (!isSeq(rulesField.node)) {
+      this.report(offsetOf(rulesField.node), 'rules', 'Expected a list of rules');
+      return null;
+    }
+
+    const names = new Set<string>();
+    const rules: PolicyRule[] = [];
+    rulesField.node.items.forEach((item, index) => {
+      const rule = this.rule(item, `rules[${index}]`);
+      if (!rule) {
+        return;
+      }
+      if (names.has(rule.name)) {
+        this.report(offsetOf(item), `rules[${index}].name`, `Duplicate rule name: ${rule.name}`);
+      }
+      names.add(rule.name);
+      rules.push(rule);
+    });
+    return rules;
+  }
+
+  private rule(node: unknown, path: string): PolicyRule | null {
+    const fields = this.map(node, path, ['name', 'mode', 'reason', 'when'], ['name', 'mode']);
+    if (!fields) {
+      return null;
+    }
+
+    const name = this.string(fields.get('name'), `${path}.name`);
+    const mode = this.string(fields.get('mode'), `${path}.mode`);
+    const reasonField = fields.get('reason');
+    const reason = reasonField ? this.string(reasonField, `${path}.reason`) : null;
+    const whenField = fields.get('when');
+    const when = whenField ? this.conditions(whenField.node, `${path}.when`) : {};
+
+    if (mode !== null && !RULE_MODES.includes(mode as NodeMode)) {
+      this.report(
+        offsetOf(fields.get('mode')?.node),
+        `${path}.mode`,
+        `Unknown mode "${mode}" (expected one of ${RULE_MODES.join(', ')})`
+      );
+      return null;
+    }
+    if (name === null || mode === null || when === null) {
+      return null;
+    }
+
+    return {
+      name,
+      mode: mode as NodeMode,
+      reason: reason ?? `Rule ${name}`,
+      when,
+      line: this.lineCounter.linePos(offsetOf(node)).line,
+    };
+  }
+
+  private conditions(node: unknown, path: string): RuleConditions | null {
+    const keys = [
+      'idleTime',
+      'timeOfDay',
+      'days',
+      'cpu',
+      'pendingTasks',
+      'processing',
+      'locked',
+      'metrics',
+    ];
+    const fields = this.map(node, path, keys, []);
+    if (!fields) {
+      return null;
+    }
+
+    const conditions: RuleConditions = {};
+    let valid = true;
+    const take = <T>(value: T | null, assign: (value: T) => void): void => {
+      if (value === null) {
+        valid = false;
+      } else {
+        assign(value);
+      }
+    };
+
+    fields.forEach(({ node: value }, key) => {
+      const at = `${path}.${key}`;
+      switch (key) {
+        case 'idleTime':
+          take(this.comparison(value, at, true), (v) => (conditions.idleTime = v));
+          break;
+        case 'cpu':
+        case 'pendingTasks':
+          take(this.comparison(value, at, false), (v) => (conditions[key] = v));
+          break;
+        case 'timeOfDay':
+          take(this.timeWindow(value, at), (v) => (conditions.timeOfDay = v));
+          break;
+        case 'days':
+          take(this.days(value, at), (v) => (conditions.days = v));
+          break;
+        case 'processing':
+        case 'locked':
+          take(this.boolean(value, at), (v) => (conditions[key] = v));
+          break;
+        case 'metrics':
+          take(this.metrics(value, at), (v) => (conditions.metrics = v));
+          break;
+      }
+    });
+
+    return valid ? conditions : null;
+  }
+
+  private comparison(node: unknown, path: string, duration: boolean): RuleComparison | null {
+    const fields = this.map(node, path, COMPARISON_KEYS, []);
+    if (!fields) {
+      return null;
+    }
+    if (isMap(node) && node.items.length === 0) {
+      this.report(offsetOf(node), path, `Expected at least one of ${COMPARISON_KEYS.join(', ')}`);
+      return null;
+    }
+
+    const comparison: RuleComparison = {};
+    let valid = true;
+    fields.forEach(({ node: value }, key) => {
+      const at = `${path}.${key}`;
+      const bound = duration ? this.duration(value, at) : this.number(value, at);
+      if (bound === null) {
+        valid = false;
+      } else {
+        comparison[key as keyof RuleComparison] = bound;
+      }
+    });
+    return valid ? comparison : null;
+  }
+
+  private timeWindow(node: unknown, path: string): TimeWindow | null {
+    const fields = this.map(node, path, ['from', 'to'], ['from', 'to']);
+    if (!fields) {
+      return null;
+    }
+
+    const from = this.clockTime(fields.get('from'), `${path}.from`);
+    const to = this.clockTime(fields.get('to'), `${path}.to`);
+    return from === null || to === null ? null : { from, to };
+  }
+
+  private days(node: unknown, path: string): number[] | null {
+    if (!isSeq(node) || node.items.length === 0) {
+      this.report(offsetOf(node), path, 'Expected a non-empty list of days (sun..sat)');
+      return null;
+    }
+
+    const days: number[] = [];
+    for (const item of node.items) {
+      const value = this.scalar(item);
+      const day = typeof value === 'string' ? DAY_NAMES.indexOf(value.toLowerCase()) : -1;
+      if (day === -1) {
+        this.report(offsetOf(item), path, `Unknown day "${String(value)}" (expected sun..sat)`);
+        return null;
+      }
+      days.push(day);
+    }
+    return days;
+  }
+
+  private metrics(node: unknown, path: string): Record<string, RuleComparison> | null {
+    const fields = this.map(node, path, null, []);
+    if (!fields) {
+      return null;
+    }
+
+    const metrics: Record<string, RuleComparison> = {};
+    let valid = true;
+    fields.forEach(({ node: value }, name) => {
+      const comparison = this.comparison(value, `${path}.${name}`, false);
+      if (comparison) {
+        metrics[name] = comparison;
+      } else {
+        valid = false;
+      }
+    });
+    return valid ? metrics : null;
+  }
+
+  private duration(node: unknown, path: string): number | null {
+    const value = this.scalar(node);
+    if (typeof value === 'number' && value >= 0) {
+      return value;
+    }
+
+    const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)$/.exec(value) : null;
+    if (!match) {
+      this.report(
+        offsetOf(node),
+        path,
+        `Invalid duration "${String(value)}" (use milliseconds or e.g. 500ms, 30s, 6m, 1h)`
+      );
+      return null;
+    }
+    return Number(match[1]) * DURATION_UNITS[match[2]];
+  }
+
+  private clockTime(field: { node: unknown } | undefined, path: string): number | null {
+    const value = this.scalar(field?.node);
+    const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})$/.exec(value) : null;
+    const hours = match ? Number(match[1]) : NaN;
+    const minutes = match ? Number(match[2]) : NaN;
+
+    if (!(hours <= 24 && minutes < 60 && hours * 60 + minutes <= 24 * 60)) {
+      this.report(offsetOf(field?.node), path, `Invalid time "${String(value)}" (use HH:MM)`);
+      return null;
+    }
+    return hours * 60 + minutes;
+  }
+
+  private number(node: unknown, path: string): number | null {
+    const value = this.scalar(node);
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(offsetOf(node), path, `Expected a number, got "${String(value)}"`);
+      return null;
+    }
+    return value;
+  }
+
+  private boolean(node: unknown, path: string): boolean | null {
+    const value = this.scalar(node);
+    if (typeof value !== 'boolean') {
+      this.report(offsetOf(node), path, 'Expected true or false');
+      return null;
+    }
+    return value;
+  }
+
+  private string(field: { node: unknown } | undefined, path: string): string | null {
+    const value = this.scalar(field?.node);
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.report(offsetOf(field?.node), path, 'Expected a non-empty string');
+      return null;
+    }
+    return value;
+  }
+
+  private scalar(node: unknown): unknown {
+    return isScalar(node) ? node.value : undefined;
+  }
+
+  /**
+   * Read a mapping, reporting unknown and missing keys
+   *
+   * @param allowed - Permitted keys, or null to allow any key
+   */
+  private map(
+    node: unknown,
+    path: string,
+    allowed: string[] | null,
+    required: string[]
+  ): Fields | null {
+    if (!isMap(node)) {
+      this.report(offsetOf(node), path, 'Expected a mapping');
+      return null;
+    }
+
+    const fields: Fields = new Map();
+    for (const pair of node.items) {
+      const key = this.scalar(pair.key);
+      const keyOffset = offsetOf(pair.key);
+      const at = path ? `${path}.${String(key)}` : String(key);
+      if (typeof key !== 'string') {
+        this.report(keyOffset, path, 'Expected a string key');
+      } else if (allowed && !allowed.includes(key)) {
+        this.report(keyOffset, at, `Unknown key "${key}" (expected ${allowed.join(', ')})`);
+      } else {
+        fields.set(key, { node: pair.value });
+      }
+    }
+
+    const missing = required.filter((key) => !fields.has(key));
+    missing.forEach((key) => this.report(offsetOf(node), path, `Missing required key "${key}"`));
+    return missing.length > 0 ? null : fields;
+  }
+}
+
+/**
+ * Start offset of a syntax tree node (0 if unknown)
+ */
+function offsetOf(node: unknown): number {
+  return (node as Node | null | undefined)?.range?.[0] ?? 0;
+}
+
+/**
+ * Outcome of checking a rule against the current state
+ */
+interface RuleMatch {
+  matched: boolean;
+  /** One entry per condition, e.g. `cpu 45 > 30: yes` */
+  checks: string[];
+}
+
+/**
+ * Check every condition of a rule
+ */
+function matchRule(rule: PolicyRule, context: PolicyContext): RuleMatch {
+  const checks: string[] = [];
+  let matched = true;
+  const check = (label: string, ok: boolean): void => {
+    checks.push(`${label}: ${ok ? 'yes' : 'no'}`);
+    matched = matched && ok;
+  };
+  const { when } = rule;
+
+  if (when.idleTime) {
+    const idle = context.timeSinceInput;
+    check(
+      `idleTime ${formatDuration(idle)} ${describeComparison(when.idleTime, formatDuration)}`,
+      compare(idle, when.idleTime)
+    );
+  }
+  if (when.timeOfDay) {
+    const date = new Date(context.now);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const { from, to } = when.timeOfDay;
+    const inside = from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+    check(
+      `timeOfDay ${formatClock(minutes)} in ${formatClock(from)}-${formatClock(to)}`,
+      inside
+    );
+  }
+  if (when.days) {
+    const day = new Date(context.now).getDay();
+    const names = when.days.map((d) => DAY_NAMES[d]).join(',');
+    check(`day ${DAY_NAMES[day]} in [${names}]`, when.days.includes(day));
+  }
+  if (when.cpu) {
+    checkMetric(check, 'cpu', context.metrics.cpu, when.cpu);
+  }
+  if (when.pendingTasks) {
+    checkMetric(check, 'pendingTasks', context.pendingTasks, when.pendingTasks);
+  }
+  if (when.processing !== undefined) {
+    check(`processing is ${when.processing}`, context.isProcessing === when.processing);
+  }
+  if (when.locked !== undefined) {
+    check(`locked is ${when.locked}`, context.locked === when.locked);
+  }
+  Object.entries(when.metrics ?? {}).forEach(([name, comparison]) => {
+    checkMetric(check, name, context.metrics[name], comparison);
+  });
+
+  return { matched, checks };
+}
+
+function checkMetric(
+  check: (label: string, ok: boolean) => void,
+  name: string,
+  value: number | undefined,
+  comparison: RuleComparison
+): void {
+  const expected = describeComparison(comparison, String);
+  if (value === undefined) {
+    check(`${name} unavailable ${expected}`, false);
+  } else {
+    check(`${name} ${value} ${expected}`, compare(value, comparison));
+  }
+}
+
+function compare(value: number, comparison: RuleComparison): boolean {
+  const { lt, lte, gt, gte, eq } = comparison;
+  return (
+    (lt === undefined || value < lt) &&
+    (lte === undefined || value <= lte) &&
+    (gt === undefined || value > gt) &&
+    (gte === undefined || value >= gte) &&
+    (eq === undefined || value === eq)
+  );
+}
+
+function describeComparison(comparison: RuleComparison, format: (v: number) => string): string {
+  return COMPARISON_KEYS.filter((key) => comparison[key] !== undefined)
+    .map((key) => `${COMPARISON_SYMBOLS[key]} ${format(comparison[key] as number)}`)
+    .join(' and ');
+}
+
+function formatClock(minutes: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Rules Policy - A mode policy driven by a rule set
+ *
+ * @remarks
+ * Rules are checked in order and the first matching rule votes. The policy
+ * abstains when no rule matches, so it composes with the built-in policies:
+ * insert it where the rules should take effect, e.g. before `idle-time`.
+ *
+ * `load()` swaps rule sets atomically; an invalid file is rejected and the
+ * last good rule set stays in effect.
+ */
+export class RulesPolicy implements ModePolicy {
+  public readonly name: string;
+  private ruleSet: PolicyRuleSet;
+
+  constructor(ruleSet: PolicyRuleSet | null = null, name: string = 'rules') {
+    this.name = name;
+    this.ruleSet = ruleSet ?? { version: 1, rules: [], source: '<none>' };
+  }
+
+  /**
+   * Validate and apply a rule file
+   *
+   * @throws RuleValidationError if invalid; the current rules are kept
+   */
+  public load(text: string, source?: string): PolicyRuleSet {
+    this.ruleSet = parseRuleSet(text, source);
+    return this.ruleSet;
+  }
+
+  /**
+   * Get the rule set in effect
+   */
+  public getRuleSet(): PolicyRuleSet {
+    return this.ruleSet;
+  }
+
+  evaluate(context: PolicyContext): PolicyVote | null {
+    const rule = this.ruleSet.rules.find((candidate) => matchRule(candidate, context).matched);
+    return rule ? { mode: rule.mode, reason: `rule ${rule.name}: ${rule.reason}` } : null;
+  }
+
+  explain(context: PolicyContext): string[] {
+    const details = [`${this.ruleSet.rules.length} rule(s) from ${this.ruleSet.source}`];
+
+    for (const rule of this.ruleSet.rules) {
+      const { matched, checks } = matchRule(rule, context);
+      const conditions = checks.length > 0 ? checks.join('; ') : 'no conditions';
+      details.push(
+        `rule ${rule.name} (line ${rule.line}) -> ${rule.mode}: ` +
+          `${matched ? 'matched' : 'not matched'} (${conditions})`
+      );
+      if (matched) {
+        break;
+      }
+    }
+
+    return details;
+  }
+}
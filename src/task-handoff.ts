@@ -0,0 +1,155 @@
+/**
+ * Task Handoff
+ *
+ * Returns the tasks leased to this node to the coordination service when
+ * the node leaves worker mode, and keeps retrying until the service has
+ * acknowledged every one of them.
+ *
+ * @see Issue #2.2: Auto Mode Switching Feature (FR-2.2.4)
+ * @see src/coordination-server.ts for the `/nodes/:id/handoff` route
+ */
+
+import type { CoordinationClient, HandoffAck } from './coordination-service';
+import { Clock, ClockTimer, systemClock } from './clock';
+
+/**
+ * Configuration for task handoff
+ */
+export interface TaskHandoffConfig {
+  /** Delay before retrying an unacknowledged handoff (milliseconds) */
+  retryInterval: number;
+}
+
+/**
+ * Default configuration for task handoff
+ */
+export const DEFAULT_TASK_HANDOFF_CONFIG: TaskHandoffConfig = {
+  retryInterval: 1000, // 1 second
+};
+
+/**
+ * Listener notified when a handoff has been fully acknowledged
+ */
+export type HandoffListener = (ack: HandoffAck) => void;
+
+/**
+ * Error raised when the coordination service still lists tasks as leased
+ * to this node after a handoff
+ */
+export class TaskHandoffError extends Error {
+  constructor(public readonly remaining: string[]) {
+    super(
+      `Coordination service did not take back ${remaining.length} task(s): ` +
+        remaining.join(', ')
+    );
+    this.name = 'TaskHandoffError';
+  }
+}
+
+/**
+ * Task Handoff - Hands leased tasks back to the coordination service
+ *
+ * @remarks
+ * A handoff only succeeds once the acknowledgement accounts for every task
+ * the service had leased to this node. When it fails a retry is scheduled
+ * in the background. A mode switch that fails or runs out of time while
+ * leaving worker mode rolls back and disposes the handoff, which cancels
+ * the retry: the restarted worker keeps its tasks, and any left over are
+ * recovered by the next handoff or when the service releases the tasks of
+ * a node that stops heartbeating.
+ */
+export class TaskHandoff {
+  private config: TaskHandoffConfig;
+  private retryTimer: ClockTimer | null = null;
+  private inFlight: Promise<HandoffAck> | null = null;
+  private listeners: Set<HandoffListener> = new Set();
+
+  constructor(
+    private coordination: CoordinationClient,
+    config: Partial<TaskHandoffConfig> = {},
+    private clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_TASK_HANDOFF_CONFIG, ...config };
+  }
+
+  /**
+   * Hand every leased task back to the coordination service
+   *
+   * @returns The acknowledgement once all tasks are accounted for
+   * @throws If the service could not be reached or kept some tasks leased;
+   * a retry is scheduled in that case
+   */
+  public handOff(): Promise<HandoffAck> {
+    if (!this.inFlight) {
+      this.clearRetry();
+      this.inFlight = this.attempt().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Whether a handoff is in flight or waiting to be retried
+   */
+  public hasPendingHandoff(): boolean {
+    return this.retryTimer !== null || this.inFlight !== null;
+  }
+
+  /**
+   * Stop retrying (tasks are then only recovered by the heartbeat timeout)
+   */
+  public dispose(): void {
+    this.clearRetry();
+  }
+
+  /**
+   * Register a listener for acknowledged handoffs
+   */
+  public onHandoff(listener: HandoffListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Unregister a handoff listener
+   */
+  public offHandoff(listener: HandoffListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private async attempt(): Promise<HandoffAck> {
+    try {
+      const ack = await this.coordination.handOffTasks();
+      if (ack.remaining.length > 0) {
+        throw new TaskHandoffError(ack.remaining);
+      }
+
+      this.listeners.forEach((listener) => listener(ack));
+      return ack;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `[TaskHandoff] Handoff failed, retrying in ${this.config.retryInterval}ms: ${errorMessage}`
+      );
+      this.scheduleRetry();
+      throw error;
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetry();
+    this.retryTimer = this.clock.setTimeout(() => {
+      this.retryTimer = null;
+      this.handOff().catch(() => {
+        // Already logged; the next retry has been scheduled
+      });
+    }, this.config.retryInterval);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      this.clock.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
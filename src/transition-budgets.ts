@@ -0,0 +1,184 @@
+/**
+ * Transition Timing Budgets
+ *
+ * How long each mode transition may take. Every allowed from → to edge
+ * has a soft deadline, after which the transition is reported as slow,
+ * and a hard deadline, after which it is aborted and rolled back.
+ *
+ * @see src/mode-transitions.ts for the edges
+ * @see src/transition-pipeline.ts for where the deadlines are applied
+ */
+
+import type { NodeMode } from './mode-switcher';
+import { MODE_TRANSITIONS } from './mode-transitions';
+import { runsWorker } from './worker-service';
+
+/**
+ * Deadlines for one transition
+ */
+export interface TransitionBudget {
+  /** Time after which the transition is reported as slow (milliseconds, 0 = never) */
+  soft: number;
+  /** Time after which the transition is aborted (milliseconds, 0 = never) */
+  hard: number;
+}
+
+/**
+ * Budgets for every allowed transition, by current mode and target mode
+ */
+export type TransitionBudgetTable = Record<NodeMode, Partial<Record<NodeMode, TransitionBudget>>>;
+
+/**
+ * Budgets replacing the defaults for selected transitions
+ */
+export type TransitionBudgetOverrides = Partial<
+  Record<NodeMode, Partial<Record<NodeMode, Partial<TransitionBudget>>>>
+>;
+
+/**
+ * Budget for giving the node back to its user (FR-2.2.4: Worker → Master
+ * within 2 seconds)
+ */
+export const RECLAIM_BUDGET: TransitionBudget = {
+  soft: 1000,
+  hard: 2000,
+};
+
+/**
+ * Whether a transition gives the node back to its user: a running worker
+ * stopped for `active_master`
+ */
+export function isReclaim(from: NodeMode, to: NodeMode): boolean {
+  return to === 'active_master' && runsWorker(from);
+}
+
+/**
+ * Budget of an ordinary transition: the soft deadline is half the hard one
+ *
+ * @param switchTimeout - Hard deadline (milliseconds, 0 = never)
+ */
+export function defaultBudget(switchTimeout: number): TransitionBudget {
+  return { soft: switchTimeout / 2, hard: switchTimeout };
+}
+
+/**
+ * Error raised when a switch timeout or budget overrides are invalid
+ */
+export class BudgetValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid transition budgets: ${problems.join('; ')}`);
+    this.name = 'BudgetValidationError';
+  }
+}
+
+/**
+ * Build the budget table
+ *
+ * @remarks
+ * Transitions that stop a running worker for `active_master` get
+ * `RECLAIM_BUDGET`, every other transition `defaultBudget(switchTimeout)`.
+ * Overrides replace either deadline of an edge.
+ *
+ * @param switchTimeout - Default hard deadline (milliseconds, 0 = never)
+ * @throws BudgetValidationError if `validateBudgets` finds any problem
+ */
+export function createBudgetTable(
+  switchTimeout: number,
+  overrides: TransitionBudgetOverrides = {}
+): TransitionBudgetTable {
+  const problems = validateBudgets(switchTimeout, overrides);
+  if (problems.length > 0) {
+    throw new BudgetValidationError(problems);
+  }
+  return previewBudgetTable(switchTimeout, overrides);
+}
+
+/**
+ * Build the budget table without checking the input
+ *
+ * @remarks
+ * For showing settings that are still being edited. Overrides of
+ * transitions that are not allowed are ignored, and invalid deadlines are
+ * taken as they are.
+ */
+export function previewBudgetTable(
+  switchTimeout: number,
+  overrides: TransitionBudgetOverrides = {}
+): TransitionBudgetTable {
+  const table = {} as TransitionBudgetTable;
+
+  (Object.keys(MODE_TRANSITIONS) as NodeMode[]).forEach((from) => {
+    table[from] = {};
+    (Object.keys(MODE_TRANSITIONS[from]) as NodeMode[]).forEach((to) => {
+      const base = isReclaim(from, to) ? RECLAIM_BUDGET : defaultBudget(switchTimeout);
+      table[from][to] = { ...base, ...overrides[from]?.[to] };
+    });
+  });
+
+  return table;
+}
+
+/**
+ * Find problems with the switch timeout and budget overrides
+ *
+ * @returns One message for a switch timeout that is not a finite,
+ * non-negative number, and one per override that names a transition that
+ * is not allowed, sets such a deadline, or whose soft deadline lies
+ * beyond its hard deadline
+ */
+export function validateBudgets(
+  switchTimeout: number,
+  overrides: TransitionBudgetOverrides
+): string[] {
+  const table = previewBudgetTable(switchTimeout, overrides);
+  const problems: string[] = [];
+
+  if (!(Number.isFinite(switchTimeout) && switchTimeout >= 0)) {
+    problems.push(
+      `Switch timeout must be a non-negative number of milliseconds (got ${switchTimeout})`
+    );
+  }
+
+  (Object.keys(overrides) as NodeMode[]).forEach((from) => {
+    (Object.keys(overrides[from] ?? {}) as NodeMode[]).forEach((to) => {
+      const budget = table[from]?.[to];
+      const invalid = (['soft', 'hard'] as const).filter((key) => {
+        const value = overrides[from]?.[to]?.[key];
+        return value !== undefined && !(Number.isFinite(value) && value >= 0);
+      });
+      if (!budget) {
+        problems.push(`No transition from ${from} to ${to} to budget`);
+      } else if (invalid.length > 0) {
+        invalid.forEach((key) =>
+          problems.push(
+            `${key === 'soft' ? 'Soft' : 'Hard'} deadline of ${from} -> ${to} must be ` +
+              `a non-negative number of milliseconds (got ${budget[key]})`
+          )
+        );
+      } else if (budget.hard > 0 && budget.soft > budget.hard) {
+        problems.push(
+          `Soft deadline of ${from} -> ${to} (${budget.soft}ms) exceeds its hard deadline ` +
+            `(${budget.hard}ms)`
+        );
+      }
+    });
+  });
+
+  return problems;
+}
+
+/**
+ * Look up the budget of a transition
+ *
+ * @remarks
+ * Staying in the same mode re-runs its steps and uses `fallback`, as does
+ * any transition the table does not list.
+ */
+export function budgetFor(
+  table: TransitionBudgetTable,
+  from: NodeMode,
+  to: NodeMode,
+  fallback: TransitionBudget
+): TransitionBudget {
+  return table[from]?.[to] ?? fallback;
+}
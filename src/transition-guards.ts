@@ -0,0 +1,220 @@
+/**
+ * Transition Guards
+ *
+ * Hooks consulted before a mode switch touches anything. A guard can let
+ * the switch run, veto it, or ask for it to be delayed, always with a
+ * reason: "a SolidWorks Simulation study is saving", "a VPN reconnect is
+ * in progress".
+ *
+ * Guards are asked again while they delay, up to a limit. A guard that
+ * hangs or throws is skipped after a timeout, so it can never block a
+ * switch forever.
+ *
+ * @see src/transition-pipeline.ts for where guards are consulted
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { TransitionSource } from './transition-pipeline';
+import { Clock, ClockTimer, systemClock } from './clock';
+
+/**
+ * A transition waiting for the guards
+ */
+export interface PendingTransition {
+  /** Mode being left */
+  from: NodeMode;
+  /** Mode being entered */
+  to: NodeMode;
+  /** Who asked for the transition */
+  source: TransitionSource;
+  /** Why the transition was requested */
+  reason: string;
+}
+
+/**
+ * A guard's answer
+ *
+ * - `allow`: the switch may run
+ * - `veto`: the switch must not run
+ * - `delay`: ask again after `retryAfter` milliseconds
+ */
+export type GuardVerdict =
+  | { action: 'allow' }
+  | { action: 'veto'; reason: string }
+  | { action: 'delay'; reason: string; retryAfter?: number };
+
+/**
+ * Hook consulted before every mode switch
+ */
+export interface TransitionGuard {
+  /** Guard name, used in logs and errors */
+  name: string;
+
+  /**
+   * Decide on a pending transition
+   *
+   * @param signal - Aborted when the guard runs out of time or the
+   * transition is cancelled
+   */
+  check(pending: PendingTransition, signal: AbortSignal): GuardVerdict | Promise<GuardVerdict>;
+}
+
+/**
+ * Settings for consulting guards
+ */
+export interface GuardOptions {
+  /** Time each guard has to answer (milliseconds, 0 = unlimited) */
+  timeout: number;
+  /** Wait before asking again when a delaying guard gives no retry time */
+  retryAfter: number;
+  /** Total time guards may delay a switch before it is vetoed (milliseconds) */
+  maxDelay: number;
+  /**
+   * Treat delays as `allow`, for transitions that must not wait, such as
+   * giving the node back to its user
+   */
+  refuseDelays?: boolean;
+  /** Cancels waiting for the guards */
+  signal?: AbortSignal;
+  /** Time source of the timeouts and delays (defaults to the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Error raised when a guard vetoes a transition, or keeps delaying it
+ */
+export class TransitionVetoedError extends Error {
+  constructor(
+    /** Name of the guard that stopped the transition */
+    public readonly guard: string,
+    /** The guard's reason */
+    public readonly reason: string,
+    public readonly pending: PendingTransition
+  ) {
+    super(`Transition from ${pending.from} to ${pending.to} vetoed by ${guard}: ${reason}`);
+    this.name = 'TransitionVetoedError';
+  }
+}
+
+/**
+ * Ask every guard about a transition, waiting while any of them delays
+ *
+ * @remarks
+ * Guards are asked in parallel. A veto wins over a delay; the longest
+ * delay decides when they are asked again. A guard that does not answer
+ * within `timeout`, or throws, is skipped with a warning. Once delays add
+ * up to `maxDelay` the transition is vetoed with the delaying reason. With
+ * `refuseDelays` a delay is logged and the transition goes ahead.
+ *
+ * @throws TransitionVetoedError if a guard vetoes or keeps delaying
+ * @throws The signal's reason if waiting is cancelled
+ */
+export async function consultGuards(
+  guards: Iterable<TransitionGuard>,
+  pending: PendingTransition,
+  options: GuardOptions
+): Promise<void> {
+  const list = Array.from(guards);
+  let delayed = 0;
+
+  for (;;) {
+    options.signal?.throwIfAborted();
+    const verdicts = await Promise.all(list.map((guard) => askGuard(guard, pending, options)));
+
+    const veto = verdicts.find((entry) => entry.verdict.action === 'veto');
+    if (veto && veto.verdict.action === 'veto') {
+      throw new TransitionVetoedError(veto.guard.name, veto.verdict.reason, pending);
+    }
+
+    let longest: { guard: TransitionGuard; reason: string; wait: number } | null = null;
+    for (const { guard, verdict } of verdicts) {
+      if (verdict.action === 'delay') {
+        const wait = verdict.retryAfter ?? options.retryAfter;
+        if (!longest || wait > longest.wait) {
+          longest = { guard, reason: verdict.reason, wait };
+        }
+      }
+    }
+    if (!longest) {
+      return;
+    }
+    if (options.refuseDelays) {
+      console.warn(
+        `Transition guard ${longest.guard.name} may not delay the transition to ` +
+          `${pending.to}: ${longest.reason}`
+      );
+      return;
+    }
+
+    if (delayed + longest.wait > options.maxDelay) {
+      throw new TransitionVetoedError(
+        longest.guard.name,
+        `${longest.reason} (still delaying after ${delayed}ms)`,
+        pending
+      );
+    }
+    console.log(`Transition to ${pending.to} delayed by ${longest.guard.name}: ${longest.reason}`);
+    await sleep(longest.wait, options.clock ?? systemClock, options.signal);
+    delayed += longest.wait;
+  }
+}
+
+/**
+ * Ask one guard, treating a timeout or an error as `allow`
+ */
+async function askGuard(
+  guard: TransitionGuard,
+  pending: PendingTransition,
+  options: GuardOptions
+): Promise<{ guard: TransitionGuard; verdict: GuardVerdict }> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', cancel);
+  const clock = options.clock ?? systemClock;
+  let timer: ClockTimer | null = null;
+
+  const timeout = new Promise<never>((_, reject) => {
+    if (options.timeout > 0) {
+      timer = clock.setTimeout(() => {
+        const error = new Error(`no answer within ${options.timeout}ms`);
+        controller.abort(error);
+        reject(error);
+      }, options.timeout);
+    }
+  });
+
+  try {
+    const verdict = await Promise.race([
+      Promise.resolve().then(() => guard.check(pending, controller.signal)),
+      timeout,
+    ]);
+    return { guard, verdict };
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`Transition guard ${guard.name} skipped: ${errorMessage}`);
+    return { guard, verdict: { action: 'allow' } };
+  } finally {
+    if (timer) {
+      clock.clearTimeout(timer);
+    }
+    options.signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Wait, rejecting with the abort reason if the signal is aborted
+ */
+function sleep(ms: number, clock: Clock, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
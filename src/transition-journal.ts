@@ -0,0 +1,208 @@
+/**
+ * Transition Journal
+ *
+ * Write-ahead log of mode transitions and lock changes. The transition
+ * pipeline records its intent before touching the worker or the
+ * coordination service, every completed step, and the outcome, so that
+ * after a crash the node can tell which mode it was really in and whether
+ * a transition was cut short.
+ *
+ * @see src/transition-journal-file.ts for the on-disk implementation
+ * @see src/transition-pipeline.ts for recovery on startup
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { TransitionSource } from './transition-pipeline';
+import type { LockHolder } from './manual-mode-switcher';
+import type { ModeSwitchApproval } from './pending-confirmations';
+
+/**
+ * A journal record
+ *
+ * - `intent`: a transition is about to run its steps; a four-eyes switch
+ *   carries who requested and who approved it
+ * - `step`: a step of the current transition completed
+ * - `complete`: the transition finished; the node is in `to`
+ * - `failed`: the transition failed; the node is back in `from` if `rolledBack`
+ * - `lock`: the mode was locked by `holder` (or unlocked with `null`), until
+ *   `expiresAt` if the lock is timed
+ * - `snapshot`: replaces every earlier record when the journal is compacted
+ */
+export type JournalEntry =
+  | {
+      type: 'intent';
+      id: number;
+      from: NodeMode;
+      to: NodeMode;
+      source: TransitionSource;
+      reason: string;
+      at: number;
+      approval?: ModeSwitchApproval;
+    }
+  | { type: 'step'; id: number; step: string; at: number }
+  | { type: 'complete'; id: number; at: number }
+  | { type: 'failed'; id: number; error: string; rolledBack: boolean; at: number }
+  | {
+      type: 'lock';
+      lockedMode: NodeMode | null;
+      at: number;
+      expiresAt?: number;
+      holder?: LockHolder;
+    }
+  | {
+      type: 'snapshot';
+      lastId: number;
+      mode: NodeMode;
+      lockedMode: NodeMode | null;
+      lockedAt: number | null;
+      lockExpiresAt?: number | null;
+      lockHolder?: LockHolder | null;
+      inconsistent: boolean;
+      at: number;
+    };
+
+/**
+ * Transition that has an intent but no outcome in the journal
+ */
+export interface InterruptedTransition {
+  /** Transition ID */
+  id: number;
+  /** Mode the node was leaving */
+  from: NodeMode;
+  /** Mode the node was entering */
+  to: NodeMode;
+  /** Who asked for the transition */
+  source: TransitionSource;
+  /** Steps that completed before the interruption */
+  completedSteps: string[];
+}
+
+/**
+ * Node state reconstructed from the journal
+ */
+export interface JournalState {
+  /** Last mode the node was known to be in */
+  mode: NodeMode;
+  /** Mode the node was locked to, if any */
+  lockedMode: NodeMode | null;
+  /** When the lock was taken (epoch milliseconds) */
+  lockedAt: number | null;
+  /** When a timed lock ends (epoch milliseconds), null for an open-ended lock */
+  lockExpiresAt: number | null;
+  /** Who holds the lock and why, if recorded */
+  lockHolder: LockHolder | null;
+  /** Highest transition ID seen */
+  lastId: number;
+  /** Transition cut short by a crash, if any */
+  interrupted: InterruptedTransition | null;
+  /** A failed transition could not be fully rolled back */
+  inconsistent: boolean;
+}
+
+/**
+ * Storage for journal records
+ */
+export interface TransitionJournal {
+  /** Durably append a record */
+  append(entry: JournalEntry): Promise<void>;
+
+  /** Read every record in order */
+  read(): Promise<JournalEntry[]>;
+}
+
+/**
+ * Rebuild the node state from journal records
+ *
+ * @remarks
+ * An interrupted transition leaves the mode at its `from` side, matching
+ * what a rollback would have done; recovery then re-applies that mode.
+ */
+export function replayJournal(entries: JournalEntry[]): JournalState {
+  const state: JournalState = {
+    mode: 'active_master',
+    lockedMode: null,
+    lockedAt: null,
+    lockExpiresAt: null,
+    lockHolder: null,
+    lastId: 0,
+    interrupted: null,
+    inconsistent: false,
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'snapshot':
+        state.mode = entry.mode;
+        state.lockedMode = entry.lockedMode;
+        state.lockedAt = entry.lockedAt;
+        state.lockExpiresAt = entry.lockExpiresAt ?? null;
+        state.lockHolder = entry.lockHolder ?? null;
+        state.lastId = entry.lastId;
+        state.interrupted = null;
+        state.inconsistent = entry.inconsistent;
+        break;
+      case 'intent':
+        state.mode = entry.from;
+        state.lastId = Math.max(state.lastId, entry.id);
+        state.interrupted = {
+          id: entry.id,
+          from: entry.from,
+          to: entry.to,
+          source: entry.source,
+          completedSteps: [],
+        };
+        break;
+      case 'step':
+        if (state.interrupted?.id === entry.id) {
+          state.interrupted.completedSteps.push(entry.step);
+        }
+        break;
+      case 'complete':
+        if (state.interrupted?.id === entry.id) {
+          state.mode = state.interrupted.to;
+          state.interrupted = null;
+          state.inconsistent = false;
+        }
+        break;
+      case 'failed':
+        if (state.interrupted?.id === entry.id) {
+          state.mode = state.interrupted.from;
+          state.interrupted = null;
+          state.inconsistent = !entry.rolledBack;
+        }
+        break;
+      case 'lock':
+        state.lockedMode = entry.lockedMode;
+        state.lockedAt = entry.lockedMode === null ? null : entry.at;
+        state.lockExpiresAt = entry.lockedMode === null ? null : (entry.expiresAt ?? null);
+        state.lockHolder = entry.lockedMode === null ? null : (entry.holder ?? null);
+        break;
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Mock implementation of TransitionJournal for testing and demo
+ */
+export class MockTransitionJournal implements TransitionJournal {
+  private entries: JournalEntry[] = [];
+
+  async append(entry: JournalEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async read(): Promise<JournalEntry[]> {
+    return [...this.entries];
+  }
+
+  // Test helpers
+  getEntries(): JournalEntry[] {
+    return [...this.entries];
+  }
+
+  setEntries(entries: JournalEntry[]): void {
+    this.entries = [...entries];
+  }
+}
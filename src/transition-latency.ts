@@ -0,0 +1,337 @@
+/**
+ * Transition Latency
+ *
+ * Measures how long mode switches take against the promise of FR-2.2.4:
+ * Worker → Master within 2 seconds and Master → Worker within 5 seconds.
+ * Keeps latency histograms per transition edge and per step (worker stop,
+ * task transfer, coordinator notify, ...) and computes SLO compliance over
+ * rolling windows.
+ *
+ * @see src/transition-pipeline.ts for where the timings come from
+ * @see src/transition-budgets.ts for the deadlines used as SLO targets
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { TransitionTiming } from './transition-pipeline';
+import {
+  budgetFor,
+  createBudgetTable,
+  defaultBudget,
+  TransitionBudgetTable,
+} from './transition-budgets';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Upper bounds of the histogram buckets (milliseconds)
+ *
+ * @remarks
+ * Dense around the 2 and 5 second targets; anything slower lands in an
+ * overflow bucket.
+ */
+export const LATENCY_BUCKETS: readonly number[] = [
+  10, 25, 50, 100, 250, 500, 750, 1000, 1500, 2000, 3000, 4000, 5000, 7500, 10000, 30000,
+];
+
+/**
+ * Configuration for latency measurement
+ */
+export interface TransitionLatencyConfig {
+  /**
+   * SLO target of ordinary transitions (milliseconds); transitions giving
+   * the node back to its user use `RECLAIM_BUDGET`
+   */
+  sloTimeout: number;
+  /** Rolling windows SLO compliance is computed over (milliseconds) */
+  sloWindows: number[];
+  /** Share of transitions that must meet their target (0-1) */
+  sloObjective: number;
+  /** Transitions kept per edge for the rolling windows */
+  maxSamples: number;
+}
+
+/**
+ * Default configuration for latency measurement
+ */
+export const DEFAULT_TRANSITION_LATENCY_CONFIG: TransitionLatencyConfig = {
+  sloTimeout: 5000, // FR-2.2.4: Master → Worker within 5 seconds
+  sloWindows: [
+    60 * 60 * 1000, // 1 hour
+    24 * 60 * 60 * 1000, // 1 day
+  ],
+  sloObjective: 0.99,
+  maxSamples: 1000,
+};
+
+/**
+ * Summary of a latency histogram
+ *
+ * @remarks
+ * Percentiles are interpolated within their bucket and never exceed the
+ * slowest recorded value. All values are null while nothing is recorded.
+ */
+export interface LatencySummary {
+  /** Number of recorded values */
+  count: number;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  /** Slowest recorded value (milliseconds) */
+  max: number | null;
+}
+
+/**
+ * SLO compliance within one rolling window
+ */
+export interface SloCompliance {
+  /** Window length (milliseconds) */
+  window: number;
+  /** Transitions within the window */
+  total: number;
+  /** Transitions that reached their target mode within the SLO target */
+  met: number;
+  /** `met / total`, or null without transitions */
+  ratio: number | null;
+  /** Whether the ratio reaches the objective; true without transitions */
+  compliant: boolean;
+}
+
+/**
+ * Latency of one transition edge
+ */
+export interface EdgeLatency {
+  /** Mode being left */
+  from: NodeMode;
+  /** Mode being entered */
+  to: NodeMode;
+  /** SLO target of the edge (milliseconds, 0 = none) */
+  target: number;
+  /** Whole transitions, failed ones included */
+  total: LatencySummary;
+  /** Per step, by step name */
+  steps: Record<string, LatencySummary>;
+  /** Transitions that did not reach the target mode */
+  failures: number;
+  /** Compliance per configured window, in configuration order */
+  compliance: SloCompliance[];
+}
+
+/**
+ * Latency of every transition edge seen so far
+ */
+export interface LatencyReport {
+  /** Share of transitions that must meet their target (0-1) */
+  objective: number;
+  /** Edges ordered by their first transition */
+  edges: EdgeLatency[];
+}
+
+/**
+ * Latency Histogram - Fixed-bucket histogram of durations
+ */
+export class LatencyHistogram {
+  private counts: number[];
+  private count: number = 0;
+  private max: number = 0;
+
+  constructor(private bounds: readonly number[] = LATENCY_BUCKETS) {
+    // One extra bucket for values above the last bound
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  /**
+   * Record a duration (milliseconds)
+   */
+  public record(duration: number): void {
+    const index = this.bounds.findIndex((bound) => duration <= bound);
+    this.counts[index === -1 ? this.bounds.length : index] += 1;
+    this.count += 1;
+    this.max = Math.max(this.max, duration);
+  }
+
+  /**
+   * Estimate a percentile (0-100)
+   *
+   * @returns The estimate in milliseconds, or null if nothing is recorded
+   */
+  public percentile(percent: number): number | null {
+    if (this.count === 0) {
+      return null;
+    }
+
+    const rank = (percent / 100) * this.count;
+    let seen = 0;
+    for (let index = 0; index < this.counts.length; index++) {
+      const inBucket = this.counts[index];
+      if (inBucket === 0 || seen + inBucket < rank) {
+        seen += inBucket;
+        continue;
+      }
+
+      const lower = index === 0 ? 0 : this.bounds[index - 1];
+      const upper = index < this.bounds.length ? this.bounds[index] : this.max;
+      const estimate = lower + ((upper - lower) * (rank - seen)) / inBucket;
+      return Math.min(Math.round(estimate), this.max);
+    }
+
+    return this.max;
+  }
+
+  /**
+   * Summarise the histogram
+   */
+  public summary(): LatencySummary {
+    return {
+      count: this.count,
+      p50: this.percentile(50),
+      p95: this.percentile(95),
+      p99: this.percentile(99),
+      max: this.count === 0 ? null : this.max,
+    };
+  }
+}
+
+/**
+ * Measurements of one edge
+ */
+interface EdgeRecord {
+  from: NodeMode;
+  to: NodeMode;
+  total: LatencyHistogram;
+  steps: Map<string, LatencyHistogram>;
+  failures: number;
+  /** Recent transitions for the rolling windows, oldest first */
+  samples: { at: number; met: boolean }[];
+}
+
+/**
+ * Transition Latency Recorder - Histograms and SLO compliance per edge
+ *
+ * @remarks
+ * Feed it the pipeline's timings through `record()`. Histograms cover every
+ * transition since the recorder was created; compliance only the rolling
+ * windows. A failed transition counts against the SLO however quickly it
+ * was rolled back, since the node never reached the mode it was asked
+ * for. Recovery re-applies the current mode and is not recorded.
+ */
+export class TransitionLatencyRecorder {
+  private config: TransitionLatencyConfig;
+  private targets: TransitionBudgetTable;
+  private edges: Map<string, EdgeRecord> = new Map();
+
+  constructor(
+    config: Partial<TransitionLatencyConfig> = {},
+    private clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_TRANSITION_LATENCY_CONFIG, ...config };
+    this.targets = createBudgetTable(this.config.sloTimeout);
+  }
+
+  /**
+   * Record the timing of a transition
+   */
+  public record(timing: TransitionTiming): void {
+    if (timing.source === 'recovery') {
+      return;
+    }
+
+    const edge = this.edge(timing.from, timing.to);
+    edge.total.record(timing.duration);
+    timing.steps.forEach((step) => {
+      let histogram = edge.steps.get(step.name);
+      if (!histogram) {
+        histogram = new LatencyHistogram();
+        edge.steps.set(step.name, histogram);
+      }
+      histogram.record(step.duration);
+    });
+    if (!timing.succeeded) {
+      edge.failures += 1;
+    }
+
+    const target = this.targetFor(timing.from, timing.to);
+    const at = timing.startedAt + timing.duration;
+    edge.samples.push({
+      at,
+      met: timing.succeeded && (target === 0 || timing.duration <= target),
+    });
+
+    const horizon = at - Math.max(0, ...this.config.sloWindows);
+    edge.samples = edge.samples
+      .filter((sample) => sample.at >= horizon)
+      .slice(-this.config.maxSamples);
+  }
+
+  /**
+   * Get the SLO target of a transition (milliseconds, 0 = none)
+   */
+  public targetFor(from: NodeMode, to: NodeMode): number {
+    return budgetFor(this.targets, from, to, defaultBudget(this.config.sloTimeout)).hard;
+  }
+
+  /**
+   * Get the latency of every edge seen so far
+   *
+   * @param at - End of the rolling windows (epoch milliseconds, defaults
+   * to the clock the timings were taken on)
+   */
+  public getReport(at: number = this.clock.now()): LatencyReport {
+    return {
+      objective: this.config.sloObjective,
+      edges: Array.from(this.edges.values()).map((edge) => this.edgeLatency(edge, at)),
+    };
+  }
+
+  /**
+   * Forget every measurement
+   */
+  public reset(): void {
+    this.edges.clear();
+  }
+
+  private edge(from: NodeMode, to: NodeMode): EdgeRecord {
+    const key = `${from}->${to}`;
+    let edge = this.edges.get(key);
+    if (!edge) {
+      edge = {
+        from,
+        to,
+        total: new LatencyHistogram(),
+        steps: new Map(),
+        failures: 0,
+        samples: [],
+      };
+      this.edges.set(key, edge);
+    }
+    return edge;
+  }
+
+  private edgeLatency(edge: EdgeRecord, at: number): EdgeLatency {
+    const steps: Record<string, LatencySummary> = {};
+    edge.steps.forEach((histogram, name) => {
+      steps[name] = histogram.summary();
+    });
+
+    const compliance = this.config.sloWindows.map((window): SloCompliance => {
+      const inWindow = edge.samples.filter((sample) => sample.at > at - window);
+      const met = inWindow.filter((sample) => sample.met).length;
+      const ratio = inWindow.length === 0 ? null : met / inWindow.length;
+      return {
+        window,
+        total: inWindow.length,
+        met,
+        ratio,
+        compliant: ratio === null || ratio >= this.config.sloObjective,
+      };
+    });
+
+    return {
+      from: edge.from,
+      to: edge.to,
+      target: this.targetFor(edge.from, edge.to),
+      total: edge.total.summary(),
+      steps,
+      failures: edge.failures,
+      compliance,
+    };
+  }
+}
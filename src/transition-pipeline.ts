@@ -0,0 +1,1437 @@
+/**
+ * Mode Transition Pipeline
+ *
+ * Single place where the node's mode actually changes. Holds the
+ * authoritative current mode, runs one transition at a time and executes
+ * the worker / task handoff / coordination steps shared by automatic and
+ * manual switching.
+ *
+ * Each transition is a list of steps with compensating actions. A step
+ * that fails, or a transition that is cancelled or runs out of time, rolls
+ * the node back to its old mode before the failure is reported.
+ *
+ * Transitions and lock changes are written ahead to a journal, which
+ * `recover()` replays on startup.
+ *
+ * Standby is a warm state: the worker process is up but paused, the
+ * coordination service knows the node will soon be available, and the
+ * inputs of likely next tasks are prefetched in the background.
+ *
+ * Shared worker mode runs the same worker under resource caps (a lowered
+ * priority and advisory core and memory caps), which are applied before
+ * and lifted after the worker is announced.
+ *
+ * Every transition is checked against the allowed-transition table first.
+ * A draining node is watched in the background and becomes master once
+ * its leased tasks are done.
+ *
+ * Every executed transition and each of its steps is timed; the timings
+ * go to `onTransitionTimed()` listeners.
+ *
+ * Registered guards are asked before a switch touches anything and may
+ * veto or delay it.
+ *
+ * While a transition runs the node is visibly "transitioning": listeners
+ * hear when it starts, and `getActiveTransition()` tells where it is
+ * going. Steps are planned when a transition starts, not when it is
+ * queued, so a queued transition always starts from the mode the previous
+ * one left behind.
+ *
+ * @see src/node-controller.ts for the controller that owns a pipeline
+ */
+
+import type { NodeMode } from './mode-switcher';
+import type { NodeServices } from './node-services';
+import { modeEvent, NodeRecord } from './coordination-service';
+import {
+  DEFAULT_SHARED_WORKER_LIMITS,
+  DEFAULT_WORKER_STOP_TIMEOUT,
+  isWorkerMode,
+  runsWorker,
+  WorkerLimits,
+} from './worker-service';
+import { assertTransitionAllowed, isTransitionAllowed } from './mode-transitions';
+import { consultGuards, TransitionGuard } from './transition-guards';
+import { isReclaim } from './transition-budgets';
+import {
+  EventDispatcher,
+  EventDispatcherConfig,
+  ListenerOptions,
+  SubscriptionOptions,
+} from './event-dispatcher';
+import { DEFAULT_PREFETCH_TASK_LIMIT, MockInputPrefetcher } from './input-prefetcher';
+import {
+  InterruptedTransition,
+  JournalEntry,
+  JournalState,
+  MockTransitionJournal,
+  replayJournal,
+} from './transition-journal';
+import type { LockHolder } from './manual-mode-switcher';
+import type { ModeSwitchApproval } from './pending-confirmations';
+import { AuditLog, MockAuditStore, SYSTEM_ACTOR } from './audit-log';
+import { ClockTimer, systemClock } from './clock';
+
+/**
+ * Configuration for the transition pipeline
+ */
+export interface TransitionPipelineConfig {
+  /** Resource limits of the worker in `shared_worker` mode */
+  sharedWorkerLimits: WorkerLimits;
+  /** Interval for checking whether a draining node is done (milliseconds) */
+  drainPollInterval: number;
+  /** Time each guard has to answer before it is skipped (milliseconds, 0 = unlimited) */
+  guardTimeout: number;
+  /** Wait before asking a delaying guard again, unless it names one (milliseconds) */
+  guardRetryAfter: number;
+  /** Total time guards may delay a switch before it is vetoed (milliseconds) */
+  guardMaxDelay: number;
+  /** Delivery of transition events */
+  listeners: Partial<EventDispatcherConfig>;
+}
+
+/**
+ * Pipeline settings that can be changed on a running pipeline
+ */
+export type TransitionPipelineSettings = Omit<TransitionPipelineConfig, 'listeners'>;
+
+/**
+ * Default configuration for the transition pipeline
+ */
+export const DEFAULT_TRANSITION_PIPELINE_CONFIG: TransitionPipelineConfig = {
+  sharedWorkerLimits: DEFAULT_SHARED_WORKER_LIMITS,
+  drainPollInterval: 5000, // 5 seconds
+  guardTimeout: 1000, // 1 second
+  guardRetryAfter: 1000, // 1 second
+  guardMaxDelay: 60 * 1000, // 1 minute
+  listeners: {}, // see DEFAULT_EVENT_DISPATCHER_CONFIG
+};
+
+/**
+ * Who asked for a transition
+ *
+ * `recovery` re-applies the journalled mode on startup.
+ */
+export type TransitionSource = 'auto' | 'manual' | 'recovery';
+
+/**
+ * A transition request
+ */
+export interface TransitionRequest {
+  /** Who asked for the transition */
+  source: TransitionSource;
+  /** Human readable reason passed on to listeners */
+  reason: string;
+  /** Budget for the transition steps (milliseconds, 0 = unlimited) */
+  timeout?: number;
+  /** Time after which the transition is reported as slow (milliseconds, 0 = never) */
+  softTimeout?: number;
+  /** Cancels the transition; completed steps are rolled back */
+  signal?: AbortSignal;
+  /**
+   * Mode the request was decided in; if the node has left it by the time
+   * the transition starts, the request is rejected as stale
+   */
+  expectedMode?: NodeMode;
+  /** Who requested and approved a four-eyes switch, recorded with the intent */
+  approval?: ModeSwitchApproval;
+  /** Who made the change, for the audit log (defaults to `SYSTEM_ACTOR`) */
+  actor?: string;
+  /**
+   * Asked again once the guards let the transition through, since they may
+   * have delayed it; returning false withdraws the request
+   */
+  stillWanted?: () => boolean;
+}
+
+/**
+ * One step of a transition
+ */
+export interface TransitionStep {
+  /** Step name, used in logs and errors */
+  name: string;
+
+  /**
+   * Perform the step
+   *
+   * @param signal - Aborted when the transition is cancelled or times out
+   */
+  run(signal: AbortSignal): Promise<void>;
+
+  /**
+   * Undo the step during rollback
+   *
+   * @remarks
+   * Also called for the step that was running when the transition failed,
+   * so it must be safe to run after a partially completed step.
+   */
+  compensate?(): Promise<void>;
+}
+
+/**
+ * Error raised when a transition step fails or the transition is aborted
+ */
+export class TransitionError extends Error {
+  constructor(
+    message: string,
+    /** Step that was running when the transition failed */
+    public readonly step: string,
+    /** Whether every compensating action succeeded */
+    public readonly rolledBack: boolean,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'TransitionError';
+  }
+}
+
+/**
+ * Error raised when a transition was decided in a mode the node has left
+ */
+export class StaleTransitionError extends Error {
+  constructor(
+    public readonly expectedMode: NodeMode,
+    public readonly currentMode: NodeMode,
+    public readonly targetMode: NodeMode
+  ) {
+    super(
+      `Transition to ${targetMode} was decided in ${expectedMode}, ` +
+        `but the node is now ${currentMode}`
+    );
+    this.name = 'StaleTransitionError';
+  }
+}
+
+/**
+ * Error raised when a transition is no longer wanted, or has been locked
+ * out, by the time the guards let it through
+ */
+export class WithdrawnTransitionError extends Error {
+  constructor(
+    public readonly targetMode: NodeMode,
+    reason: string
+  ) {
+    super(`Transition to ${targetMode} withdrawn: ${reason}`);
+    this.name = 'WithdrawnTransitionError';
+  }
+}
+
+/**
+ * A transition that is running
+ */
+export interface ActiveTransition {
+  /** Mode being left */
+  from: NodeMode;
+  /** Mode being entered */
+  to: NodeMode;
+  /** Who asked for the transition */
+  source: TransitionSource;
+  /** When the transition started (epoch milliseconds) */
+  startedAt: number;
+}
+
+/**
+ * Listener for transitions that start running
+ */
+export type TransitionStartListener = (transition: ActiveTransition) => void | Promise<void>;
+
+/**
+ * Listener for transitions executed by the pipeline
+ *
+ * @remarks
+ * Failed transitions are reported with `newMode` equal to `oldMode`.
+ */
+export type TransitionListener = (
+  oldMode: NodeMode,
+  newMode: NodeMode,
+  reason: string,
+  source: TransitionSource
+) => void | Promise<void>;
+
+/**
+ * Time taken by one transition step
+ */
+export interface StepTiming {
+  /** Step name */
+  name: string;
+  /** Time the step ran for until it settled (milliseconds) */
+  duration: number;
+}
+
+/**
+ * Time taken by an executed transition
+ */
+export interface TransitionTiming {
+  /** Mode being left */
+  from: NodeMode;
+  /** Mode being entered */
+  to: NodeMode;
+  /** Who asked for the transition */
+  source: TransitionSource;
+  /** When the steps started (epoch milliseconds) */
+  startedAt: number;
+  /** Time from the first step to completion or end of rollback (milliseconds) */
+  duration: number;
+  /** Attempted steps in order */
+  steps: StepTiming[];
+  /** Whether the node reached the target mode */
+  succeeded: boolean;
+}
+
+/**
+ * Listener for transition timings
+ */
+export type TransitionTimingListener = (timing: TransitionTiming) => void;
+
+/**
+ * A transition still running at its soft deadline
+ */
+export interface SlowTransition {
+  /** Mode being left */
+  from: NodeMode;
+  /** Mode being entered */
+  to: NodeMode;
+  /** Who asked for the transition */
+  source: TransitionSource;
+  /** The soft deadline that passed (milliseconds) */
+  softTimeout: number;
+  /** The hard deadline the transition will be aborted at (milliseconds, 0 = never) */
+  timeout: number;
+}
+
+/**
+ * Listener for transitions running past their soft deadline
+ */
+export type SlowTransitionListener = (slow: SlowTransition) => void;
+
+/**
+ * Outcome of startup recovery
+ */
+export interface RecoveryReport {
+  /** Mode the node is in after recovery */
+  mode: NodeMode;
+  /** Mode the node is locked to, if any */
+  lockedMode: NodeMode | null;
+  /** When the lock was taken (epoch milliseconds) */
+  lockedAt: number | null;
+  /** When a timed lock ends (epoch milliseconds), null for an open-ended lock */
+  lockExpiresAt: number | null;
+  /** Who holds the lock and why, if recorded */
+  lockHolder: LockHolder | null;
+  /** Transition that was cut short by the crash, if any */
+  interrupted: InterruptedTransition | null;
+  /** Whether the coordination service listed the node as a worker */
+  coordinatorAvailable: boolean | null;
+  /** Whether the worker and the coordination service now match the mode */
+  reconciled: boolean;
+  /** Why reconciliation failed, if it did */
+  error?: string;
+}
+
+/**
+ * Transition Pipeline - Serialises mode transitions for one node
+ *
+ * @remarks
+ * - Transitions run strictly one after another
+ * - A failed, cancelled or timed-out transition is only reported once its
+ *   steps have been rolled back, so the node is back in its old mode
+ * - While the mode is locked, automatic transitions are rejected; manual
+ *   requests are checked against the lock by the manual switcher
+ * - Transitions the allowed-transition table refuses for the request's
+ *   source are rejected before anything is touched
+ * - Guards are consulted next, for every mode change except recovery;
+ *   time spent waiting for them does not count against the request's
+ *   deadlines. Guards may not delay giving the node back to its user
+ * - Once the guards let a transition through, the lock (for automatic
+ *   transitions) and the request's `stillWanted()` are checked again
+ */
+export class TransitionPipeline {
+  private currentMode: NodeMode = 'active_master';
+  private lockedMode: NodeMode | null = null;
+  private tail: Promise<void> = Promise.resolve();
+  private journalTail: Promise<void> = Promise.resolve();
+  private lastId: number = 0;
+  private prefetching: AbortController | null = null;
+  private drainTimer: ClockTimer | null = null;
+  private deadline: number | null = null;
+  private active: ActiveTransition | null = null;
+  private listeners: EventDispatcher<Parameters<TransitionListener>>;
+  private startListeners: EventDispatcher<Parameters<TransitionStartListener>>;
+  private slowListeners: Set<SlowTransitionListener> = new Set();
+  private timingListeners: Set<TransitionTimingListener> = new Set();
+  private guards: Set<TransitionGuard> = new Set();
+  private config: TransitionPipelineConfig;
+  private services: Pick<
+    NodeServices,
+    'coordination' | 'worker' | 'handoff' | 'journal' | 'prefetcher' | 'audit' | 'clock'
+  >;
+
+  constructor(
+    services: Pick<NodeServices, 'coordination' | 'worker' | 'handoff'> &
+      Partial<Pick<NodeServices, 'journal' | 'prefetcher' | 'audit' | 'clock'>>,
+    config: Partial<TransitionPipelineConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_TRANSITION_PIPELINE_CONFIG, ...config };
+    const clock = services.clock ?? systemClock;
+    this.listeners = new EventDispatcher('TransitionPipeline', this.config.listeners, clock);
+    this.startListeners = new EventDispatcher('TransitionPipeline', this.config.listeners, clock);
+    this.services = {
+      ...services,
+      journal: services.journal ?? new MockTransitionJournal(),
+      prefetcher: services.prefetcher ?? new MockInputPrefetcher(),
+      audit: services.audit ?? new AuditLog(new MockAuditStore(), {}, services.clock),
+      clock,
+    };
+  }
+
+  /**
+   * Change settings without losing the pipeline's state
+   *
+   * @remarks
+   * New shared worker limits are applied to a worker that is sharing
+   * already, once the transitions queued before have settled. A drain
+   * watch in progress continues on the new poll interval.
+   */
+  public configure(settings: Partial<TransitionPipelineSettings>): Promise<void> {
+    this.config = { ...this.config, ...settings };
+    if (this.drainTimer) {
+      this.startDrainWatch();
+    }
+    if (!settings.sharedWorkerLimits) {
+      return Promise.resolve();
+    }
+
+    return this.enqueue(async () => {
+      if (this.currentMode === 'shared_worker') {
+        await this.services.worker.setLimits(this.config.sharedWorkerLimits);
+      }
+    });
+  }
+
+  /**
+   * Get the authoritative node mode
+   */
+  public getCurrentMode(): NodeMode {
+    return this.currentMode;
+  }
+
+  /**
+   * Get the transition that is running, if any
+   */
+  public getActiveTransition(): ActiveTransition | null {
+    return this.active;
+  }
+
+  /**
+   * Whether a transition is running
+   */
+  public isTransitioning(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Get the mode transitions are locked to, if any
+   */
+  public getLockedMode(): NodeMode | null {
+    return this.lockedMode;
+  }
+
+  /**
+   * Whether automatic transitions are currently suppressed
+   */
+  public isLocked(): boolean {
+    return this.lockedMode !== null;
+  }
+
+  /**
+   * Lock the mode, suppressing automatic transitions, or unlock with `null`
+   *
+   * @remarks
+   * The pipeline only journals the end of a timed lock and who holds it;
+   * the manual switcher enforces both.
+   *
+   * @param at - When the lock was taken (epoch milliseconds)
+   * @param expiresAt - When a timed lock ends (epoch milliseconds)
+   * @param holder - Who took the lock and why
+   */
+  public setLockedMode(
+    mode: NodeMode | null,
+    at: number = this.services.clock.now(),
+    expiresAt: number | null = null,
+    holder: LockHolder | null = null
+  ): void {
+    this.lockedMode = mode;
+    const entry: Extract<JournalEntry, { type: 'lock' }> = { type: 'lock', lockedMode: mode, at };
+    if (mode !== null && expiresAt !== null) {
+      entry.expiresAt = expiresAt;
+    }
+    if (mode !== null && holder !== null) {
+      entry.holder = holder;
+    }
+    this.record(entry).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to journal lock change: ${errorMessage}`);
+    });
+  }
+
+  /**
+   * Queue a transition to the target mode
+   *
+   * @throws If the transition is not allowed, fails or runs out of time
+   */
+  public transition(targetMode: NodeMode, request: TransitionRequest): Promise<void> {
+    return this.enqueue(() =>
+      this.run(targetMode, request, () => this.planSteps(this.currentMode, targetMode))
+    );
+  }
+
+  /**
+   * Restore the journalled state after a restart and reconcile the worker
+   * and the coordination service with it
+   *
+   * @remarks
+   * Call once on startup, before any other transition. A transition cut
+   * short by the crash is treated as rolled back: the node returns to the
+   * mode it was leaving. The coordination service's view of the node is
+   * then corrected, handing back any tasks it still leases to a node that
+   * is not a worker. If reconciliation fails the node falls back to
+   * `active_master`, which accepts no work.
+   */
+  public recover(): Promise<RecoveryReport> {
+    return this.enqueue(async () => {
+      const state = await this.readJournal();
+      this.currentMode = state.mode;
+      this.lockedMode = state.lockedMode;
+      this.lastId = state.lastId;
+
+      const record = await this.services.coordination.getNodeRecord().catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`Coordination service unavailable during recovery: ${errorMessage}`);
+        return undefined;
+      });
+      const report: RecoveryReport = {
+        mode: state.mode,
+        lockedMode: state.lockedMode,
+        lockedAt: state.lockedAt,
+        lockExpiresAt: state.lockExpiresAt,
+        lockHolder: state.lockHolder,
+        interrupted: state.interrupted,
+        coordinatorAvailable: record === undefined ? null : (record?.available ?? false),
+        reconciled: true,
+      };
+
+      const interrupted = state.interrupted
+        ? ` (interrupted ${state.interrupted.from} -> ${state.interrupted.to})`
+        : '';
+      try {
+        await this.run(
+          state.mode,
+          { source: 'recovery', reason: `Recovered ${state.mode}${interrupted}` },
+          () => this.recoverySteps(state.mode, record)
+        );
+      } catch (error) {
+        report.reconciled = false;
+        report.error = error instanceof Error ? error.message : String(error);
+        if (runsWorker(state.mode)) {
+          this.currentMode = 'active_master';
+          report.mode = 'active_master';
+        }
+      }
+
+      return report;
+    });
+  }
+
+  /**
+   * Register a listener for executed transitions
+   *
+   * @remarks
+   * A failing listener is logged and affects neither the other listeners
+   * nor the transition. Transitions wait for listeners only up to the
+   * `listeners.listenerTimeout`, so a hung listener cannot hold up the
+   * next one.
+   */
+  public onTransition(listener: TransitionListener, options?: ListenerOptions): void {
+    this.listeners.on(listener, options);
+  }
+
+  /**
+   * Unregister a transition listener
+   */
+  public offTransition(listener: TransitionListener): void {
+    this.listeners.off(listener);
+  }
+
+  /**
+   * Consume executed transitions as an `AsyncIterable` of listener arguments
+   */
+  public transitions(
+    options?: SubscriptionOptions
+  ): AsyncIterableIterator<Parameters<TransitionListener>> {
+    return this.listeners.subscribe(options);
+  }
+
+  /**
+   * Register a listener for transitions that start running
+   *
+   * @remarks
+   * Called once the lock and the allowed-transition table have let the
+   * transition through, before the guards are asked. The transition ends
+   * with a call to the `onTransition()` listeners, in the same order.
+   */
+  public onTransitionStart(listener: TransitionStartListener, options?: ListenerOptions): void {
+    this.startListeners.on(listener, options);
+  }
+
+  /**
+   * Unregister a transition start listener
+   */
+  public offTransitionStart(listener: TransitionStartListener): void {
+    this.startListeners.off(listener);
+  }
+
+  /**
+   * Register a listener for transitions running past their soft deadline
+   */
+  public onSlowTransition(listener: SlowTransitionListener): void {
+    this.slowListeners.add(listener);
+  }
+
+  /**
+   * Unregister a slow transition listener
+   */
+  public offSlowTransition(listener: SlowTransitionListener): void {
+    this.slowListeners.delete(listener);
+  }
+
+  /**
+   * Register a listener for the timings of executed transitions
+   *
+   * @remarks
+   * Called for every transition whose steps ran, successful or not, but
+   * not for transitions rejected before any step.
+   */
+  public onTransitionTimed(listener: TransitionTimingListener): void {
+    this.timingListeners.add(listener);
+  }
+
+  /**
+   * Unregister a transition timing listener
+   */
+  public offTransitionTimed(listener: TransitionTimingListener): void {
+    this.timingListeners.delete(listener);
+  }
+
+  /**
+   * Register a guard consulted before every mode change
+   */
+  public addGuard(guard: TransitionGuard): void {
+    this.guards.add(guard);
+  }
+
+  /**
+   * Unregister a guard
+   */
+  public removeGuard(guard: TransitionGuard): void {
+    this.guards.delete(guard);
+  }
+
+  /**
+   * Run an operation after every queued transition has settled
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(operation);
+
+    this.tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  /**
+   * Run one transition; only ever called from the queue
+   *
+   * @param plan - Builds the steps once the transition starts
+   */
+  private async run(
+    targetMode: NodeMode,
+    request: TransitionRequest,
+    plan: () => TransitionStep[]
+  ): Promise<void> {
+    const oldMode = this.currentMode;
+    const id = ++this.lastId;
+    let started = false;
+
+    try {
+      if (request.expectedMode !== undefined && request.expectedMode !== oldMode) {
+        throw new StaleTransitionError(request.expectedMode, oldMode, targetMode);
+      }
+      if (request.source === 'auto' && this.lockedMode !== null) {
+        throw new Error(`Mode is locked to ${this.lockedMode}; automatic switching suppressed`);
+      }
+      assertTransitionAllowed(oldMode, targetMode, request.source);
+
+      this.active = {
+        from: oldMode,
+        to: targetMode,
+        source: request.source,
+        startedAt: this.services.clock.now(),
+      };
+      await this.startListeners.emit(this.active);
+      if (request.source !== 'recovery' && oldMode !== targetMode) {
+        await consultGuards(
+          this.guards,
+          { from: oldMode, to: targetMode, source: request.source, reason: request.reason },
+          {
+            timeout: this.config.guardTimeout,
+            retryAfter: this.config.guardRetryAfter,
+            maxDelay: this.config.guardMaxDelay,
+            refuseDelays: isReclaim(oldMode, targetMode),
+            signal: request.signal,
+            clock: this.services.clock,
+          }
+        );
+        this.assertStillWanted(targetMode, request);
+      }
+
+      // Write ahead: nothing is touched unless the intent is on record
+      await this.record({
+        type: 'intent',
+        id,
+        from: oldMode,
+        to: targetMode,
+        source: request.source,
+        reason: request.reason,
+        at: this.services.clock.now(),
+        ...(request.approval ? { approval: request.approval } : {}),
+      });
+      started = true;
+
+      console.log(`Transitioning from ${oldMode} to ${targetMode}...`);
+      const slowTimer = this.watchSoftDeadline(oldMode, targetMode, request);
+      const startedAt = this.services.clock.now();
+      const stepTimings: StepTiming[] = [];
+      let succeeded = false;
+      try {
+        await this.executeSteps(plan(), request, stepTimings, (step) =>
+          this.recordQuietly({ type: 'step', id, step: step.name, at: this.services.clock.now() })
+        );
+        succeeded = true;
+      } finally {
+        if (slowTimer) {
+          this.services.clock.clearTimeout(slowTimer);
+        }
+        this.notifyTimed({
+          from: oldMode,
+          to: targetMode,
+          source: request.source,
+          startedAt,
+          duration: this.services.clock.now() - startedAt,
+          steps: stepTimings,
+          succeeded,
+        });
+      }
+    } catch (error) {
+      if (error instanceof StaleTransitionError) {
+        // Nothing was attempted; whoever decided it will decide again
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (started) {
+        const rolledBack = !(error instanceof TransitionError) || error.rolledBack;
+        await this.recordQuietly({
+          type: 'failed',
+          id,
+          error: errorMessage,
+          rolledBack,
+          at: this.services.clock.now(),
+        });
+        void this.services.audit.record({
+          action: 'transition',
+          actor: request.actor ?? SYSTEM_ACTOR,
+          summary: `Transition from ${oldMode} to ${targetMode} failed: ${errorMessage}`,
+          details: {
+            from: oldMode,
+            to: targetMode,
+            source: request.source,
+            reason: request.reason,
+            error: errorMessage,
+            rolledBack,
+          },
+        });
+      }
+      const outcome =
+        error instanceof TransitionError && !error.rolledBack
+          ? 'rollback incomplete'
+          : `stayed in ${oldMode}`;
+      this.active = null;
+      await this.notifyListeners(
+        oldMode,
+        oldMode,
+        `Mode switch failed: ${errorMessage} (${outcome})`,
+        request.source
+      );
+      throw error;
+    }
+
+    this.currentMode = targetMode;
+    this.active = null;
+    if (targetMode !== 'draining') {
+      this.stopDrainWatch();
+    }
+    await this.recordQuietly({ type: 'complete', id, at: this.services.clock.now() });
+    void this.services.audit.record({
+      action: 'transition',
+      actor: request.actor ?? SYSTEM_ACTOR,
+      summary: `Transitioned from ${oldMode} to ${targetMode}`,
+      details: {
+        from: oldMode,
+        to: targetMode,
+        source: request.source,
+        reason: request.reason,
+        approval: request.approval,
+      },
+    });
+    await this.notifyListeners(oldMode, targetMode, request.reason, request.source);
+  }
+
+  /**
+   * Check a transition again after the guards, which may have delayed it
+   *
+   * @remarks
+   * The mode cannot change while the transition holds the queue, so
+   * `expectedMode` still holds; the lock and the decision may not.
+   *
+   * @throws WithdrawnTransitionError if the transition should not run
+   */
+  private assertStillWanted(targetMode: NodeMode, request: TransitionRequest): void {
+    if (request.source === 'auto' && this.lockedMode !== null) {
+      throw new WithdrawnTransitionError(targetMode, `mode is locked to ${this.lockedMode}`);
+    }
+    if (request.stillWanted && !request.stillWanted()) {
+      throw new WithdrawnTransitionError(targetMode, 'no longer wanted');
+    }
+  }
+
+  /**
+   * Warn once the transition runs past its soft deadline
+   */
+  private watchSoftDeadline(
+    from: NodeMode,
+    to: NodeMode,
+    request: TransitionRequest
+  ): ClockTimer | null {
+    const { softTimeout, timeout = 0, source } = request;
+    if (!softTimeout) {
+      return null;
+    }
+
+    return this.services.clock.setTimeout(() => {
+      console.warn(`Transition from ${from} to ${to} still running after ${softTimeout}ms`);
+      this.slowListeners.forEach((listener) =>
+        listener({ from, to, source, softTimeout, timeout })
+      );
+    }, softTimeout);
+  }
+
+  /**
+   * Pass a timing to the listeners, isolating their failures
+   */
+  private notifyTimed(timing: TransitionTiming): void {
+    this.timingListeners.forEach((listener) => {
+      try {
+        listener(timing);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Transition timing listener failed: ${errorMessage}`);
+      }
+    });
+  }
+
+  private async readJournal(): Promise<JournalState> {
+    try {
+      return replayJournal(await this.services.journal.read());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Transition journal unreadable, starting from defaults: ${errorMessage}`);
+      return replayJournal([]);
+    }
+  }
+
+  /**
+   * Append a journal record after any record already being written
+   */
+  private record(entry: JournalEntry): Promise<void> {
+    const write = this.journalTail.then(() => this.services.journal.append(entry));
+
+    this.journalTail = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Append a journal record, logging instead of failing
+   *
+   * @remarks
+   * Used once the intent is on record: a lost progress record only makes
+   * recovery treat the transition as interrupted, which is safe.
+   */
+  private async recordQuietly(entry: JournalEntry): Promise<void> {
+    try {
+      await this.record(entry);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to journal ${entry.type}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Run the steps in order, rolling back on failure, cancellation or timeout
+   *
+   * @param timings - Receives the time each attempted step ran for
+   * @throws TransitionError once the completed steps have been compensated
+   */
+  private async executeSteps(
+    steps: TransitionStep[],
+    request: TransitionRequest,
+    timings: StepTiming[],
+    onStepDone: (step: TransitionStep) => Promise<void>
+  ): Promise<void> {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const cancel = () =>
+      controller.abort(request.signal?.reason ?? new Error('Mode switch cancelled'));
+    const { clock } = this.services;
+    this.deadline = request.timeout ? clock.now() + request.timeout : null;
+    const timer = request.timeout
+      ? clock.setTimeout(
+          () => controller.abort(new Error(`Mode switch timeout after ${request.timeout}ms`)),
+          request.timeout
+        )
+      : null;
+
+    if (request.signal?.aborted) {
+      cancel();
+    }
+    request.signal?.addEventListener('abort', cancel);
+
+    const attempted: TransitionStep[] = [];
+    try {
+      for (const step of steps) {
+        signal.throwIfAborted();
+        attempted.push(step);
+
+        const stepStarted = clock.now();
+        const running = step.run(signal);
+        try {
+          await untilAborted(running, signal);
+        } catch (error) {
+          // Let an aborted step settle before undoing it
+          await running.catch(() => undefined);
+          throw error;
+        } finally {
+          timings.push({ name: step.name, duration: clock.now() - stepStarted });
+        }
+        await onStepDone(step);
+      }
+    } catch (error) {
+      const failed = attempted[attempted.length - 1]?.name ?? 'none';
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Transition step ${failed} failed, rolling back: ${errorMessage}`);
+
+      const rolledBack = await this.rollBack(attempted);
+      throw new TransitionError(errorMessage, failed, rolledBack, { cause: error });
+    } finally {
+      if (timer) {
+        clock.clearTimeout(timer);
+      }
+      this.deadline = null;
+      request.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Compensate attempted steps in reverse order
+   *
+   * @returns Whether every compensation succeeded
+   */
+  private async rollBack(attempted: TransitionStep[]): Promise<boolean> {
+    let rolledBack = true;
+
+    for (const step of [...attempted].reverse()) {
+      if (!step.compensate) {
+        continue;
+      }
+      try {
+        await step.compensate();
+      } catch (error) {
+        rolledBack = false;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Rollback of ${step.name} failed: ${errorMessage}`);
+      }
+    }
+
+    return rolledBack;
+  }
+
+  /**
+   * Stop the worker within what is left of the transition's budget
+   *
+   * @remarks
+   * The stop gets `DEFAULT_WORKER_STOP_TIMEOUT` at most, and no more than
+   * the time left before the hard deadline, so a forced kill still lands
+   * inside it. A rollback past the deadline kills the worker at once.
+   *
+   * @param signal - Kills the worker at once when the transition is aborted
+   */
+  private stopWorker(signal?: AbortSignal): Promise<void> {
+    const { clock, worker } = this.services;
+    const timeout =
+      this.deadline === null
+        ? DEFAULT_WORKER_STOP_TIMEOUT
+        : Math.min(DEFAULT_WORKER_STOP_TIMEOUT, Math.max(0, this.deadline - clock.now()));
+
+    return worker.stop(timeout, signal);
+  }
+
+  /**
+   * Build the mode-specific transition steps
+   */
+  private planSteps(oldMode: NodeMode, newMode: NodeMode): TransitionStep[] {
+    if (isWorkerMode(newMode)) {
+      return this.workerSteps(oldMode, newMode);
+    }
+    if (newMode === 'standby') {
+      return this.standbySteps(oldMode);
+    }
+    if (newMode === 'draining') {
+      return this.drainSteps(oldMode);
+    }
+    return this.masterSteps(oldMode, newMode);
+  }
+
+  /**
+   * Build the steps that bring the worker and the coordination service in
+   * line with the recovered mode
+   *
+   * @param record - The node as the coordination service sees it (null if
+   * unknown to the service, undefined if the service was unreachable)
+   */
+  private recoverySteps(mode: NodeMode, record: NodeRecord | null | undefined): TransitionStep[] {
+    const { worker, handoff, coordination } = this.services;
+
+    if (isWorkerMode(mode)) {
+      return this.workerSteps('active_master', mode);
+    }
+    if (mode === 'draining') {
+      return [
+        {
+          name: 'start-worker',
+          run: (signal) => worker.start(signal),
+          compensate: () => this.stopWorker(),
+        },
+        ...this.drainSteps('active_master'),
+      ];
+    }
+
+    const steps: TransitionStep[] = [];
+
+    if (worker.getStatus() !== 'stopped') {
+      steps.push({
+        name: 'stop-worker',
+        run: (signal) => this.stopWorker(signal),
+      });
+    }
+
+    // A node the service still lists as a worker, or draining, may hold
+    // leased tasks; the service may also list it in a mode the recovered
+    // one cannot follow
+    const mayHoldTasks =
+      record === undefined || (record !== null && (record.available || runsWorker(record.mode)));
+    if (mayHoldTasks) {
+      steps.push(
+        {
+          name: 'hand-off-tasks',
+          run: async () => {
+            const ack = await handoff.handOff();
+            console.log(`Recovered ${ack.tasks.length} tasks leased before the restart`);
+          },
+        },
+        {
+          name: 'announce-master',
+          run: () => coordination.notify('worker_available', false),
+        }
+      );
+    } else if (record && !isTransitionAllowed(record.mode, mode, 'manual')) {
+      steps.push({
+        name: 'announce-master',
+        run: () => coordination.notify('worker_available', false),
+      });
+    }
+
+    if (mode === 'standby') {
+      steps.push(...this.warmStandbySteps('active_master'));
+    } else if (mode !== 'active_master') {
+      steps.push({
+        name: `announce-${mode}`,
+        run: () => coordination.notify(...modeEvent(mode)),
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Steps to Master mode, or to a mode without a worker (`maintenance`,
+   * `offline`)
+   *
+   * @remarks
+   * The worker is stopped first so that its running task is aborted with
+   * the lease intact; the handoff then returns every leased task and the
+   * transition only completes once the coordination service has
+   * acknowledged all of them. Rolling back from worker mode restarts the
+   * worker, which keeps any tasks the handoff did not return.
+   */
+  private masterSteps(fromMode: NodeMode, targetMode: NodeMode): TransitionStep[] {
+    const { coordination, prefetcher } = this.services;
+    const fromWorker = runsWorker(fromMode);
+    const fromStandby = fromMode === 'standby';
+    const toMaster = targetMode === 'active_master';
+
+    // 1-2. Stop worker service and hand leased tasks back
+    const steps = this.releaseSteps(fromMode);
+
+    // 3. Notify coordination service
+    steps.push({
+      name: toMaster ? 'announce-master' : `announce-${targetMode}`,
+      run: () => {
+        console.log(
+          toMaster
+            ? 'Notifying coordination service: unavailable as worker'
+            : `Notifying coordination service: ${targetMode}`
+        );
+        return coordination.notify(...modeEvent(targetMode));
+      },
+      compensate:
+        fromMode !== targetMode ? () => coordination.notify(...modeEvent(fromMode)) : undefined,
+    });
+
+    // 4. Free the disk space taken by prefetched inputs, off the critical path
+    if (fromWorker || fromStandby) {
+      steps.push({
+        name: 'discard-prefetch',
+        run: async () => {
+          this.cancelPrefetch();
+          prefetcher.discard().catch((error) => {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.warn(`Failed to discard prefetched inputs: ${errorMessage}`);
+          });
+        },
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Steps that stop the worker and return its leased tasks
+   *
+   * @remarks
+   * Rolling back brings the worker back the way it was: running when
+   * leaving worker mode, paused when leaving standby.
+   */
+  private releaseSteps(fromMode: NodeMode): TransitionStep[] {
+    const { worker, handoff } = this.services;
+    const fromWorker = runsWorker(fromMode);
+    const steps: TransitionStep[] = [];
+
+    // 1. Stop worker service
+    if (fromWorker || worker.getStatus() !== 'stopped') {
+      steps.push({
+        name: 'stop-worker',
+        run: (signal) => {
+          console.log('Stopping worker service...');
+          return this.stopWorker(signal);
+        },
+        compensate: fromWorker
+          ? () => worker.start()
+          : fromMode === 'standby'
+            ? () => worker.prepare()
+            : undefined,
+      });
+    }
+
+    // 2. Hand leased tasks back to the coordination service
+    if (fromWorker || handoff.hasPendingHandoff()) {
+      steps.push({
+        name: 'hand-off-tasks',
+        run: async () => {
+          console.log('Transferring pending tasks to other workers...');
+          const ack = await handoff.handOff();
+          console.log(`Coordination service acknowledged ${ack.tasks.length} handed-off tasks`);
+        },
+        // The restarted worker keeps the tasks that were not handed off
+        compensate: fromWorker ? async () => handoff.dispose() : undefined,
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Steps to Standby mode
+   *
+   * @remarks
+   * Leaving worker mode returns every leased task first, as for Master
+   * mode; the standby worker is then a fresh, paused process.
+   */
+  private standbySteps(fromMode: NodeMode): TransitionStep[] {
+    const steps = runsWorker(fromMode) ? this.releaseSteps(fromMode) : [];
+
+    return [...steps, ...this.warmStandbySteps(fromMode)];
+  }
+
+  /**
+   * Steps that make standby warm
+   *
+   * @remarks
+   * With the worker process already up and the inputs of likely tasks on
+   * local disk, the later switch to `idle_worker` only has to resume the
+   * worker and announce it.
+   *
+   * @param fromMode - Mode the coordination service lists the node in
+   */
+  private warmStandbySteps(fromMode: NodeMode): TransitionStep[] {
+    const { worker, coordination } = this.services;
+
+    return [
+      // 1. Bring the worker process up without pulling tasks
+      {
+        name: 'warm-worker',
+        run: (signal) => {
+          console.log('Starting paused worker service...');
+          return worker.prepare(signal);
+        },
+        compensate: () => this.stopWorker(),
+      },
+      // 2. Pre-register as soon available
+      {
+        name: 'announce-standby',
+        run: () => {
+          console.log('Notifying coordination service: soon available as worker');
+          return coordination.notify('worker_soon_available', true);
+        },
+        compensate: () => coordination.notify(...modeEvent(fromMode)),
+      },
+      // 3. Prefetch inputs of likely next tasks in the background
+      {
+        name: 'prefetch-inputs',
+        run: async () => this.startPrefetch(),
+        compensate: async () => this.cancelPrefetch(),
+      },
+    ];
+  }
+
+  /**
+   * Prefetch the inputs of the tasks the node is likely to get next
+   *
+   * @remarks
+   * Runs in the background and may outlive the transition. Failures only
+   * cost the time saved, so they are logged and otherwise ignored.
+   */
+  private startPrefetch(): void {
+    const { coordination, prefetcher } = this.services;
+    this.cancelPrefetch();
+    const controller = new AbortController();
+    this.prefetching = controller;
+
+    coordination
+      .getUpcomingTasks(DEFAULT_PREFETCH_TASK_LIMIT)
+      .then((tasks) => prefetcher.prefetch(tasks, controller.signal))
+      .then((report) => {
+        console.log(
+          `Prefetched ${report.files} input files for ${report.tasks.length} upcoming tasks`
+        );
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.warn(`Input prefetch failed: ${errorMessage}`);
+        }
+      })
+      .finally(() => {
+        if (this.prefetching === controller) {
+          this.prefetching = null;
+        }
+      });
+  }
+
+  /**
+   * Stop a background prefetch, keeping what it fetched so far
+   */
+  private cancelPrefetch(): void {
+    this.prefetching?.abort(new Error('Prefetch cancelled'));
+    this.prefetching = null;
+  }
+
+  /**
+   * Steps to a worker mode
+   *
+   * @remarks
+   * Limits are applied before the worker starts, so a shared worker never
+   * runs a task unthrottled. Switching between the two worker modes keeps
+   * the worker running and only changes its limits and announcement.
+   */
+  private workerSteps(fromMode: NodeMode, targetMode: NodeMode): TransitionStep[] {
+    const { worker, coordination } = this.services;
+    const limits = targetMode === 'shared_worker' ? this.config.sharedWorkerLimits : null;
+    const previousLimits = worker.getLimits();
+    const steps: TransitionStep[] = [];
+
+    // 1. Apply or lift resource limits
+    if (limits !== null || previousLimits !== null) {
+      steps.push({
+        name: 'limit-worker',
+        run: () => {
+          console.log(limits ? 'Limiting worker resources...' : 'Lifting worker limits...');
+          return worker.setLimits(limits);
+        },
+        compensate: () => worker.setLimits(previousLimits),
+      });
+    }
+
+    // 2. Start worker service
+    steps.push({
+      name: 'start-worker',
+      run: (signal) => {
+        console.log('Starting worker service...');
+        return worker.start(signal);
+      },
+      compensate: runsWorker(fromMode)
+        ? undefined
+        : fromMode === 'standby'
+          ? () => worker.prepare()
+          : () => this.stopWorker(),
+    });
+
+    // 3. Notify coordination service
+    steps.push({
+      name: 'announce-worker',
+      run: () => {
+        console.log(
+          limits
+            ? 'Notifying coordination service: available as shared worker'
+            : 'Notifying coordination service: available as worker'
+        );
+        return coordination.notify(...modeEvent(targetMode));
+      },
+      compensate: () => coordination.notify(...modeEvent(fromMode)),
+    });
+
+    return steps;
+  }
+
+  /**
+   * Steps to Draining mode
+   *
+   * @remarks
+   * The worker keeps executing the tasks it has leased while the
+   * coordination service leases it no new ones.
+   */
+  private drainSteps(fromMode: NodeMode): TransitionStep[] {
+    const { coordination } = this.services;
+
+    return [
+      // 1. Stop receiving new tasks
+      {
+        name: 'announce-draining',
+        run: () => {
+          console.log('Notifying coordination service: draining');
+          return coordination.notify('worker_draining', true);
+        },
+        compensate: () => coordination.notify(...modeEvent(fromMode)),
+      },
+      // 2. Become master once the leased tasks are done
+      {
+        name: 'watch-drain',
+        run: async () => this.startDrainWatch(),
+        compensate: async () => this.stopDrainWatch(),
+      },
+    ];
+  }
+
+  /**
+   * Poll until a draining node has no leased tasks left, then make it master
+   *
+   * @remarks
+   * The completion is an automatic transition queued like any other, and
+   * is skipped if the node has left `draining` in the meantime. While the
+   * mode is locked it is refused and retried on the next poll.
+   */
+  private startDrainWatch(): void {
+    this.stopDrainWatch();
+    this.drainTimer = this.services.clock.setInterval(() => {
+      this.completeDrain().catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`Drain check failed: ${errorMessage}`);
+      });
+    }, this.config.drainPollInterval);
+  }
+
+  private stopDrainWatch(): void {
+    if (this.drainTimer) {
+      this.services.clock.clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+
+  private async completeDrain(): Promise<void> {
+    const { coordination, worker } = this.services;
+    const leased = await coordination.fetchAssignedTasks();
+    if (leased.length > 0 || worker.getActiveTask() !== null) {
+      return;
+    }
+
+    await this.enqueue(async () => {
+      if (this.currentMode !== 'draining') {
+        this.stopDrainWatch();
+        return;
+      }
+      await this.run(
+        'active_master',
+        { source: 'auto', reason: 'Drain complete: no leased tasks left' },
+        () => this.masterSteps('draining', 'active_master')
+      );
+    });
+  }
+
+  private async notifyListeners(
+    oldMode: NodeMode,
+    newMode: NodeMode,
+    reason: string,
+    source: TransitionSource
+  ): Promise<void> {
+    await this.listeners.emit(oldMode, newMode, reason, source);
+  }
+}
+
+/**
+ * Wait for a promise, rejecting with the abort reason as soon as the
+ * signal is aborted
+ */
+function untilAborted(promise: Promise<void>, signal: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
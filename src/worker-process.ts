@@ -0,0 +1,170 @@
+/**
+ * Worker Process Entry Point
+ *
+ * Runs in the child process spawned by ProcessWorkerService. Executes one
+ * task at a time by running WORKER_TASK_COMMAND with the task as JSON on
+ * stdin. Lines of the form `PROGRESS <0..1>` on the command's stdout are
+ * reported as progress. Without a command, tasks complete immediately
+ * (useful for simulated nodes).
+ *
+ * In `shared_worker` mode the command runs at reduced priority, which is
+ * enforced: on POSIX systems it is started under `nice`, so every process
+ * it starts inherits the priority. The core and memory caps are advisory:
+ * the command gets them as WORKER_MAX_CORES and WORKER_MAX_MEMORY_MB and
+ * should pass them on to the solver (thread count, memory limit); nothing
+ * stops a command that ignores them.
+ *
+ * On POSIX systems the command runs in its own process group, so aborting
+ * a task also ends every process the command has started.
+ *
+ * @see src/worker-supervisor.ts
+ */
+
+import { spawn, ChildProcess, SpawnOptions } from 'node:child_process';
+import { setPriority } from 'node:os';
+import type { Task } from './job-queue';
+import type { WorkerLimits } from './worker-service';
+import type { SupervisorMessage, WorkerProcessMessage } from './worker-supervisor';
+
+let current: { task: Task; command: ChildProcess | null } | null = null;
+let shuttingDown = false;
+let limits: WorkerLimits | null = null;
+
+function send(message: WorkerProcessMessage): void {
+  process.send?.(message);
+}
+
+/**
+ * Lower the priority of a running task command to the current caps
+ *
+ * @remarks
+ * Used when the caps change during a task, and on Windows, which has no
+ * `nice`. Only the command's own process is reniced; processes it has
+ * already started keep their priority. Unprivileged processes cannot
+ * raise priority again, so a command keeps its lowered priority when the
+ * caps are lifted; the next task starts at normal priority.
+ */
+function applyPriority(command: ChildProcess): void {
+  if (!limits || command.pid === undefined) {
+    return;
+  }
+  try {
+    setPriority(command.pid, limits.priority);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[WorkerProcess] Could not lower task priority: ${errorMessage}`);
+  }
+}
+
+/**
+ * Signal a task command and every process it has started
+ *
+ * @remarks
+ * On POSIX systems the command leads its own process group; on Windows
+ * only the command itself is signalled.
+ */
+function signalTask(command: ChildProcess, signal: NodeJS.Signals): void {
+  if (process.platform === 'win32' || command.pid === undefined) {
+    command.kill(signal);
+    return;
+  }
+  try {
+    process.kill(-command.pid, signal);
+  } catch {
+    // The whole group has already exited
+  }
+}
+
+function runTask(task: Task): void {
+  const commandLine = process.env.WORKER_TASK_COMMAND;
+
+  if (!commandLine) {
+    send({ type: 'progress', taskId: task.id, progress: 1 });
+    send({ type: 'task_done', taskId: task.id });
+    return;
+  }
+
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  if (limits) {
+    env.WORKER_MAX_CORES = String(limits.maxCores);
+    env.WORKER_MAX_MEMORY_MB = String(limits.maxMemoryMb);
+  }
+
+  // Started under nice, every process of the command inherits the priority;
+  // detached, they share a process group that can be signalled as a whole
+  const options: SpawnOptions = {
+    stdio: ['pipe', 'pipe', 'inherit'],
+    env,
+    detached: process.platform !== 'win32',
+  };
+  const niceness = limits && process.platform !== 'win32' ? limits.priority : null;
+  const command: ChildProcess =
+    niceness !== null
+      ? spawn('nice', ['-n', String(niceness), '/bin/sh', '-c', commandLine], options)
+      : spawn(commandLine, { ...options, shell: true });
+  current = { task, command };
+  if (niceness === null) {
+    applyPriority(command);
+  }
+
+  let buffered = '';
+  command.stdout!.on('data', (chunk: Buffer) => {
+    buffered += chunk.toString('utf8');
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const match = /^PROGRESS\s+([0-9.]+)\s*$/.exec(line);
+      if (match) {
+        send({ type: 'progress', taskId: task.id, progress: Number(match[1]) });
+      }
+    }
+  });
+
+  command.on('exit', (code, signal) => {
+    current = null;
+
+    if (shuttingDown) {
+      send({ type: 'task_aborted', taskId: task.id });
+      process.exit(0);
+    } else if (code === 0) {
+      send({ type: 'task_done', taskId: task.id });
+    } else {
+      send({ type: 'task_failed', taskId: task.id, error: `exit ${signal ?? code}` });
+    }
+  });
+
+  // Commands that never read stdin may exit before the task is written
+  command.stdin!.on('error', () => {});
+  command.stdin!.end(JSON.stringify(task));
+}
+
+process.on('message', (message: SupervisorMessage) => {
+  if (message.type === 'task' && !shuttingDown) {
+    runTask(message.task);
+  } else if (message.type === 'limits') {
+    limits = message.limits;
+    if (current?.command) {
+      applyPriority(current.command);
+    }
+  } else if (message.type === 'shutdown') {
+    shuttingDown = true;
+
+    // Abort the running task; its lease is handed back by the node
+    if (current?.command) {
+      signalTask(current.command, 'SIGTERM');
+    } else {
+      process.exit(0);
+    }
+  }
+});
+
+// Exit with the supervisor
+process.on('disconnect', () => {
+  if (current?.command) {
+    signalTask(current.command, 'SIGKILL');
+  }
+  process.exit(0);
+});
+
+send({ type: 'ready' });
@@ -0,0 +1,186 @@
+/**
+ * Worker Service
+ *
+ * Interface the mode switchers use to start and stop the local worker,
+ * and the task source the worker pulls its leased tasks from.
+ *
+ * @see src/worker-supervisor.ts for the child-process implementation
+ */
+
+import type { Task } from './job-queue';
+import type { NodeMode } from './mode-switcher';
+
+/**
+ * Worker status
+ *
+ * `paused`: the worker process is up but pulls no tasks (warm standby)
+ */
+export type WorkerStatus =
+  | 'stopped'
+  | 'starting'
+  | 'paused'
+  | 'running'
+  | 'stopping'
+  | 'failed';
+
+/**
+ * Time allowed for stopping the worker during a mode switch (milliseconds)
+ *
+ * @remarks
+ * Half of the 2 second Worker → Master budget (FR-2.2.4), leaving the rest
+ * for task transfer and the coordination service notification. A switch
+ * with less of its budget left gives the stop only what remains.
+ */
+export const DEFAULT_WORKER_STOP_TIMEOUT = 1000;
+
+/**
+ * Resource caps for a worker sharing the machine with its user
+ *
+ * @remarks
+ * Only the priority is enforced. The core and memory caps are advisory:
+ * they are handed to the task command, which is expected to size its
+ * solver to them.
+ *
+ * @see src/worker-process.ts for how the caps reach the task command
+ */
+export interface WorkerLimits {
+  /** Cores the task command should use (advisory, WORKER_MAX_CORES) */
+  maxCores: number;
+  /** Memory the task command should use (megabytes; advisory, WORKER_MAX_MEMORY_MB) */
+  maxMemoryMb: number;
+  /** Priority of the task command and its children (niceness: 0 = normal, 19 = lowest) */
+  priority: number;
+}
+
+/**
+ * Default caps for `shared_worker` mode
+ */
+export const DEFAULT_SHARED_WORKER_LIMITS: WorkerLimits = {
+  maxCores: 4,
+  maxMemoryMb: 8 * 1024, // 8 GB
+  priority: 15,
+};
+
+/**
+ * Whether the node accepts new worker tasks in a mode
+ */
+export function isWorkerMode(mode: NodeMode): boolean {
+  return mode === 'idle_worker' || mode === 'shared_worker';
+}
+
+/**
+ * Whether the worker runs and executes leased tasks in a mode
+ *
+ * @remarks
+ * A draining node is no longer a worker but still finishes its tasks.
+ */
+export function runsWorker(mode: NodeMode): boolean {
+  return isWorkerMode(mode) || mode === 'draining';
+}
+
+/**
+ * Interface for the local worker service
+ */
+export interface WorkerService {
+  /**
+   * Start the worker and begin pulling tasks
+   *
+   * @remarks
+   * Resuming a paused worker only starts pulling, so it is nearly instant.
+   *
+   * @param signal - Abandons a start that is still in progress
+   */
+  start(signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Bring the worker up without pulling tasks, ready for a fast `start()`
+   *
+   * @remarks
+   * A running worker stops pulling new tasks; a task already being
+   * executed is finished.
+   *
+   * @param signal - Abandons a start that is still in progress
+   */
+  prepare(signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Stop the worker, forcefully if it has not exited gracefully
+   * before the timeout
+   *
+   * @param timeout - Deadline for the whole shutdown (milliseconds)
+   * @param signal - Stops the worker forcefully at once when aborted
+   */
+  stop(timeout: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Cap the worker's resources, or lift the caps with `null`
+   *
+   * @remarks
+   * Applies to the task being executed as well as to later ones.
+   */
+  setLimits(limits: WorkerLimits | null): Promise<void>;
+
+  /** Get the caps currently applied, if any */
+  getLimits(): WorkerLimits | null;
+
+  /** Get the current worker status */
+  getStatus(): WorkerStatus;
+
+  /** Get the task currently being executed, if any */
+  getActiveTask(): Task | null;
+}
+
+/**
+ * Source of tasks leased to this node, and sink for their results
+ */
+export interface TaskSource {
+  /** Fetch the tasks currently leased to this node */
+  fetchAssignedTasks(): Promise<Task[]>;
+
+  /** Report task progress (0 to 1) */
+  reportProgress(taskId: string, progress: number): Promise<void>;
+
+  /** Report task completion */
+  completeTask(taskId: string): Promise<void>;
+
+  /** Report task failure */
+  failTask(taskId: string, error: string): Promise<void>;
+}
+
+/**
+ * Mock implementation of WorkerService for testing and demo
+ */
+export class MockWorkerService implements WorkerService {
+  private status: WorkerStatus = 'stopped';
+  private limits: WorkerLimits | null = null;
+
+  async start(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.status = 'running';
+  }
+
+  async prepare(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.status = 'paused';
+  }
+
+  async stop(_timeout: number, _signal?: AbortSignal): Promise<void> {
+    this.status = 'stopped';
+  }
+
+  async setLimits(limits: WorkerLimits | null): Promise<void> {
+    this.limits = limits;
+  }
+
+  getLimits(): WorkerLimits | null {
+    return this.limits;
+  }
+
+  getStatus(): WorkerStatus {
+    return this.status;
+  }
+
+  getActiveTask(): Task | null {
+    return null;
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Worker Process Supervisor
+ *
+ * WorkerService implementation that runs the worker in a child process,
+ * restarts it when it crashes, pulls leased tasks for it and reports their
+ * progress. Shutdown is graceful first and forceful once the deadline nears.
+ *
+ * @see src/worker-process.ts for the child side of the protocol
+ */
+
+import { fork, ChildProcess } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import type { Task } from './job-queue';
+import type { TaskSource, WorkerLimits, WorkerService, WorkerStatus } from './worker-service';
+
+/**
+ * Messages sent from the supervisor to the worker process
+ */
+export type SupervisorMessage =
+  | { type: 'task'; task: Task }
+  | { type: 'limits'; limits: WorkerLimits | null }
+  | { type: 'shutdown' };
+
+/**
+ * Messages sent from the worker process to the supervisor
+ */
+export type WorkerProcessMessage =
+  | { type: 'ready' }
+  | { type: 'progress'; taskId: string; progress: number }
+  | { type: 'task_done'; taskId: string }
+  | { type: 'task_failed'; taskId: string; error: string }
+  | { type: 'task_aborted'; taskId: string };
+
+/**
+ * Configuration for the worker supervisor
+ */
+export interface ProcessWorkerServiceConfig {
+  /** Module run in the child process */
+  modulePath: string;
+  /** Node options for the child process */
+  execArgv: string[];
+  /** Extra environment variables for the child process */
+  env: Record<string, string>;
+  /** Time allowed for the child to report ready (milliseconds) */
+  readyTimeout: number;
+  /** Interval between task pulls while idle (milliseconds) */
+  pollInterval: number;
+  /** Crashes tolerated after each start before giving up */
+  maxRestarts: number;
+  /** Delay before restarting a crashed child (milliseconds) */
+  restartDelay: number;
+  /** Part of the stop deadline reserved for SIGKILL (milliseconds) */
+  killGrace: number;
+}
+
+/**
+ * Default configuration for the worker supervisor
+ */
+export const DEFAULT_WORKER_SUPERVISOR_CONFIG: ProcessWorkerServiceConfig = {
+  modulePath: fileURLToPath(new URL('./worker-process.ts', import.meta.url)),
+  execArgv: ['--import', 'tsx'], // tsx is a runtime dependency for this
+  env: {},
+  readyTimeout: 10000, // 10 seconds
+  pollInterval: 1000, // 1 second
+  maxRestarts: 3,
+  restartDelay: 500,
+  killGrace: 200,
+};
+
+/**
+ * Process Worker Service - Supervises the worker child process
+ */
+export class ProcessWorkerService implements WorkerService {
+  private config: ProcessWorkerServiceConfig;
+  private status: WorkerStatus = 'stopped';
+  private child: ChildProcess | null = null;
+  private activeTask: Task | null = null;
+  private limits: WorkerLimits | null = null;
+  private restarts: number = 0;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private pulling: boolean = false;
+
+  constructor(
+    private tasks: TaskSource,
+    config: Partial<ProcessWorkerServiceConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_WORKER_SUPERVISOR_CONFIG, ...config };
+  }
+
+  /**
+   * Spawn the worker process, or resume a paused one, and start pulling tasks
+   *
+   * @param signal - Kills a child that has not reported ready yet
+   */
+  public async start(signal?: AbortSignal): Promise<void> {
+    if (this.status === 'running' || this.status === 'starting') {
+      return;
+    }
+
+    if (this.status !== 'paused') {
+      await this.launch(signal);
+    }
+
+    signal?.throwIfAborted();
+    this.status = 'running';
+    this.startPolling();
+  }
+
+  /**
+   * Spawn the worker process without pulling tasks, or stop a running
+   * worker from pulling more
+   *
+   * @param signal - Kills a child that has not reported ready yet
+   */
+  public async prepare(signal?: AbortSignal): Promise<void> {
+    if (this.status === 'paused' || this.status === 'starting') {
+      return;
+    }
+
+    if (this.status === 'running') {
+      this.stopPolling();
+    } else {
+      await this.launch(signal);
+    }
+
+    this.status = 'paused';
+  }
+
+  /**
+   * Ask the worker to shut down, killing it if it is still alive when
+   * only the kill grace period of the timeout remains
+   *
+   * @param signal - Kills the worker at once instead of waiting for it
+   */
+  public async stop(timeout: number, signal?: AbortSignal): Promise<void> {
+    this.stopPolling();
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const child = this.child;
+    if (!child || this.status === 'stopped') {
+      this.status = 'stopped';
+      return;
+    }
+
+    this.status = 'stopping';
+    const exited = waitForExit(child);
+
+    sendMessage(child, { type: 'shutdown' });
+
+    const graceful = await raceTimeout(
+      exited,
+      Math.max(0, timeout - this.config.killGrace),
+      signal
+    );
+
+    if (!graceful) {
+      console.warn(
+        signal?.aborted
+          ? '[WorkerSupervisor] Stop aborted, killing the worker'
+          : '[WorkerSupervisor] Worker did not exit in time, killing it'
+      );
+      child.kill('SIGKILL');
+      await raceTimeout(exited, this.config.killGrace);
+    }
+
+    this.child = null;
+    this.activeTask = null;
+    this.status = 'stopped';
+  }
+
+  /**
+   * Cap the resources of the task commands the worker runs
+   */
+  public async setLimits(limits: WorkerLimits | null): Promise<void> {
+    this.limits = limits;
+    if (this.child) {
+      sendMessage(this.child, { type: 'limits', limits });
+    }
+  }
+
+  public getLimits(): WorkerLimits | null {
+    return this.limits;
+  }
+
+  public getStatus(): WorkerStatus {
+    return this.status;
+  }
+
+  public getActiveTask(): Task | null {
+    return this.activeTask ? { ...this.activeTask } : null;
+  }
+
+  /**
+   * Pull the next leased task and hand it to the worker if it is idle
+   */
+  public async pull(): Promise<void> {
+    if (this.status !== 'running' || this.activeTask || this.pulling || !this.child) {
+      return;
+    }
+
+    this.pulling = true;
+    try {
+      const [task] = await this.tasks.fetchAssignedTasks();
+      if (task && this.status === 'running' && this.child) {
+        this.activeTask = task;
+        sendMessage(this.child, { type: 'task', task });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`[WorkerSupervisor] Task pull failed: ${errorMessage}`);
+    } finally {
+      this.pulling = false;
+    }
+  }
+
+  private async launch(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.status = 'starting';
+    this.restarts = 0;
+
+    try {
+      await this.spawnChild(signal);
+    } catch (error) {
+      this.status = signal?.aborted ? 'stopped' : 'failed';
+      throw error;
+    }
+  }
+
+  private spawnChild(abortSignal?: AbortSignal): Promise<void> {
+    const child = fork(this.config.modulePath, [], {
+      execArgv: this.config.execArgv,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+    });
+    this.child = child;
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`Worker process not ready after ${this.config.readyTimeout}ms`));
+      }, this.config.readyTimeout);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.child = null;
+        child.kill('SIGKILL');
+        reject(abortSignal?.reason);
+      };
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      child.on('message', (message: WorkerProcessMessage) => {
+        if (message.type === 'ready') {
+          clearTimeout(timer);
+          abortSignal?.removeEventListener('abort', onAbort);
+          if (this.limits) {
+            sendMessage(child, { type: 'limits', limits: this.limits });
+          }
+          resolve();
+          return;
+        }
+        this.handleMessage(message);
+      });
+
+      child.once('exit', (code, signal) => {
+        clearTimeout(timer);
+        abortSignal?.removeEventListener('abort', onAbort);
+        reject(new Error(`Worker process exited during startup (${signal ?? code})`));
+        this.handleExit(child, code, signal);
+      });
+    });
+  }
+
+  private handleMessage(message: WorkerProcessMessage): void {
+    const report = (operation: Promise<void>) =>
+      operation.catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[WorkerSupervisor] Task report failed: ${errorMessage}`);
+      });
+
+    switch (message.type) {
+      case 'progress':
+        report(this.tasks.reportProgress(message.taskId, message.progress));
+        return;
+      case 'task_done':
+        this.activeTask = null;
+        report(this.tasks.completeTask(message.taskId)).then(() => this.pull());
+        return;
+      case 'task_failed':
+        this.activeTask = null;
+        report(this.tasks.failTask(message.taskId, message.error)).then(() => this.pull());
+        return;
+      case 'task_aborted':
+        // The lease is kept; the task is handed back on transition
+        this.activeTask = null;
+        return;
+    }
+  }
+
+  private handleExit(
+    child: ChildProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    if (child !== this.child) {
+      return;
+    }
+
+    // A paused worker is not restarted; the next start() spawns a fresh one
+    if (this.status === 'paused') {
+      console.warn(`[WorkerSupervisor] Paused worker exited (${signal ?? code})`);
+      this.child = null;
+      this.status = 'stopped';
+      return;
+    }
+
+    if (this.status !== 'running') {
+      return;
+    }
+
+    this.child = null;
+    this.activeTask = null;
+
+    if (this.restarts >= this.config.maxRestarts) {
+      console.error(`[WorkerSupervisor] Worker crashed (${signal ?? code}), giving up`);
+      this.stopPolling();
+      this.status = 'failed';
+      return;
+    }
+
+    this.restarts += 1;
+    console.warn(
+      `[WorkerSupervisor] Worker crashed (${signal ?? code}), restart ${this.restarts}/${this.config.maxRestarts}`
+    );
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.status !== 'running') {
+        return;
+      }
+      this.spawnChild().catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[WorkerSupervisor] Restart failed: ${errorMessage}`);
+      });
+    }, this.config.restartDelay);
+  }
+
+  private startPolling(): void {
+    this.pull();
+    this.pollTimer = setInterval(() => this.pull(), this.config.pollInterval);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
+
+function sendMessage(child: ChildProcess, message: SupervisorMessage): void {
+  if (child.connected) {
+    // The channel may close while the message is in flight; exit handling covers that
+    child.send(message, () => {});
+  }
+}
+
+function waitForExit(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => child.once('exit', () => resolve()));
+}
+
+/**
+ * Wait for a promise up to a timeout, or until the signal is aborted
+ *
+ * @returns Whether the promise settled in time
+ */
+async function raceTimeout(
+  promise: Promise<void>,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const expired = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout);
+    onAbort = () => resolve(false);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise.then(() => true), expired]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
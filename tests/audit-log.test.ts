@@ -0,0 +1,429 @@
+/**
+ * Tests for Audit Log
+ *
+ * @see src/audit-log.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AuditEvent,
+  AuditLog,
+  AuditStoreFullError,
+  GENESIS_HASH,
+  MockAuditStore,
+  SYSTEM_ACTOR,
+  WebStorageAuditStore,
+} from '../src/audit-log';
+import { MockCoordinationClient } from '../src/coordination-service';
+import { VirtualClock } from '../src/clock';
+import { ManualModeSwitcher } from '../src/manual-mode-switcher';
+import { MockMasterProcessingState } from '../src/mode-switcher';
+import { createNodeServices } from '../src/node-services';
+import { MockOperatorAuthenticator } from '../src/operator-sessions';
+
+const MINUTE = 60 * 1000;
+
+function lock(actor: string): AuditEvent {
+  return { action: 'lock', actor, summary: 'Mode locked to active_master', details: {} };
+}
+
+/**
+ * In-memory browser storage holding at most `quota` characters
+ */
+class MemoryStorage implements Storage {
+  public writes: number = 0;
+  private items: Map<string, string> = new Map();
+
+  constructor(private quota: number = Infinity) {}
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    const used = Array.from(this.items.entries())
+      .filter(([other]) => other !== key)
+      .reduce((total, [other, text]) => total + other.length + text.length, 0);
+    if (used + key.length + value.length > this.quota) {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+    this.writes += value.length;
+    this.items.set(key, value);
+  }
+}
+
+describe('AuditLog', () => {
+  let clock: VirtualClock;
+  let store: MockAuditStore;
+  let log: AuditLog;
+
+  beforeEach(() => {
+    clock = new VirtualClock(Date.UTC(2024, 0, 8, 9));
+    store = new MockAuditStore();
+    log = new AuditLog(store, { node: 'ws-07' }, clock);
+  });
+
+  it('should chain records in the order they are recorded', async () => {
+    await log.record(lock('alice'));
+    await clock.advance(MINUTE);
+    await log.record(lock('bob'));
+
+    const [first, second] = store.getRecords();
+    expect(first).toMatchObject({
+      seq: 1,
+      node: 'ws-07',
+      actor: 'alice',
+      at: Date.UTC(2024, 0, 8, 9),
+      prevHash: GENESIS_HASH,
+    });
+    expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toMatchObject({ seq: 2, actor: 'bob', prevHash: first.hash });
+    expect(await log.verify()).toEqual({
+      valid: true,
+      records: 2,
+      head: second.hash,
+      brokenAt: null,
+      problem: null,
+    });
+  });
+
+  it('should find altered, removed and reordered records', async () => {
+    for (const actor of ['alice', 'bob', 'carol']) {
+      await log.record(lock(actor));
+    }
+    const records = store.getRecords();
+
+    store.setRecords([records[0], { ...records[1], actor: 'mallory' }, records[2]]);
+    expect(await log.verify()).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+      problem: 'record 2 was altered',
+    });
+
+    store.setRecords([records[0], records[2]]);
+    expect(await log.verify()).toMatchObject({ valid: false, brokenAt: 2 });
+
+    store.setRecords([records[1], records[0], records[2]]);
+    expect(await log.verify()).toMatchObject({ valid: false, brokenAt: 1 });
+  });
+
+  it('should continue the chain of a stored log', async () => {
+    await log.record(lock('alice'));
+
+    const reopened = new AuditLog(store, { node: 'ws-07' }, clock);
+    await reopened.record(lock('bob'));
+
+    expect(store.getRecords().map((record) => record.seq)).toEqual([1, 2]);
+    expect((await reopened.verify()).valid).toBe(true);
+  });
+
+  it('should find records by node, actor and time range', async () => {
+    const other = new AuditLog(store, { node: 'ws-08' }, clock);
+    await log.record(lock('alice'));
+    await clock.advance(10 * MINUTE);
+    await log.record(lock('bob'));
+    await clock.advance(10 * MINUTE);
+    await log.record(lock('alice'));
+    const start = Date.UTC(2024, 0, 8, 9);
+
+    expect((await log.query({ actor: 'alice' })).map((record) => record.seq)).toEqual([1, 3]);
+    expect(
+      (await log.query({ since: start + 5 * MINUTE, until: new Date(start + 20 * MINUTE) })).map(
+        (record) => record.actor
+      )
+    ).toEqual(['bob']);
+    expect(await other.query({ node: 'ws-08' })).toEqual([]);
+    expect(await log.query({ node: 'ws-07', action: 'unlock' })).toEqual([]);
+  });
+
+  it('should not fail changes when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(store, 'append').mockRejectedValueOnce(new Error('disk full'));
+
+    expect(await log.record(lock('alice'))).toBeNull();
+    expect(await log.record(lock('bob'))).toMatchObject({ seq: 1, prevHash: GENESIS_HASH });
+    expect(console.error).toHaveBeenCalledWith(
+      '[AuditLog] Failed to record lock by alice: disk full'
+    );
+  });
+
+  it('should report failures to listeners until a record is stored again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(store, 'append')
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockRejectedValueOnce(new Error('disk full'));
+    const listener = vi.fn();
+    log.onFailure(listener);
+
+    await log.record(lock('alice'));
+    await log.record(lock('bob'));
+
+    const failures = listener.mock.calls.map(([failure]) => failure);
+    expect(failures.map((failure) => [failure.event.actor, failure.consecutive])).toEqual([
+      ['alice', 1],
+      ['bob', 2],
+    ]);
+    expect(log.getLastFailure()).toMatchObject({ error: 'disk full', consecutive: 2 });
+
+    await log.record(lock('carol'));
+    expect(log.getLastFailure()).toBeNull();
+  });
+
+  it('should chain onto a record the store wrote before failing', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(store, 'append').mockImplementationOnce(async (record) => {
+      store.setRecords([...store.getRecords(), record]);
+      throw new Error('sync failed');
+    });
+
+    expect(await log.record(lock('alice'))).toBeNull();
+    expect(await log.record(lock('bob'))).toMatchObject({ seq: 2 });
+    expect((await log.verify()).valid).toBe(true);
+  });
+
+  describe('Kept head', () => {
+    let heads: MockCoordinationClient;
+
+    beforeEach(() => {
+      heads = new MockCoordinationClient();
+      log = new AuditLog(store, { node: 'ws-07' }, clock, heads);
+    });
+
+    it('should move the head kept apart with every record', async () => {
+      await log.record(lock('alice'));
+      const second = await log.record(lock('bob'));
+      await log.flush();
+
+      expect(await heads.readAuditHead()).toEqual({ seq: 2, hash: second!.hash });
+      expect((await log.verify()).valid).toBe(true);
+    });
+
+    it('should find records cut off the end', async () => {
+      for (const actor of ['alice', 'bob', 'carol']) {
+        await log.record(lock(actor));
+      }
+
+      store.setRecords(store.getRecords().slice(0, 2));
+      expect(await log.verify()).toMatchObject({
+        valid: false,
+        records: 2,
+        brokenAt: 3,
+        problem: 'records 3 to 3 are missing from the end',
+      });
+    });
+
+    it('should find a log replaced by another intact chain', async () => {
+      for (const actor of ['alice', 'bob', 'carol']) {
+        await log.record(lock(actor));
+      }
+      const forged = new MockAuditStore();
+      const forger = new AuditLog(forged, { node: 'ws-07' }, clock);
+      for (const actor of ['alice', 'bob', 'mallory']) {
+        await forger.record(lock(actor));
+      }
+
+      store.setRecords(forged.getRecords());
+      expect(await log.verify()).toMatchObject({
+        valid: false,
+        brokenAt: 3,
+        problem: 'record 3 does not match the head kept apart',
+      });
+    });
+
+    it('should not let the head move back once the log is cut short', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      for (const actor of ['alice', 'bob', 'carol']) {
+        await log.record(lock(actor));
+      }
+      store.setRecords(store.getRecords().slice(0, 1));
+
+      const reopened = new AuditLog(store, { node: 'ws-07' }, clock, heads);
+      await reopened.record(lock('mallory'));
+      await reopened.flush();
+
+      expect(console.warn).toHaveBeenCalledWith(
+        '[AuditLog] Could not keep head 2: Audit head 2 is behind the kept head 3'
+      );
+      expect(await reopened.verify()).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+
+    it('should keep recording while the head cannot be sent', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(heads, 'writeAuditHead').mockRejectedValueOnce(new Error('offline'));
+
+      await log.record(lock('alice'));
+      await log.flush();
+      const second = await log.record(lock('bob'));
+      await log.flush();
+
+      expect(log.getLastFailure()).toBeNull();
+      expect(await heads.readAuditHead()).toEqual({ seq: 2, hash: second!.hash });
+    });
+  });
+});
+
+describe('WebStorageAuditStore', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should only rewrite the newest chunk on append', async () => {
+    const log = new AuditLog(new WebStorageAuditStore(storage, 'audit', { chunkSize: 10 }));
+    for (let i = 0; i < 30; i++) {
+      await log.record(lock(`user-${i}`));
+    }
+    const chunk = storage.getItem('audit:0')!.length;
+    const before = storage.writes;
+
+    await log.record(lock('alice'));
+
+    // Only the new one-record chunk and the index are written
+    expect(storage.writes - before).toBeLessThan(chunk / 5);
+    expect(storage.getItem('audit:3')).not.toBeNull();
+    const reopened = new WebStorageAuditStore(storage, 'audit', { chunkSize: 10 });
+    expect((await reopened.read()).map((record) => record.seq)).toEqual(
+      Array.from({ length: 31 }, (_, i) => i + 1)
+    );
+    expect((await log.verify()).valid).toBe(true);
+  });
+
+  it('should keep every record and fail appends once storage is full', async () => {
+    storage = new MemoryStorage(4000);
+    const store = new WebStorageAuditStore(storage, 'audit', { chunkSize: 2 });
+    const log = new AuditLog(store);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    for (let i = 0; i < 20; i++) {
+      await log.record(lock(`user-${i}`));
+    }
+
+    const records = await store.read();
+    expect(records.length).toBeLessThan(20);
+    expect(records.map((record) => record.seq)).toEqual(
+      Array.from({ length: records.length }, (_, i) => i + 1)
+    );
+    expect(log.getLastFailure()).toMatchObject({
+      error: new AuditStoreFullError(records.length).message,
+      consecutive: 20 - records.length,
+    });
+    expect((await log.verify()).valid).toBe(true);
+  });
+
+  it('should leave no partial chunk behind when a new chunk does not fit', async () => {
+    const store = new WebStorageAuditStore(storage, 'audit', { chunkSize: 1 });
+    const log = new AuditLog(store);
+    await log.record(lock('alice'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(storage, 'setItem')
+      .mockImplementationOnce(MemoryStorage.prototype.setItem)
+      .mockImplementationOnce(() => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      });
+
+    expect(await log.record(lock('bob'))).toBeNull();
+    expect(storage.getItem('audit:1')).toBeNull();
+    vi.mocked(storage.setItem).mockRestore();
+
+    expect(await log.record(lock('carol'))).toMatchObject({ seq: 2 });
+    expect((await store.read()).map((record) => record.actor)).toEqual(['alice', 'carol']);
+  });
+
+  it('should move a log stored as one array into chunks', async () => {
+    const legacy = new MockAuditStore();
+    const log = new AuditLog(legacy);
+    for (const actor of ['alice', 'bob', 'carol']) {
+      await log.record(lock(actor));
+    }
+    storage.setItem('audit', JSON.stringify(legacy.getRecords()));
+
+    const store = new WebStorageAuditStore(storage, 'audit', { chunkSize: 2 });
+    const reopened = new AuditLog(store);
+    await reopened.record(lock('dave'));
+
+    expect(storage.getItem('audit')).toBeNull();
+    expect((await store.read()).map((record) => record.seq)).toEqual([1, 2, 3, 4]);
+    expect((await reopened.verify()).valid).toBe(true);
+  });
+});
+
+describe('Audit trail of mode changes', () => {
+  let clock: VirtualClock;
+  let services: ReturnType<typeof createNodeServices>;
+  let switcher: ManualModeSwitcher;
+
+  beforeEach(() => {
+    clock = new VirtualClock(Date.UTC(2024, 0, 8, 22));
+    services = createNodeServices({ clock });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should record who requested, approved, locked and unlocked', async () => {
+    switcher = new ManualModeSwitcher(
+      new MockMasterProcessingState(),
+      { requireApproval: true, approvers: ['bob'] },
+      services
+    );
+
+    const sessions = services.sessions as MockOperatorAuthenticator;
+    const requestId = (await switcher.requestModeSwitch(
+      'idle_worker',
+      undefined,
+      sessions.open('alice').sessionId
+    )) as string;
+    await switcher.confirmModeSwitch(requestId, sessions.open('bob').sessionId);
+    switcher.lockMode('idle_worker', { owner: 'carol', reason: 'Overnight batch' });
+    switcher.unlockMode({ owner: 'carol' });
+
+    const records = await services.audit.query();
+    expect(records.map(({ action, actor, details }) => [action, actor, details.outcome])).toEqual(
+      [
+        ['confirmation', 'alice', 'requested'],
+        ['confirmation', 'bob', 'approved'],
+        ['transition', 'bob', undefined],
+        ['lock', 'carol', undefined],
+        ['unlock', 'carol', undefined],
+      ]
+    );
+    expect(records[2].details).toMatchObject({
+      from: 'active_master',
+      to: 'idle_worker',
+      approval: { requestedBy: 'alice', approvedBy: 'bob' },
+    });
+    expect((await services.audit.verify()).valid).toBe(true);
+  });
+
+  it('should record expiring locks as done by the system', async () => {
+    switcher = new ManualModeSwitcher(new MockMasterProcessingState(), {}, services);
+
+    switcher.lockMode('active_master', { owner: 'carol', duration: 30 * MINUTE });
+    await clock.advance(30 * MINUTE);
+
+    const [unlock] = await services.audit.query({ action: 'unlock' });
+    expect(unlock).toMatchObject({
+      actor: SYSTEM_ACTOR,
+      at: Date.UTC(2024, 0, 8, 22, 30),
+      details: { mode: 'active_master', holder: 'carol', expired: true },
+    });
+  });
+});
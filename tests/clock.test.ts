@@ -0,0 +1,105 @@
+/**
+ * Tests for Clock
+ *
+ * @see src/clock.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VirtualClock, systemClock } from '../src/clock';
+
+describe('VirtualClock', () => {
+  it('should only move when advanced', async () => {
+    const clock = new VirtualClock(1000);
+    expect(clock.now()).toBe(1000);
+
+    await clock.advance(500);
+    expect(clock.now()).toBe(1500);
+  });
+
+  it('should run timers at their due time, in due order', async () => {
+    const clock = new VirtualClock(0);
+    const runs: string[] = [];
+
+    clock.setTimeout(() => runs.push(`b@${clock.now()}`), 200);
+    clock.setTimeout(() => runs.push(`a@${clock.now()}`), 100);
+    clock.setTimeout(() => runs.push(`c@${clock.now()}`), 200);
+    clock.setTimeout(() => runs.push(`late@${clock.now()}`), 1000);
+
+    await clock.advance(500);
+
+    expect(runs).toEqual(['a@100', 'b@200', 'c@200']);
+    expect(clock.now()).toBe(500);
+    expect(clock.pendingTimers()).toBe(1);
+  });
+
+  it('should repeat intervals and stop them when cleared', async () => {
+    const clock = new VirtualClock(0);
+    const ticks: number[] = [];
+
+    const timer = clock.setInterval(() => ticks.push(clock.now()), 100);
+    await clock.advance(350);
+    clock.clearInterval(timer);
+    await clock.advance(1000);
+
+    expect(ticks).toEqual([100, 200, 300]);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('should not run cleared timers', async () => {
+    const clock = new VirtualClock(0);
+    let ran = false;
+
+    const timer = clock.setTimeout(() => (ran = true), 100);
+    clock.clearTimeout(timer);
+    await clock.advance(200);
+
+    expect(ran).toBe(false);
+  });
+
+  it('should let async work settle before the next timer runs', async () => {
+    const clock = new VirtualClock(0);
+    const runs: string[] = [];
+
+    // Each poll reschedules itself only after awaiting its work, like the
+    // mode switcher's loop
+    const poll = () => {
+      clock.setTimeout(async () => {
+        await Promise.resolve();
+        await Promise.resolve();
+        runs.push(`poll@${clock.now()}`);
+        poll();
+      }, 100);
+    };
+    poll();
+
+    await clock.advance(300);
+
+    expect(runs).toEqual(['poll@100', 'poll@200', 'poll@300']);
+  });
+
+  it('should run timers scheduled by timers within the same advance', async () => {
+    const clock = new VirtualClock(0);
+    const runs: number[] = [];
+
+    clock.setTimeout(() => {
+      clock.setTimeout(() => runs.push(clock.now()), 0);
+    }, 100);
+    await clock.advance(100);
+
+    expect(runs).toEqual([100]);
+  });
+});
+
+describe('systemClock', () => {
+  it('should report real time', () => {
+    const before = Date.now();
+    const now = systemClock.now();
+
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should run real timers', async () => {
+    await new Promise<void>((resolve) => systemClock.setTimeout(resolve, 1));
+  });
+});
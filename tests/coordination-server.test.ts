@@ -0,0 +1,316 @@
+/**
+ * Tests for Coordination Service Reference Server
+ *
+ * @see src/coordination-server.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import WebSocket from 'ws';
+import { CoordinationServer, NodeRegistry } from '../src/coordination-server';
+import type { CoordinationMessage } from '../src/coordination-service';
+
+describe('NodeRegistry', () => {
+  let registry: NodeRegistry;
+
+  beforeEach(() => {
+    registry = new NodeRegistry(1000);
+  });
+
+  it('should register nodes as available only in idle_worker mode', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'idle_worker' }, 0);
+    registry.register({ nodeId: 'b', hostname: 'host-b', mode: 'active_master' }, 0);
+
+    expect(registry.get('a')!.available).toBe(true);
+    expect(registry.get('b')!.available).toBe(false);
+    expect(registry.listAvailable().map((node) => node.nodeId)).toEqual(['a']);
+  });
+
+  it('should keep the original registration time on re-registration', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'standby' }, 100);
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'standby' }, 500);
+
+    expect(registry.get('a')!.registeredAt).toBe(100);
+    expect(registry.get('a')!.lastHeartbeat).toBe(500);
+  });
+
+  it('should apply worker_available events', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'active_master' }, 0);
+
+    const record = registry.applyEvent('a', 'worker_available', true, 10);
+
+    expect(record!.available).toBe(true);
+    expect(record!.mode).toBe('idle_worker');
+  });
+
+  it('should mark nodes announcing warm standby as soon available', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'active_master' }, 0);
+
+    const standby = registry.applyEvent('a', 'worker_soon_available', true, 10);
+    expect(standby).toMatchObject({ mode: 'standby', available: false, soonAvailable: true });
+    expect(registry.listAvailable()).toEqual([]);
+
+    const worker = registry.applyEvent('a', 'worker_available', true, 20);
+    expect(worker).toMatchObject({ mode: 'idle_worker', available: true, soonAvailable: false });
+  });
+
+  it('should list shared workers as available', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'active_master' }, 0);
+
+    const shared = registry.applyEvent('a', 'worker_shared', true, 10);
+    expect(shared).toMatchObject({ mode: 'shared_worker', available: true, soonAvailable: false });
+    expect(registry.listAvailable().map((node) => node.nodeId)).toEqual(['a']);
+
+    const master = registry.applyEvent('a', 'worker_shared', false, 20);
+    expect(master).toMatchObject({ mode: 'active_master', available: false });
+  });
+
+  it('should exclude draining nodes from scheduling and refuse disallowed transitions', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'idle_worker' }, 0);
+
+    expect(() => registry.applyEvent('a', 'node_maintenance', true, 10)).toThrow(
+      'Transition from idle_worker to maintenance is not allowed'
+    );
+
+    const draining = registry.applyEvent('a', 'worker_draining', true, 20);
+    expect(draining).toMatchObject({ mode: 'draining', available: false });
+    expect(registry.listAvailable()).toEqual([]);
+
+    expect(registry.applyEvent('a', 'worker_available', false, 30)!.mode).toBe('active_master');
+    expect(registry.applyEvent('a', 'node_maintenance', true, 40)!.mode).toBe('maintenance');
+  });
+
+  it('should return null for unknown nodes', () => {
+    expect(registry.heartbeat('missing')).toBeNull();
+    expect(registry.applyEvent('missing', 'worker_available', true)).toBeNull();
+    expect(registry.unregister('missing')).toBe(false);
+  });
+
+  it('should mark nodes offline after the heartbeat timeout', () => {
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'idle_worker' }, 0);
+
+    expect(registry.sweep(500)).toEqual([]);
+    expect(registry.sweep(1500)).toEqual(['a']);
+    expect(registry.get('a')!.online).toBe(false);
+    expect(registry.get('a')!.available).toBe(false);
+
+    registry.heartbeat('a', 1600);
+    expect(registry.get('a')!.online).toBe(true);
+  });
+
+  it('should notify change listeners', () => {
+    const listener = vi.fn();
+    registry.onChange(listener);
+
+    registry.register({ nodeId: 'a', hostname: 'host-a', mode: 'standby' }, 0);
+    registry.unregister('a');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0]).toEqual({ type: 'node_removed', nodeId: 'a' });
+  });
+});
+
+describe('CoordinationServer', () => {
+  let server: CoordinationServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new CoordinationServer({ port: 0, heartbeatTimeout: 200, sweepInterval: 50 });
+    const address = await server.start();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const post = (path: string, body?: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  it('should report health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(await response.json()).toEqual({ status: 'ok', nodes: 0, jobs: 0 });
+  });
+
+  it('should register and list nodes', async () => {
+    const response = await post('/nodes', {
+      nodeId: 'node-1',
+      hostname: 'ws-01',
+      mode: 'active_master',
+    });
+    expect(response.status).toBe(201);
+
+    const nodes = await (await fetch(`${baseUrl}/nodes`)).json();
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0].nodeId).toBe('node-1');
+  });
+
+  it('should reject invalid registrations', async () => {
+    const response = await post('/nodes', { nodeId: 'node-1', hostname: 'ws-01', mode: 'x' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('mode must be one of');
+  });
+
+  it('should return 404 for events from unknown nodes', async () => {
+    const response = await post('/nodes/ghost/events', {
+      event: 'worker_available',
+      available: true,
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 409 for events announcing a disallowed transition', async () => {
+    await post('/nodes', { nodeId: 'node-1', hostname: 'ws-01', mode: 'maintenance' });
+
+    const response = await post('/nodes/node-1/events', {
+      event: 'worker_available',
+      available: true,
+    });
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toContain('not allowed');
+  });
+
+  it('should take nodes offline when heartbeats stop', async () => {
+    await post('/nodes', { nodeId: 'node-1', hostname: 'ws-01', mode: 'idle_worker' });
+
+    await new Promise((resolve) => setTimeout(resolve, 350));
+
+    const node = await (await fetch(`${baseUrl}/nodes/node-1`)).json();
+    expect(node.online).toBe(false);
+    expect(node.available).toBe(false);
+  });
+
+  it('should push registry changes over WebSocket', async () => {
+    const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws`);
+    await new Promise((resolve) => socket.once('open', resolve));
+
+    const received = new Promise<CoordinationMessage>((resolve) =>
+      socket.once('message', (data) => resolve(JSON.parse(data.toString())))
+    );
+
+    await post('/nodes', { nodeId: 'node-1', hostname: 'ws-01', mode: 'standby' });
+
+    const message = await received;
+    expect(message.type).toBe('node_updated');
+    socket.close();
+  });
+
+  it('should accept heartbeats over WebSocket', async () => {
+    await post('/nodes', { nodeId: 'node-1', hostname: 'ws-01', mode: 'standby' });
+    const before = server.getRegistry().get('node-1')!.lastHeartbeat;
+
+    const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws`);
+    await new Promise((resolve) => socket.once('open', resolve));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    socket.send(JSON.stringify({ type: 'heartbeat', nodeId: 'node-1' }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.getRegistry().get('node-1')!.lastHeartbeat).toBeGreaterThan(before);
+    socket.close();
+  });
+
+  describe('Jobs', () => {
+    it('should submit jobs and lease tasks to available workers', async () => {
+      await post('/nodes', { nodeId: 'worker-1', hostname: 'ws-02', mode: 'idle_worker' });
+
+      const response = await post('/jobs', {
+        id: 'job-1',
+        type: 'simulation',
+        owner: 'master-1',
+        tasks: [{ part: 'bracket.sldprt' }],
+      });
+      expect(response.status).toBe(201);
+
+      const tasks = await (await fetch(`${baseUrl}/nodes/worker-1/tasks`)).json();
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0].id).toBe('job-1:0');
+    });
+
+    it('should complete leased tasks', async () => {
+      await post('/nodes', { nodeId: 'worker-1', hostname: 'ws-02', mode: 'idle_worker' });
+      await post('/jobs', { id: 'job-1', type: 'render', owner: 'master-1', tasks: [1] });
+
+      const response = await post('/tasks/job-1:0/complete', { nodeId: 'worker-1' });
+      expect(response.status).toBe(200);
+
+      const job = await (await fetch(`${baseUrl}/jobs/job-1`)).json();
+      expect(job.status).toBe('completed');
+    });
+
+    it('should reject completion by a node without the lease', async () => {
+      await post('/jobs', { id: 'job-1', type: 'render', owner: 'master-1', tasks: [1] });
+
+      const response = await post('/tasks/job-1:0/complete', { nodeId: 'worker-1' });
+      expect(response.status).toBe(409);
+    });
+
+    it('should preview the tasks a standby node would get next', async () => {
+      await post('/nodes', { nodeId: 'node-1', hostname: 'ws-01', mode: 'standby' });
+      await post('/jobs', { id: 'own', type: 'render', owner: 'node-1', tasks: [1] });
+      await post('/jobs', { id: 'job-1', type: 'render', owner: 'master-1', tasks: [1, 2, 3] });
+
+      const upcoming = await (await fetch(`${baseUrl}/nodes/node-1/upcoming?limit=2`)).json();
+      expect(upcoming.map((task: { id: string }) => task.id)).toEqual(['job-1:0', 'job-1:1']);
+
+      const invalid = await fetch(`${baseUrl}/nodes/node-1/upcoming?limit=-1`);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should reject malformed job submissions', async () => {
+      const response = await post('/jobs', { type: 'render', owner: 'master-1' });
+      expect(response.status).toBe(400);
+    });
+
+    it('should return tasks of unregistered nodes to the queue', async () => {
+      await post('/nodes', { nodeId: 'worker-1', hostname: 'ws-02', mode: 'idle_worker' });
+      await post('/jobs', { id: 'job-1', type: 'render', owner: 'master-1', tasks: [1] });
+
+      await fetch(`${baseUrl}/nodes/worker-1`, { method: 'DELETE' });
+
+      expect(server.getQueue().getTask('job-1:0')!.status).toBe('pending');
+    });
+  });
+
+  describe('Task handoff', () => {
+    beforeEach(async () => {
+      await post('/nodes', { nodeId: 'worker-1', hostname: 'ws-02', mode: 'idle_worker' });
+      await post('/jobs', { id: 'job-1', type: 'render', owner: 'master-1', tasks: [1] });
+    });
+
+    it('should reassign handed-off tasks to another worker', async () => {
+      await post('/nodes', { nodeId: 'worker-2', hostname: 'ws-03', mode: 'idle_worker' });
+
+      const ack = await (await post('/nodes/worker-1/handoff', {})).json();
+
+      expect(ack).toEqual({
+        nodeId: 'worker-1',
+        tasks: [{ taskId: 'job-1:0', outcome: 'reassigned', assignedTo: 'worker-2' }],
+        remaining: [],
+      });
+      expect(server.getRegistry().get('worker-1')!.available).toBe(false);
+    });
+
+    it('should queue handed-off tasks when no worker is available', async () => {
+      const ack = await (await post('/nodes/worker-1/handoff', {})).json();
+
+      expect(ack.tasks).toEqual([{ taskId: 'job-1:0', outcome: 'queued', assignedTo: null }]);
+      expect(server.getQueue().getTask('job-1:0')!.attempts).toBe(0);
+    });
+
+    it('should report tasks the node no longer holds', async () => {
+      await post('/tasks/job-1:0/complete', { nodeId: 'worker-1' });
+
+      const ack = await (await post('/nodes/worker-1/handoff', { taskIds: ['job-1:0'] })).json();
+
+      expect(ack.tasks).toEqual([{ taskId: 'job-1:0', outcome: 'not_leased', assignedTo: null }]);
+    });
+
+    it('should reject malformed handoff requests', async () => {
+      const response = await post('/nodes/worker-1/handoff', { taskIds: 'job-1:0' });
+      expect(response.status).toBe(400);
+    });
+  });
+});
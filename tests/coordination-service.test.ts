@@ -0,0 +1,191 @@
+/**
+ * Tests for Coordination Service Client
+ *
+ * @see src/coordination-service.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import WebSocket from 'ws';
+import { CoordinationServer } from '../src/coordination-server';
+import {
+  HttpCoordinationClient,
+  MockCoordinationClient,
+  CoordinationError,
+  CoordinationMessage,
+  CoordinationSocket,
+} from '../src/coordination-service';
+import { ManualModeSwitcher } from '../src/manual-mode-switcher';
+import { MockMasterProcessingState } from '../src/mode-switcher';
+
+describe('HttpCoordinationClient', () => {
+  let server: CoordinationServer;
+  let baseUrl: string;
+  const clients: HttpCoordinationClient[] = [];
+
+  const createClient = (nodeId: string) => {
+    const client = new HttpCoordinationClient(
+      { baseUrl, nodeId, hostname: `host-${nodeId}`, heartbeatInterval: 50 },
+      { socketFactory: (url) => new WebSocket(url) as unknown as CoordinationSocket }
+    );
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = new CoordinationServer({ port: 0, heartbeatTimeout: 200, sweepInterval: 50 });
+    const address = await server.start();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.unregister().catch(() => {})));
+    await server.stop();
+  });
+
+  it('should register several simulated nodes', async () => {
+    await createClient('node-1').register('active_master');
+    await createClient('node-2').register('idle_worker');
+    await createClient('node-3').register('standby');
+
+    const nodes = await clients[0].listNodes();
+    expect(nodes.map((node) => node.nodeId).sort()).toEqual(['node-1', 'node-2', 'node-3']);
+    expect(server.getRegistry().listAvailable().map((node) => node.nodeId)).toEqual([
+      'node-2',
+    ]);
+  });
+
+  it('should announce worker availability', async () => {
+    const client = createClient('node-1');
+    await client.register('active_master');
+
+    await client.notify('worker_available', true);
+    expect(server.getRegistry().get('node-1')!.available).toBe(true);
+
+    await client.notify('worker_available', false);
+    expect(server.getRegistry().get('node-1')!.available).toBe(false);
+  });
+
+  it('should register implicitly on first notification', async () => {
+    const client = createClient('node-1');
+
+    await client.notify('worker_available', true);
+
+    expect(server.getRegistry().get('node-1')!.available).toBe(true);
+  });
+
+  it('should re-register when the server has forgotten the node', async () => {
+    const client = createClient('node-1');
+    await client.register('active_master');
+    server.getRegistry().unregister('node-1');
+
+    await client.notify('worker_available', true);
+
+    expect(server.getRegistry().get('node-1')!.available).toBe(true);
+  });
+
+  it('should keep the node online with automatic heartbeats', async () => {
+    const client = createClient('node-1');
+    await client.register('idle_worker');
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    expect(server.getRegistry().get('node-1')!.online).toBe(true);
+  });
+
+  it('should report the node as the service sees it', async () => {
+    const client = createClient('node-1');
+    expect(await client.getNodeRecord()).toBeNull();
+
+    await client.notify('worker_available', true);
+
+    expect(await client.getNodeRecord()).toMatchObject({ nodeId: 'node-1', available: true });
+  });
+
+  it('should remove the node on unregister', async () => {
+    const client = createClient('node-1');
+    await client.register('standby');
+    await client.unregister();
+
+    expect(server.getRegistry().get('node-1')).toBeNull();
+  });
+
+  it('should raise CoordinationError on rejected requests', async () => {
+    const client = createClient('ghost');
+
+    await expect(client.heartbeat()).rejects.toBeInstanceOf(CoordinationError);
+  });
+
+  it('should receive pushed messages over WebSocket', async () => {
+    const observer = createClient('observer');
+    const messages: CoordinationMessage[] = [];
+    observer.onMessage((message) => messages.push(message));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await createClient('node-1').register('idle_worker');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(messages.some((m) => m.type === 'node_updated' && m.node.nodeId === 'node-1')).toBe(
+      true
+    );
+  });
+
+  it('should serve leased tasks and accept their results', async () => {
+    const client = createClient('worker-1');
+    await client.register('idle_worker');
+    server.getQueue().submit({ id: 'job-1', type: 'render', owner: 'master-1', tasks: [1] });
+    server.getScheduler().schedule();
+
+    const [task] = await client.fetchAssignedTasks();
+    expect(task.id).toBe('job-1:0');
+
+    await client.reportProgress(task.id, 0.5);
+    expect(server.getQueue().getTask(task.id)!.progress).toBe(0.5);
+
+    await client.completeTask(task.id);
+    expect(server.getQueue().getJob('job-1')!.status).toBe('completed');
+  });
+
+  it('should keep the audit head, refusing heads that move back', async () => {
+    const client = createClient('node-1');
+    const head = { seq: 3, hash: 'a'.repeat(64) };
+
+    expect(await client.readAuditHead()).toBeNull();
+    await client.writeAuditHead(head);
+    await client.writeAuditHead(head);
+    expect(await client.readAuditHead()).toEqual(head);
+
+    await expect(client.writeAuditHead({ seq: 2, hash: 'b'.repeat(64) })).rejects.toMatchObject({
+      status: 409,
+    });
+    await expect(client.writeAuditHead({ seq: 3, hash: 'b'.repeat(64) })).rejects.toMatchObject({
+      status: 409,
+    });
+    await expect(client.writeAuditHead({ seq: -1, hash: 'x' })).rejects.toMatchObject({
+      status: 400,
+    });
+    expect(await client.readAuditHead()).toEqual(head);
+  });
+
+  it('should be used by the mode switchers', async () => {
+    const client = createClient('node-1');
+    const processingState = new MockMasterProcessingState();
+    const switcher = new ManualModeSwitcher(processingState, {}, { coordination: client });
+
+    await switcher.requestModeSwitch('idle_worker');
+    expect(server.getRegistry().get('node-1')!.available).toBe(true);
+
+    await switcher.requestModeSwitch('active_master');
+    expect(server.getRegistry().get('node-1')!.available).toBe(false);
+  });
+});
+
+describe('MockCoordinationClient', () => {
+  it('should record notifications', async () => {
+    const client = new MockCoordinationClient();
+
+    await client.notify('worker_available', true);
+
+    expect(client.isRegistered()).toBe(true);
+    expect(client.getNotifications()).toEqual([{ event: 'worker_available', available: true }]);
+  });
+});
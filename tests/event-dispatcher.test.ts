@@ -0,0 +1,162 @@
+/**
+ * Tests for Event Dispatcher
+ *
+ * @see src/event-dispatcher.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventDispatcher } from '../src/event-dispatcher';
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('EventDispatcher', () => {
+  let dispatcher: EventDispatcher<[string, number]>;
+
+  beforeEach(() => {
+    dispatcher = new EventDispatcher('Test');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should isolate throwing and rejecting listeners', async () => {
+    const listener = vi.fn();
+    dispatcher.on(() => {
+      throw new Error('listener bug');
+    });
+    dispatcher.on(() => Promise.reject(new Error('async bug')));
+    dispatcher.on(listener);
+
+    await expect(dispatcher.emit('changed', 1)).resolves.toBeUndefined();
+
+    expect(listener).toHaveBeenCalledWith('changed', 1);
+    expect(console.error).toHaveBeenCalledWith('[Test] Listener failed: listener bug');
+    expect(console.error).toHaveBeenCalledWith('[Test] Listener failed: async bug');
+  });
+
+  it('should call listeners by priority, then in registration order', async () => {
+    const order: string[] = [];
+    dispatcher.on(() => void order.push('default'));
+    dispatcher.on(() => void order.push('low'), { priority: -1 });
+    dispatcher.on(() => void order.push('high'), { priority: 10 });
+    dispatcher.on(() => void order.push('default 2'));
+
+    await dispatcher.emit('changed', 1);
+
+    expect(order).toEqual(['high', 'default', 'default 2', 'low']);
+  });
+
+  it('should start every listener at once in parallel delivery', async () => {
+    const order: string[] = [];
+    dispatcher.on(async () => {
+      order.push('first started');
+      await wait(20);
+      order.push('first done');
+    });
+    dispatcher.on(() => void order.push('second started'));
+
+    await dispatcher.emit('changed', 1);
+
+    expect(order).toEqual(['first started', 'second started', 'first done']);
+  });
+
+  it('should await each listener in serial delivery', async () => {
+    dispatcher = new EventDispatcher('Test', { delivery: 'serial' });
+    const order: string[] = [];
+    dispatcher.on(async () => {
+      order.push('first started');
+      await wait(20);
+      order.push('first done');
+    });
+    dispatcher.on(() => void order.push('second started'));
+
+    await dispatcher.emit('changed', 1);
+
+    expect(order).toEqual(['first started', 'first done', 'second started']);
+  });
+
+  it('should warn about slow listeners', async () => {
+    dispatcher = new EventDispatcher('Test', { slowListenerThreshold: 10 });
+    dispatcher.on(() => wait(30));
+
+    await dispatcher.emit('changed', 1);
+
+    expect(console.warn).toHaveBeenCalledWith('[Test] Listener still running after 10ms');
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringMatching(/^\[Test\] Slow listener took/)
+    );
+  });
+
+  it('should stop waiting for a hung listener and keep its events in order', async () => {
+    dispatcher = new EventDispatcher('Test', { listenerTimeout: 10 });
+    const seen: string[] = [];
+    let release = () => {};
+    dispatcher.on(async (event) => {
+      seen.push(event);
+      if (event === 'first') {
+        await new Promise<void>((resolve) => (release = resolve));
+      }
+    });
+
+    await dispatcher.emit('first', 1);
+    expect(console.warn).toHaveBeenCalledWith(
+      '[Test] Listener did not finish within 10ms; moving on'
+    );
+
+    // Still busy with the first event: the second is queued, not awaited
+    const started = Date.now();
+    await dispatcher.emit('second', 2);
+    expect(Date.now() - started).toBeLessThan(10);
+    expect(seen).toEqual(['first']);
+
+    release();
+    await wait(0);
+    expect(seen).toEqual(['first', 'second']);
+  });
+
+  it('should deliver events to an async iterable subscription', async () => {
+    const controller = new AbortController();
+    const received: [string, number][] = [];
+    const consuming = (async () => {
+      for await (const event of dispatcher.subscribe({ signal: controller.signal })) {
+        received.push(event);
+      }
+    })();
+
+    await dispatcher.emit('first', 1);
+    await dispatcher.emit('second', 2);
+    await wait(0);
+    controller.abort();
+    await consuming;
+
+    expect(received).toEqual([
+      ['first', 1],
+      ['second', 2],
+    ]);
+    expect(dispatcher.size).toBe(0);
+  });
+
+  it('should buffer events and unsubscribe when the loop is left', async () => {
+    dispatcher = new EventDispatcher('Test', { subscriptionBufferSize: 2 });
+    const subscription = dispatcher.subscribe();
+
+    await dispatcher.emit('first', 1);
+    await dispatcher.emit('second', 2);
+    await dispatcher.emit('third', 3);
+
+    const received: string[] = [];
+    for await (const [name] of subscription) {
+      received.push(name);
+      if (name === 'third') break;
+    }
+
+    expect(received).toEqual(['second', 'third']);
+    expect(console.warn).toHaveBeenCalledWith(
+      '[Test] Subscriber too slow, dropped the oldest event'
+    );
+    expect(dispatcher.size).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for Flap Damper
+ *
+ * @see src/flap-damper.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlapDamper, SuppressedTransition } from '../src/flap-damper';
+import {
+  ModeSwitcher,
+  MockMasterProcessingState,
+  MockUserInputTracker,
+} from '../src/mode-switcher';
+
+const MINUTE = 60 * 1000;
+const START = 1_000_000_000;
+
+describe('FlapDamper', () => {
+  let damper: FlapDamper;
+
+  beforeEach(() => {
+    damper = new FlapDamper();
+  });
+
+  it('should not hold back anything without history', () => {
+    expect(damper.check('active_master', 'idle_worker', START)).toBeNull();
+  });
+
+  it('should hold a mode for its minimum dwell time', () => {
+    damper.recordTransition('standby', 'active_master', 'auto', START);
+
+    const suppression = damper.check('active_master', 'standby', START + 30 * 1000);
+
+    expect(suppression).toMatchObject({
+      from: 'active_master',
+      to: 'standby',
+      reason: 'min_dwell',
+      until: START + MINUTE,
+    });
+    expect(suppression?.message).toBe('active_master held for 30s of its 1min minimum');
+    expect(damper.check('active_master', 'standby', START + MINUTE)).toBeNull();
+  });
+
+  it('should never hold back a switch to active_master', () => {
+    damper = new FlapDamper({ minDwellTime: { idle_worker: 10 * MINUTE } });
+    damper.recordTransition('active_master', 'idle_worker', 'auto', START);
+
+    expect(damper.check('idle_worker', 'active_master', START + 1000)).toBeNull();
+  });
+
+  it('should keep the node master for the grace period after the user reclaims it', () => {
+    damper.recordTransition('idle_worker', 'active_master', 'auto', START);
+
+    const suppression = damper.check('active_master', 'idle_worker', START + 5 * MINUTE);
+
+    expect(suppression).toMatchObject({ reason: 'master_grace', until: START + 15 * MINUTE });
+    expect(damper.check('active_master', 'idle_worker', START + 15 * MINUTE)).toBeNull();
+  });
+
+  it('should apply the grace period after shared worker mode too', () => {
+    damper.recordTransition('shared_worker', 'active_master', 'auto', START);
+
+    expect(damper.check('active_master', 'shared_worker', START + MINUTE)).toMatchObject({
+      reason: 'master_grace',
+    });
+  });
+
+  it('should back off exponentially after repeated automatic switches', () => {
+    damper = new FlapDamper({ masterGracePeriod: 0, minDwellTime: { active_master: 0 } });
+    const modes = ['active_master', 'idle_worker'] as const;
+    for (let i = 0; i < 4; i++) {
+      damper.recordTransition(modes[i % 2], modes[(i + 1) % 2], 'auto', START + i * MINUTE);
+    }
+
+    expect(damper.countSwitches(START + 3 * MINUTE)).toBe(4);
+    expect(damper.check('active_master', 'idle_worker', START + 4 * MINUTE)).toMatchObject({
+      reason: 'backoff',
+      until: START + 5 * MINUTE,
+    });
+
+    damper.recordTransition('active_master', 'idle_worker', 'auto', START + 6 * MINUTE);
+    damper.recordTransition('idle_worker', 'active_master', 'auto', START + 7 * MINUTE);
+    expect(damper.check('active_master', 'idle_worker', START + 8 * MINUTE)).toMatchObject({
+      reason: 'backoff',
+      until: START + 15 * MINUTE,
+    });
+  });
+
+  it('should only count automatic switches within the window', () => {
+    damper.recordTransition('active_master', 'standby', 'auto', START);
+    damper.recordTransition('standby', 'active_master', 'manual', START + MINUTE);
+    damper.recordTransition('active_master', 'idle_worker', 'auto', START + 2 * MINUTE);
+
+    expect(damper.countSwitches(START + 2 * MINUTE)).toBe(2);
+    expect(damper.countSwitches(START + 31 * MINUTE)).toBe(1);
+  });
+
+  it('should forget old history but keep the last transition', () => {
+    damper.recordTransition('active_master', 'standby', 'auto', START);
+    damper.recordTransition('standby', 'idle_worker', 'auto', START + 60 * MINUTE);
+
+    expect(damper.getHistory()).toEqual([
+      { from: 'standby', to: 'idle_worker', source: 'auto', at: START + 60 * MINUTE },
+    ]);
+
+    damper.reset();
+    expect(damper.getHistory()).toEqual([]);
+  });
+});
+
+describe('ModeSwitcher flap damping', () => {
+  let inputTracker: MockUserInputTracker;
+  let switcher: ModeSwitcher;
+
+  beforeEach(() => {
+    inputTracker = new MockUserInputTracker();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    switcher.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should report a held back switch once and stay in the current mode', async () => {
+    switcher = new ModeSwitcher(inputTracker, new MockMasterProcessingState(), {
+      pollInterval: 20,
+      activeThreshold: 50,
+      standbyThreshold: 60,
+      idleThreshold: 60,
+    });
+    const suppressions: SuppressedTransition[] = [];
+    switcher.onSuppressed((suppression) => suppressions.push(suppression));
+
+    // The node just became master, so its dwell time has only started
+    switcher.getFlapDamper().recordTransition('standby', 'active_master', 'manual');
+    switcher.start();
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(switcher.getCurrentMode()).toBe('active_master');
+    expect(suppressions).toHaveLength(1);
+    expect(suppressions[0]).toMatchObject({ from: 'active_master', reason: 'min_dwell' });
+  });
+});
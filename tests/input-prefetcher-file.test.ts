@@ -0,0 +1,86 @@
+/**
+ * Tests for File Input Prefetcher
+ *
+ * @see src/input-prefetcher-file.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileInputPrefetcher } from '../src/input-prefetcher-file';
+import type { Task } from '../src/job-queue';
+
+function task(id: string, inputFiles: string[]): Task {
+  return {
+    id,
+    jobId: 'job-1',
+    status: 'pending',
+    assignedTo: null,
+    attempts: 0,
+    progress: 0,
+    payload: { inputFiles },
+  };
+}
+
+describe('FileInputPrefetcher', () => {
+  let dir: string;
+  let cacheDir: string;
+  let prefetcher: FileInputPrefetcher;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'input-prefetch-'));
+    cacheDir = join(dir, 'cache');
+    prefetcher = new FileInputPrefetcher({ cacheDir });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should copy task inputs into the cache', async () => {
+    const part = join(dir, 'bracket.sldprt');
+    await writeFile(part, 'part data');
+
+    const report = await prefetcher.prefetch([task('job-1:0', [part])]);
+
+    expect(report).toEqual({ tasks: ['job-1:0'], files: 1, failed: [] });
+    const cached = prefetcher.getCachedPath(part);
+    expect(cached?.endsWith('.sldprt')).toBe(true);
+    expect(await readFile(cached!, 'utf8')).toBe('part data');
+  });
+
+  it('should report inputs that could not be fetched', async () => {
+    const part = join(dir, 'bracket.sldprt');
+    await writeFile(part, 'part data');
+    const missing = join(dir, 'missing.sldasm');
+
+    const report = await prefetcher.prefetch([
+      task('job-1:0', [part, missing]),
+      task('job-1:1', [part]),
+    ]);
+
+    expect(report).toEqual({ tasks: ['job-1:1'], files: 2, failed: [missing] });
+    expect(prefetcher.getCachedPath(missing)).toBeNull();
+  });
+
+  it('should stop when aborted and discard the cache', async () => {
+    const part = join(dir, 'bracket.sldprt');
+    await writeFile(part, 'part data');
+    const controller = new AbortController();
+    controller.abort(new Error('left standby'));
+
+    await expect(
+      prefetcher.prefetch([task('job-1:0', [part])], controller.signal)
+    ).rejects.toThrow('left standby');
+
+    await prefetcher.prefetch([task('job-1:0', [part])]);
+    await prefetcher.discard();
+
+    expect(existsSync(cacheDir)).toBe(false);
+    expect(prefetcher.getCachedPath(part)).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for Distributed Job Queue
+ *
+ * @see src/job-queue.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JobQueue, JobQueueProcessingState } from '../src/job-queue';
+
+describe('JobQueue', () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    queue = new JobQueue({ maxTaskAttempts: 2 });
+  });
+
+  describe('Submission', () => {
+    it('should create a queued job with pending tasks', () => {
+      const job = queue.submit({ id: 'job-1', type: 'simulation', owner: 'node-a', tasks: [1, 2] });
+
+      expect(job.status).toBe('queued');
+      expect(job.priority).toBe(0);
+      expect(job.tasks.map((task) => task.id)).toEqual(['job-1:0', 'job-1:1']);
+      expect(job.tasks.every((task) => task.status === 'pending')).toBe(true);
+    });
+
+    it('should reject jobs without tasks', () => {
+      expect(() => queue.submit({ type: 'render', owner: 'node-a', tasks: [] })).toThrow(
+        'at least one task'
+      );
+    });
+
+    it('should reject duplicate job IDs', () => {
+      queue.submit({ id: 'job-1', type: 'render', owner: 'node-a', tasks: [1] });
+      expect(() =>
+        queue.submit({ id: 'job-1', type: 'render', owner: 'node-a', tasks: [1] })
+      ).toThrow('already exists');
+    });
+
+    it('should return copies that do not leak internal state', () => {
+      const job = queue.submit({ id: 'job-1', type: 'render', owner: 'node-a', tasks: [1] });
+      job.tasks[0].status = 'completed';
+
+      expect(queue.getJob('job-1')!.tasks[0].status).toBe('pending');
+    });
+  });
+
+  describe('Scheduling order', () => {
+    it('should list pending tasks by priority then age', () => {
+      queue.submit({ id: 'low', type: 'render', owner: 'a', tasks: [1], priority: 1 }, 0);
+      queue.submit({ id: 'high', type: 'render', owner: 'a', tasks: [1], priority: 5 }, 10);
+      queue.submit({ id: 'low-2', type: 'render', owner: 'a', tasks: [1], priority: 1 }, 5);
+
+      expect(queue.listPendingTasks().map((task) => task.jobId)).toEqual([
+        'high',
+        'low',
+        'low-2',
+      ]);
+    });
+  });
+
+  describe('Task lifecycle', () => {
+    beforeEach(() => {
+      queue.submit({ id: 'job-1', type: 'simulation', owner: 'node-a', tasks: [1, 2] });
+    });
+
+    it('should mark the job running once a task is assigned', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+
+      expect(queue.getJob('job-1')!.status).toBe('running');
+      expect(queue.listAssignedTasks('worker-1')).toHaveLength(1);
+    });
+
+    it('should record progress for leased tasks only', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+
+      expect(queue.updateProgress('job-1:0', 'worker-1', 0.4).progress).toBe(0.4);
+      expect(() => queue.updateProgress('job-1:1', 'worker-1', 0.4)).toThrow();
+    });
+
+    it('should complete the job when all tasks complete', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+      queue.assignTask('job-1:1', 'worker-2');
+      queue.completeTask('job-1:0', 'worker-1');
+      queue.completeTask('job-1:1', 'worker-2');
+
+      expect(queue.getJob('job-1')!.status).toBe('completed');
+    });
+
+    it('should reject completion from a node that does not hold the lease', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+
+      expect(() => queue.completeTask('job-1:0', 'worker-2')).toThrow('not leased to worker-2');
+    });
+
+    it('should requeue failed tasks until attempts run out', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+      expect(queue.failTask('job-1:0', 'worker-1').status).toBe('pending');
+
+      queue.assignTask('job-1:0', 'worker-1');
+      expect(queue.failTask('job-1:0', 'worker-1').status).toBe('failed');
+      expect(queue.getJob('job-1')!.status).toBe('failed');
+    });
+
+    it('should release all tasks held by a node without counting an attempt', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+      queue.assignTask('job-1:1', 'worker-1');
+
+      const released = queue.releaseTasks('worker-1');
+
+      expect(released).toHaveLength(2);
+      expect(queue.listAssignedTasks('worker-1')).toHaveLength(0);
+      expect(queue.getTask('job-1:0')!.attempts).toBe(0);
+      expect(queue.getJob('job-1')!.status).toBe('running');
+    });
+
+    it('should release only the selected tasks', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+      queue.assignTask('job-1:1', 'worker-1');
+
+      const released = queue.releaseTasks('worker-1', ['job-1:1']);
+
+      expect(released.map((task) => task.id)).toEqual(['job-1:1']);
+      expect(queue.listAssignedTasks('worker-1').map((task) => task.id)).toEqual(['job-1:0']);
+    });
+
+    it('should cancel unfinished jobs', () => {
+      queue.assignTask('job-1:0', 'worker-1');
+
+      const job = queue.cancelJob('job-1');
+
+      expect(job.status).toBe('cancelled');
+      expect(queue.listAssignedTasks('worker-1')).toHaveLength(0);
+      expect(queue.listPendingTasks()).toHaveLength(0);
+    });
+  });
+
+  describe('Change events', () => {
+    it('should notify listeners on job changes', () => {
+      const listener = vi.fn();
+      queue.onChange(listener);
+
+      queue.submit({ id: 'job-1', type: 'render', owner: 'a', tasks: [1] });
+      queue.assignTask('job-1:0', 'worker-1');
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener.mock.calls[1][0].status).toBe('running');
+    });
+  });
+});
+
+describe('JobQueueProcessingState', () => {
+  let queue: JobQueue;
+  let state: JobQueueProcessingState;
+
+  beforeEach(() => {
+    queue = new JobQueue();
+    state = new JobQueueProcessingState(queue, 'node-a');
+  });
+
+  it('should report idle when the node owns no active jobs', () => {
+    queue.submit({ id: 'other', type: 'render', owner: 'node-b', tasks: [1] });
+
+    expect(state.isProcessing()).toBe(false);
+    expect(state.getCurrentJobId()).toBeNull();
+  });
+
+  it('should report the highest priority owned job', () => {
+    queue.submit({ id: 'low', type: 'render', owner: 'node-a', tasks: [1], priority: 1 });
+    queue.submit({ id: 'high', type: 'render', owner: 'node-a', tasks: [1], priority: 9 });
+
+    expect(state.isProcessing()).toBe(true);
+    expect(state.getCurrentJobId()).toBe('high');
+  });
+
+  it('should stop processing once owned jobs finish', () => {
+    queue.submit({ id: 'job-1', type: 'render', owner: 'node-a', tasks: [1] });
+    queue.assignTask('job-1:0', 'worker-1');
+    queue.completeTask('job-1:0', 'worker-1');
+
+    expect(state.isProcessing()).toBe(false);
+  });
+
+  it('should count tasks leased to the node', () => {
+    queue.submit({ id: 'job-1', type: 'render', owner: 'node-b', tasks: [1, 2] });
+    queue.assignTask('job-1:0', 'node-a');
+
+    expect(state.getPendingTaskCount()).toBe(1);
+  });
+});
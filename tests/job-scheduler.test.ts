@@ -0,0 +1,85 @@
+/**
+ * Tests for Job Scheduler
+ *
+ * @see src/job-scheduler.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JobQueue } from '../src/job-queue';
+import { JobScheduler } from '../src/job-scheduler';
+import { NodeRegistry } from '../src/coordination-server';
+
+describe('JobScheduler', () => {
+  let queue: JobQueue;
+  let registry: NodeRegistry;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    queue = new JobQueue();
+    registry = new NodeRegistry(60000);
+    scheduler = new JobScheduler(queue, registry);
+  });
+
+  it('should only assign tasks to idle_worker nodes', () => {
+    registry.register({ nodeId: 'master', hostname: 'm', mode: 'active_master' });
+    registry.register({ nodeId: 'standby', hostname: 's', mode: 'standby' });
+    registry.register({ nodeId: 'worker', hostname: 'w', mode: 'idle_worker' });
+    queue.submit({ id: 'job-1', type: 'render', owner: 'master', tasks: [1, 2] });
+
+    const assigned = scheduler.schedule();
+
+    expect(assigned).toHaveLength(1);
+    expect(assigned[0].assignedTo).toBe('worker');
+  });
+
+  it('should respect the per-worker task limit', () => {
+    scheduler = new JobScheduler(queue, registry, { maxTasksPerWorker: 2 });
+    registry.register({ nodeId: 'worker', hostname: 'w', mode: 'idle_worker' });
+    queue.submit({ id: 'job-1', type: 'render', owner: 'master', tasks: [1, 2, 3] });
+
+    scheduler.schedule();
+    scheduler.schedule();
+
+    expect(queue.listAssignedTasks('worker')).toHaveLength(2);
+    expect(queue.listPendingTasks()).toHaveLength(1);
+  });
+
+  it('should spread tasks across the least loaded workers', () => {
+    registry.register({ nodeId: 'w1', hostname: 'w1', mode: 'idle_worker' });
+    registry.register({ nodeId: 'w2', hostname: 'w2', mode: 'idle_worker' });
+    queue.submit({ id: 'job-1', type: 'render', owner: 'master', tasks: [1, 2] });
+
+    scheduler.schedule();
+
+    expect(queue.listAssignedTasks('w1')).toHaveLength(1);
+    expect(queue.listAssignedTasks('w2')).toHaveLength(1);
+  });
+
+  it('should assign higher priority jobs first', () => {
+    registry.register({ nodeId: 'worker', hostname: 'w', mode: 'idle_worker' });
+    queue.submit({ id: 'low', type: 'render', owner: 'master', tasks: [1], priority: 1 });
+    queue.submit({ id: 'high', type: 'render', owner: 'master', tasks: [1], priority: 5 });
+
+    const [task] = scheduler.schedule();
+
+    expect(task.jobId).toBe('high');
+  });
+
+  it('should not hand a node tasks of its own job', () => {
+    registry.register({ nodeId: 'worker', hostname: 'w', mode: 'idle_worker' });
+    queue.submit({ id: 'job-1', type: 'render', owner: 'worker', tasks: [1] });
+
+    expect(scheduler.schedule()).toHaveLength(0);
+  });
+
+  it('should notify assignment listeners', () => {
+    const listener = vi.fn();
+    scheduler.onAssign(listener);
+    registry.register({ nodeId: 'worker', hostname: 'w', mode: 'idle_worker' });
+    queue.submit({ id: 'job-1', type: 'render', owner: 'master', tasks: [1] });
+
+    scheduler.schedule();
+
+    expect(listener).toHaveBeenCalledWith('worker', expect.objectContaining({ id: 'job-1:0' }));
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for Linux User Input Trackers
+ *
+ * @see src/linux-input-trackers.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  EvdevInputTracker,
+  InterruptsInputTracker,
+  LogindIdleTracker,
+  CompositeInputTracker,
+} from '../src/linux-input-trackers';
+import { MockUserInputTracker } from '../src/mode-switcher';
+
+const NOW = new Date('2026-03-02T09:00:00Z').getTime();
+
+/**
+ * Encode one 64-bit `struct input_event`
+ */
+function inputEvent(timestampMs: number, type: number): Buffer {
+  const buffer = Buffer.alloc(24);
+  buffer.writeBigInt64LE(BigInt(Math.floor(timestampMs / 1000)), 0);
+  buffer.writeBigInt64LE(BigInt((timestampMs % 1000) * 1000), 8);
+  buffer.writeUInt16LE(type, 16);
+  return buffer;
+}
+
+function interrupts(keyboard: number, mouse: number): string {
+  return [
+    '           CPU0       CPU1',
+    `  0:         40          0   IO-APIC    2-edge      timer`,
+    `  1:  ${keyboard}          0   IO-APIC    1-edge      i8042`,
+    ` 12:  ${mouse}          0   IO-APIC   12-edge      i8042`,
+    ` 16:       9999       1234   IO-APIC   16-fasteoi   ehci_hcd:usb1`,
+    'NMI:          0          0   Non-maskable interrupts',
+    '',
+  ].join('\n');
+}
+
+describe('Linux input trackers', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'input-trackers-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('EvdevInputTracker', () => {
+    it('should prefer keyboard and mouse devices under by-id', () => {
+      fs.mkdirSync(path.join(root, 'dev/input/by-id'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'dev/input/event0'), '');
+      fs.writeFileSync(path.join(root, 'dev/input/by-id/usb-Logitech-event-kbd'), '');
+      fs.writeFileSync(path.join(root, 'dev/input/by-id/usb-Logitech-event-mouse'), '');
+      fs.writeFileSync(path.join(root, 'dev/input/by-id/usb-Webcam-event-if00'), '');
+
+      const tracker = new EvdevInputTracker({ root });
+
+      expect(tracker.resolveDevices().map((device) => path.basename(device))).toEqual([
+        'usb-Logitech-event-kbd',
+        'usb-Logitech-event-mouse',
+      ]);
+    });
+
+    it('should fall back to event nodes', () => {
+      fs.mkdirSync(path.join(root, 'dev/input'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'dev/input/event3'), '');
+      fs.writeFileSync(path.join(root, 'dev/input/mice'), '');
+
+      const tracker = new EvdevInputTracker({ root });
+
+      expect(tracker.resolveDevices().map((device) => path.basename(device))).toEqual([
+        'event3',
+      ]);
+    });
+
+    it('should take the newest key or pointer event timestamp', async () => {
+      const device = path.join(root, 'dev/input/event0');
+      fs.mkdirSync(path.dirname(device), { recursive: true });
+      const lastInput = Date.now() + 60_000;
+      fs.writeFileSync(
+        device,
+        Buffer.concat([
+          inputEvent(lastInput - 1000, 0x01), // EV_KEY
+          inputEvent(lastInput, 0x02), // EV_REL
+          inputEvent(lastInput + 30_000, 0x00), // EV_SYN is ignored
+        ])
+      );
+
+      const tracker = new EvdevInputTracker({ root, devices: ['dev/input/event0'] });
+      tracker.startMonitoring();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      tracker.stopMonitoring();
+
+      vi.useFakeTimers();
+      vi.setSystemTime(lastInput + 5_000);
+      expect(tracker.getTimeSinceLastInput()).toBe(5_000);
+    });
+
+    it('should ignore unreadable devices', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const tracker = new EvdevInputTracker({ root, devices: ['dev/input/missing'] });
+
+      expect(() => tracker.startMonitoring()).not.toThrow();
+      tracker.stopMonitoring();
+      warn.mockRestore();
+    });
+  });
+
+  describe('InterruptsInputTracker', () => {
+    let file: string;
+
+    beforeEach(() => {
+      file = path.join(root, 'proc/interrupts');
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      vi.useFakeTimers();
+      vi.setSystemTime(NOW);
+    });
+
+    it('should sum the matching IRQ counters', () => {
+      fs.writeFileSync(file, interrupts(100, 50));
+      const tracker = new InterruptsInputTracker({ root });
+
+      expect(tracker.sample()).toBe(150);
+    });
+
+    it('should treat counter changes as input', () => {
+      fs.writeFileSync(file, interrupts(100, 50));
+      const tracker = new InterruptsInputTracker({ root });
+      tracker.sample();
+
+      vi.setSystemTime(NOW + 10_000);
+      tracker.sample();
+      expect(tracker.getTimeSinceLastInput()).toBe(10_000);
+
+      fs.writeFileSync(file, interrupts(101, 50));
+      tracker.sample();
+      expect(tracker.getTimeSinceLastInput()).toBe(0);
+    });
+
+    it('should ignore non-input devices', () => {
+      fs.writeFileSync(file, interrupts(100, 50));
+      const tracker = new InterruptsInputTracker({ root });
+      tracker.sample();
+
+      vi.setSystemTime(NOW + 5_000);
+      fs.writeFileSync(file, interrupts(100, 50).replace('9999', '10500'));
+      tracker.sample();
+
+      expect(tracker.getTimeSinceLastInput()).toBe(5_000);
+    });
+
+    it('should poll while monitoring', () => {
+      fs.writeFileSync(file, interrupts(100, 50));
+      const tracker = new InterruptsInputTracker({ root, pollInterval: 1000 });
+      tracker.startMonitoring();
+
+      vi.advanceTimersByTime(3000);
+      fs.writeFileSync(file, interrupts(100, 51));
+      vi.advanceTimersByTime(1000);
+
+      expect(tracker.getTimeSinceLastInput()).toBe(0);
+      tracker.stopMonitoring();
+    });
+  });
+
+  describe('LogindIdleTracker', () => {
+    let file: string;
+
+    beforeEach(() => {
+      file = path.join(root, 'run/solidworks-node/idle-hint');
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      vi.useFakeTimers();
+      vi.setSystemTime(NOW);
+    });
+
+    it('should report time since IdleSinceHint when idle', () => {
+      fs.writeFileSync(file, `IdleHint=yes\nIdleSinceHint=${(NOW - 420_000) * 1000}\n`);
+      const tracker = new LogindIdleTracker({ root });
+
+      expect(tracker.getTimeSinceLastInput()).toBe(420_000);
+    });
+
+    it('should report active while IdleHint is no', () => {
+      fs.writeFileSync(file, 'IdleHint=no\nIdleSinceHint=0\n');
+      const tracker = new LogindIdleTracker({ root });
+
+      expect(tracker.getTimeSinceLastInput()).toBe(0);
+    });
+
+    it('should honour resetLastInput over an older hint', () => {
+      fs.writeFileSync(file, `IdleHint=yes\nIdleSinceHint=${(NOW - 420_000) * 1000}\n`);
+      const tracker = new LogindIdleTracker({ root });
+
+      tracker.resetLastInput();
+      vi.setSystemTime(NOW + 1000);
+
+      expect(tracker.getTimeSinceLastInput()).toBe(1000);
+    });
+
+    it('should keep the last value when the file disappears', () => {
+      fs.writeFileSync(file, `IdleHint=yes\nIdleSinceHint=${(NOW - 60_000) * 1000}\n`);
+      const tracker = new LogindIdleTracker({ root });
+      tracker.getTimeSinceLastInput();
+
+      fs.rmSync(file);
+
+      expect(tracker.getTimeSinceLastInput()).toBe(60_000);
+    });
+  });
+
+  describe('CompositeInputTracker', () => {
+    it('should report the most recent input across sources', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(NOW);
+      const recent = new MockUserInputTracker();
+      vi.setSystemTime(NOW - 300_000);
+      const stale = new MockUserInputTracker();
+      stale.resetLastInput();
+      vi.setSystemTime(NOW + 1000);
+
+      const tracker = new CompositeInputTracker([stale, recent]);
+
+      expect(tracker.getTimeSinceLastInput()).toBe(1000);
+    });
+
+    it('should require at least one source', () => {
+      expect(() => new CompositeInputTracker([])).toThrow();
+    });
+  });
+});
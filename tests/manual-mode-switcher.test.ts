@@ -8,8 +8,20 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   ManualModeSwitcher,
   DEFAULT_MANUAL_MODE_CONFIG,
+  DEFAULT_LOCK_HOLDER,
+  LockHeldError,
 } from '../src/manual-mode-switcher';
+import { ApprovalDeniedError } from '../src/pending-confirmations';
 import { MockMasterProcessingState } from '../src/mode-switcher';
+import { MockWorkerService } from '../src/worker-service';
+import { createNodeServices } from '../src/node-services';
+import { TransitionVetoedError } from '../src/transition-guards';
+import { VirtualClock } from '../src/clock';
+import { BudgetValidationError } from '../src/transition-budgets';
+import {
+  DEFAULT_OPERATOR_SESSION_CONFIG,
+  MockOperatorAuthenticator,
+} from '../src/operator-sessions';
 
 describe('ManualModeSwitcher', () => {
   let processingState: MockMasterProcessingState;
@@ -85,6 +97,76 @@ describe('ManualModeSwitcher', () => {
     });
   });
 
+  describe('Lifecycle Modes', () => {
+    it('should take a worker through draining before maintenance', async () => {
+      await switcher.requestModeSwitch('idle_worker');
+
+      await expect(switcher.requestModeSwitch('maintenance')).rejects.toThrow(
+        'Transition from idle_worker to maintenance is not allowed'
+      );
+
+      await switcher.requestModeSwitch('draining');
+      await switcher.requestModeSwitch('active_master');
+      await switcher.requestModeSwitch('maintenance');
+      expect(switcher.getCurrentMode()).toBe('maintenance');
+    });
+
+    it('should only leave maintenance for active_master or offline', async () => {
+      await switcher.requestModeSwitch('maintenance');
+
+      await expect(switcher.requestModeSwitch('standby')).rejects.toThrow('not allowed');
+      await switcher.requestModeSwitch('offline');
+      expect(switcher.getCurrentMode()).toBe('offline');
+    });
+  });
+
+  describe('Transition Budgets', () => {
+    it('should abort a switch that exceeds its hard deadline', async () => {
+      const worker = new MockWorkerService();
+      vi.spyOn(worker, 'start').mockImplementation(
+        () => new Promise<void>((resolve) => setTimeout(resolve, 50))
+      );
+      switcher = new ManualModeSwitcher(
+        processingState,
+        { switchBudgets: { active_master: { idle_worker: { soft: 5, hard: 10 } } } },
+        { worker }
+      );
+
+      await expect(switcher.requestModeSwitch('idle_worker')).rejects.toThrow(
+        'timeout after 10ms'
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+    });
+
+    it('should refuse invalid budgets', () => {
+      expect(() => new ManualModeSwitcher(processingState, { switchTimeout: -1 })).toThrow(
+        BudgetValidationError
+      );
+      expect(
+        () =>
+          new ManualModeSwitcher(processingState, {
+            switchBudgets: { active_master: { idle_worker: { hard: 10 } } },
+          })
+      ).toThrow('Soft deadline of active_master -> idle_worker (2500ms) exceeds');
+    });
+  });
+
+  describe('Transition Guards', () => {
+    it('should reject a switch a guard vetoes', async () => {
+      const services = createNodeServices();
+      services.transitions.addGuard({
+        name: 'simulation',
+        check: () => ({ action: 'veto', reason: 'Simulation study is saving' }),
+      });
+      switcher = new ManualModeSwitcher(processingState, {}, services);
+
+      await expect(switcher.requestModeSwitch('idle_worker')).rejects.toThrow(
+        TransitionVetoedError
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+    });
+  });
+
   describe('Mode Locking (Issue #3 Feature)', () => {
     it('should lock mode to current mode by default', () => {
       switcher.lockMode();
@@ -153,7 +235,7 @@ describe('ManualModeSwitcher', () => {
   });
 
   describe('Lock Duration Enforcement', () => {
-    it('should detect expired lock when max duration exceeded', async () => {
+    it('should unlock by itself once the max duration is exceeded', async () => {
       const config = {
         requireConfirmation: false,
         maxLockDuration: 100, // 100ms
@@ -165,7 +247,8 @@ describe('ManualModeSwitcher', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 150));
 
-      expect(switcher.isLockExpired()).toBe(true);
+      expect(switcher.getLockState()).toBe('unlocked');
+      expect(switcher.isLockExpired()).toBe(false);
     });
 
     it('should enforce max lock duration by unlocking', async () => {
@@ -197,6 +280,199 @@ describe('ManualModeSwitcher', () => {
 
       expect(switcher.isLockExpired()).toBe(false);
     });
+
+    it('should measure the lock against the injected clock', async () => {
+      const clock = new VirtualClock(Date.UTC(2024, 0, 8, 9));
+      switcher = new ManualModeSwitcher(
+        processingState,
+        { maxLockDuration: 8 * 60 * 60 * 1000 }, // a working day
+        { clock }
+      );
+
+      switcher.lockMode('active_master');
+      await clock.advance(8 * 60 * 60 * 1000 - 1);
+      expect(switcher.getLockInfo()).toMatchObject({
+        state: 'locked',
+        lockTime: new Date(Date.UTC(2024, 0, 8, 9)),
+        elapsedMs: 8 * 60 * 60 * 1000 - 1,
+        isExpired: false,
+        expiresAt: new Date(Date.UTC(2024, 0, 8, 17)),
+        remainingMs: 1,
+      });
+
+      await clock.advance(1);
+      expect(switcher.getLockState()).toBe('unlocked');
+    });
+  });
+
+  describe('Timed Locks', () => {
+    const start = Date.UTC(2024, 0, 8, 9);
+    let clock: VirtualClock;
+
+    beforeEach(() => {
+      clock = new VirtualClock(start);
+      switcher = new ManualModeSwitcher(processingState, {}, { clock });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should unlock at the given time and report the expiry', async () => {
+      const expiries: unknown[] = [];
+      switcher.onLockExpired((expiry) => {
+        expiries.push({ ...expiry, at: clock.now() });
+      });
+
+      switcher.lockMode('active_master', { until: new Date(Date.UTC(2024, 0, 8, 18)) });
+      await clock.advance(9 * 60 * 60 * 1000 - 1);
+      expect(switcher.getLockState()).toBe('locked');
+      expect(expiries).toEqual([]);
+
+      await clock.advance(1);
+      expect(switcher.getLockState()).toBe('unlocked');
+      expect(switcher.getLockInfo().expiresAt).toBeNull();
+      expect(expiries).toEqual([
+        {
+          mode: 'active_master',
+          lockTime: start,
+          expiresAt: Date.UTC(2024, 0, 8, 18),
+          holder: DEFAULT_LOCK_HOLDER,
+          at: Date.UTC(2024, 0, 8, 18),
+        },
+      ]);
+    });
+
+    it('should end at the earliest of the end time, duration and max duration', () => {
+      switcher = new ManualModeSwitcher(
+        processingState,
+        { maxLockDuration: 2 * 60 * 60 * 1000 },
+        { clock }
+      );
+
+      switcher.lockMode('active_master', {
+        duration: 60 * 60 * 1000,
+        until: start + 90 * 60 * 1000,
+      });
+      expect(switcher.getLockInfo().expiresAt).toEqual(new Date(start + 60 * 60 * 1000));
+
+      switcher.lockMode('active_master', { duration: 3 * 60 * 60 * 1000 });
+      expect(switcher.getLockInfo().expiresAt).toEqual(new Date(start + 2 * 60 * 60 * 1000));
+    });
+
+    it('should reject locks that end before they start', () => {
+      expect(() => switcher.lockMode('active_master', { until: start })).toThrow(
+        'must end after it is taken'
+      );
+      expect(() => switcher.lockMode('active_master', { duration: 0 })).toThrow(
+        'must end after it is taken'
+      );
+      expect(switcher.getLockState()).toBe('unlocked');
+    });
+
+    it('should cancel the expiry when unlocked or locked again', async () => {
+      const onExpired = vi.fn();
+      switcher.onLockExpired(onExpired);
+
+      switcher.lockMode('active_master', { duration: 1000 });
+      switcher.unlockMode();
+      expect(clock.pendingTimers()).toBe(0);
+
+      switcher.lockMode('active_master', { duration: 1000 });
+      switcher.lockMode('active_master');
+      await clock.advance(2000);
+
+      expect(onExpired).not.toHaveBeenCalled();
+      expect(switcher.getLockState()).toBe('locked');
+    });
+
+    it('should journal the end of the lock and expire restored locks that ran out', async () => {
+      const services = createNodeServices({ clock });
+      switcher = new ManualModeSwitcher(processingState, {}, services);
+
+      switcher.lockMode('idle_worker', { duration: 1000 });
+      await clock.advance(0);
+      const journal = await services.journal.read();
+      expect(journal.at(-1)).toEqual({
+        type: 'lock',
+        lockedMode: 'idle_worker',
+        at: start,
+        expiresAt: start + 1000,
+        holder: DEFAULT_LOCK_HOLDER,
+      });
+
+      const restored = new ManualModeSwitcher(processingState, {}, { clock });
+      const onExpired = vi.fn();
+      restored.onLockExpired(onExpired);
+      restored.restoreLock('idle_worker', start - 5000, start - 1000);
+      await clock.advance(0);
+
+      expect(restored.getLockState()).toBe('unlocked');
+      expect(onExpired).toHaveBeenCalledWith({
+        mode: 'idle_worker',
+        lockTime: start - 5000,
+        expiresAt: start - 1000,
+        holder: DEFAULT_LOCK_HOLDER,
+      });
+    });
+  });
+
+  describe('Lock Ownership', () => {
+    const admin = { owner: 'cluster-admin', source: 'admin' as const };
+    const user = { owner: 'desk-owner', source: 'local' as const };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should record who locked the mode and why', () => {
+      switcher.lockMode('active_master', { ...user, reason: 'Rendering a demo' });
+
+      expect(switcher.getLockInfo()).toMatchObject({
+        owner: 'desk-owner',
+        source: 'local',
+        reason: 'Rendering a demo',
+      });
+    });
+
+    it('should lock as the local user by default', () => {
+      switcher.lockMode();
+
+      expect(switcher.getLockInfo()).toMatchObject(DEFAULT_LOCK_HOLDER);
+
+      switcher.unlockMode();
+      expect(switcher.getLockInfo()).toMatchObject({ owner: null, source: null, reason: null });
+    });
+
+    it('should let an admin lock override a user lock', () => {
+      switcher.lockMode('active_master', user);
+      switcher.lockMode('idle_worker', { ...admin, reason: 'Nightly batch' });
+
+      expect(switcher.getLockInfo()).toMatchObject({
+        lockedMode: 'idle_worker',
+        owner: 'cluster-admin',
+        source: 'admin',
+      });
+    });
+
+    it('should not let a user replace or release an admin lock', () => {
+      switcher.lockMode('idle_worker', { ...admin, reason: 'Nightly batch' });
+
+      expect(() => switcher.lockMode('active_master', user)).toThrow(LockHeldError);
+      expect(() => switcher.unlockMode(user)).toThrow(
+        'Mode lock held by cluster-admin (admin) cannot be released by desk-owner (local)'
+      );
+      expect(() => switcher.unlockMode()).toThrow(LockHeldError);
+      expect(switcher.getLockInfo()).toMatchObject({ lockedMode: 'idle_worker', source: 'admin' });
+
+      switcher.unlockMode(admin);
+      expect(switcher.getLockState()).toBe('unlocked');
+    });
+
+    it('should let a user take over a policy lock', () => {
+      switcher.lockMode('idle_worker', { owner: 'night-policy', source: 'policy' });
+
+      switcher.unlockMode(user);
+
+      expect(switcher.getLockState()).toBe('unlocked');
+    });
   });
 
   describe('Confirmation Workflow (FR-2.2.4)', () => {
@@ -281,6 +557,243 @@ describe('ManualModeSwitcher', () => {
       const pendingInfo = switcher.getPendingConfirmation();
       expect(pendingInfo).toBeNull();
     });
+
+    it('should keep several requests for the same mode pending', async () => {
+      switcher = new ManualModeSwitcher(processingState, { requireConfirmation: true });
+
+      await switcher.requestModeSwitch('idle_worker', 'first');
+      await switcher.requestModeSwitch('idle_worker', 'second');
+
+      expect(switcher.getPendingConfirmations().map((request) => request.requestId)).toEqual([
+        'first',
+        'second',
+      ]);
+      expect(switcher.getPendingConfirmation()!.requestId).toBe('second');
+      expect(switcher.getPendingConfirmation('first')!.targetMode).toBe('idle_worker');
+
+      await switcher.confirmModeSwitch('first');
+      expect(switcher.getCurrentMode()).toBe('idle_worker');
+      expect(switcher.getPendingConfirmations().map((request) => request.requestId)).toEqual([
+        'second',
+      ]);
+    });
+
+    it('should supersede pending requests for a different mode', async () => {
+      switcher = new ManualModeSwitcher(processingState, { requireConfirmation: true });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const superseded = vi.fn();
+      switcher.onConfirmationSuperseded(superseded);
+
+      await switcher.requestModeSwitch('idle_worker', 'worker');
+      await switcher.requestModeSwitch('standby', 'standby');
+
+      expect(superseded).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: 'worker', targetMode: 'idle_worker' }),
+        expect.objectContaining({ requestId: 'standby', targetMode: 'standby' })
+      );
+      expect(switcher.getPendingConfirmation('worker')).toBeNull();
+      await expect(switcher.confirmModeSwitch('worker')).rejects.toThrow(
+        'Invalid or expired request ID'
+      );
+    });
+
+    it('should cancel requests for other modes when the mode is locked', async () => {
+      switcher = new ManualModeSwitcher(processingState, { requireConfirmation: true });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const requestId = (await switcher.requestModeSwitch('idle_worker')) as string;
+      switcher.lockMode('active_master', { owner: 'ops', source: 'admin' });
+
+      expect(switcher.getPendingConfirmations()).toEqual([]);
+      await expect(switcher.confirmModeSwitch(requestId)).rejects.toThrow(
+        'Invalid or expired request ID'
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+    });
+
+    it('should keep requests for the locked mode confirmable', async () => {
+      switcher = new ManualModeSwitcher(processingState, { requireConfirmation: true });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const requestId = (await switcher.requestModeSwitch('standby')) as string;
+      switcher.lockMode('standby');
+      await switcher.confirmModeSwitch(requestId);
+
+      expect(switcher.getCurrentMode()).toBe('standby');
+    });
+
+    it('should expire unconfirmed requests after the TTL', async () => {
+      const clock = new VirtualClock(Date.UTC(2024, 0, 8, 9));
+      switcher = new ManualModeSwitcher(
+        processingState,
+        { requireConfirmation: true, confirmationTtl: 30 * 1000 },
+        { clock }
+      );
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const expired = vi.fn();
+      switcher.onConfirmationExpired(expired);
+
+      await switcher.requestModeSwitch('idle_worker', 'late');
+      await clock.advance(29 * 1000);
+      expect(switcher.getPendingConfirmation('late')!.remainingMs).toBe(1000);
+
+      await clock.advance(1000);
+      expect(expired).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: 'late', expiresAt: Date.UTC(2024, 0, 8, 9, 0, 30) })
+      );
+      expect(switcher.getPendingConfirmations()).toEqual([]);
+      await expect(switcher.confirmModeSwitch('late')).rejects.toThrow(
+        'Invalid or expired request ID'
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+    });
+  });
+
+  describe('Four-Eyes Approval', () => {
+    const start = Date.UTC(2024, 0, 8, 22);
+    let clock: VirtualClock;
+    let sessions: MockOperatorAuthenticator;
+    let services: ReturnType<typeof createNodeServices>;
+    let alice: string;
+    let bob: string;
+
+    beforeEach(() => {
+      clock = new VirtualClock(start);
+      sessions = new MockOperatorAuthenticator({}, {}, clock);
+      services = createNodeServices({ clock, sessions });
+      switcher = new ManualModeSwitcher(
+        processingState,
+        { requireApproval: true, approvers: ['alice', 'bob'] },
+        services
+      );
+      alice = sessions.open('alice').sessionId;
+      bob = sessions.open('bob').sessionId;
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should switch once a different approver confirms, recording both', async () => {
+      const listener = vi.fn();
+      switcher.onModeChange(listener);
+
+      const requestId = (await switcher.requestModeSwitch(
+        'idle_worker',
+        undefined,
+        alice
+      )) as string;
+      expect(switcher.getCurrentMode()).toBe('active_master');
+      expect(switcher.getPendingConfirmation(requestId)!.requestedBy).toBe('alice');
+
+      await clock.advance(5 * 1000);
+      await switcher.confirmModeSwitch(requestId, bob);
+
+      expect(switcher.getCurrentMode()).toBe('idle_worker');
+      expect(listener).toHaveBeenCalledWith(
+        'active_master',
+        'idle_worker',
+        'Manually switched to idle_worker (requested by alice, approved by bob)'
+      );
+      const intent = (await services.journal.read()).find((entry) => entry.type === 'intent');
+      expect(intent).toMatchObject({
+        approval: {
+          requestId,
+          targetMode: 'idle_worker',
+          requestedBy: 'alice',
+          requestedAt: start,
+          approvedBy: 'bob',
+          approvedAt: start + 5 * 1000,
+        },
+      });
+    });
+
+    it('should not let requesters approve their own request', async () => {
+      const requestId = (await switcher.requestModeSwitch(
+        'idle_worker',
+        undefined,
+        alice
+      )) as string;
+
+      await expect(switcher.confirmModeSwitch(requestId, alice)).rejects.toThrow(
+        ApprovalDeniedError
+      );
+      const otherSession = sessions.open('alice').sessionId;
+      await expect(switcher.confirmModeSwitch(requestId, otherSession)).rejects.toThrow(
+        'requesters cannot approve their own request'
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+      expect(switcher.getPendingConfirmation(requestId)).not.toBeNull();
+    });
+
+    it('should only accept listed approvers', async () => {
+      const requestId = (await switcher.requestModeSwitch(
+        'idle_worker',
+        undefined,
+        alice
+      )) as string;
+
+      const mallory = sessions.open('mallory').sessionId;
+      await expect(switcher.confirmModeSwitch(requestId, mallory)).rejects.toThrow(
+        'not an authorised approver'
+      );
+      await expect(switcher.confirmModeSwitch(requestId)).rejects.toThrow(
+        'the approver must be signed in'
+      );
+
+      await switcher.confirmModeSwitch(requestId, bob);
+      expect(switcher.getCurrentMode()).toBe('idle_worker');
+    });
+
+    it('should not take a typed name for a signed-in approver', async () => {
+      const requestId = (await switcher.requestModeSwitch(
+        'idle_worker',
+        undefined,
+        alice
+      )) as string;
+
+      await expect(switcher.confirmModeSwitch(requestId, 'bob')).rejects.toThrow(
+        'the approver must be signed in'
+      );
+      sessions.signOut(bob);
+      await expect(switcher.confirmModeSwitch(requestId, bob)).rejects.toThrow(
+        'the approver must be signed in'
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+
+      const records = await services.audit.query({ action: 'confirmation' });
+      expect(records.map((record) => record.details.outcome)).toEqual([
+        'requested',
+        'denied',
+        'denied',
+      ]);
+    });
+
+    it('should not switch on an approval given after an admin lock', async () => {
+      const requestId = (await switcher.requestModeSwitch(
+        'idle_worker',
+        undefined,
+        alice
+      )) as string;
+      switcher.lockMode('active_master', { owner: 'ops', source: 'admin' });
+
+      await expect(switcher.confirmModeSwitch(requestId, bob)).rejects.toThrow(
+        'Invalid or expired request ID'
+      );
+      expect(switcher.getCurrentMode()).toBe('active_master');
+      expect(switcher.getLockedMode()).toBe('active_master');
+    });
+
+    it('should require requests to come from a signed-in requester', async () => {
+      await expect(switcher.requestModeSwitch('idle_worker')).rejects.toThrow(
+        'must come from a signed-in requester'
+      );
+      await expect(
+        switcher.requestModeSwitch('idle_worker', undefined, 'alice')
+      ).rejects.toThrow('must come from a signed-in requester');
+
+      await clock.advance(DEFAULT_OPERATOR_SESSION_CONFIG.ttl);
+      await expect(switcher.requestModeSwitch('idle_worker', undefined, alice)).rejects.toThrow(
+        'must come from a signed-in requester'
+      );
+    });
   });
 
   describe('Mode Change Events', () => {
@@ -337,17 +850,15 @@ describe('ManualModeSwitcher', () => {
       // Request mode switch
       const requestId = (await switcher.requestModeSwitch('idle_worker')) as string;
 
-      // Lock current mode (should fail - request is pending)
+      // Lock current mode: the pending request can no longer be confirmed
       switcher.lockMode('active_master');
 
-      // Confirm the request
-      await switcher.confirmModeSwitch(requestId);
-
-      // Now mode should be switched
-      expect(switcher.getCurrentMode()).toBe('idle_worker');
+      await expect(switcher.confirmModeSwitch(requestId)).rejects.toThrow(
+        'Invalid or expired request ID'
+      );
 
-      // And lock should still be active on old mode
-      // (Lock was applied to the original mode before switch)
+      // The lock holds the node in the old mode
+      expect(switcher.getCurrentMode()).toBe('active_master');
       expect(switcher.getLockState()).toBe('locked');
       expect(switcher.getLockedMode()).toBe('active_master');
     });
@@ -0,0 +1,290 @@
+/**
+ * Tests for Mode Policy Engine
+ *
+ * @see src/mode-policy.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  PolicyEngine,
+  PolicyContext,
+  PolicyDecision,
+  businessHoursPolicy,
+  conditionPolicy,
+  thresholdPolicy,
+  firstOf,
+  MockMetricsSource,
+  sharedWorkerPolicy,
+} from '../src/mode-policy';
+import {
+  DEFAULT_MODE_SWITCH_CONFIG,
+  ModeSwitcher,
+  MockMasterProcessingState,
+  MockUserInputTracker,
+} from '../src/mode-switcher';
+import { createNodeServices } from '../src/node-services';
+
+const MINUTE = 60 * 1000;
+
+// Wednesday 2024-01-10, local time
+const WEDNESDAY_NOON = new Date(2024, 0, 10, 12, 0).getTime();
+const WEDNESDAY_NIGHT = new Date(2024, 0, 10, 22, 0).getTime();
+const SATURDAY_NOON = new Date(2024, 0, 13, 12, 0).getTime();
+
+function context(overrides: Partial<PolicyContext> = {}): PolicyContext {
+  return {
+    currentMode: 'active_master',
+    timeSinceInput: 0,
+    isProcessing: false,
+    pendingTasks: 0,
+    locked: false,
+    metrics: {},
+    now: WEDNESDAY_NIGHT,
+    config: DEFAULT_MODE_SWITCH_CONFIG,
+    ...overrides,
+  };
+}
+
+describe('PolicyEngine', () => {
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    engine = new PolicyEngine();
+  });
+
+  describe('Default policies', () => {
+    it('should stay master while the user is active', () => {
+      const decision = engine.evaluate(context({ timeSinceInput: 1000, isProcessing: true }));
+
+      expect(decision.mode).toBe('active_master');
+      expect(decision.policy).toBe('user-activity');
+    });
+
+    it('should stay master while master jobs are running', () => {
+      const busy = context({ timeSinceInput: 10 * MINUTE, isProcessing: true });
+
+      expect(engine.evaluate(busy)).toEqual({
+        mode: 'active_master',
+        policy: 'master-processing',
+        reason: 'Master jobs are running',
+      });
+    });
+
+    it('should go to standby, then worker as idle time grows', () => {
+      expect(engine.evaluate(context({ timeSinceInput: 5.5 * MINUTE })).mode).toBe('standby');
+
+      const decision = engine.evaluate(context({ timeSinceInput: 7 * MINUTE }));
+      expect(decision.mode).toBe('idle_worker');
+      expect(decision.policy).toBe('idle-time');
+      expect(decision.reason).toBe('Idle for 7min (threshold 6min)');
+    });
+  });
+
+  describe('Policy ordering', () => {
+    it('should let the first voting policy win', () => {
+      engine.use(conditionPolicy('always-standby', () => true, 'standby', 'pinned'), 0);
+
+      expect(engine.evaluate(context()).policy).toBe('always-standby');
+    });
+
+    it('should insert policies before a named policy', () => {
+      engine.useBefore('idle-time', businessHoursPolicy());
+
+      expect(engine.getPolicies().map((policy) => policy.name)).toEqual([
+        'user-activity',
+        'master-processing',
+        'business-hours',
+        'idle-time',
+      ]);
+    });
+
+    it('should keep the current mode when every policy abstains', () => {
+      engine.setPolicies([]);
+
+      expect(engine.evaluate(context({ currentMode: 'standby' }))).toEqual({
+        mode: 'standby',
+        policy: 'none',
+        reason: 'No policy voted',
+      });
+    });
+
+    it('should reject duplicate policy names', () => {
+      expect(() => engine.use(conditionPolicy('idle-time', () => true, 'standby', ''))).toThrow(
+        'already registered'
+      );
+    });
+
+    it('should remove policies by name', () => {
+      expect(engine.remove('master-processing')).toBe(true);
+      expect(engine.remove('master-processing')).toBe(false);
+
+      const busy = context({ timeSinceInput: 10 * MINUTE, isProcessing: true });
+      expect(engine.evaluate(busy).mode).toBe('idle_worker');
+    });
+  });
+
+  describe('Site policies', () => {
+    it('should never become worker during business hours', () => {
+      engine.useBefore('idle-time', businessHoursPolicy());
+      const idle = { timeSinceInput: 10 * MINUTE };
+
+      expect(engine.evaluate(context({ ...idle, now: WEDNESDAY_NOON })).mode).toBe('standby');
+      expect(engine.evaluate(context({ ...idle, now: WEDNESDAY_NIGHT })).mode).toBe('idle_worker');
+      expect(engine.evaluate(context({ ...idle, now: SATURDAY_NOON })).mode).toBe('idle_worker');
+    });
+
+    it('should stay master while a metric exceeds its threshold', () => {
+      let cpu = 45;
+      engine.use(thresholdPolicy('solidworks-cpu', () => cpu, 30, 'active_master'), 1);
+      const idle = context({ timeSinceInput: 10 * MINUTE });
+
+      expect(engine.evaluate(idle)).toEqual({
+        mode: 'active_master',
+        policy: 'solidworks-cpu',
+        reason: 'solidworks-cpu is 45 (> 30)',
+      });
+
+      cpu = 10;
+      expect(engine.evaluate(idle).mode).toBe('idle_worker');
+    });
+
+    it('should combine policies with firstOf', () => {
+      let onAc = false;
+      engine.useBefore(
+        'idle-time',
+        firstOf('power', [
+          conditionPolicy('battery', () => !onAc, 'standby', 'Running on battery'),
+        ])
+      );
+      const idle = context({ timeSinceInput: 10 * MINUTE });
+
+      expect(engine.evaluate(idle)).toEqual({
+        mode: 'standby',
+        policy: 'power',
+        reason: 'battery: Running on battery',
+      });
+
+      onAc = true;
+      expect(engine.evaluate(idle).mode).toBe('idle_worker');
+    });
+
+    it('should share a lightly loaded machine until the load rises', () => {
+      engine.useBefore('user-activity', sharedWorkerPolicy);
+      const active = { timeSinceInput: 1000 };
+
+      expect(engine.evaluate(context(active)).mode).toBe('active_master');
+      expect(engine.evaluate(context({ ...active, metrics: { foregroundCpu: 30 } })).mode).toBe(
+        'active_master'
+      );
+      expect(engine.evaluate(context({ ...active, metrics: { foregroundCpu: 10 } }))).toEqual({
+        mode: 'shared_worker',
+        policy: 'shared-worker',
+        reason: 'Foreground load 10% below 20%',
+      });
+
+      const sharing = { ...active, currentMode: 'shared_worker' as const };
+      expect(engine.evaluate(context({ ...sharing, metrics: { foregroundCpu: 30 } })).mode).toBe(
+        'shared_worker'
+      );
+      expect(engine.evaluate(context({ ...sharing, metrics: { foregroundCpu: 60 } })).mode).toBe(
+        'active_master'
+      );
+    });
+  });
+});
+
+describe('ModeSwitcher policies', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report the winning policy to mode change listeners', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const switcher = new ModeSwitcher(new MockUserInputTracker(), new MockMasterProcessingState(), {
+      pollInterval: 20,
+    });
+    switcher
+      .getPolicyEngine()
+      .use(conditionPolicy('maintenance-window', () => true, 'standby', 'Nightly backup'), 0);
+
+    const notifications: Array<[string, PolicyDecision | undefined]> = [];
+    switcher.onModeChange((_oldMode, _newMode, reason, decision) => {
+      notifications.push([reason, decision]);
+    });
+
+    switcher.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    switcher.stop();
+
+    expect(switcher.getCurrentMode()).toBe('standby');
+    expect(notifications[0]).toEqual([
+      'Switched from active_master to standby [maintenance-window: Nightly backup]',
+      { mode: 'standby', policy: 'maintenance-window', reason: 'Nightly backup' },
+    ]);
+  });
+
+  it('should give policies metrics and lock state', () => {
+    const metrics = new MockMetricsSource();
+    metrics.setMetric('cpu', 80);
+    metrics.setMetric('pendingTasks', 2);
+    const switcher = new ModeSwitcher(
+      new MockUserInputTracker(),
+      new MockMasterProcessingState(),
+      {},
+      { metrics }
+    );
+    switcher.getPolicyEngine().setPolicies([]);
+
+    const { context: state, steps, decision } = switcher.explainMode();
+
+    expect(state).toMatchObject({ metrics: { cpu: 80, pendingTasks: 2 }, pendingTasks: 2 });
+    expect(state.locked).toBe(false);
+    expect(steps).toEqual([]);
+    expect(decision.policy).toBe('none');
+  });
+
+  it('should not switch automatically while the node is under maintenance', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const services = createNodeServices();
+    const switcher = new ModeSwitcher(
+      new MockUserInputTracker(),
+      new MockMasterProcessingState(),
+      { pollInterval: 20 },
+      services
+    );
+    switcher
+      .getPolicyEngine()
+      .use(conditionPolicy('always-work', () => true, 'idle_worker', 'Render farm'), 0);
+    await services.transitions.transition('maintenance', { source: 'manual', reason: 'test' });
+
+    switcher.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    switcher.stop();
+
+    expect(switcher.getCurrentMode()).toBe('maintenance');
+  });
+
+  it('should drop out of shared worker mode as soon as the load rises', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const metrics = new MockMetricsSource();
+    metrics.setMetric('foregroundCpu', 5);
+    const switcher = new ModeSwitcher(
+      new MockUserInputTracker(),
+      new MockMasterProcessingState(),
+      { pollInterval: 300, sharedWorkerEnabled: true, sharedLoadCheckInterval: 20 },
+      { metrics }
+    );
+
+    switcher.start();
+    await vi.waitFor(() => expect(switcher.getCurrentMode()).toBe('shared_worker'), {
+      timeout: 1000,
+    });
+
+    // Well before the next regular poll
+    metrics.setMetric('foregroundCpu', 70);
+    await vi.waitFor(() => expect(switcher.getCurrentMode()).toBe('active_master'), {
+      timeout: 150,
+    });
+    switcher.stop();
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for Mode Simulation
+ *
+ * @see src/mode-simulation.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ModeSimulation,
+  ScriptedInputTracker,
+  ScriptedProcessingState,
+} from '../src/mode-simulation';
+import { VirtualClock } from '../src/clock';
+import { MockCoordinationClient } from '../src/coordination-service';
+import { TransitionGuard } from '../src/transition-guards';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+describe('ScriptedInputTracker', () => {
+  it('should report input during working periods and idle time after them', async () => {
+    const clock = new VirtualClock(0);
+    const tracker = new ScriptedInputTracker(clock, [{ from: HOUR, to: 2 * HOUR }]);
+
+    await clock.advance(30 * MINUTE);
+    expect(tracker.getTimeSinceLastInput()).toBe(30 * MINUTE);
+
+    await clock.advance(HOUR);
+    expect(tracker.getTimeSinceLastInput()).toBe(0);
+
+    await clock.advance(HOUR);
+    expect(tracker.getTimeSinceLastInput()).toBe(30 * MINUTE);
+  });
+});
+
+describe('ScriptedProcessingState', () => {
+  it('should report the job running at the current time', async () => {
+    const clock = new VirtualClock(0);
+    const state = new ScriptedProcessingState(clock, [
+      { id: 'render', from: HOUR, to: 2 * HOUR, pendingTasks: 3 },
+    ]);
+
+    expect(state.isProcessing()).toBe(false);
+    expect(state.getCurrentJobId()).toBeNull();
+
+    await clock.advance(HOUR);
+    expect(state.isProcessing()).toBe(true);
+    expect(state.getCurrentJobId()).toBe('render');
+    expect(state.getPendingTaskCount()).toBe(3);
+
+    await clock.advance(HOUR);
+    expect(state.isProcessing()).toBe(false);
+  });
+});
+
+describe('ModeSimulation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should replay a workday and produce the exact sequence of modes', async () => {
+    // 07:00 start: the desk owner works 08:00-12:00 and 13:00-17:30, then
+    // leaves a master job running until 18:30
+    const simulation = new ModeSimulation(
+      {
+        input: [
+          { from: 1 * HOUR, to: 5 * HOUR },
+          { from: 6 * HOUR, to: 10 * HOUR + 30 * MINUTE },
+        ],
+        jobs: [{ id: 'evening-batch', from: 10 * HOUR + 30 * MINUTE, to: 11 * HOUR + 30 * MINUTE }],
+      },
+      { start: Date.UTC(2024, 0, 8, 7) }
+    );
+
+    const result = await simulation.run(13 * HOUR);
+
+    expect(result.changes.map(({ at, from, to }) => ({ at: at / MINUTE, from, to }))).toEqual([
+      { at: 5, from: 'active_master', to: 'standby' },
+      { at: 6, from: 'standby', to: 'idle_worker' },
+      { at: 60, from: 'idle_worker', to: 'active_master' },
+      { at: 305, from: 'active_master', to: 'standby' },
+      { at: 306, from: 'standby', to: 'idle_worker' },
+      { at: 360, from: 'idle_worker', to: 'active_master' },
+      { at: 690, from: 'active_master', to: 'idle_worker' },
+    ]);
+    expect(result.modes).toEqual([
+      'active_master',
+      'standby',
+      'idle_worker',
+      'active_master',
+      'standby',
+      'idle_worker',
+      'active_master',
+      'idle_worker',
+    ]);
+    expect(result.changes.every((change) => change.source === 'auto')).toBe(true);
+    expect(result.finalMode).toBe('idle_worker');
+    expect(simulation.elapsed()).toBe(13 * HOUR);
+  });
+
+  it('should hold the node back within the master grace period', async () => {
+    // The user comes back for a minute, then leaves again
+    const simulation = new ModeSimulation({
+      input: [{ from: HOUR, to: HOUR + MINUTE }],
+    });
+    const holds: [number, string, string][] = [];
+    simulation.controller.onSuppressed((suppression) => {
+      holds.push([simulation.elapsed() / MINUTE, suppression.to, suppression.reason]);
+    });
+
+    const result = await simulation.run(2 * HOUR);
+
+    expect(result.changes.map(({ at, to }) => [at / MINUTE, to])).toEqual([
+      [5, 'standby'],
+      [6, 'idle_worker'],
+      [60, 'active_master'],
+      [75, 'idle_worker'],
+    ]);
+    expect(holds).toEqual([
+      [66, 'standby', 'master_grace'],
+      [67, 'idle_worker', 'master_grace'],
+    ]);
+  });
+
+  it('should hand back to automatic switching when a scripted lock ends', async () => {
+    const simulation = new ModeSimulation({
+      actions: [
+        {
+          at: 2 * MINUTE,
+          name: 'lock for half an hour',
+          run: (controller) => controller.lockMode('active_master', { duration: 30 * MINUTE }),
+        },
+      ],
+    });
+
+    await simulation.runUntil(31 * MINUTE);
+    expect(simulation.controller.getCurrentMode()).toBe('active_master');
+    expect(simulation.controller.getLockInfo()).toMatchObject({
+      state: 'locked',
+      elapsedMs: 29 * MINUTE,
+      remainingMs: MINUTE,
+    });
+
+    const result = await simulation.runUntil(HOUR);
+    expect(simulation.controller.getLockState()).toBe('unlocked');
+    expect(result.changes.map(({ at, to }) => [at / MINUTE, to])).toEqual([[32, 'idle_worker']]);
+  });
+
+  it('should end draining on the simulated clock', async () => {
+    const coordination = new MockCoordinationClient();
+    const simulation = new ModeSimulation(
+      {
+        actions: [
+          {
+            at: 2 * HOUR,
+            name: 'drain',
+            run: async (controller) => {
+              coordination.setLeasedTasks(['render:7']);
+              await controller.requestModeSwitch('draining');
+            },
+          },
+          { at: 3 * HOUR, name: 'task done', run: () => coordination.setLeasedTasks([]) },
+        ],
+      },
+      { services: { coordination } }
+    );
+
+    const result = await simulation.run(10 * HOUR);
+
+    const drain = result.changes.slice(2, 4);
+    expect(drain.map(({ at, to, source }) => [at / MINUTE, to, source])).toEqual([
+      [120, 'draining', 'manual'],
+      [180, 'active_master', 'auto'],
+    ]);
+  });
+
+  it('should wait out guard delays on the simulated clock', async () => {
+    let delays = 1;
+    const backup: TransitionGuard = {
+      name: 'backup',
+      check: () =>
+        delays-- > 0
+          ? { action: 'delay', reason: 'Backup running', retryAfter: 20 * MINUTE }
+          : { action: 'allow' },
+    };
+    const simulation = new ModeSimulation(
+      {},
+      { controller: { pipeline: { guardMaxDelay: HOUR } } }
+    );
+    simulation.controller.addGuard(backup);
+
+    const result = await simulation.run(HOUR);
+
+    // By the end of the delay the policies wanted a worker, not standby
+    expect(result.changes.map(({ at, to }) => [at / SECOND, to])).toEqual([
+      [25 * 60, 'idle_worker'],
+    ]);
+    expect(simulation.controller.isTransitioning()).toBe(false);
+  });
+
+  it('should record scripted actions that fail', async () => {
+    const simulation = new ModeSimulation({
+      jobs: [{ id: 'render', from: 0, to: HOUR }],
+      actions: [
+        {
+          at: 10 * MINUTE,
+          name: 'manual worker',
+          run: async (controller) => {
+            await controller.requestModeSwitch('idle_worker');
+          },
+        },
+      ],
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await simulation.run(20 * MINUTE);
+
+    expect(result.errors).toEqual([
+      {
+        at: 10 * MINUTE,
+        name: 'manual worker',
+        message: 'Cannot switch to worker mode while master jobs are processing',
+      },
+    ]);
+    expect(result.modes).toEqual(['active_master']);
+  });
+});
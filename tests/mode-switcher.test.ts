@@ -12,6 +12,9 @@ import {
   DEFAULT_MODE_SWITCH_CONFIG,
   NodeMode,
 } from '../src/mode-switcher';
+import { createNodeServices } from '../src/node-services';
+import { VirtualClock } from '../src/clock';
+import { ScriptedInputTracker } from '../src/mode-simulation';
 
 describe('ModeSwitcher', () => {
   let inputTracker: MockUserInputTracker;
@@ -44,6 +47,12 @@ describe('ModeSwitcher', () => {
     it('should not error when stop() is called before start()', () => {
       expect(() => switcher.stop()).not.toThrow();
     });
+
+    it('should refuse a switch timeout that is not a non-negative number', () => {
+      expect(
+        () => new ModeSwitcher(inputTracker, processingState, { switchTimeout: NaN })
+      ).toThrow('Switch timeout must be a non-negative number of milliseconds (got NaN)');
+    });
   });
 
   describe('Mode Determination (FR-2.2.3)', () => {
@@ -235,6 +244,151 @@ describe('ModeSwitcher', () => {
     });
   });
 
+  describe('Listener Isolation', () => {
+    it('should not report a failure when a listener throws', async () => {
+      const idleTracker = new MockUserInputTracker();
+      vi.spyOn(idleTracker, 'getTimeSinceLastInput').mockReturnValue(10 * 60 * 1000);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      switcher = new ModeSwitcher(idleTracker, processingState, { pollInterval: 20 });
+      const reasons: string[] = [];
+      switcher.onModeChange(() => {
+        throw new Error('listener bug');
+      });
+      switcher.onModeChange((_oldMode, _newMode, reason) => {
+        reasons.push(reason);
+      });
+
+      switcher.start();
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      expect(switcher.getCurrentMode()).toBe('idle_worker');
+      expect(reasons).toHaveLength(1);
+      expect(reasons[0]).toMatch(/^Switched from active_master to idle_worker/);
+      expect(console.error).toHaveBeenCalledWith('[ModeSwitcher] Listener failed: listener bug');
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('Single-flight Polling', () => {
+    it('should never run two switches at once', async () => {
+      const idleTracker = new MockUserInputTracker();
+      const idleTime = vi.spyOn(idleTracker, 'getTimeSinceLastInput');
+      idleTime.mockReturnValue(10 * 60 * 1000);
+      const services = createNodeServices();
+      vi.spyOn(services.worker, 'start').mockImplementation(
+        () => new Promise<void>((resolve) => setTimeout(resolve, 80))
+      );
+      const transition = services.transitions.transition.bind(services.transitions);
+      let running = 0;
+      let maxRunning = 0;
+      vi.spyOn(services.transitions, 'transition').mockImplementation(async (mode, request) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        try {
+          await transition(mode, request);
+        } finally {
+          running--;
+        }
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      switcher = new ModeSwitcher(
+        idleTracker,
+        processingState,
+        { pollInterval: 10, damping: { minDwellTime: { active_master: 0 } } },
+        services
+      );
+
+      switcher.start();
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(switcher.isTransitioning()).toBe(true);
+      idleTime.mockReturnValue(0);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(switcher.getCurrentMode()).toBe('active_master');
+      expect(maxRunning).toBe(1);
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('Transition Guards', () => {
+    it('should retry a vetoed switch on a later poll', async () => {
+      const idleTracker = new MockUserInputTracker();
+      vi.spyOn(idleTracker, 'getTimeSinceLastInput').mockReturnValue(10 * 60 * 1000);
+      const services = createNodeServices();
+      let saving = true;
+      services.transitions.addGuard({
+        name: 'simulation',
+        check: () =>
+          saving ? { action: 'veto', reason: 'Simulation study is saving' } : { action: 'allow' },
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      switcher = new ModeSwitcher(idleTracker, processingState, { pollInterval: 20 }, services);
+
+      switcher.start();
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(switcher.getCurrentMode()).toBe('active_master');
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Mode switch held back: Transition from active_master')
+      );
+
+      saving = false;
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(switcher.getCurrentMode()).toBe('idle_worker');
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('Virtual Clock', () => {
+    it('should cross the idle thresholds on the injected clock', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const clock = new VirtualClock(0);
+      const idleTracker = new ScriptedInputTracker(clock, []);
+      switcher = new ModeSwitcher(idleTracker, processingState, {}, { clock });
+      const modes: [number, NodeMode][] = [];
+      switcher.onModeChange((_oldMode, newMode) => {
+        modes.push([clock.now(), newMode]);
+      });
+
+      switcher.start();
+      await clock.advance(DEFAULT_MODE_SWITCH_CONFIG.activeThreshold - 1);
+      expect(switcher.getCurrentMode()).toBe('active_master');
+
+      await clock.advance(DEFAULT_MODE_SWITCH_CONFIG.idleThreshold);
+      switcher.stop();
+
+      expect(modes).toEqual([
+        [DEFAULT_MODE_SWITCH_CONFIG.activeThreshold, 'standby'],
+        [DEFAULT_MODE_SWITCH_CONFIG.idleThreshold, 'idle_worker'],
+      ]);
+      expect(clock.pendingTimers()).toBe(0);
+    });
+
+    it('should time out hung listeners on the injected clock', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const clock = new VirtualClock(0);
+      const idleTracker = new ScriptedInputTracker(clock, []);
+      const listenerTimeout = 60 * 1000;
+      switcher = new ModeSwitcher(
+        idleTracker,
+        processingState,
+        { listeners: { listenerTimeout } },
+        { clock }
+      );
+      switcher.onModeChange(() => new Promise<void>(() => {}));
+
+      switcher.start();
+      await clock.advance(DEFAULT_MODE_SWITCH_CONFIG.idleThreshold + listenerTimeout);
+      switcher.stop();
+
+      expect(switcher.getCurrentMode()).toBe('idle_worker');
+      expect(console.warn).toHaveBeenCalledWith(
+        `[ModeSwitcher] Listener did not finish within ${listenerTimeout}ms; moving on`
+      );
+    });
+  });
+
   describe('Configuration', () => {
     it('should apply custom configuration', () => {
       const customConfig = {
@@ -253,6 +407,25 @@ describe('ModeSwitcher', () => {
 
       customSwitcher.stop();
     });
+
+    it('should change settings on a running switcher', async () => {
+      const clock = new VirtualClock(0);
+      const idleTracker = new ScriptedInputTracker(clock, []);
+      switcher = new ModeSwitcher(idleTracker, processingState, {}, { clock });
+      const policyNames = () => switcher.getPolicyEngine().getPolicies().map((p) => p.name);
+      switcher.start();
+
+      switcher.configure({ sharedWorkerEnabled: true, idleThreshold: 60 * 60 * 1000 });
+      expect(policyNames()[0]).toBe('shared-worker');
+      expect(switcher.getConfig().idleThreshold).toBe(60 * 60 * 1000);
+
+      switcher.configure({ sharedWorkerEnabled: false });
+      expect(policyNames()).not.toContain('shared-worker');
+      expect(() => switcher.configure({ switchTimeout: -1 })).toThrow('Switch timeout');
+      expect(switcher.getConfig().switchTimeout).toBe(DEFAULT_MODE_SWITCH_CONFIG.switchTimeout);
+      switcher.stop();
+      expect(clock.pendingTimers()).toBe(0);
+    });
   });
 
   describe('Stop and Resume', () => {
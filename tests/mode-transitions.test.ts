@@ -0,0 +1,58 @@
+/**
+ * Tests for Allowed Mode Transitions
+ *
+ * @see src/mode-transitions.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MODE_TRANSITIONS,
+  TransitionNotAllowedError,
+  allowedTargets,
+  assertTransitionAllowed,
+  isTransitionAllowed,
+} from '../src/mode-transitions';
+import type { NodeMode } from '../src/mode-switcher';
+
+const MODES = Object.keys(MODE_TRANSITIONS) as NodeMode[];
+
+describe('Mode transitions', () => {
+  it('should always allow staying in the current mode', () => {
+    MODES.forEach((mode) => {
+      expect(isTransitionAllowed(mode, mode, 'auto')).toBe(true);
+    });
+  });
+
+  it('should let every mode return to active_master', () => {
+    MODES.filter((mode) => mode !== 'active_master').forEach((mode) => {
+      expect(isTransitionAllowed(mode, 'active_master', 'manual')).toBe(true);
+    });
+  });
+
+  it('should keep operator-only modes out of automatic switching', () => {
+    expect(allowedTargets('idle_worker', 'auto')).toEqual([
+      'active_master',
+      'standby',
+      'shared_worker',
+    ]);
+    expect(allowedTargets('maintenance', 'auto')).toEqual([]);
+    expect(allowedTargets('offline', 'auto')).toEqual([]);
+    expect(allowedTargets('draining', 'auto')).toEqual(['active_master']);
+  });
+
+  it('should only drain worker modes', () => {
+    expect(isTransitionAllowed('idle_worker', 'draining', 'manual')).toBe(true);
+    expect(isTransitionAllowed('shared_worker', 'draining', 'manual')).toBe(true);
+    expect(isTransitionAllowed('active_master', 'draining', 'manual')).toBe(false);
+    expect(isTransitionAllowed('idle_worker', 'maintenance', 'manual')).toBe(false);
+  });
+
+  it('should describe refused transitions', () => {
+    expect(() => assertTransitionAllowed('maintenance', 'idle_worker', 'manual')).toThrow(
+      TransitionNotAllowedError
+    );
+    expect(() => assertTransitionAllowed('active_master', 'maintenance', 'auto')).toThrow(
+      'Transition from active_master to maintenance is not allowed (auto)'
+    );
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Tests for Node Controller
+ *
+ * @see src/node-controller.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeController } from '../src/node-controller';
+import { MockUserInputTracker, MockMasterProcessingState } from '../src/mode-switcher';
+import { MockCoordinationClient } from '../src/coordination-service';
+import { MockTransitionJournal } from '../src/transition-journal';
+import { VirtualClock } from '../src/clock';
+import { BudgetValidationError } from '../src/transition-budgets';
+
+/**
+ * Input tracker reporting a fixed idle time
+ */
+class IdleInputTracker extends MockUserInputTracker {
+  public idleTime: number = 10 * 60 * 1000;
+
+  getTimeSinceLastInput(): number {
+    return this.idleTime;
+  }
+}
+
+describe('NodeController', () => {
+  let inputTracker: IdleInputTracker;
+  let processingState: MockMasterProcessingState;
+  let coordination: MockCoordinationClient;
+  let controller: NodeController;
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    inputTracker = new IdleInputTracker();
+    processingState = new MockMasterProcessingState();
+    coordination = new MockCoordinationClient();
+    controller = new NodeController(
+      inputTracker,
+      processingState,
+      { auto: { pollInterval: 20 } },
+      { coordination }
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    controller.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should switch automatically when started', async () => {
+    controller.start();
+    await wait(100);
+
+    expect(controller.getCurrentMode()).toBe('idle_worker');
+  });
+
+  it('should share one mode between automatic and manual switching', async () => {
+    await controller.requestModeSwitch('idle_worker');
+
+    inputTracker.idleTime = 0;
+    controller.start();
+    await wait(100);
+
+    expect(controller.getCurrentMode()).toBe('active_master');
+    expect(coordination.getNotifications().map((n) => n.available)).toEqual([true, false]);
+  });
+
+  it('should suppress automatic switching while locked', async () => {
+    controller.lockMode();
+    controller.start();
+    await wait(100);
+
+    expect(controller.getCurrentMode()).toBe('active_master');
+    expect(controller.getLockInfo().lockedMode).toBe('active_master');
+    expect(coordination.getNotifications()).toEqual([]);
+  });
+
+  it('should resume automatic switching after unlocking', async () => {
+    controller.lockMode();
+    controller.start();
+    await wait(60);
+
+    controller.unlockMode();
+    await wait(100);
+
+    expect(controller.getCurrentMode()).toBe('idle_worker');
+  });
+
+  it('should reject manual switches away from the locked mode', async () => {
+    controller.lockMode('active_master');
+
+    await expect(controller.requestModeSwitch('idle_worker')).rejects.toThrow('locked');
+    expect(controller.getCurrentMode()).toBe('active_master');
+  });
+
+  it('should keep the mode, lock and pending requests when reconfigured', async () => {
+    await controller.requestModeSwitch('standby');
+    controller.lockMode('standby');
+    await controller.configure({ manual: { requireConfirmation: true } });
+    const requestId = await controller.requestModeSwitch('standby');
+
+    await controller.configure({
+      auto: { switchTimeout: 8000 },
+      manual: { switchTimeout: 8000 },
+    });
+
+    expect(controller.getCurrentMode()).toBe('standby');
+    expect(controller.getLockInfo().lockedMode).toBe('standby');
+    expect(controller.getPendingConfirmations().map((request) => request.requestId)).toEqual([
+      requestId,
+    ]);
+    await controller.confirmModeSwitch(requestId!);
+  });
+
+  it('should change nothing when reconfigured with invalid budgets', async () => {
+    await expect(
+      controller.configure({ auto: { pollInterval: 5000 }, manual: { switchTimeout: NaN } })
+    ).rejects.toThrow(BudgetValidationError);
+
+    controller.start();
+    await wait(100);
+    expect(controller.getCurrentMode()).toBe('idle_worker');
+  });
+
+  it('should report the source of every mode change', async () => {
+    const changes: string[] = [];
+    controller.onModeChange((oldMode, newMode, _reason, source) => {
+      changes.push(`${source}:${oldMode}->${newMode}`);
+    });
+
+    await controller.requestModeSwitch('standby');
+    controller.start();
+    await wait(100);
+
+    expect(changes).toEqual(['manual:active_master->standby', 'auto:standby->idle_worker']);
+  });
+
+  it('should not let a hung mode change listener hold up the next switch', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    controller.onModeChange(() => new Promise(() => {}));
+    await controller.requestModeSwitch('idle_worker');
+
+    const started = Date.now();
+    await controller.requestModeSwitch('active_master');
+
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(controller.getCurrentMode()).toBe('active_master');
+  });
+
+  it('should deliver mode changes to an async iterable subscription', async () => {
+    const changes: string[] = [];
+    const subscription = controller.modeChanges();
+
+    await controller.requestModeSwitch('standby');
+    await controller.requestModeSwitch('active_master');
+
+    for await (const [oldMode, newMode, , source] of subscription) {
+      changes.push(`${source}:${oldMode}->${newMode}`);
+      if (newMode === 'active_master') break;
+    }
+    expect(changes).toEqual(['manual:active_master->standby', 'manual:standby->active_master']);
+  });
+
+  it('should measure the latency of manual and automatic switches', async () => {
+    await controller.requestModeSwitch('idle_worker');
+    await controller.requestModeSwitch('active_master');
+
+    const report = controller.getLatencyReport();
+    expect(report.edges.map((edge) => [edge.from, edge.to, edge.target, edge.total.count])).toEqual(
+      [
+        ['active_master', 'idle_worker', 5000, 1],
+        ['idle_worker', 'active_master', 2000, 1],
+      ]
+    );
+    expect(report.edges[1].compliance[0]).toMatchObject({ total: 1, met: 1, compliant: true });
+  });
+
+  it('should report latency on the injected clock', async () => {
+    controller = new NodeController(
+      inputTracker,
+      processingState,
+      {},
+      { coordination, clock: new VirtualClock() }
+    );
+
+    await controller.requestModeSwitch('idle_worker');
+
+    const [edge] = controller.getLatencyReport().edges;
+    expect(edge.compliance[0]).toMatchObject({ total: 1, met: 1 });
+  });
+
+  it('should restore the mode and lock after a restart', async () => {
+    const journal = new MockTransitionJournal();
+    const lockTime = Date.now() - 60 * 1000;
+    journal.setEntries([
+      {
+        type: 'intent',
+        id: 1,
+        from: 'active_master',
+        to: 'standby',
+        source: 'manual',
+        reason: 'test',
+        at: lockTime,
+      },
+      { type: 'complete', id: 1, at: lockTime },
+      { type: 'lock', lockedMode: 'standby', at: lockTime },
+    ]);
+    controller = new NodeController(inputTracker, processingState, {}, { coordination, journal });
+
+    const report = await controller.recover();
+    controller.start();
+    await wait(100);
+
+    expect(report.mode).toBe('standby');
+    expect(controller.getCurrentMode()).toBe('standby');
+    expect(controller.getLockInfo()).toMatchObject({
+      state: 'locked',
+      lockedMode: 'standby',
+      lockTime: new Date(lockTime),
+    });
+  });
+
+  it('should restore who held the lock after a restart', async () => {
+    const journal = new MockTransitionJournal();
+    const holder = { owner: 'cluster-admin', source: 'admin' as const, reason: 'Nightly batch' };
+    journal.setEntries([{ type: 'lock', lockedMode: 'active_master', at: Date.now(), holder }]);
+    controller = new NodeController(inputTracker, processingState, {}, { coordination, journal });
+
+    await controller.recover();
+
+    expect(controller.getLockInfo()).toMatchObject(holder);
+    expect(() => controller.unlockMode()).toThrow('cannot be released');
+  });
+
+  it('should keep a restored timed lock until its end, then switch automatically', async () => {
+    const journal = new MockTransitionJournal();
+    const lockTime = Date.now() - 60 * 1000;
+    journal.setEntries([
+      { type: 'lock', lockedMode: 'active_master', at: lockTime, expiresAt: Date.now() + 100 },
+    ]);
+    controller = new NodeController(
+      inputTracker,
+      processingState,
+      { auto: { pollInterval: 20 } },
+      { coordination, journal }
+    );
+    const onExpired = vi.fn();
+    controller.onLockExpired(onExpired);
+
+    await controller.recover();
+    controller.start();
+    await wait(50);
+    expect(controller.getCurrentMode()).toBe('active_master');
+    expect(controller.getLockInfo().remainingMs).toBeGreaterThan(0);
+
+    await wait(150);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(controller.getLockState()).toBe('unlocked');
+    expect(controller.getCurrentMode()).toBe('idle_worker');
+  });
+});
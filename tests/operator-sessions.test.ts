@@ -0,0 +1,57 @@
+/**
+ * Tests for Operator Sessions
+ *
+ * @see src/operator-sessions.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MockOperatorAuthenticator, SignInError } from '../src/operator-sessions';
+import { VirtualClock } from '../src/clock';
+
+const MINUTE = 60 * 1000;
+
+describe('MockOperatorAuthenticator', () => {
+  let clock: VirtualClock;
+  let sessions: MockOperatorAuthenticator;
+
+  beforeEach(() => {
+    clock = new VirtualClock(0);
+    sessions = new MockOperatorAuthenticator({ bob: 'hunter2' }, { ttl: 15 * MINUTE }, clock);
+  });
+
+  it('should sign in users with a matching credential', async () => {
+    const session = await sessions.signIn('bob', 'hunter2');
+
+    expect(session).toMatchObject({ user: 'bob', openedAt: 0, expiresAt: 15 * MINUTE });
+    expect(sessions.resolve(session.sessionId)).toEqual(session);
+  });
+
+  it('should refuse unknown users and wrong credentials', async () => {
+    await expect(sessions.signIn('bob', 'wrong')).rejects.toThrow(SignInError);
+    await expect(sessions.signIn('mallory', 'hunter2')).rejects.toThrow(SignInError);
+    await expect(sessions.signIn('toString', '')).rejects.toThrow(SignInError);
+  });
+
+  it('should give every sign-in a session of its own', async () => {
+    const first = await sessions.signIn('bob', 'hunter2');
+    const second = await sessions.signIn('bob', 'hunter2');
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+  });
+
+  it('should end sessions when signed out or expired', async () => {
+    const signedOut = await sessions.signIn('bob', 'hunter2');
+    sessions.signOut(signedOut.sessionId);
+    expect(sessions.resolve(signedOut.sessionId)).toBeNull();
+
+    const expiring = await sessions.signIn('bob', 'hunter2');
+    await clock.advance(15 * MINUTE - 1);
+    expect(sessions.resolve(expiring.sessionId)).not.toBeNull();
+    await clock.advance(1);
+    expect(sessions.resolve(expiring.sessionId)).toBeNull();
+  });
+
+  it('should not resolve made-up session IDs', () => {
+    expect(sessions.resolve('bob')).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for Pending Confirmations
+ *
+ * @see src/pending-confirmations.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PendingConfirmationStore } from '../src/pending-confirmations';
+import { VirtualClock } from '../src/clock';
+
+const SECOND = 1000;
+
+describe('PendingConfirmationStore', () => {
+  let clock: VirtualClock;
+  let store: PendingConfirmationStore;
+
+  beforeEach(() => {
+    clock = new VirtualClock(0);
+    store = new PendingConfirmationStore(clock, { ttl: 60 * SECOND });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should list pending requests oldest first with their age', async () => {
+    store.add('a', 'idle_worker');
+    await clock.advance(10 * SECOND);
+    store.add('b', 'idle_worker');
+    await clock.advance(5 * SECOND);
+
+    expect(store.list()).toEqual([
+      {
+        requestId: 'a',
+        targetMode: 'idle_worker',
+        requestedBy: null,
+        requestedAt: 0,
+        expiresAt: 60 * SECOND,
+        age: 15 * SECOND,
+        remainingMs: 45 * SECOND,
+      },
+      {
+        requestId: 'b',
+        targetMode: 'idle_worker',
+        requestedBy: null,
+        requestedAt: 10 * SECOND,
+        expiresAt: 70 * SECOND,
+        age: 5 * SECOND,
+        remainingMs: 55 * SECOND,
+      },
+    ]);
+    expect(store.latest()!.requestId).toBe('b');
+    expect(store.size).toBe(2);
+  });
+
+  it('should reject a duplicate request ID', () => {
+    store.add('a', 'idle_worker');
+
+    expect(() => store.add('a', 'idle_worker')).toThrow('Request a is already pending');
+  });
+
+  it('should hand out a request once', () => {
+    store.add('a', 'standby');
+
+    expect(store.take('a')).toMatchObject({ requestId: 'a', targetMode: 'standby' });
+    expect(store.take('a')).toBeNull();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('should expire requests after the TTL and tell listeners', async () => {
+    const expired = vi.fn();
+    store.onExpired(expired);
+    store.add('a', 'idle_worker');
+
+    await clock.advance(60 * SECOND);
+
+    expect(expired).toHaveBeenCalledWith({
+      requestId: 'a',
+      targetMode: 'idle_worker',
+      requestedBy: null,
+      requestedAt: 0,
+      expiresAt: 60 * SECOND,
+    });
+    expect(store.get('a')).toBeNull();
+    expect(store.take('a')).toBeNull();
+  });
+
+  it('should keep requests forever with a TTL of 0', async () => {
+    store = new PendingConfirmationStore(clock, { ttl: 0 });
+    store.add('a', 'idle_worker');
+
+    await clock.advance(24 * 60 * 60 * SECOND);
+
+    expect(store.get('a')).toMatchObject({ expiresAt: null, remainingMs: null });
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('should supersede requests for other modes only', () => {
+    const superseded = vi.fn();
+    store.onSuperseded(superseded);
+    store.add('worker', 'idle_worker');
+    store.add('standby-1', 'standby');
+    store.add('standby-2', 'standby');
+
+    expect(superseded).toHaveBeenCalledTimes(1);
+    expect(superseded).toHaveBeenCalledWith(
+      expect.objectContaining({ requestId: 'worker' }),
+      expect.objectContaining({ requestId: 'standby-1' })
+    );
+    expect(store.list().map((request) => request.requestId)).toEqual(['standby-1', 'standby-2']);
+  });
+
+  it('should stop the expiry of cancelled requests', async () => {
+    const expired = vi.fn();
+    store.onExpired(expired);
+    store.add('a', 'idle_worker');
+
+    expect(store.cancel('a')).toBe(true);
+    expect(store.cancel('a')).toBe(false);
+    await clock.advance(60 * SECOND);
+
+    expect(expired).not.toHaveBeenCalled();
+  });
+
+  it('should keep the requester session out of the listed requests', async () => {
+    const request = store.add('a', 'idle_worker', 'alice', 'session-1');
+
+    expect(store.sessionOf('a')).toBe('session-1');
+    expect(request).not.toHaveProperty('session');
+    expect(JSON.stringify(store.list())).not.toContain('session-1');
+
+    await clock.advance(60 * SECOND);
+    expect(store.sessionOf('a')).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for Policy Rule File
+ *
+ * @see src/policy-rule-file.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile, rename } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PolicyRuleFile, RuleFileEvent } from '../src/policy-rule-file';
+import { RulesPolicy } from '../src/policy-rules';
+import {
+  ModeSwitcher,
+  MockMasterProcessingState,
+  MockUserInputTracker,
+} from '../src/mode-switcher';
+
+const STANDBY_RULES = `version: 1
+rules:
+  - name: pin-standby
+    mode: standby
+    reason: Pinned by admin
+`;
+
+const MASTER_RULES = `{
+  "version": 1,
+  "rules": [{ "name": "pin-master", "mode": "active_master" }]
+}
+`;
+
+describe('PolicyRuleFile', () => {
+  let dir: string;
+  let path: string;
+  let policy: RulesPolicy;
+  let ruleFile: PolicyRuleFile;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'policy-rules-'));
+    path = join(dir, 'rules.yaml');
+    policy = new RulesPolicy();
+    ruleFile = new PolicyRuleFile(policy, { path, debounce: 20 });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    ruleFile.close();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load the rule file', async () => {
+    await writeFile(path, STANDBY_RULES);
+
+    const event = await ruleFile.load();
+
+    expect(event.type).toBe('loaded');
+    expect(policy.getRuleSet().rules.map((rule) => rule.name)).toEqual(['pin-standby']);
+    expect(policy.getRuleSet().source).toBe(path);
+  });
+
+  it('should reject an invalid file and keep the last good rules', async () => {
+    await writeFile(path, STANDBY_RULES);
+    await ruleFile.load();
+
+    await writeFile(path, 'version: 1\nrules:\n  - name: broken\n    mode: turbo\n');
+    const event = await ruleFile.load();
+
+    expect(event.type).toBe('rejected');
+    if (event.type === 'rejected') {
+      expect(event.issues).toEqual([expect.objectContaining({ line: 4, path: 'rules[0].mode' })]);
+      expect(event.ruleSet.rules[0].name).toBe('pin-standby');
+    }
+    expect(policy.getRuleSet().rules[0].name).toBe('pin-standby');
+  });
+
+  it('should reject a missing file', async () => {
+    const event = await ruleFile.load();
+
+    expect(event.type).toBe('rejected');
+    expect(policy.getRuleSet().rules).toEqual([]);
+  });
+
+  it('should reload when the file changes', async () => {
+    await writeFile(path, STANDBY_RULES);
+    await ruleFile.load();
+    const events: RuleFileEvent[] = [];
+    ruleFile.onChange((event) => events.push(event));
+    ruleFile.watch();
+
+    // Save by replacing the file, as many editors do
+    await writeFile(join(dir, 'rules.yaml.tmp'), MASTER_RULES);
+    await rename(join(dir, 'rules.yaml.tmp'), path);
+
+    await vi.waitFor(() => expect(policy.getRuleSet().rules[0]?.name).toBe('pin-master'), {
+      timeout: 2000,
+    });
+    expect(events.at(-1)?.type).toBe('loaded');
+  });
+
+  it('should apply reloaded rules to a running mode switcher', async () => {
+    await writeFile(path, STANDBY_RULES);
+    await ruleFile.load();
+    ruleFile.watch();
+
+    const switcher = new ModeSwitcher(new MockUserInputTracker(), new MockMasterProcessingState(), {
+      pollInterval: 20,
+    });
+    switcher.getPolicyEngine().use(policy, 0);
+    switcher.start();
+
+    try {
+      await vi.waitFor(() => expect(switcher.getCurrentMode()).toBe('standby'), { timeout: 1000 });
+
+      await writeFile(path, MASTER_RULES);
+      await vi.waitFor(() => expect(switcher.getCurrentMode()).toBe('active_master'), {
+        timeout: 2000,
+      });
+      expect(switcher.explainMode().decision.reason).toBe('rule pin-master: Rule pin-master');
+    } finally {
+      switcher.stop();
+    }
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for Declarative Policy Rules
+ *
+ * @see src/policy-rules.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRuleSet, RulesPolicy, RuleValidationError } from '../src/policy-rules';
+import { PolicyContext, PolicyEngine, formatPolicyTrace } from '../src/mode-policy';
+import { DEFAULT_MODE_SWITCH_CONFIG } from '../src/mode-switcher';
+
+const MINUTE = 60 * 1000;
+
+// Wednesday 2024-01-10, local time
+const WEDNESDAY_NOON = new Date(2024, 0, 10, 12, 0).getTime();
+const WEDNESDAY_NIGHT = new Date(2024, 0, 10, 23, 30).getTime();
+const SATURDAY_NOON = new Date(2024, 0, 13, 12, 0).getTime();
+
+const RULES_YAML = `version: 1
+rules:
+  - name: office-hours
+    mode: standby
+    reason: Keep workstations free during the working day
+    when:
+      days: [mon, tue, wed, thu, fri]
+      timeOfDay: { from: "09:00", to: "18:00" }
+      idleTime: { gte: 5m }
+  - name: busy-cpu
+    mode: active_master
+    when:
+      cpu: { gt: 30 }
+  - name: night-worker
+    mode: idle_worker
+    when:
+      timeOfDay: { from: "22:00", to: "06:00" }
+      pendingTasks: { eq: 0 }
+      locked: false
+`;
+
+function context(overrides: Partial<PolicyContext> = {}): PolicyContext {
+  return {
+    currentMode: 'active_master',
+    timeSinceInput: 10 * MINUTE,
+    isProcessing: false,
+    pendingTasks: 0,
+    locked: false,
+    metrics: { cpu: 5 },
+    now: WEDNESDAY_NOON,
+    config: DEFAULT_MODE_SWITCH_CONFIG,
+    ...overrides,
+  };
+}
+
+function validationIssues(text: string) {
+  try {
+    parseRuleSet(text, 'rules.yaml');
+  } catch (error) {
+    expect(error).toBeInstanceOf(RuleValidationError);
+    return (error as RuleValidationError).issues;
+  }
+  throw new Error('Expected the rule set to be rejected');
+}
+
+describe('parseRuleSet', () => {
+  it('should parse a YAML rule set', () => {
+    const ruleSet = parseRuleSet(RULES_YAML, 'rules.yaml');
+
+    expect(ruleSet.source).toBe('rules.yaml');
+    expect(ruleSet.rules.map((rule) => [rule.name, rule.line])).toEqual([
+      ['office-hours', 3],
+      ['busy-cpu', 10],
+      ['night-worker', 14],
+    ]);
+    expect(ruleSet.rules[0].when).toEqual({
+      days: [1, 2, 3, 4, 5],
+      timeOfDay: { from: 9 * 60, to: 18 * 60 },
+      idleTime: { gte: 5 * MINUTE },
+    });
+    expect(ruleSet.rules[1].reason).toBe('Rule busy-cpu');
+  });
+
+  it('should parse a JSON rule set', () => {
+    const json = JSON.stringify({
+      version: 1,
+      rules: [{ name: 'queue', mode: 'idle_worker', when: { metrics: { queue: { gte: 10 } } } }],
+    });
+
+    expect(parseRuleSet(json).rules[0].when).toEqual({ metrics: { queue: { gte: 10 } } });
+  });
+
+  it('should report schema errors with their line and column', () => {
+    const issues = validationIssues(`version: 1
+rules:
+  - name: a
+    mode: turbo
+  - name: b
+    mode: standby
+    when:
+      cpu: { above: 30 }
+      idleTime: { gt: soon }
+`);
+
+    expect(issues).toEqual([
+      expect.objectContaining({ line: 4, column: 11, path: 'rules[0].mode' }),
+      expect.objectContaining({ line: 8, column: 14, path: 'rules[1].when.cpu.above' }),
+      expect.objectContaining({ line: 9, column: 23, path: 'rules[1].when.idleTime.gt' }),
+    ]);
+    expect(issues[0].message).toContain('Unknown mode "turbo"');
+  });
+
+  it('should report syntax errors with their line', () => {
+    const issues = validationIssues('version: 1\nrules:\n  - name: a\n   mode: [standby\n');
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues[0].line).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should format every issue into the error message', () => {
+    expect(() => parseRuleSet('version: 2\nrules: []\n', 'rules.yaml')).toThrow(
+      'rules.yaml:1:10: Unsupported version (expected 1) (at version)'
+    );
+  });
+
+  it('should reject duplicate rule names and invalid times', () => {
+    const issues = validationIssues(`version: 1
+rules:
+  - { name: a, mode: standby }
+  - { name: a, mode: standby, when: { timeOfDay: { from: "25:00", to: "06:00" } } }
+`);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Invalid time "25:00" (use HH:MM)',
+    ]);
+
+    const duplicates = validationIssues(`version: 1
+rules:
+  - { name: a, mode: standby }
+  - { name: a, mode: standby }
+`);
+    expect(duplicates[0]).toMatchObject({ line: 4, message: 'Duplicate rule name: a' });
+  });
+});
+
+describe('RulesPolicy', () => {
+  it('should vote with the first matching rule', () => {
+    const policy = new RulesPolicy(parseRuleSet(RULES_YAML));
+
+    expect(policy.evaluate(context())).toEqual({
+      mode: 'standby',
+      reason: 'rule office-hours: Keep workstations free during the working day',
+    });
+    expect(policy.evaluate(context({ now: SATURDAY_NOON, metrics: { cpu: 45 } }))?.mode).toBe(
+      'active_master'
+    );
+    expect(policy.evaluate(context({ now: WEDNESDAY_NIGHT }))?.mode).toBe('idle_worker');
+  });
+
+  it('should abstain when no rule matches', () => {
+    const policy = new RulesPolicy(parseRuleSet(RULES_YAML));
+
+    expect(policy.evaluate(context({ now: SATURDAY_NOON }))).toBeNull();
+    expect(policy.evaluate(context({ now: WEDNESDAY_NIGHT, locked: true }))).toBeNull();
+  });
+
+  it('should not match metric conditions when the metric is unavailable', () => {
+    const policy = new RulesPolicy(parseRuleSet(RULES_YAML));
+
+    expect(policy.evaluate(context({ now: SATURDAY_NOON, metrics: {} }))).toBeNull();
+  });
+
+  it('should keep the last good rule set when a load fails', () => {
+    const policy = new RulesPolicy();
+    policy.load(RULES_YAML, 'rules.yaml');
+
+    expect(() => policy.load('version: 1\nrules: nope\n', 'rules.yaml')).toThrow(
+      RuleValidationError
+    );
+    expect(policy.getRuleSet().rules).toHaveLength(3);
+  });
+
+  it('should explain each rule it checked', () => {
+    const engine = new PolicyEngine();
+    engine.useBefore('idle-time', new RulesPolicy(parseRuleSet(RULES_YAML, 'rules.yaml')));
+
+    const trace = engine.explain(context({ now: SATURDAY_NOON, metrics: { cpu: 45 } }));
+
+    expect(trace.decision.policy).toBe('rules');
+    expect(trace.steps.map((step) => step.policy)).toEqual([
+      'user-activity',
+      'master-processing',
+      'rules',
+    ]);
+    expect(trace.steps[2].details).toEqual([
+      '3 rule(s) from rules.yaml',
+      'rule office-hours (line 3) -> standby: not matched ' +
+        '(idleTime 10min >= 5min: yes; timeOfDay 12:00 in 09:00-18:00: yes; ' +
+        'day sat in [mon,tue,wed,thu,fri]: no)',
+      'rule busy-cpu (line 10) -> active_master: matched (cpu 45 > 30: yes)',
+    ]);
+    expect(formatPolicyTrace(trace)).toContain('3. rules: voted active_master');
+  });
+});
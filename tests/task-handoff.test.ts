@@ -0,0 +1,207 @@
+/**
+ * Tests for Task Handoff
+ *
+ * @see src/task-handoff.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TaskHandoff, TaskHandoffError } from '../src/task-handoff';
+import { VirtualClock } from '../src/clock';
+import { CoordinationServer } from '../src/coordination-server';
+import {
+  HttpCoordinationClient,
+  MockCoordinationClient,
+  HandoffAck,
+} from '../src/coordination-service';
+import { ManualModeSwitcher } from '../src/manual-mode-switcher';
+import {
+  ModeSwitcher,
+  MockMasterProcessingState,
+  MockUserInputTracker,
+} from '../src/mode-switcher';
+
+/**
+ * Coordination client whose handoffs fail a given number of times
+ */
+class FlakyCoordinationClient extends MockCoordinationClient {
+  public attempts: number = 0;
+
+  constructor(
+    private failures: number,
+    private remaining: string[] = []
+  ) {
+    super();
+  }
+
+  async handOffTasks(taskIds?: string[]): Promise<HandoffAck> {
+    this.attempts += 1;
+    if (this.attempts <= this.failures) {
+      throw new Error('coordination service unreachable');
+    }
+
+    const ack = await super.handOffTasks(taskIds);
+    return { ...ack, remaining: this.attempts <= this.failures + 1 ? this.remaining : [] };
+  }
+}
+
+describe('TaskHandoff', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve with the acknowledgement', async () => {
+    const client = new MockCoordinationClient();
+    client.setLeasedTasks(['job-1:0', 'job-1:1']);
+    const handoff = new TaskHandoff(client);
+    const listener = vi.fn();
+    handoff.onHandoff(listener);
+
+    const ack = await handoff.handOff();
+
+    expect(ack.tasks.map((task) => task.taskId)).toEqual(['job-1:0', 'job-1:1']);
+    expect(listener).toHaveBeenCalledWith(ack);
+    expect(handoff.hasPendingHandoff()).toBe(false);
+  });
+
+  it('should retry in the background until the handoff succeeds', async () => {
+    const client = new FlakyCoordinationClient(2);
+    const handoff = new TaskHandoff(client, { retryInterval: 100 });
+    const listener = vi.fn();
+    handoff.onHandoff(listener);
+
+    await expect(handoff.handOff()).rejects.toThrow('unreachable');
+    expect(handoff.hasPendingHandoff()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(client.attempts).toBe(3);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(handoff.hasPendingHandoff()).toBe(false);
+  });
+
+  it('should retry on the given clock', async () => {
+    vi.useRealTimers();
+    const clock = new VirtualClock();
+    const client = new FlakyCoordinationClient(1);
+    const handoff = new TaskHandoff(client, { retryInterval: 100 }, clock);
+
+    await expect(handoff.handOff()).rejects.toThrow('unreachable');
+    await clock.advance(99);
+    expect(client.attempts).toBe(1);
+
+    await clock.advance(1);
+    expect(client.attempts).toBe(2);
+    expect(handoff.hasPendingHandoff()).toBe(false);
+  });
+
+  it('should fail while the service still holds tasks for the node', async () => {
+    const client = new FlakyCoordinationClient(0, ['job-1:0']);
+    const handoff = new TaskHandoff(client, { retryInterval: 100 });
+
+    await expect(handoff.handOff()).rejects.toBeInstanceOf(TaskHandoffError);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(client.attempts).toBe(2);
+    expect(handoff.hasPendingHandoff()).toBe(false);
+  });
+
+  it('should share a handoff that is already in flight', async () => {
+    const client = new FlakyCoordinationClient(0);
+    const handoff = new TaskHandoff(client);
+
+    await Promise.all([handoff.handOff(), handoff.handOff()]);
+
+    expect(client.attempts).toBe(1);
+  });
+
+  it('should stop retrying when disposed', async () => {
+    const client = new FlakyCoordinationClient(5);
+    const handoff = new TaskHandoff(client, { retryInterval: 100 });
+
+    await expect(handoff.handOff()).rejects.toThrow();
+    handoff.dispose();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(client.attempts).toBe(1);
+  });
+});
+
+describe('Task handoff during mode switches', () => {
+  let server: CoordinationServer;
+  let client: HttpCoordinationClient;
+
+  beforeEach(async () => {
+    server = new CoordinationServer({ port: 0, heartbeatTimeout: 5000 });
+    const address = await server.start();
+    client = new HttpCoordinationClient({
+      baseUrl: `http://127.0.0.1:${address.port}`,
+      nodeId: 'worker-1',
+      hostname: 'ws-02',
+      heartbeatInterval: 0,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await client.unregister().catch(() => {});
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should return leased tasks when the user reclaims a worker', async () => {
+    const switcher = new ManualModeSwitcher(new MockMasterProcessingState(), {}, {
+      coordination: client,
+    });
+    server.getRegistry().register({ nodeId: 'worker-2', hostname: 'ws-03', mode: 'standby' });
+
+    await switcher.requestModeSwitch('idle_worker');
+    server.getQueue().submit({ id: 'job-1', type: 'render', owner: 'master-1', tasks: [1, 2] });
+    server.getScheduler().schedule();
+    expect(server.getQueue().listAssignedTasks('worker-1')).toHaveLength(1);
+
+    server.getRegistry().applyEvent('worker-2', 'worker_available', true);
+    await switcher.requestModeSwitch('active_master');
+
+    expect(server.getQueue().listAssignedTasks('worker-1')).toHaveLength(0);
+    expect(server.getQueue().listAssignedTasks('worker-2')).toHaveLength(1);
+  });
+
+  it('should complete the automatic Worker to Master switch after the ack', async () => {
+    const inputTracker = new MockUserInputTracker();
+    const processingState = new MockMasterProcessingState();
+    const switcher = new ModeSwitcher(
+      inputTracker,
+      processingState,
+      { activeThreshold: 100, standbyThreshold: 100, idleThreshold: 100, pollInterval: 20 },
+      { coordination: client }
+    );
+    const reasons: string[] = [];
+    switcher.onModeChange((_oldMode, _newMode, reason) => {
+      reasons.push(reason);
+    });
+
+    switcher.start();
+    await vi.waitFor(() => expect(switcher.getCurrentMode()).toBe('idle_worker'), {
+      timeout: 2000,
+    });
+    server.getQueue().submit({ id: 'job-1', type: 'render', owner: 'master-1', tasks: [1] });
+    server.getScheduler().schedule();
+
+    inputTracker.resetLastInput();
+    await vi.waitFor(() => expect(switcher.getCurrentMode()).toBe('active_master'), {
+      timeout: 2000,
+    });
+    switcher.stop();
+
+    expect(reasons[reasons.length - 1]).toMatch(
+      /^Switched from idle_worker to active_master \[user-activity: /
+    );
+    expect(server.getQueue().getTask('job-1:0')!.status).toBe('pending');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Transition Timing Budgets
+ *
+ * @see src/transition-budgets.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BudgetValidationError,
+  RECLAIM_BUDGET,
+  budgetFor,
+  createBudgetTable,
+  defaultBudget,
+  validateBudgets,
+} from '../src/transition-budgets';
+
+describe('Transition budgets', () => {
+  it('should give the node back to its user within the reclaim budget', () => {
+    const table = createBudgetTable(5000);
+
+    expect(table.idle_worker.active_master).toEqual(RECLAIM_BUDGET);
+    expect(table.shared_worker.active_master).toEqual(RECLAIM_BUDGET);
+    expect(table.draining.active_master).toEqual(RECLAIM_BUDGET);
+  });
+
+  it('should derive the other budgets from the switch timeout', () => {
+    const table = createBudgetTable(5000);
+
+    expect(table.active_master.idle_worker).toEqual({ soft: 2500, hard: 5000 });
+    expect(table.standby.active_master).toEqual(defaultBudget(5000));
+    expect(table.maintenance.standby).toBeUndefined();
+  });
+
+  it('should apply overrides to single deadlines', () => {
+    const table = createBudgetTable(5000, {
+      active_master: { idle_worker: { hard: 8000 } },
+      idle_worker: { active_master: { soft: 500 } },
+    });
+
+    expect(table.active_master.idle_worker).toEqual({ soft: 2500, hard: 8000 });
+    expect(table.idle_worker.active_master).toEqual({ soft: 500, hard: 2000 });
+  });
+
+  it('should fall back for transitions without a budget', () => {
+    const table = createBudgetTable(5000);
+    const fallback = defaultBudget(1000);
+
+    expect(budgetFor(table, 'standby', 'standby', fallback)).toBe(fallback);
+    expect(budgetFor(table, 'active_master', 'standby', fallback)).toEqual(defaultBudget(5000));
+  });
+
+  it('should report invalid overrides', () => {
+    expect(validateBudgets(5000, { idle_worker: { active_master: { soft: 500 } } })).toEqual([]);
+    expect(validateBudgets(5000, { offline: { standby: { hard: 1000 } } })).toEqual([
+      'No transition from offline to standby to budget',
+    ]);
+    expect(validateBudgets(5000, { active_master: { standby: { soft: 6000 } } })).toEqual([
+      'Soft deadline of active_master -> standby (6000ms) exceeds its hard deadline (5000ms)',
+    ]);
+    expect(validateBudgets(0, { active_master: { standby: { soft: 6000 } } })).toEqual([]);
+  });
+
+  it('should report deadlines that are not non-negative numbers', () => {
+    expect(validateBudgets(5000, { idle_worker: { active_master: { hard: NaN } } })).toEqual([
+      'Hard deadline of idle_worker -> active_master must be a non-negative number of ' +
+        'milliseconds (got NaN)',
+    ]);
+    expect(
+      validateBudgets(5000, {
+        active_master: { standby: { soft: -1, hard: Infinity } },
+      })
+    ).toEqual([
+      'Soft deadline of active_master -> standby must be a non-negative number of ' +
+        'milliseconds (got -1)',
+      'Hard deadline of active_master -> standby must be a non-negative number of ' +
+        'milliseconds (got Infinity)',
+    ]);
+    expect(validateBudgets(5000, { active_master: { standby: { soft: 0, hard: 0 } } })).toEqual(
+      []
+    );
+  });
+
+  it('should report a switch timeout that is not a non-negative number', () => {
+    expect(validateBudgets(-5000, {})).toEqual([
+      'Switch timeout must be a non-negative number of milliseconds (got -5000)',
+    ]);
+    expect(validateBudgets(NaN, {})).toHaveLength(1);
+  });
+
+  it('should refuse to build a table from invalid input', () => {
+    expect(() => createBudgetTable(NaN)).toThrow(BudgetValidationError);
+    expect(() =>
+      createBudgetTable(5000, { idle_worker: { active_master: { hard: -1 } } })
+    ).toThrow(
+      'Invalid transition budgets: Hard deadline of idle_worker -> active_master must be a ' +
+        'non-negative number of milliseconds (got -1)'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for Transition Guards
+ *
+ * @see src/transition-guards.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  consultGuards,
+  GuardOptions,
+  GuardVerdict,
+  PendingTransition,
+  TransitionGuard,
+  TransitionVetoedError,
+} from '../src/transition-guards';
+
+const PENDING: PendingTransition = {
+  from: 'active_master',
+  to: 'idle_worker',
+  source: 'auto',
+  reason: 'idle',
+};
+
+const OPTIONS: GuardOptions = { timeout: 50, retryAfter: 10, maxDelay: 100 };
+
+function guard(name: string, ...verdicts: GuardVerdict[]): TransitionGuard {
+  let call = 0;
+  return {
+    name,
+    check: () => verdicts[Math.min(call++, verdicts.length - 1)],
+  };
+}
+
+describe('consultGuards', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass when every guard allows', async () => {
+    const guards = [guard('a', { action: 'allow' }), guard('b', { action: 'allow' })];
+
+    await expect(consultGuards(guards, PENDING, OPTIONS)).resolves.toBeUndefined();
+  });
+
+  it('should reject with the reason of a veto', async () => {
+    const error = await consultGuards(
+      [
+        guard('vpn', { action: 'delay', reason: 'VPN reconnect in progress' }),
+        guard('simulation', { action: 'veto', reason: 'Simulation study is saving' }),
+      ],
+      PENDING,
+      OPTIONS
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransitionVetoedError);
+    expect(error).toMatchObject({ guard: 'simulation', reason: 'Simulation study is saving' });
+    expect(error.message).toBe(
+      'Transition from active_master to idle_worker vetoed by simulation: ' +
+        'Simulation study is saving'
+    );
+  });
+
+  it('should ask again after a delay', async () => {
+    const vpn = guard(
+      'vpn',
+      { action: 'delay', reason: 'VPN reconnect in progress', retryAfter: 20 },
+      { action: 'allow' }
+    );
+    const check = vi.spyOn(vpn, 'check');
+    const started = Date.now();
+
+    await consultGuards([vpn], PENDING, OPTIONS);
+
+    expect(check).toHaveBeenCalledTimes(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should veto a switch delayed beyond the limit', async () => {
+    const vpn = guard('vpn', { action: 'delay', reason: 'VPN reconnect in progress' });
+
+    await expect(consultGuards([vpn], PENDING, { ...OPTIONS, maxDelay: 30 })).rejects.toThrow(
+      'vetoed by vpn: VPN reconnect in progress (still delaying after 30ms)'
+    );
+  });
+
+  it('should go ahead despite delays when delays are refused', async () => {
+    const vpn = guard('vpn', { action: 'delay', reason: 'VPN reconnect in progress' });
+    const check = vi.spyOn(vpn, 'check');
+
+    await consultGuards([vpn], PENDING, { ...OPTIONS, refuseDelays: true });
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(console.warn).toHaveBeenCalledWith(
+      'Transition guard vpn may not delay the transition to idle_worker: ' +
+        'VPN reconnect in progress'
+    );
+  });
+
+  it('should skip guards that hang or fail', async () => {
+    const hung: TransitionGuard = { name: 'hung', check: () => new Promise(() => {}) };
+    const broken: TransitionGuard = {
+      name: 'broken',
+      check: () => {
+        throw new Error('sensor unavailable');
+      },
+    };
+
+    await consultGuards([hung, broken], PENDING, OPTIONS);
+
+    expect(console.warn).toHaveBeenCalledWith(
+      'Transition guard hung skipped: no answer within 50ms'
+    );
+    expect(console.warn).toHaveBeenCalledWith(
+      'Transition guard broken skipped: sensor unavailable'
+    );
+  });
+
+  it('should stop waiting when cancelled', async () => {
+    const controller = new AbortController();
+    const vpn = guard('vpn', { action: 'delay', reason: 'VPN reconnect', retryAfter: 1000 });
+    setTimeout(() => controller.abort(new Error('user cancelled')), 10);
+
+    await expect(
+      consultGuards([vpn], PENDING, { ...OPTIONS, maxDelay: 5000, signal: controller.signal })
+    ).rejects.toThrow('user cancelled');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for Transition Journal
+ *
+ * @see src/transition-journal.ts
+ * @see src/transition-journal-file.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, appendFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JournalEntry, replayJournal } from '../src/transition-journal';
+import { FileTransitionJournal } from '../src/transition-journal-file';
+
+const intent = (id: number, from: string, to: string): JournalEntry =>
+  ({ type: 'intent', id, from, to, source: 'auto', reason: 'test', at: id }) as JournalEntry;
+
+describe('replayJournal', () => {
+  it('should start in active_master with an empty journal', () => {
+    expect(replayJournal([])).toEqual({
+      mode: 'active_master',
+      lockedMode: null,
+      lockedAt: null,
+      lockExpiresAt: null,
+      lockHolder: null,
+      lastId: 0,
+      interrupted: null,
+      inconsistent: false,
+    });
+  });
+
+  it('should follow completed transitions', () => {
+    const state = replayJournal([
+      intent(1, 'active_master', 'idle_worker'),
+      { type: 'step', id: 1, step: 'start-worker', at: 1 },
+      { type: 'complete', id: 1, at: 2 },
+    ]);
+
+    expect(state.mode).toBe('idle_worker');
+    expect(state.interrupted).toBeNull();
+    expect(state.lastId).toBe(1);
+  });
+
+  it('should treat an interrupted transition as rolled back', () => {
+    const state = replayJournal([
+      intent(1, 'active_master', 'idle_worker'),
+      { type: 'complete', id: 1, at: 2 },
+      intent(2, 'idle_worker', 'active_master'),
+      { type: 'step', id: 2, step: 'stop-worker', at: 3 },
+    ]);
+
+    expect(state.mode).toBe('idle_worker');
+    expect(state.interrupted).toEqual({
+      id: 2,
+      from: 'idle_worker',
+      to: 'active_master',
+      source: 'auto',
+      completedSteps: ['stop-worker'],
+    });
+  });
+
+  it('should flag failed transitions that were not rolled back', () => {
+    const state = replayJournal([
+      intent(1, 'active_master', 'idle_worker'),
+      { type: 'failed', id: 1, error: 'boom', rolledBack: false, at: 2 },
+    ]);
+
+    expect(state.mode).toBe('active_master');
+    expect(state.inconsistent).toBe(true);
+  });
+
+  it('should track the lock', () => {
+    const state = replayJournal([
+      { type: 'lock', lockedMode: 'standby', at: 10 },
+      { type: 'lock', lockedMode: null, at: 20 },
+      { type: 'lock', lockedMode: 'active_master', at: 30 },
+    ]);
+
+    expect(state).toMatchObject({ lockedMode: 'active_master', lockedAt: 30 });
+  });
+
+  it('should track the end of a timed lock', () => {
+    const timed = replayJournal([
+      { type: 'lock', lockedMode: 'idle_worker', at: 10, expiresAt: 100 },
+    ]);
+    const replaced = replayJournal([
+      { type: 'lock', lockedMode: 'idle_worker', at: 10, expiresAt: 100 },
+      { type: 'lock', lockedMode: 'active_master', at: 20 },
+    ]);
+
+    expect(timed).toMatchObject({ lockedMode: 'idle_worker', lockExpiresAt: 100 });
+    expect(replaced).toMatchObject({ lockedMode: 'active_master', lockExpiresAt: null });
+  });
+});
+
+describe('FileTransitionJournal', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'transition-journal-'));
+    path = join(dir, 'journal.log');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read nothing before the first write', async () => {
+    expect(await new FileTransitionJournal({ path }).read()).toEqual([]);
+  });
+
+  it('should persist records across instances', async () => {
+    const entries = [intent(1, 'active_master', 'standby'), { type: 'complete', id: 1, at: 2 }];
+    const journal = new FileTransitionJournal({ path });
+    for (const entry of entries) {
+      await journal.append(entry as JournalEntry);
+    }
+
+    expect(await new FileTransitionJournal({ path }).read()).toEqual(entries);
+  });
+
+  it('should drop a record torn by a crash', async () => {
+    const journal = new FileTransitionJournal({ path });
+    await journal.append(intent(1, 'active_master', 'idle_worker'));
+    await appendFile(path, '{"type":"step","id":1,"st');
+
+    expect(await journal.read()).toEqual([intent(1, 'active_master', 'idle_worker')]);
+  });
+
+  it('should reject corruption before the last record', async () => {
+    const journal = new FileTransitionJournal({ path });
+    await appendFile(path, 'garbage\n');
+    await journal.append(intent(1, 'active_master', 'idle_worker'));
+
+    await expect(journal.read()).rejects.toThrow('Corrupt journal record');
+  });
+
+  it('should compact into a snapshot between transitions', async () => {
+    const journal = new FileTransitionJournal({ path, maxEntries: 4 });
+    await journal.append({ type: 'lock', lockedMode: 'idle_worker', at: 5 });
+    await journal.append(intent(1, 'active_master', 'idle_worker'));
+    await journal.append({ type: 'step', id: 1, step: 'start-worker', at: 6 });
+    await journal.append({ type: 'step', id: 1, step: 'announce-worker', at: 7 });
+    await journal.append({ type: 'complete', id: 1, at: 8 });
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(await journal.read()).toEqual([
+      expect.objectContaining({
+        type: 'snapshot',
+        lastId: 1,
+        mode: 'idle_worker',
+        lockedMode: 'idle_worker',
+        lockedAt: 5,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for Transition Latency
+ *
+ * @see src/transition-latency.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LatencyHistogram, TransitionLatencyRecorder } from '../src/transition-latency';
+import type { TransitionTiming } from '../src/transition-pipeline';
+import { VirtualClock } from '../src/clock';
+
+const HOUR = 60 * 60 * 1000;
+
+function timing(overrides: Partial<TransitionTiming> = {}): TransitionTiming {
+  return {
+    from: 'idle_worker',
+    to: 'active_master',
+    source: 'auto',
+    startedAt: 0,
+    duration: 500,
+    steps: [
+      { name: 'stop-worker', duration: 300 },
+      { name: 'hand-off-tasks', duration: 150 },
+      { name: 'announce-master', duration: 50 },
+    ],
+    succeeded: true,
+    ...overrides,
+  };
+}
+
+describe('LatencyHistogram', () => {
+  it('should report nothing while empty', () => {
+    expect(new LatencyHistogram().summary()).toEqual({
+      count: 0,
+      p50: null,
+      p95: null,
+      p99: null,
+      max: null,
+    });
+  });
+
+  it('should interpolate percentiles within their bucket', () => {
+    const histogram = new LatencyHistogram([100, 200]);
+    for (let i = 0; i < 90; i++) histogram.record(50);
+    for (let i = 0; i < 10; i++) histogram.record(180);
+
+    expect(histogram.percentile(50)).toBe(56);
+    expect(histogram.percentile(95)).toBe(150);
+    expect(histogram.percentile(99)).toBe(180);
+  });
+
+  it('should never estimate beyond the slowest value', () => {
+    const histogram = new LatencyHistogram([100]);
+    histogram.record(20);
+    expect(histogram.percentile(99)).toBe(20);
+
+    histogram.record(5000);
+    expect(histogram.percentile(50)).toBe(100);
+    expect(histogram.percentile(99)).toBe(4902);
+    expect(histogram.summary().max).toBe(5000);
+  });
+});
+
+describe('TransitionLatencyRecorder', () => {
+  let recorder: TransitionLatencyRecorder;
+
+  beforeEach(() => {
+    recorder = new TransitionLatencyRecorder({ sloWindows: [HOUR, 24 * HOUR] });
+  });
+
+  it('should use the FR-2.2.4 targets', () => {
+    expect(recorder.targetFor('idle_worker', 'active_master')).toBe(2000);
+    expect(recorder.targetFor('active_master', 'idle_worker')).toBe(5000);
+  });
+
+  it('should keep histograms per edge and per step', () => {
+    recorder.record(timing());
+    recorder.record(timing({ from: 'active_master', to: 'idle_worker', duration: 1200 }));
+
+    const report = recorder.getReport(1000);
+    expect(report.edges.map((edge) => `${edge.from}->${edge.to}`)).toEqual([
+      'idle_worker->active_master',
+      'active_master->idle_worker',
+    ]);
+    expect(report.edges[0].total).toMatchObject({ count: 1, max: 500 });
+    expect(Object.keys(report.edges[0].steps)).toEqual([
+      'stop-worker',
+      'hand-off-tasks',
+      'announce-master',
+    ]);
+    expect(report.edges[0].steps['stop-worker'].max).toBe(300);
+  });
+
+  it('should count slow and failed transitions against the SLO', () => {
+    recorder.record(timing({ duration: 500 }));
+    recorder.record(timing({ duration: 2500 }));
+    recorder.record(timing({ duration: 100, succeeded: false }));
+    recorder.record(timing({ duration: 1900 }));
+
+    const [edge] = recorder.getReport(3000).edges;
+    expect(edge.failures).toBe(1);
+    expect(edge.compliance[0]).toEqual({
+      window: HOUR,
+      total: 4,
+      met: 2,
+      ratio: 0.5,
+      compliant: false,
+    });
+  });
+
+  it('should only count transitions within each rolling window', () => {
+    recorder.record(timing({ startedAt: 0, duration: 2500 }));
+    recorder.record(timing({ startedAt: 2 * HOUR, duration: 500 }));
+
+    const [edge] = recorder.getReport(2 * HOUR + 1000).edges;
+    expect(edge.compliance.map((c) => [c.total, c.met, c.compliant])).toEqual([
+      [1, 1, true],
+      [2, 1, false],
+    ]);
+    expect(edge.total.count).toBe(2);
+  });
+
+  it('should end the rolling windows at the time of its clock', async () => {
+    const clock = new VirtualClock(10 * HOUR);
+    recorder = new TransitionLatencyRecorder({ sloWindows: [HOUR] }, clock);
+    recorder.record(timing({ startedAt: 10 * HOUR - 1000, duration: 500 }));
+
+    expect(recorder.getReport().edges[0].compliance[0]).toMatchObject({ total: 1, met: 1 });
+    await clock.advance(2 * HOUR);
+    expect(recorder.getReport().edges[0].compliance[0]).toMatchObject({ total: 0 });
+  });
+
+  it('should ignore recovery', () => {
+    recorder.record(timing({ from: 'idle_worker', to: 'idle_worker', source: 'recovery' }));
+
+    expect(recorder.getReport().edges).toEqual([]);
+  });
+});
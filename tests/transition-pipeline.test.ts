@@ -0,0 +1,949 @@
+/**
+ * Tests for Mode Transition Pipeline
+ *
+ * @see src/transition-pipeline.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  StaleTransitionError,
+  TransitionPipeline,
+  TransitionError,
+  WithdrawnTransitionError,
+} from '../src/transition-pipeline';
+import { TransitionNotAllowedError } from '../src/mode-transitions';
+import { GuardVerdict, TransitionGuard, TransitionVetoedError } from '../src/transition-guards';
+import { MockCoordinationClient } from '../src/coordination-service';
+import { DEFAULT_SHARED_WORKER_LIMITS, MockWorkerService } from '../src/worker-service';
+import { TaskHandoff } from '../src/task-handoff';
+import { JournalEntry, MockTransitionJournal } from '../src/transition-journal';
+import { MockInputPrefetcher } from '../src/input-prefetcher';
+import type { Task } from '../src/job-queue';
+
+/**
+ * Worker service whose start takes a configurable time
+ */
+class SlowWorkerService extends MockWorkerService {
+  constructor(private delay: number) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, this.delay));
+    await super.start();
+  }
+}
+
+/**
+ * Worker service whose stop only returns once it is aborted
+ */
+class HungStopWorkerService extends MockWorkerService {
+  public stopTimeouts: number[] = [];
+
+  async stop(timeout: number, signal?: AbortSignal): Promise<void> {
+    this.stopTimeouts.push(timeout);
+    await new Promise<void>((resolve) => {
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+    });
+    await super.stop(timeout);
+  }
+}
+
+/**
+ * Coordination client that fails selected operations
+ */
+class FailingCoordinationClient extends MockCoordinationClient {
+  public failAvailable: boolean = false;
+  public failHandoff: boolean = false;
+
+  async notify(event: 'worker_available', available: boolean): Promise<void> {
+    if (available && this.failAvailable) {
+      throw new Error('coordination unreachable');
+    }
+    await super.notify(event, available);
+  }
+
+  async handOffTasks(taskIds?: string[]) {
+    if (this.failHandoff) {
+      throw new Error('coordination unreachable');
+    }
+    return super.handOffTasks(taskIds);
+  }
+}
+
+describe('TransitionPipeline', () => {
+  let coordination: MockCoordinationClient;
+  let worker: MockWorkerService;
+  let pipeline: TransitionPipeline;
+
+  const createPipeline = (workerService: MockWorkerService) =>
+    new TransitionPipeline({
+      coordination,
+      worker: workerService,
+      handoff: new TaskHandoff(coordination),
+    });
+
+  beforeEach(() => {
+    coordination = new MockCoordinationClient();
+    worker = new MockWorkerService();
+    pipeline = createPipeline(worker);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start in active_master mode', () => {
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+  });
+
+  it('should run the worker steps and update the mode', async () => {
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+    expect(worker.getStatus()).toBe('running');
+    expect(coordination.getNotifications()).toEqual([
+      { event: 'worker_available', available: true },
+    ]);
+  });
+
+  it('should hand off tasks when leaving worker mode', async () => {
+    coordination.setLeasedTasks(['job-1:0']);
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+
+    await pipeline.transition('active_master', { source: 'auto', reason: 'test' });
+
+    expect(worker.getStatus()).toBe('stopped');
+    expect(coordination.getHandoffs()[0].tasks.map((task) => task.taskId)).toEqual([
+      'job-1:0',
+    ]);
+  });
+
+  it('should notify listeners with the source of the transition', async () => {
+    const listener = vi.fn();
+    pipeline.onTransition(listener);
+
+    await pipeline.transition('standby', { source: 'auto', reason: 'idle' });
+
+    expect(listener).toHaveBeenCalledWith('active_master', 'standby', 'idle', 'auto');
+  });
+
+  it('should reject automatic transitions while locked', async () => {
+    const listener = vi.fn();
+    pipeline.onTransition(listener);
+    pipeline.setLockedMode('active_master');
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' })
+    ).rejects.toThrow('locked');
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(listener.mock.calls[0][1]).toBe('active_master');
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should allow manual transitions while locked', async () => {
+    pipeline.setLockedMode('active_master');
+
+    await pipeline.transition('standby', { source: 'manual', reason: 'test' });
+
+    expect(pipeline.getCurrentMode()).toBe('standby');
+  });
+
+  it('should keep the old mode when a transition runs out of time', async () => {
+    pipeline = createPipeline(new SlowWorkerService(100));
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle', timeout: 20 })
+    ).rejects.toThrow('timeout after 20ms');
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+  });
+
+  it('should time every transition and its steps', async () => {
+    pipeline = createPipeline(new SlowWorkerService(30));
+    const listener = vi.fn();
+    pipeline.onTransitionTimed(listener);
+
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const timing = listener.mock.calls[0][0];
+    expect(timing).toMatchObject({ from: 'active_master', to: 'idle_worker', succeeded: true });
+    expect(timing.steps.map((step: { name: string }) => step.name)).toEqual([
+      'start-worker',
+      'announce-worker',
+    ]);
+    expect(timing.steps[0].duration).toBeGreaterThanOrEqual(25);
+    expect(timing.duration).toBeGreaterThanOrEqual(timing.steps[0].duration);
+  });
+
+  it('should time failed transitions up to the failing step', async () => {
+    const failing = new FailingCoordinationClient();
+    failing.failAvailable = true;
+    coordination = failing;
+    pipeline = createPipeline(worker);
+    const listener = vi.fn();
+    pipeline.onTransitionTimed(listener);
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'manual', reason: 'test' })
+    ).rejects.toThrow(TransitionError);
+    await expect(
+      pipeline.transition('maintenance', { source: 'auto', reason: 'test' })
+    ).rejects.toThrow(TransitionNotAllowedError);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ to: 'idle_worker', succeeded: false });
+    expect(listener.mock.calls[0][0].steps).toHaveLength(2);
+  });
+
+  it('should report a transition that misses its soft deadline', async () => {
+    pipeline = createPipeline(new SlowWorkerService(50));
+    const listener = vi.fn();
+    pipeline.onSlowTransition(listener);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await pipeline.transition('idle_worker', {
+      source: 'auto',
+      reason: 'idle',
+      softTimeout: 10,
+      timeout: 1000,
+    });
+
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      from: 'active_master',
+      to: 'idle_worker',
+      source: 'auto',
+      softTimeout: 10,
+      timeout: 1000,
+    });
+  });
+
+  it('should not report a transition that meets its soft deadline', async () => {
+    pipeline = createPipeline(worker);
+    const listener = vi.fn();
+    pipeline.onSlowTransition(listener);
+
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle', softTimeout: 20 });
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop a worker that finished starting after the timeout', async () => {
+    const slowWorker = new SlowWorkerService(50);
+    pipeline = createPipeline(slowWorker);
+
+    const error = await pipeline
+      .transition('idle_worker', { source: 'auto', reason: 'idle', timeout: 10 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransitionError);
+    expect(error).toMatchObject({ step: 'start-worker', rolledBack: true });
+    expect(slowWorker.getStatus()).toBe('stopped');
+    expect(coordination.getNotifications()).toEqual([]);
+  });
+
+  it('should give the worker stop only the remaining budget and abort it', async () => {
+    const hung = new HungStopWorkerService();
+    pipeline = createPipeline(hung);
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+
+    const startedAt = Date.now();
+    const error = await pipeline
+      .transition('active_master', { source: 'auto', reason: 'user', timeout: 300 })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ step: 'stop-worker', rolledBack: true });
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(hung.stopTimeouts[0]).toBeLessThanOrEqual(300);
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+    expect(hung.getStatus()).toBe('running');
+  });
+
+  it('should roll back completed steps when a later step fails', async () => {
+    const failing = new FailingCoordinationClient();
+    failing.failAvailable = true;
+    coordination = failing;
+    pipeline = createPipeline(worker);
+    const listener = vi.fn();
+    pipeline.onTransition(listener);
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'manual', reason: 'test' })
+    ).rejects.toThrow('coordination unreachable');
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(worker.getStatus()).toBe('stopped');
+    expect(failing.getNotifications()).toEqual([
+      { event: 'worker_available', available: false },
+    ]);
+    expect(listener).toHaveBeenCalledWith(
+      'active_master',
+      'active_master',
+      'Mode switch failed: coordination unreachable (stayed in active_master)',
+      'manual'
+    );
+  });
+
+  it('should return to worker mode when the handoff fails', async () => {
+    const failing = new FailingCoordinationClient();
+    coordination = failing;
+    const handoff = new TaskHandoff(failing);
+    pipeline = new TransitionPipeline({ coordination: failing, worker, handoff });
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+
+    failing.failHandoff = true;
+    await expect(
+      pipeline.transition('active_master', { source: 'auto', reason: 'user' })
+    ).rejects.toThrow('coordination unreachable');
+
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+    expect(worker.getStatus()).toBe('running');
+    expect(handoff.hasPendingHandoff()).toBe(false);
+    expect(failing.getNotifications().map((n) => n.available)).toEqual([true]);
+  });
+
+  it('should cancel a transition through its abort signal', async () => {
+    const slowWorker = new SlowWorkerService(50);
+    pipeline = createPipeline(slowWorker);
+    const controller = new AbortController();
+
+    const transition = pipeline.transition('idle_worker', {
+      source: 'manual',
+      reason: 'test',
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(new Error('user cancelled')), 10);
+
+    await expect(transition).rejects.toThrow('user cancelled');
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(slowWorker.getStatus()).toBe('stopped');
+  });
+
+  it('should report an incomplete rollback', async () => {
+    const stubborn = new MockWorkerService();
+    vi.spyOn(stubborn, 'stop').mockRejectedValue(new Error('worker hung'));
+    const failing = new FailingCoordinationClient();
+    failing.failAvailable = true;
+    coordination = failing;
+    pipeline = createPipeline(stubborn);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const error = await pipeline
+      .transition('idle_worker', { source: 'manual', reason: 'test' })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ step: 'announce-worker', rolledBack: false });
+  });
+
+  it('should run transitions one at a time', async () => {
+    pipeline = createPipeline(new SlowWorkerService(50));
+    const order: string[] = [];
+    pipeline.onTransition((_oldMode, newMode) => {
+      order.push(newMode);
+    });
+
+    await Promise.all([
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle', timeout: 10 }).catch(
+        () => order.push('timeout')
+      ),
+      pipeline.transition('standby', { source: 'manual', reason: 'test' }),
+    ]);
+
+    // The second transition waits for the first one's steps to finish
+    expect(order).toEqual(['active_master', 'timeout', 'standby']);
+  });
+  it('should plan a queued transition from the mode the previous one left', async () => {
+    const slowWorker = new SlowWorkerService(20);
+    pipeline = createPipeline(slowWorker);
+
+    await Promise.all([
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' }),
+      pipeline.transition('active_master', { source: 'auto', reason: 'user' }),
+    ]);
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(slowWorker.getStatus()).toBe('stopped');
+    expect(coordination.getNotifications().map((n) => n.available)).toEqual([true, false]);
+  });
+
+  it('should show the running transition and report start and end in order', async () => {
+    pipeline = createPipeline(new SlowWorkerService(20));
+    const events: string[] = [];
+    pipeline.onTransitionStart((transition) => {
+      events.push(`start ${transition.from}->${transition.to}`);
+      expect(pipeline.getActiveTransition()).toBe(transition);
+    });
+    pipeline.onTransition((oldMode, newMode) => {
+      events.push(`end ${oldMode}->${newMode}`);
+      expect(pipeline.isTransitioning()).toBe(false);
+    });
+
+    const first = pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(pipeline.getActiveTransition()).toMatchObject({
+      from: 'active_master',
+      to: 'idle_worker',
+      source: 'auto',
+    });
+    await Promise.all([
+      first,
+      pipeline.transition('standby', { source: 'manual', reason: 'test' }),
+    ]);
+
+    expect(events).toEqual([
+      'start active_master->idle_worker',
+      'end active_master->idle_worker',
+      'start idle_worker->standby',
+      'end idle_worker->standby',
+    ]);
+    expect(pipeline.getActiveTransition()).toBeNull();
+  });
+
+  it('should reject a transition decided in a mode the node has left', async () => {
+    const listener = vi.fn();
+    pipeline.onTransition(listener);
+
+    await Promise.all([
+      pipeline.transition('standby', { source: 'manual', reason: 'test' }),
+      expect(
+        pipeline.transition('idle_worker', {
+          source: 'auto',
+          reason: 'idle',
+          expectedMode: 'active_master',
+        })
+      ).rejects.toThrow(StaleTransitionError),
+    ]);
+
+    expect(pipeline.getCurrentMode()).toBe('standby');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should limit a shared worker and lift the limits for worker mode', async () => {
+    const limits = { maxCores: 2, maxMemoryMb: 4096, priority: 19 };
+    pipeline = new TransitionPipeline(
+      { coordination, worker, handoff: new TaskHandoff(coordination) },
+      { sharedWorkerLimits: limits }
+    );
+
+    await pipeline.transition('shared_worker', { source: 'auto', reason: 'light load' });
+    expect(worker.getStatus()).toBe('running');
+    expect(worker.getLimits()).toEqual(limits);
+    expect(coordination.getNotifications()).toEqual([{ event: 'worker_shared', available: true }]);
+
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    expect(worker.getStatus()).toBe('running');
+    expect(worker.getLimits()).toBeNull();
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'worker_available',
+      available: true,
+    });
+  });
+
+  it('should apply new limits to a worker that is sharing already', async () => {
+    await pipeline.transition('shared_worker', { source: 'auto', reason: 'light load' });
+    const limits = { maxCores: 1, maxMemoryMb: 1024, priority: 19 };
+
+    await pipeline.configure({ sharedWorkerLimits: limits });
+    expect(worker.getLimits()).toEqual(limits);
+
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    await pipeline.configure({ sharedWorkerLimits: DEFAULT_SHARED_WORKER_LIMITS });
+    expect(worker.getLimits()).toBeNull();
+  });
+
+  it('should restore the limits when leaving shared worker mode fails', async () => {
+    const failing = new FailingCoordinationClient();
+    pipeline = new TransitionPipeline({
+      coordination: failing,
+      worker,
+      handoff: new TaskHandoff(failing),
+    });
+    await pipeline.transition('shared_worker', { source: 'auto', reason: 'light load' });
+    const limits = worker.getLimits();
+
+    failing.failAvailable = true;
+    await expect(
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' })
+    ).rejects.toThrow(TransitionError);
+
+    expect(pipeline.getCurrentMode()).toBe('shared_worker');
+    expect(worker.getStatus()).toBe('running');
+    expect(worker.getLimits()).toEqual(limits);
+  });
+});
+
+describe('TransitionPipeline warm standby', () => {
+  let coordination: MockCoordinationClient;
+  let worker: MockWorkerService;
+  let prefetcher: MockInputPrefetcher;
+  let pipeline: TransitionPipeline;
+
+  const task = (id: string): Task => ({
+    id,
+    jobId: 'job-1',
+    status: 'pending',
+    assignedTo: null,
+    attempts: 0,
+    progress: 0,
+    payload: { inputFiles: [`//share/${id}.sldprt`] },
+  });
+
+  beforeEach(() => {
+    coordination = new MockCoordinationClient();
+    worker = new MockWorkerService();
+    prefetcher = new MockInputPrefetcher();
+    pipeline = new TransitionPipeline({
+      coordination,
+      worker,
+      handoff: new TaskHandoff(coordination),
+      prefetcher,
+    });
+    coordination.setUpcomingTasks(['a', 'b', 'c', 'd'].map(task));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pause the worker, pre-register and prefetch in standby', async () => {
+    await pipeline.transition('standby', { source: 'auto', reason: 'idle' });
+
+    expect(worker.getStatus()).toBe('paused');
+    expect(coordination.getNotifications()).toEqual([
+      { event: 'worker_soon_available', available: true },
+    ]);
+    await vi.waitFor(() => expect(prefetcher.getPrefetchedTasks()).toEqual(['a', 'b', 'c']));
+  });
+
+  it('should resume the paused worker when going on to worker mode', async () => {
+    await pipeline.transition('standby', { source: 'auto', reason: 'idle' });
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+
+    expect(worker.getStatus()).toBe('running');
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'worker_available',
+      available: true,
+    });
+    expect(prefetcher.getDiscardCount()).toBe(0);
+  });
+
+  it('should stop the worker and discard prefetched inputs when the user returns', async () => {
+    await pipeline.transition('standby', { source: 'auto', reason: 'idle' });
+    await pipeline.transition('active_master', { source: 'auto', reason: 'input' });
+
+    expect(worker.getStatus()).toBe('stopped');
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'worker_available',
+      available: false,
+    });
+    expect(prefetcher.getDiscardCount()).toBe(1);
+  });
+
+  it('should hand off leased tasks when a worker drops back to standby', async () => {
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    coordination.setLeasedTasks(['job-1:0']);
+
+    await pipeline.transition('standby', { source: 'manual', reason: 'test' });
+
+    expect(coordination.getHandoffs()[0].tasks).toEqual([
+      { taskId: 'job-1:0', outcome: 'queued', assignedTo: null },
+    ]);
+    expect(worker.getStatus()).toBe('paused');
+  });
+});
+
+describe('TransitionPipeline lifecycle modes', () => {
+  let coordination: MockCoordinationClient;
+  let worker: MockWorkerService;
+  let pipeline: TransitionPipeline;
+
+  beforeEach(() => {
+    coordination = new MockCoordinationClient();
+    worker = new MockWorkerService();
+    pipeline = new TransitionPipeline(
+      { coordination, worker, handoff: new TaskHandoff(coordination) },
+      { drainPollInterval: 20 }
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reject transitions the table does not allow', async () => {
+    await expect(
+      pipeline.transition('draining', { source: 'manual', reason: 'test' })
+    ).rejects.toThrow(TransitionNotAllowedError);
+    await expect(
+      pipeline.transition('maintenance', { source: 'auto', reason: 'test' })
+    ).rejects.toThrow('not allowed');
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(coordination.getNotifications()).toEqual([]);
+  });
+
+  it('should keep a draining worker running until its tasks are done', async () => {
+    const modes: string[] = [];
+    pipeline.onTransition((_oldMode, newMode, _reason, source) => {
+      modes.push(`${newMode}:${source}`);
+    });
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    coordination.setLeasedTasks(['job-1:0']);
+
+    await pipeline.transition('draining', { source: 'manual', reason: 'reboot' });
+    expect(worker.getStatus()).toBe('running');
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'worker_draining',
+      available: true,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(pipeline.getCurrentMode()).toBe('draining');
+
+    coordination.setLeasedTasks([]);
+    await vi.waitFor(() => expect(pipeline.getCurrentMode()).toBe('active_master'));
+    expect(worker.getStatus()).toBe('stopped');
+    expect(modes).toEqual(['idle_worker:auto', 'draining:manual', 'active_master:auto']);
+  });
+
+  it('should stop the worker and announce maintenance when leaving standby', async () => {
+    await pipeline.transition('standby', { source: 'auto', reason: 'idle' });
+
+    await pipeline.transition('maintenance', { source: 'manual', reason: 'BIOS update' });
+
+    expect(worker.getStatus()).toBe('stopped');
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'node_maintenance',
+      available: true,
+    });
+  });
+
+  it('should hand off leased tasks when a worker goes offline', async () => {
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    coordination.setLeasedTasks(['job-1:0']);
+
+    await pipeline.transition('offline', { source: 'manual', reason: 'decommission' });
+
+    expect(coordination.getHandoffs()[0].tasks.map((task) => task.taskId)).toEqual([
+      'job-1:0',
+    ]);
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'node_offline',
+      available: true,
+    });
+  });
+});
+
+describe('TransitionPipeline journal and recovery', () => {
+  let coordination: FailingCoordinationClient;
+  let worker: MockWorkerService;
+  let journal: MockTransitionJournal;
+  let pipeline: TransitionPipeline;
+
+  const workerCompleted: JournalEntry[] = [
+    {
+      type: 'intent',
+      id: 1,
+      from: 'active_master',
+      to: 'idle_worker',
+      source: 'auto',
+      reason: 'idle',
+      at: 1,
+    },
+    { type: 'complete', id: 1, at: 2 },
+  ];
+
+  beforeEach(() => {
+    coordination = new FailingCoordinationClient();
+    worker = new MockWorkerService();
+    journal = new MockTransitionJournal();
+    pipeline = new TransitionPipeline({
+      coordination,
+      worker,
+      handoff: new TaskHandoff(coordination),
+      journal,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should journal intent, steps and completion', async () => {
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+    pipeline.setLockedMode('idle_worker', 42);
+    await pipeline.transition('standby', { source: 'manual', reason: 'test' });
+
+    expect(journal.getEntries().map((entry) => entry.type)).toEqual([
+      'intent',
+      'step',
+      'step',
+      'complete',
+      'lock',
+      'intent',
+      'step',
+      'step',
+      'step',
+      'step',
+      'step',
+      'complete',
+    ]);
+    expect(journal.getEntries()[0]).toMatchObject({
+      id: 1,
+      from: 'active_master',
+      to: 'idle_worker',
+      source: 'manual',
+    });
+    expect(journal.getEntries()[4]).toEqual({ type: 'lock', lockedMode: 'idle_worker', at: 42 });
+  });
+
+  it('should not touch anything if the intent cannot be journalled', async () => {
+    vi.spyOn(journal, 'append').mockRejectedValue(new Error('disk full'));
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'manual', reason: 'test' })
+    ).rejects.toThrow('disk full');
+
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should restore worker mode after a restart', async () => {
+    journal.setEntries(workerCompleted);
+    const listener = vi.fn();
+    pipeline.onTransition(listener);
+
+    const report = await pipeline.recover();
+
+    expect(report).toMatchObject({ mode: 'idle_worker', interrupted: null, reconciled: true });
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+    expect(worker.getStatus()).toBe('running');
+    expect(coordination.getNotifications()).toEqual([
+      { event: 'worker_available', available: true },
+    ]);
+    expect(listener).toHaveBeenCalledWith(
+      'idle_worker',
+      'idle_worker',
+      'Recovered idle_worker',
+      'recovery'
+    );
+  });
+
+  it('should return to the old mode after an interrupted transition', async () => {
+    journal.setEntries([
+      ...workerCompleted,
+      {
+        type: 'intent',
+        id: 2,
+        from: 'idle_worker',
+        to: 'active_master',
+        source: 'auto',
+        reason: 'user',
+        at: 3,
+      },
+      { type: 'step', id: 2, step: 'stop-worker', at: 4 },
+    ]);
+
+    const report = await pipeline.recover();
+
+    expect(report.mode).toBe('idle_worker');
+    expect(report.interrupted).toMatchObject({ id: 2, completedSteps: ['stop-worker'] });
+    expect(worker.getStatus()).toBe('running');
+
+    // Numbering continues after the journal and the recovery transition (3)
+    await pipeline.transition('active_master', { source: 'manual', reason: 'test' });
+    expect(journal.getEntries().at(-1)).toMatchObject({ type: 'complete', id: 4 });
+  });
+
+  it('should withdraw a node the coordinator still lists as a worker', async () => {
+    // The crash hit after announcing availability but before completion
+    await coordination.notify('worker_available', true);
+    coordination.setLeasedTasks(['job-1:0']);
+    journal.setEntries([workerCompleted[0], { type: 'step', id: 1, step: 'start-worker', at: 2 }]);
+
+    const report = await pipeline.recover();
+
+    expect(report).toMatchObject({
+      mode: 'active_master',
+      coordinatorAvailable: true,
+      reconciled: true,
+    });
+    expect(coordination.getHandoffs()[0].tasks.map((task) => task.taskId)).toEqual(['job-1:0']);
+    expect(coordination.getNotifications().at(-1)).toEqual({
+      event: 'worker_available',
+      available: false,
+    });
+  });
+
+  it('should fall back to active_master when worker mode cannot be restored', async () => {
+    journal.setEntries(workerCompleted);
+    coordination.failAvailable = true;
+
+    const report = await pipeline.recover();
+
+    expect(report).toMatchObject({ mode: 'active_master', reconciled: false });
+    expect(report.error).toContain('coordination unreachable');
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should restore the lock', async () => {
+    journal.setEntries([{ type: 'lock', lockedMode: 'active_master', at: 7 }]);
+
+    const report = await pipeline.recover();
+
+    expect(report).toMatchObject({ lockedMode: 'active_master', lockedAt: 7 });
+    expect(pipeline.getLockedMode()).toBe('active_master');
+  });
+});
+
+describe('TransitionPipeline guards', () => {
+  let coordination: MockCoordinationClient;
+  let worker: MockWorkerService;
+  let journal: MockTransitionJournal;
+  let pipeline: TransitionPipeline;
+
+  const veto: TransitionGuard = {
+    name: 'simulation',
+    check: () => ({ action: 'veto', reason: 'Simulation study is saving' }),
+  };
+
+  const delayOnce = (): TransitionGuard => {
+    let delayed = false;
+    return {
+      name: 'vpn',
+      check: (): GuardVerdict => {
+        if (delayed) {
+          return { action: 'allow' };
+        }
+        delayed = true;
+        return { action: 'delay', reason: 'VPN reconnect in progress' };
+      },
+    };
+  };
+
+  beforeEach(() => {
+    coordination = new MockCoordinationClient();
+    worker = new MockWorkerService();
+    journal = new MockTransitionJournal();
+    pipeline = new TransitionPipeline(
+      { coordination, worker, handoff: new TaskHandoff(coordination), journal },
+      { guardRetryAfter: 10 }
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not touch anything when a guard vetoes', async () => {
+    pipeline.addGuard(veto);
+    const listener = vi.fn();
+    pipeline.onTransition(listener);
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' })
+    ).rejects.toThrow(TransitionVetoedError);
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(worker.getStatus()).toBe('stopped');
+    expect(coordination.getNotifications()).toEqual([]);
+    expect(journal.getEntries()).toEqual([]);
+    expect(listener).toHaveBeenCalledWith(
+      'active_master',
+      'active_master',
+      expect.stringContaining('vetoed by simulation: Simulation study is saving'),
+      'auto'
+    );
+
+    pipeline.removeGuard(veto);
+    await pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' });
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+  });
+
+  it('should hold a switch while a guard delays it', async () => {
+    let reconnecting = true;
+    const check = vi.fn(
+      (): GuardVerdict =>
+        reconnecting
+          ? { action: 'delay', reason: 'VPN reconnect in progress' }
+          : { action: 'allow' }
+    );
+    pipeline.addGuard({ name: 'vpn', check });
+    setTimeout(() => (reconnecting = false), 25);
+
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+
+    expect(check.mock.calls.length).toBeGreaterThan(1);
+    expect(check).toHaveBeenCalledWith(
+      { from: 'active_master', to: 'idle_worker', source: 'manual', reason: 'test' },
+      expect.any(AbortSignal)
+    );
+    expect(pipeline.getCurrentMode()).toBe('idle_worker');
+  });
+
+  it('should not let guards delay giving the node back to its user', async () => {
+    await pipeline.transition('idle_worker', { source: 'manual', reason: 'test' });
+    const check = vi.fn(
+      (): GuardVerdict => ({ action: 'delay', reason: 'Backup running', retryAfter: 60 * 1000 })
+    );
+    pipeline.addGuard({ name: 'backup', check });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await pipeline.transition('active_master', { source: 'auto', reason: 'user returned' });
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(console.warn).toHaveBeenCalledWith(
+      'Transition guard backup may not delay the transition to active_master: Backup running'
+    );
+  });
+
+  it('should withdraw a delayed switch that is no longer wanted', async () => {
+    let wanted = true;
+    pipeline.addGuard(delayOnce());
+    setTimeout(() => (wanted = false), 5);
+
+    await expect(
+      pipeline.transition('idle_worker', {
+        source: 'auto',
+        reason: 'idle',
+        stillWanted: () => wanted,
+      })
+    ).rejects.toThrow(WithdrawnTransitionError);
+
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+    expect(pipeline.isTransitioning()).toBe(false);
+    expect(worker.getStatus()).toBe('stopped');
+    expect(journal.getEntries()).toEqual([]);
+  });
+
+  it('should withdraw a delayed automatic switch once the mode is locked', async () => {
+    pipeline.addGuard(delayOnce());
+    setTimeout(() => pipeline.setLockedMode('active_master'), 5);
+
+    await expect(
+      pipeline.transition('idle_worker', { source: 'auto', reason: 'idle' })
+    ).rejects.toThrow('Transition to idle_worker withdrawn: mode is locked to active_master');
+    expect(pipeline.getCurrentMode()).toBe('active_master');
+  });
+
+  it('should not consult guards during recovery', async () => {
+    pipeline.addGuard(veto);
+
+    const report = await pipeline.recover();
+
+    expect(report.reconciled).toBe(true);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Tests for Worker Process Supervisor
+ *
+ * @see src/worker-supervisor.ts
+ * @see src/worker-process.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_WORKER_SUPERVISOR_CONFIG, ProcessWorkerService } from '../src/worker-supervisor';
+import type { TaskSource } from '../src/worker-service';
+import type { Task } from '../src/job-queue';
+import { ManualModeSwitcher } from '../src/manual-mode-switcher';
+import { MockMasterProcessingState } from '../src/mode-switcher';
+
+/**
+ * In-memory task source recording what the worker reports
+ */
+class FakeTaskSource implements TaskSource {
+  public leased: Task[] = [];
+  public progress: Array<[string, number]> = [];
+  public completed: string[] = [];
+  public failed: string[] = [];
+
+  lease(id: string): void {
+    this.leased.push({
+      id,
+      jobId: 'job-1',
+      status: 'assigned',
+      assignedTo: 'node-1',
+      attempts: 1,
+      progress: 0,
+      payload: { part: 'bracket.sldprt' },
+    });
+  }
+
+  async fetchAssignedTasks(): Promise<Task[]> {
+    return [...this.leased];
+  }
+
+  async reportProgress(taskId: string, progress: number): Promise<void> {
+    this.progress.push([taskId, progress]);
+  }
+
+  async completeTask(taskId: string): Promise<void> {
+    this.leased = this.leased.filter((task) => task.id !== taskId);
+    this.completed.push(taskId);
+  }
+
+  async failTask(taskId: string, _error: string): Promise<void> {
+    this.leased = this.leased.filter((task) => task.id !== taskId);
+    this.failed.push(taskId);
+  }
+}
+
+async function waitFor(condition: () => boolean, timeout: number = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('ProcessWorkerService', () => {
+  let source: FakeTaskSource;
+  let worker: ProcessWorkerService;
+  let fixtures: string;
+
+  const writeFixture = (name: string, source: string) => {
+    const file = path.join(fixtures, name);
+    fs.writeFileSync(file, source);
+    return file;
+  };
+
+  beforeEach(() => {
+    source = new FakeTaskSource();
+    fixtures = fs.mkdtempSync(path.join(os.tmpdir(), 'worker-supervisor-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await worker?.stop(500);
+    fs.rmSync(fixtures, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should only need runtime dependencies to load the worker process', () => {
+    const manifest = JSON.parse(
+      fs.readFileSync(new URL('../package.json', import.meta.url), 'utf8')
+    ) as { dependencies: Record<string, string> };
+    const { execArgv } = DEFAULT_WORKER_SUPERVISOR_CONFIG;
+    const loaders = execArgv.filter((_, i) => execArgv[i - 1] === '--import');
+
+    expect(loaders).toEqual(['tsx']);
+    loaders.forEach((loader) => expect(manifest.dependencies).toHaveProperty(loader));
+  });
+
+  it('should start and gracefully stop the worker process', async () => {
+    worker = new ProcessWorkerService(source, { pollInterval: 50 });
+
+    await worker.start();
+    expect(worker.getStatus()).toBe('running');
+
+    await worker.stop(2000);
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should pull leased tasks and report completion', async () => {
+    worker = new ProcessWorkerService(source, { pollInterval: 50 });
+    source.lease('job-1:0');
+    source.lease('job-1:1');
+
+    await worker.start();
+    await waitFor(() => source.completed.length === 2);
+
+    expect(source.completed).toEqual(['job-1:0', 'job-1:1']);
+  });
+
+  it('should keep a prepared worker paused until it is started', async () => {
+    worker = new ProcessWorkerService(source, { pollInterval: 50 });
+    source.lease('job-1:0');
+
+    await worker.prepare();
+    expect(worker.getStatus()).toBe('paused');
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(source.completed).toEqual([]);
+
+    const started = Date.now();
+    await worker.start();
+    expect(Date.now() - started).toBeLessThan(50);
+    await waitFor(() => source.completed.length === 1);
+  });
+
+  it('should report progress printed by the task command', async () => {
+    worker = new ProcessWorkerService(source, {
+      pollInterval: 50,
+      env: { WORKER_TASK_COMMAND: 'cat > /dev/null; echo "PROGRESS 0.5"' },
+    });
+    source.lease('job-1:0');
+
+    await worker.start();
+    await waitFor(() => source.completed.length === 1);
+
+    expect(source.progress).toEqual([['job-1:0', 0.5]]);
+  });
+
+  it('should pass resource limits to the task command', async () => {
+    const output = path.join(fixtures, 'limits.txt');
+    const report = `echo "$WORKER_MAX_CORES $WORKER_MAX_MEMORY_MB" > ${output}`;
+    worker = new ProcessWorkerService(source, {
+      pollInterval: 50,
+      env: { WORKER_TASK_COMMAND: `cat > /dev/null; ${report}` },
+    });
+    await worker.setLimits({ maxCores: 2, maxMemoryMb: 4096, priority: 10 });
+    source.lease('job-1:0');
+
+    await worker.start();
+    await waitFor(() => source.completed.length === 1);
+
+    expect(worker.getLimits()).toMatchObject({ maxCores: 2 });
+    expect(fs.readFileSync(output, 'utf8').trim()).toBe('2 4096');
+  });
+
+  it.runIf(process.platform === 'linux')(
+    'should run the task command and its children at the capped priority',
+    async () => {
+      const output = path.join(fixtures, 'priority.txt');
+      // Field 19 of /proc/<pid>/stat is the niceness of a grandchild of the command
+      const report = `sh -c 'cut -d " " -f 19 /proc/$$/stat' > ${output}`;
+      worker = new ProcessWorkerService(source, {
+        pollInterval: 50,
+        env: { WORKER_TASK_COMMAND: `cat > /dev/null; ${report}` },
+      });
+      await worker.setLimits({ maxCores: 2, maxMemoryMb: 4096, priority: 10 });
+      source.lease('job-1:0');
+
+      await worker.start();
+      await waitFor(() => source.completed.length === 1);
+
+      expect(fs.readFileSync(output, 'utf8').trim()).toBe('10');
+    }
+  );
+
+  it.runIf(process.platform !== 'win32')(
+    'should leave the memory cap to the task command',
+    async () => {
+      const output = path.join(fixtures, 'memory.txt');
+      // Advisory cap: the command keeps the worker's address space limit
+      worker = new ProcessWorkerService(source, {
+        pollInterval: 50,
+        env: { WORKER_TASK_COMMAND: `cat > /dev/null; ulimit -v > ${output}` },
+      });
+      await worker.setLimits({ maxCores: 1, maxMemoryMb: 256, priority: 10 });
+      source.lease('job-1:0');
+
+      await worker.start();
+      await waitFor(() => source.completed.length === 1);
+
+      const inherited = execSync('ulimit -v', { shell: '/bin/sh' }).toString().trim();
+      expect(fs.readFileSync(output, 'utf8').trim()).toBe(inherited);
+    }
+  );
+
+  it('should report failed task commands', async () => {
+    worker = new ProcessWorkerService(source, {
+      pollInterval: 50,
+      env: { WORKER_TASK_COMMAND: 'exit 3' },
+    });
+    source.lease('job-1:0');
+
+    await worker.start();
+    await waitFor(() => source.failed.length === 1);
+
+    expect(source.completed).toEqual([]);
+  });
+
+  it('should abort the running task and keep its lease on shutdown', async () => {
+    worker = new ProcessWorkerService(source, {
+      pollInterval: 50,
+      env: { WORKER_TASK_COMMAND: 'sleep 10' },
+    });
+    source.lease('job-1:0');
+
+    await worker.start();
+    await waitFor(() => worker.getActiveTask() !== null);
+
+    const startedAt = Date.now();
+    await worker.stop(1500);
+
+    expect(Date.now() - startedAt).toBeLessThan(1500);
+    expect(source.leased.map((task) => task.id)).toEqual(['job-1:0']);
+    expect(source.completed).toEqual([]);
+  });
+
+  it.runIf(process.platform === 'linux')(
+    'should end the processes the task command started on shutdown',
+    async () => {
+      const pidFile = path.join(fixtures, 'grandchild.pid');
+      worker = new ProcessWorkerService(source, {
+        pollInterval: 50,
+        env: { WORKER_TASK_COMMAND: `cat > /dev/null; sleep 30 & echo $! > ${pidFile}; wait` },
+      });
+      source.lease('job-1:0');
+
+      await worker.start();
+      await waitFor(() => fs.existsSync(pidFile) && fs.readFileSync(pidFile, 'utf8') !== '');
+      const grandchild = Number(fs.readFileSync(pidFile, 'utf8'));
+      await worker.stop(1500);
+
+      // Gone, or a zombie nobody reaps (field 3 of /proc/<pid>/stat is the state)
+      const stat = `/proc/${grandchild}/stat`;
+      await waitFor(
+        () => !fs.existsSync(stat) || fs.readFileSync(stat, 'utf8').split(' ')[2] === 'Z',
+        1000
+      );
+    }
+  );
+
+  it('should kill a worker that ignores shutdown within the deadline', async () => {
+    const hung = writeFixture(
+      'hung-worker.mjs',
+      "process.send({ type: 'ready' }); process.on('message', () => {}); setInterval(() => {}, 1000);"
+    );
+    worker = new ProcessWorkerService(source, { modulePath: hung, execArgv: [], killGrace: 100 });
+
+    await worker.start();
+    const startedAt = Date.now();
+    await worker.stop(400);
+
+    expect(Date.now() - startedAt).toBeLessThan(600);
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should kill the worker at once when the stop is aborted', async () => {
+    const hung = writeFixture(
+      'hung-worker.mjs',
+      "process.send({ type: 'ready' }); process.on('message', () => {}); " +
+        'setInterval(() => {}, 1000);'
+    );
+    worker = new ProcessWorkerService(source, { modulePath: hung, execArgv: [], killGrace: 100 });
+    const controller = new AbortController();
+
+    await worker.start();
+    const startedAt = Date.now();
+    const stopping = worker.stop(5000, controller.signal);
+    setTimeout(() => controller.abort(new Error('switch timed out')), 50);
+    await stopping;
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should restart a crashing worker and give up after the limit', async () => {
+    const crashing = writeFixture(
+      'crashing-worker.mjs',
+      "process.send({ type: 'ready' }); setTimeout(() => process.exit(1), 20);"
+    );
+    worker = new ProcessWorkerService(source, {
+      modulePath: crashing,
+      execArgv: [],
+      maxRestarts: 2,
+      restartDelay: 10,
+    });
+
+    await worker.start();
+    await waitFor(() => worker.getStatus() === 'failed');
+  });
+
+  it('should fail to start when the worker never reports ready', async () => {
+    const silent = writeFixture('silent-worker.mjs', 'setInterval(() => {}, 1000);');
+    worker = new ProcessWorkerService(source, {
+      modulePath: silent,
+      execArgv: [],
+      readyTimeout: 200,
+    });
+
+    await expect(worker.start()).rejects.toThrow('not ready');
+    expect(worker.getStatus()).toBe('failed');
+  });
+
+  it('should kill a starting worker when the start is aborted', async () => {
+    const silent = writeFixture('silent-worker.mjs', 'setInterval(() => {}, 1000);');
+    worker = new ProcessWorkerService(source, { modulePath: silent, execArgv: [] });
+    const controller = new AbortController();
+
+    const starting = worker.start(controller.signal);
+    controller.abort(new Error('switch cancelled'));
+
+    await expect(starting).rejects.toThrow('switch cancelled');
+    expect(worker.getStatus()).toBe('stopped');
+  });
+
+  it('should be started and stopped by the mode switchers', async () => {
+    worker = new ProcessWorkerService(source, { pollInterval: 50 });
+    const switcher = new ManualModeSwitcher(new MockMasterProcessingState(), {}, { worker });
+
+    await switcher.requestModeSwitch('idle_worker');
+    expect(worker.getStatus()).toBe('running');
+
+    await switcher.requestModeSwitch('active_master');
+    expect(worker.getStatus()).toBe('stopped');
+  });
+});